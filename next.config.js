@@ -7,6 +7,8 @@ const nextConfig = {
     ignoreBuildErrors: true,
   },
   experimental: {
+    // Starts the background workers, see src/instrumentation.ts
+    instrumentationHook: true,
     serverActions: {
       allowedOrigins: ["localhost:3000"],
     },
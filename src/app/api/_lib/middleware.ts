@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createApiContext } from "./utils";
+import { dbAPI } from "../../../lib/db/api";
+import type { ListAccess } from "../../../lib/db/types";
 import type {
   ApiContext,
   RateLimitConfig,
@@ -77,6 +79,16 @@ const RATE_LIMITS: Record<string, RateLimitConfig> = {
     skipFailedRequests: false,
     keyGenerator: (req) => getClientIp(req),
   },
+
+  // Anonymous requests through public share links, counted apart from the
+  // app's own requests
+  share: {
+    limit: 60,
+    windowMs: 60 * 1000, // 1 minute
+    skipSuccessfulRequests: false,
+    skipFailedRequests: false,
+    keyGenerator: (req) => `share:${getClientIp(req)}`,
+  },
 };
 
 /**
@@ -407,6 +419,130 @@ export function withAuth(
   };
 }
 
+/**
+ * Permissions each role has on a list; owners can also delete it
+ */
+const LIST_ROLE_PERMISSIONS: Record<ListAccess["role"], string[]> = {
+  read: ["read"],
+  write: ["read", "write"],
+  admin: ["read", "write", "admin"],
+  owner: ["read", "write", "admin", "owner"],
+};
+
+/**
+ * List or task a request is about
+ */
+export interface ListAccessTarget {
+  listId?: string;
+  taskId?: string;
+}
+
+/**
+ * Permissions a role grants on a list
+ */
+export function getListPermissions(role?: ListAccess["role"]): string[] {
+  return role ? LIST_ROLE_PERMISSIONS[role] : [];
+}
+
+/**
+ * Target from a path like /api/lists/{id}/... or /api/tasks/{id}/...
+ */
+function getPathTarget(
+  req: NextRequest,
+  resource: "lists" | "tasks"
+): string | undefined {
+  const segments = new URL(req.url).pathname.split("/");
+  const index = segments.indexOf(resource);
+  return index >= 0 ? segments[index + 1] || undefined : undefined;
+}
+
+/**
+ * Resolve the list from a /api/lists/{id}/... path
+ */
+export function listFromPath(req: NextRequest): ListAccessTarget {
+  return { listId: getPathTarget(req, "lists") };
+}
+
+/**
+ * Resolve the task from a /api/tasks/{id}/... path
+ */
+export function taskFromPath(req: NextRequest): ListAccessTarget {
+  return { taskId: getPathTarget(req, "tasks") };
+}
+
+/**
+ * List access middleware. Checks the user's role on the list or task a
+ * request is about with checkPermissions(). Reads need "read" and other
+ * methods "write" unless `permissions` names others for the method. On a
+ * list shared with the user the handler runs in the owner's scope, with
+ * the user as `context.actorId`. Requests for lists the user cannot see
+ * reach the handler in the user's own scope, which answers them as before.
+ */
+export function withListAccess(
+  handler: (req: NextRequest, context: ApiContext) => Promise<NextResponse>,
+  resolve: (
+    req: NextRequest
+  ) => ListAccessTarget | null | Promise<ListAccessTarget | null>,
+  permissions?: Record<string, string[]>
+) {
+  return async (req: NextRequest, context: ApiContext) => {
+    const target = await resolve(req);
+    // Access is resolved before the handler gets to open the database
+    await dbAPI.getDatabase().initialize();
+    const access = target?.taskId
+      ? await dbAPI.getTaskAccess(target.taskId, context.userId)
+      : target?.listId
+      ? await dbAPI.getListAccess(target.listId, context.userId)
+      : null;
+
+    // Owners have every permission on their own lists
+    if (!access || access.role === "owner") {
+      return handler(req, {
+        ...context,
+        actorId: context.userId,
+        listRole: access?.role,
+      });
+    }
+
+    const required =
+      permissions?.[req.method] ??
+      (req.method === "GET" ? ["read"] : ["write"]);
+    const permissionResult = checkPermissions(
+      {
+        isAuthenticated: context.isAuthenticated,
+        userId: context.userId,
+        permissions: getListPermissions(access.role),
+      },
+      required
+    );
+
+    if (!permissionResult.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: `Insufficient permissions: ${permissionResult.reason}`,
+            statusCode: 403,
+            suggestions: [
+              "Ask the list owner for a role with more access",
+              "Check that your invitation to the list was accepted",
+            ],
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    return handler(req, {
+      ...context,
+      userId: access.ownerId as UserId,
+      actorId: context.userId,
+      listRole: access.role,
+    });
+  };
+}
+
 // =============================================================================
 // CACHING
 // =============================================================================
@@ -0,0 +1,170 @@
+/**
+ * Real-time Domain Event Forwarding
+ *
+ * Turns committed domain events into real-time messages, so routes don't
+ * publish task, list and label changes themselves. Task messages carry the
+ * task as it is after the change; webhooks send the same payloads.
+ */
+
+import { dbAPI } from "../../../lib/db/api";
+import {
+  isTaskEvent,
+  subscribeDomainEvents,
+  type RecordedDomainEvent,
+  type TaskEvent,
+} from "../../../lib/events";
+import { publishRealtimeMessage } from "./realtime";
+import type {
+  LabelUpdateMessage,
+  ListUpdateMessage,
+  RealtimeMessageType,
+  TaskUpdateMessage,
+} from "./types";
+import type { UserId } from "../../../types/utils";
+
+interface TaskMessage {
+  type: RealtimeMessageType;
+  payload: TaskUpdateMessage;
+}
+
+// The subscribers are shared by every copy of this module, so whether one
+// of them already forwards events is shared as well
+const globalForForwarding = globalThis as typeof globalThis & {
+  stopRealtimeForwarding?: () => void;
+};
+
+/**
+ * Start forwarding domain events as real-time messages. Calling it again
+ * has no effect.
+ */
+export function forwardDomainEvents(): void {
+  if (!globalForForwarding.stopRealtimeForwarding) {
+    globalForForwarding.stopRealtimeForwarding =
+      subscribeDomainEvents(toRealtimeMessage);
+  }
+}
+
+/**
+ * Stop forwarding domain events
+ */
+export function stopForwardingDomainEvents(): void {
+  globalForForwarding.stopRealtimeForwarding?.();
+  globalForForwarding.stopRealtimeForwarding = undefined;
+}
+
+/**
+ * Real-time message for a task event: its type and the TaskUpdateMessage
+ * it carries. Null when the task has been deleted again since.
+ */
+export async function toTaskUpdateMessage(
+  event: RecordedDomainEvent<TaskEvent>
+): Promise<TaskMessage | null> {
+  const actorId = event.actorId as UserId;
+
+  if (event.type === "TaskDeleted") {
+    return {
+      type: "task_deleted",
+      payload: { taskId: event.taskId, action: "deleted", userId: actorId },
+    };
+  }
+
+  const task = await dbAPI.getTaskWithDetails(event.taskId, event.userId);
+  if (!task) {
+    return null;
+  }
+
+  const changes = event.type === "TaskUpdated" ? event.diff : undefined;
+  const type =
+    event.type === "TaskCreated"
+      ? "task_created"
+      : event.type === "TaskCompleted" || changes?.status
+      ? "task_status_changed"
+      : "task_updated";
+  return {
+    type,
+    payload: {
+      taskId: event.taskId,
+      task,
+      changes,
+      action:
+        type === "task_created"
+          ? "created"
+          : type === "task_status_changed"
+          ? "status_changed"
+          : "updated",
+      userId: actorId,
+    },
+  };
+}
+
+async function toRealtimeMessage(event: RecordedDomainEvent): Promise<void> {
+  const userId = event.userId as UserId;
+  const actorId = event.actorId as UserId;
+
+  if (isTaskEvent(event)) {
+    // The TaskUpdated event before it already carries the status change
+    if (event.type === "TaskCompleted") {
+      return;
+    }
+
+    const message = await toTaskUpdateMessage(event);
+    if (message) {
+      publishRealtimeMessage<TaskUpdateMessage>(
+        message.type,
+        message.payload,
+        userId,
+        `task:${event.taskId}`,
+        event.listId
+      );
+    }
+    return;
+  }
+
+  switch (event.type) {
+    case "ListCreated":
+    case "ListDeleted":
+    case "ListRestored":
+    case "ListReordered":
+      publishRealtimeMessage<ListUpdateMessage>(
+        "list_updated",
+        {
+          listId: event.listId,
+          action: LIST_ACTIONS[event.type],
+          userId: actorId,
+        },
+        userId,
+        undefined,
+        event.listId
+      );
+      return;
+
+    case "LabelCreated":
+    case "LabelUpdated":
+    case "LabelDeleted":
+    case "LabelRestored":
+      publishRealtimeMessage<LabelUpdateMessage>(
+        "label_updated",
+        {
+          labelId: event.labelId,
+          action: LABEL_ACTIONS[event.type],
+          userId: actorId,
+        },
+        userId
+      );
+      return;
+  }
+}
+
+const LIST_ACTIONS = {
+  ListCreated: "created",
+  ListDeleted: "deleted",
+  ListRestored: "restored",
+  ListReordered: "reordered",
+} as const;
+
+const LABEL_ACTIONS = {
+  LabelCreated: "created",
+  LabelUpdated: "updated",
+  LabelDeleted: "deleted",
+  LabelRestored: "restored",
+} as const;
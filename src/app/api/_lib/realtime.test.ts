@@ -0,0 +1,92 @@
+/**
+ * Real-time Publishing Tests
+ * Tests for the in-process real-time message publisher
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import {
+  getRealtimeMessagesSince,
+  publishRealtimeMessage,
+  subscribeRealtime,
+} from './realtime';
+import type { RealtimeMessage } from './types';
+import type { UserId } from '../../../types/utils';
+
+const userId = 'user-1' as UserId;
+
+describe('Real-time Publishing', () => {
+  test('should deliver published messages until unsubscribed', () => {
+    const received: RealtimeMessage[] = [];
+    const unsubscribe = subscribeRealtime((message) => received.push(message));
+
+    const message = publishRealtimeMessage(
+      'comment_added',
+      { taskId: 'task-1' },
+      userId,
+      'task:task-1'
+    );
+    unsubscribe();
+    publishRealtimeMessage('comment_deleted', { taskId: 'task-1' }, userId);
+
+    expect(received).toEqual([message]);
+    expect(message.type).toBe('comment_added');
+    expect(message.roomId).toBe('task:task-1');
+    expect(Number.isNaN(Date.parse(message.timestamp))).toBe(false);
+  });
+
+  test('should keep delivering when a listener throws', () => {
+    const received: string[] = [];
+    const unsubscribeFailing = subscribeRealtime(() => {
+      throw new Error('Listener failed');
+    });
+    const unsubscribe = subscribeRealtime((message) => received.push(message.type));
+
+    expect(() =>
+      publishRealtimeMessage('comment_updated', {}, userId)
+    ).not.toThrow();
+    expect(received).toEqual(['comment_updated']);
+
+    unsubscribeFailing();
+    unsubscribe();
+  });
+
+  test('should replay the messages published after an event ID', () => {
+    const first = publishRealtimeMessage('task_created', {}, userId);
+    const second = publishRealtimeMessage('task_updated', {}, userId);
+    const third = publishRealtimeMessage('task_deleted', {}, userId);
+
+    expect(first.id).not.toBe(second.id);
+    expect(getRealtimeMessagesSince(first.id!)).toEqual([second, third]);
+    expect(getRealtimeMessagesSince(third.id!)).toEqual([]);
+  });
+
+  test('should not replay from unknown or expired event IDs', () => {
+    const message = publishRealtimeMessage('list_updated', {}, userId);
+    const [stream, sequence] = message.id!.split('-');
+
+    expect(getRealtimeMessagesSince('unknown')).toBeNull();
+    expect(getRealtimeMessagesSince(`other-${sequence}`)).toBeNull();
+    const future = `${stream}-${Number(sequence) + 1}`;
+    expect(getRealtimeMessagesSince(future)).toBeNull();
+
+    for (let i = 0; i <= 1000; i++) {
+      publishRealtimeMessage('task_updated', {}, userId);
+    }
+    expect(getRealtimeMessagesSince(message.id!)).toBeNull();
+  });
+
+  test('should share messages with another copy of the module', async () => {
+    // A production build bundles instrumentation with a copy of its own
+    const specifier = './realtime.ts?instrumentation';
+    const copy: typeof import('./realtime') = await import(specifier);
+    const received: RealtimeMessage[] = [];
+    const unsubscribe = subscribeRealtime((message) => received.push(message));
+
+    const message = copy.publishRealtimeMessage('notification', {}, userId);
+    unsubscribe();
+
+    expect(received).toEqual([message]);
+    expect(getRealtimeMessagesSince(message.id!)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Real-time Message Publishing
+ *
+ * In-process publisher for real-time messages. Route handlers publish a
+ * message once a change is written; connection handlers subscribe and
+ * forward the messages to their clients. Recent messages are kept so a
+ * client that reconnects can resume where it left off.
+ */
+
+import type { RealtimeMessage, RealtimeMessageType } from "./types";
+import type { UserId } from "../../../types/utils";
+
+export type RealtimeListener = (message: RealtimeMessage) => void;
+
+// Messages kept for clients resuming with Last-Event-ID
+const REPLAY_BUFFER_SIZE = 1000;
+
+interface RealtimeHub {
+  // Event IDs are "<process start>-<sequence>", so IDs from before a restart
+  // are recognised as unknown rather than mistaken for recent ones
+  streamId: string;
+  sequence: number;
+  listeners: Set<RealtimeListener>;
+  recentMessages: RealtimeMessage[];
+}
+
+// Reminders are published from the worker instrumentation starts, which a
+// production build bundles with its own copy of this module. The hub lives
+// on globalThis so those messages reach the connections the routes serve.
+const globalForRealtime = globalThis as typeof globalThis & {
+  realtimeHub?: RealtimeHub;
+};
+const hub = (globalForRealtime.realtimeHub ??= {
+  streamId: Date.now().toString(36),
+  sequence: 0,
+  listeners: new Set<RealtimeListener>(),
+  recentMessages: [],
+});
+
+/**
+ * Receive every published message until the returned function is called
+ */
+export function subscribeRealtime(listener: RealtimeListener): () => void {
+  hub.listeners.add(listener);
+  return () => {
+    hub.listeners.delete(listener);
+  };
+}
+
+/**
+ * Publish a message to all subscribers. A failing subscriber is logged
+ * and does not stop delivery to the others.
+ */
+export function publishRealtimeMessage<T>(
+  type: RealtimeMessageType,
+  payload: T,
+  userId: UserId,
+  roomId?: string,
+  listId?: string
+): RealtimeMessage<T> {
+  const message: RealtimeMessage<T> = {
+    id: `${hub.streamId}-${++hub.sequence}`,
+    type,
+    payload,
+    timestamp: new Date().toISOString(),
+    userId,
+    roomId,
+    listId,
+  };
+
+  hub.recentMessages.push(message);
+  if (hub.recentMessages.length > REPLAY_BUFFER_SIZE) {
+    hub.recentMessages.shift();
+  }
+
+  for (const listener of hub.listeners) {
+    try {
+      listener(message);
+    } catch (error) {
+      console.error("[Realtime] Listener failed:", error);
+    }
+  }
+
+  return message;
+}
+
+/**
+ * Messages published after the one with the given ID, or null when they
+ * cannot all be replayed: the ID is from before a restart or has already
+ * left the replay buffer
+ */
+export function getRealtimeMessagesSince(
+  lastEventId: string
+): RealtimeMessage[] | null {
+  const [stream, value] = lastEventId.split("-");
+  const lastSequence = Number(value);
+  if (
+    stream !== hub.streamId ||
+    !Number.isInteger(lastSequence) ||
+    lastSequence > hub.sequence
+  ) {
+    return null;
+  }
+
+  const missed = hub.sequence - lastSequence;
+  if (missed > hub.recentMessages.length) {
+    return null;
+  }
+  return missed === 0 ? [] : hub.recentMessages.slice(-missed);
+}
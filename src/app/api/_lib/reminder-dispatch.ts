@@ -0,0 +1,121 @@
+/**
+ * Reminder Dispatch
+ *
+ * Polls for due reminders and sends each through the channel for its
+ * method. In-app reminders land in the notification inbox and are pushed
+ * to open clients; email reminders go out over SMTP when it is configured.
+ */
+
+import { dbAPI } from "../../../lib/db/api";
+import {
+  EmailReminderChannel,
+  formatReminder,
+  type ReminderChannel,
+  type ReminderChannels,
+} from "../../../lib/reminders";
+import { getSmtpConfig } from "../../../lib/smtp";
+import { publishRealtimeMessage } from "./realtime";
+import type { NotificationMessage } from "./types";
+import type { ClaimedReminder } from "../../../lib/db/types";
+import type { ListId, TaskId, UserId } from "../../../types/utils";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let running: Promise<void> | null = null;
+
+/**
+ * Adds reminders to the owner's inbox and pushes them to open clients
+ */
+export const inAppReminderChannel: ReminderChannel = {
+  async send(reminder: ClaimedReminder): Promise<void> {
+    const notification = await dbAPI.createNotification({
+      userId: reminder.user.id,
+      type: "reminder",
+      ...formatReminder(reminder),
+      taskId: reminder.taskId,
+      sourceId: `reminder:${reminder.id}`,
+    });
+
+    publishRealtimeMessage<NotificationMessage>(
+      "notification",
+      {
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        isRead: notification.isRead,
+        createdAt: notification.createdAt.toISOString(),
+        taskId: reminder.taskId as TaskId,
+        listId: reminder.task.listId as ListId,
+        userId: reminder.user.id as UserId,
+      },
+      reminder.user.id as UserId
+    );
+  },
+};
+
+/**
+ * Channel for each reminder method. Without SMTP settings email reminders
+ * are delivered in-app; there is no SMS provider yet.
+ */
+export function getReminderChannels(): ReminderChannels {
+  const smtp = getSmtpConfig();
+  return {
+    push: inAppReminderChannel,
+    email: smtp ? new EmailReminderChannel(smtp) : inAppReminderChannel,
+    sms: inAppReminderChannel,
+  };
+}
+
+/**
+ * Start polling for due reminders, sending those that came due while no
+ * server was running right away. Calling it again has no effect.
+ */
+export function startReminderDispatch(): void {
+  if (!pollTimer) {
+    void dispatchReminders();
+    pollTimer = setInterval(() => void dispatchReminders(), POLL_INTERVAL_MS);
+    // Polling alone shouldn't keep the process alive
+    pollTimer.unref?.();
+  }
+}
+
+/**
+ * Stop polling; due reminders are sent once dispatch is started again
+ */
+export function stopReminderDispatch(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * Send every reminder that is due. Called during a run, it waits for that
+ * run instead of starting another.
+ */
+export function dispatchReminders(
+  channels: ReminderChannels = getReminderChannels()
+): Promise<void> {
+  if (running) {
+    return running;
+  }
+
+  running = (async () => {
+    try {
+      // The server opens the database before starting dispatch
+      if (!dbAPI.getDatabase().isReady()) {
+        return;
+      }
+      while ((await dbAPI.dispatchDueReminders(channels)) > 0) {
+        // Reminders are claimed in batches
+      }
+    } catch (error) {
+      console.error("[Reminders] Dispatch run failed:", error);
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
@@ -17,6 +17,8 @@ import type {
   TaskWithDetails,
   ListWithTaskCount,
   LabelWithTaskCount,
+  TaskComment,
+  ListAccess,
 } from "../../../lib/db/types";
 
 // =============================================================================
@@ -32,6 +34,10 @@ export interface ApiContext {
   isAuthenticated: boolean;
   timestamp: string;
   requestId: string;
+  // Set by withListAccess: on a shared list userId is the list owner's,
+  // actorId the user making the request and listRole their role
+  actorId?: UserId;
+  listRole?: ListAccess["role"];
 }
 
 /**
@@ -40,12 +46,14 @@ export interface ApiContext {
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
-    page: number;
+    page?: number; // Unset for cursor pagination
     pageSize: number;
     total: number;
     totalPages: number;
     hasNextPage: boolean;
     hasPreviousPage: boolean;
+    nextCursor?: string | null;
+    prevCursor?: string | null;
   };
   meta?: Record<string, any>;
 }
@@ -191,6 +199,9 @@ export type RealtimeMessageType =
   | "task_status_changed"
   | "list_updated"
   | "label_updated"
+  | "comment_added"
+  | "comment_updated"
+  | "comment_deleted"
   | "notification"
   | "user_presence";
 
@@ -198,23 +209,53 @@ export type RealtimeMessageType =
  * Real-time message
  */
 export interface RealtimeMessage<T = any> {
+  id?: string; // Event ID clients resume from with Last-Event-ID
   type: RealtimeMessageType;
   payload: T;
   timestamp: string;
   userId: UserId;
   roomId?: string;
+  listId?: string; // Members of a shared list receive its messages too
 }
 
 /**
  * Task update message
  */
 export interface TaskUpdateMessage {
-  task: TaskWithDetails;
+  taskId: string;
+  task?: TaskWithDetails; // Absent once the task is deleted
   changes?: Record<string, any>;
   action: "created" | "updated" | "deleted" | "status_changed";
   userId: UserId;
 }
 
+/**
+ * List update message
+ */
+export interface ListUpdateMessage {
+  listId: string;
+  action: "created" | "updated" | "deleted" | "restored" | "reordered";
+  userId: UserId;
+}
+
+/**
+ * Label update message
+ */
+export interface LabelUpdateMessage {
+  labelId: string;
+  action: "created" | "updated" | "deleted" | "restored";
+  userId: UserId;
+}
+
+/**
+ * Task comment message
+ */
+export interface TaskCommentMessage {
+  taskId: string;
+  comment: TaskComment;
+  action: "created" | "updated" | "deleted";
+}
+
 // =============================================================================
 // SEARCH TYPES
 // =============================================================================
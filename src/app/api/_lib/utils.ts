@@ -16,6 +16,12 @@ import type {
   RateLimitInfo,
 } from "./types";
 import type { ApiResponse, UserId } from "../../../types/utils";
+import type {
+  CustomFieldFilter,
+  CustomFieldOperator,
+  CustomFieldSort,
+} from "../../../lib/db/types";
+import { CUSTOM_FIELD_OPERATORS } from "../../../lib/custom-fields";
 
 // =============================================================================
 // CONFIGURATION
@@ -52,8 +58,8 @@ export const API_CONFIG = {
  */
 function extractUserId(req: NextRequest): string {
   // In a real implementation, this would extract from JWT token, session, etc.
-  // For now, we'll use a default user ID
-  return req.headers.get("x-user-id") || "default-user";
+  // Requests without a user ID are treated as anonymous and own no data
+  return req.headers.get("x-user-id") || "anonymous";
 }
 
 /**
@@ -110,30 +116,47 @@ export function createSuccessResponse<T>(
 }
 
 /**
- * Create paginated response
+ * Create paginated response. Pages are numbered, or linked by the opaque
+ * cursors of keyset pagination when those are given.
  */
 export function createPaginatedResponse<T>(
   data: T[],
-  pagination: {
-    page: number;
-    pageSize: number;
-    total: number;
-  },
+  pagination:
+    | {
+        page: number;
+        pageSize: number;
+        total: number;
+      }
+    | {
+        pageSize: number;
+        total: number;
+        nextCursor: string | null;
+        prevCursor: string | null;
+      },
   meta?: Record<string, any>
 ): NextResponse {
   const totalPages = Math.ceil(pagination.total / pagination.pageSize);
-  const hasNextPage = pagination.page < totalPages;
-  const hasPreviousPage = pagination.page > 1;
+  const position =
+    "page" in pagination
+      ? {
+          page: pagination.page,
+          hasNextPage: pagination.page < totalPages,
+          hasPreviousPage: pagination.page > 1,
+        }
+      : {
+          hasNextPage: pagination.nextCursor !== null,
+          hasPreviousPage: pagination.prevCursor !== null,
+          nextCursor: pagination.nextCursor,
+          prevCursor: pagination.prevCursor,
+        };
 
   const paginatedResponse: PaginatedResponse<T> = {
     data,
     pagination: {
-      page: pagination.page,
       pageSize: pagination.pageSize,
       total: pagination.total,
       totalPages,
-      hasNextPage,
-      hasPreviousPage,
+      ...position,
     },
     meta: {
       timestamp: new Date().toISOString(),
@@ -490,6 +513,66 @@ export function validateDateRange(
   return result;
 }
 
+/**
+ * Prefix of custom field query parameters and sort keys
+ */
+export const CUSTOM_FIELD_PARAM_PREFIX = "cf.";
+
+/**
+ * Validate custom field filters and sorting.
+ *
+ * Filters are given as `cf.<fieldId>=value` (equality) or
+ * `cf.<fieldId>.<operator>=value`; `sortBy=cf.<fieldId>` sorts by a field.
+ * Whether the field exists is checked when the query runs.
+ */
+export function validateCustomFieldParams(
+  searchParams: URLSearchParams,
+  sortBy?: string,
+  sortDirection: "asc" | "desc" = "desc"
+): {
+  filters: CustomFieldFilter[];
+  sort?: CustomFieldSort;
+  error?: ValidationError;
+} {
+  const filters: CustomFieldFilter[] = [];
+
+  for (const [key, value] of Array.from(searchParams.entries())) {
+    if (!key.startsWith(CUSTOM_FIELD_PARAM_PREFIX)) {
+      continue;
+    }
+
+    const [fieldId, operator = "eq"] = key
+      .slice(CUSTOM_FIELD_PARAM_PREFIX.length)
+      .split(".");
+    if (!CUSTOM_FIELD_OPERATORS.includes(operator as CustomFieldOperator)) {
+      return {
+        filters,
+        error: {
+          field: key,
+          message: `Operator must be one of: ${CUSTOM_FIELD_OPERATORS.join(", ")}`,
+          code: "INVALID_CUSTOM_FIELD_OPERATOR",
+          value: operator,
+        },
+      };
+    }
+
+    filters.push({
+      fieldId,
+      operator: operator as CustomFieldOperator,
+      value,
+    });
+  }
+
+  const sort = sortBy?.startsWith(CUSTOM_FIELD_PARAM_PREFIX)
+    ? {
+        fieldId: sortBy.slice(CUSTOM_FIELD_PARAM_PREFIX.length),
+        direction: sortDirection === "asc" ? ("ASC" as const) : ("DESC" as const),
+      }
+    : undefined;
+
+  return { filters, sort };
+}
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
@@ -13,6 +13,8 @@ import type {
   Priority,
   TaskStatus,
 } from "../../../types/utils";
+import type { FilterExpression } from "../../../lib/db/types";
+import { WEBHOOK_EVENT_TYPES } from "../../../lib/webhooks";
 
 // =============================================================================
 // BASE SCHEMAS
@@ -132,6 +134,72 @@ export const listQuerySchema = paginationSchema.merge(searchSchema).extend({
   color: z.string().optional(),
 });
 
+// =============================================================================
+// LIST COLLECTION SCHEMAS
+// =============================================================================
+
+/**
+ * List collection (sidebar folder) creation schema
+ */
+export const createCollectionSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-F]{6}$/i, "Invalid hex color format")
+    .optional(),
+  icon: z.string().min(1).max(10).optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+/**
+ * List collection update schema; `archived` archives or restores it
+ */
+export const updateCollectionSchema = createCollectionSchema
+  .partial()
+  .extend({
+    archived: z.boolean().optional(),
+  });
+
+/**
+ * Filing a list under a collection, or taking it out
+ */
+export const collectionListSchema = z.object({
+  listId: idSchema,
+});
+
+/**
+ * Role a member has on a shared list
+ */
+export const listRoleSchema = z.enum(["read", "write", "admin"]);
+
+/**
+ * Invitation to share a list, sent to an existing user by email
+ */
+export const inviteListMemberSchema = z.object({
+  email: z.string().email().max(255),
+  role: listRoleSchema.default("read"),
+});
+
+/**
+ * Change of a list member's role
+ */
+export const updateListMemberSchema = z.object({
+  role: listRoleSchema,
+});
+
+/**
+ * Public share link creation; links without `expiresAt` do not expire
+ */
+export const createShareLinkSchema = z.object({
+  expiresAt: z.string().datetime().optional(),
+});
+
+/**
+ * Share link ID, 24 random bytes in base64url
+ */
+export const shareLinkIdSchema = z.string().regex(/^[\w-]{32}$/);
+
 // =============================================================================
 // LABEL SCHEMAS
 // =============================================================================
@@ -161,6 +229,160 @@ export const labelQuerySchema = paginationSchema.merge(searchSchema).extend({
   color: z.string().optional(),
 });
 
+// =============================================================================
+// CUSTOM FIELD SCHEMAS
+// =============================================================================
+
+const customFieldOptionsSchema = z
+  .array(z.string().trim().min(1).max(100))
+  .max(50);
+
+/**
+ * Custom field creation schema
+ */
+export const createCustomFieldSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: z.enum([
+    "text",
+    "number",
+    "date",
+    "single_select",
+    "multi_select",
+    "checkbox",
+    "url",
+  ]),
+  options: customFieldOptionsSchema.optional(), // Required for select fields
+  required: z.boolean().optional().default(false),
+  position: z.number().int().min(0).optional(),
+});
+
+/**
+ * Custom field update schema (the type cannot be changed)
+ */
+export const updateCustomFieldSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  options: customFieldOptionsSchema.optional(),
+  required: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+/**
+ * Custom field route parameters schema
+ */
+export const customFieldParamsSchema = z.object({
+  id: idSchema,
+  fieldId: idSchema,
+});
+
+/**
+ * Task custom field values keyed by field ID; null clears a value.
+ * Values are checked against the field definitions by the database layer.
+ */
+export const customFieldValuesSchema = z.record(
+  z.string(),
+  z.union([
+    z.string().max(1000),
+    z.number(),
+    z.boolean(),
+    z.array(z.string()),
+    z.null(),
+  ])
+);
+
+// =============================================================================
+// FILTER EXPRESSION SCHEMAS
+// =============================================================================
+
+const filterFieldSchema = z.string().min(1).max(100);
+
+const filterValueSchema = z.union([
+  z.string().max(1000),
+  z.number(),
+  z.boolean(),
+  z.null(),
+]);
+
+/**
+ * Boolean filter expression tree; fields are checked when it is compiled
+ */
+export const filterExpressionSchema: z.ZodType<FilterExpression> = z.lazy(
+  () =>
+    z.union([
+      z.object({
+        op: z.enum(["and", "or"]),
+        filters: z.array(filterExpressionSchema).max(50),
+      }),
+      z.object({ op: z.literal("not"), filter: filterExpressionSchema }),
+      z.object({
+        op: z.enum(["eq", "ne", "lt", "lte", "gt", "gte"]),
+        field: filterFieldSchema,
+        value: filterValueSchema,
+      }),
+      z.object({
+        op: z.enum(["contains", "startsWith", "endsWith"]),
+        field: filterFieldSchema,
+        value: z.string().max(1000),
+      }),
+      z.object({
+        op: z.literal("in"),
+        field: filterFieldSchema,
+        values: z.array(filterValueSchema).max(100),
+      }),
+      z.object({
+        op: z.literal("between"),
+        field: filterFieldSchema,
+        from: filterValueSchema,
+        to: filterValueSchema,
+      }),
+      z.object({ op: z.literal("isNull"), field: filterFieldSchema }),
+      z.object({
+        op: z.enum(["hasAnyLabel", "hasAllLabels"]),
+        labelIds: z.array(z.string().min(1).max(255)).max(100),
+      }),
+    ])
+);
+
+/**
+ * Saved filter (smart list) creation schema
+ */
+export const createSavedFilterSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  icon: z.string().max(50).optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-F]{6}$/i, "Invalid hex color format")
+    .optional(),
+  filter: filterExpressionSchema,
+  sortBy: z
+    .enum([
+      "createdAt",
+      "updatedAt",
+      "name",
+      "dueDate",
+      "date",
+      "priority",
+      "position",
+    ])
+    .optional(),
+  sortDirection: z.enum(["asc", "desc"]).optional(),
+  groupBy: z.enum(["none", "status", "priority", "dueDate"]).optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+/**
+ * Saved filter update schema
+ */
+export const updateSavedFilterSchema = createSavedFilterSchema.partial();
+
+/**
+ * Query parameters for evaluating a saved filter
+ */
+export const savedFilterTasksQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+});
+
 // =============================================================================
 // TASK SCHEMAS
 // =============================================================================
@@ -260,6 +482,7 @@ export const createTaskSchema = z.object({
     .optional()
     .default([]),
   tags: z.array(z.string().min(1).max(50)).optional().default([]),
+  customFields: customFieldValuesSchema.optional(),
   userId: z.string().uuid().optional(), // Add userId for tests
 });
 
@@ -351,6 +574,98 @@ export const updateSubtaskSchema = z.object({
   position: z.number().int().min(0).optional(),
 });
 
+// =============================================================================
+// TASK DEPENDENCY SCHEMAS
+// =============================================================================
+
+/**
+ * Task dependency schema (the task is blocked by `dependsOnTaskId`)
+ */
+export const taskDependencySchema = z.object({
+  dependsOnTaskId: idSchema,
+});
+
+// =============================================================================
+// TIME TRACKING SCHEMAS
+// =============================================================================
+
+/**
+ * Timer start schema
+ */
+export const startTimerSchema = z.object({
+  description: z.string().max(500).optional(),
+});
+
+/**
+ * Manual time entry creation schema
+ */
+export const createTimeEntrySchema = z
+  .object({
+    startedAt: z.string().datetime(),
+    endedAt: z.string().datetime(),
+    description: z.string().max(500).optional(),
+  })
+  .refine((data) => new Date(data.endedAt) > new Date(data.startedAt), {
+    message: "Time entry must end after it starts",
+    path: ["endedAt"],
+  });
+
+/**
+ * Time entry update schema
+ */
+export const updateTimeEntrySchema = z.object({
+  startedAt: z.string().datetime().optional(),
+  endedAt: z.string().datetime().optional(),
+  description: z.string().max(500).optional(),
+});
+
+/**
+ * Time entry params schema
+ */
+export const timeEntryParamsSchema = z.object({
+  id: idSchema,
+  entryId: idSchema,
+});
+
+// =============================================================================
+// TASK COMMENT SCHEMAS
+// =============================================================================
+
+/**
+ * Comment create/update schema
+ */
+export const taskCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+});
+
+/**
+ * Comment params schema
+ */
+export const taskCommentParamsSchema = z.object({
+  id: idSchema,
+  commentId: idSchema,
+});
+
+// =============================================================================
+// TASK HISTORY SCHEMAS
+// =============================================================================
+
+/**
+ * Task history query schema
+ */
+export const taskHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * History entry restore params schema (entries logged before entry ids
+ * were UUIDs use a `history_` prefix)
+ */
+export const restoreTaskHistoryParamsSchema = z.object({
+  id: idSchema,
+  entryId: z.string().min(1).max(255),
+});
+
 // =============================================================================
 // REMINDER SCHEMAS
 // =============================================================================
@@ -374,6 +689,117 @@ export const updateReminderSchema = z.object({
   isSent: z.boolean().optional(),
 });
 
+// =============================================================================
+// TASK TEMPLATE SCHEMAS
+// =============================================================================
+
+/**
+ * Task template creation schema. Task text and dates may contain
+ * placeholders like {{date+3d}} or {{input:client}}.
+ */
+export const createTaskTemplateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  listId: idSchema.optional(),
+  taskName: z.string().min(1).max(255),
+  taskDescription: z.string().max(2000).optional(),
+  priority: z.enum(["High", "Medium", "Low", "None"]).optional(),
+  estimate: z
+    .string()
+    .regex(/^\d{1,2}:\d{2}$/, "Estimate must be in HH:mm format")
+    .optional(),
+  date: z.string().max(100).optional(),
+  deadline: z.string().max(100).optional(),
+  labels: z.array(idSchema).max(100).optional(),
+  subtasks: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(255),
+        position: z.number().int().min(0).optional(),
+      })
+    )
+    .max(100)
+    .optional(),
+  reminders: z
+    .array(
+      z.object({
+        timing: z.number().int().min(0), // Minutes before the deadline
+        method: z.enum(["push", "email", "sms"]).optional().default("push"),
+      })
+    )
+    .max(20)
+    .optional(),
+  customFields: customFieldValuesSchema.optional(),
+});
+
+/**
+ * Task template update schema
+ */
+export const updateTaskTemplateSchema = createTaskTemplateSchema.partial();
+
+/**
+ * Saving an existing task as a template
+ */
+export const taskTemplateFromTaskSchema = z.object({
+  taskId: idSchema,
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+});
+
+/**
+ * Creating a task from a template
+ */
+export const instantiateTaskTemplateSchema = z.object({
+  listId: idSchema.optional(),
+  inputs: z.record(z.string().min(1).max(50), z.string().max(255)).optional(),
+});
+
+// =============================================================================
+// LIST TEMPLATE SCHEMAS
+// =============================================================================
+
+/**
+ * Anchor day of a list template, as YYYY-MM-DD; task dates are kept
+ * relative to it
+ */
+const anchorDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Anchor date must be in YYYY-MM-DD format");
+
+/**
+ * Saving an existing list as a list template
+ */
+export const createListTemplateSchema = z.object({
+  listId: idSchema,
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  settings: z.record(z.string(), z.unknown()).optional(),
+  anchorDate: anchorDateSchema.optional(),
+});
+
+/**
+ * List template update schema
+ */
+export const updateListTemplateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-F]{6}$/i, "Invalid hex color format")
+    .optional(),
+  emoji: z.string().min(1).max(10).optional(),
+  settings: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Creating a list from a list template
+ */
+export const instantiateListTemplateSchema = updateListTemplateSchema
+  .omit({ description: true, settings: true })
+  .extend({
+    anchorDate: anchorDateSchema.optional(),
+  });
+
 // =============================================================================
 // BATCH OPERATION SCHEMAS
 // =============================================================================
@@ -487,6 +913,38 @@ export const exportRequestSchema = z
   })
   .passthrough(); // Allow extra fields
 
+// =============================================================================
+// TRASH SCHEMAS
+// =============================================================================
+
+/**
+ * Restore trashed item schema
+ */
+export const restoreTrashItemSchema = z.object({
+  type: z.enum(["task", "list", "label"]),
+  id: idSchema,
+});
+
+/**
+ * Purge trash query schema (defaults to the configured retention period)
+ */
+export const purgeTrashQuerySchema = z.object({
+  olderThanDays: z.coerce.number().int().min(0).optional(),
+});
+
+// =============================================================================
+// BACKUP SCHEMAS
+// =============================================================================
+
+/**
+ * Backup ID parameter schema (backup file name without extension)
+ */
+export const backupIdParamSchema = z.object({
+  id: z
+    .string()
+    .regex(/^backup_tasks_[0-9TZ-]+$/, "Invalid backup ID"),
+});
+
 // =============================================================================
 // NOTIFICATION SCHEMAS
 // =============================================================================
@@ -505,6 +963,62 @@ export const notificationPreferencesSchema = z.object({
   system: z.boolean().optional(),
 });
 
+/**
+ * Notification inbox query schema
+ */
+export const notificationsQuerySchema = z.object({
+  unread: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * Notification update schema
+ */
+export const updateNotificationSchema = z.object({
+  isRead: z.boolean(),
+});
+
+// =============================================================================
+// WEBHOOK SCHEMAS
+// =============================================================================
+
+/**
+ * Webhook creation schema
+ */
+export const createWebhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .max(2048)
+    .refine((url) => /^https?:\/\//i.test(url), "URL must use http or https"),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  secret: z.string().min(16).max(255).optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Webhook update schema
+ */
+export const updateWebhookSchema = createWebhookSchema.partial();
+
+/**
+ * Webhook delivery log query schema
+ */
+export const webhookDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * Webhook delivery replay params schema
+ */
+export const webhookDeliveryParamsSchema = z.object({
+  id: idSchema,
+  deliveryId: idSchema,
+});
+
 // =============================================================================
 // REAL-TIME SCHEMAS
 // =============================================================================
@@ -520,6 +1034,9 @@ export const websocketMessageSchema = z.object({
     "task_status_changed",
     "list_updated",
     "label_updated",
+    "comment_added",
+    "comment_updated",
+    "comment_deleted",
     "notification",
     "user_presence",
   ]),
@@ -588,6 +1105,12 @@ export const schemas = {
   updateLabel: updateLabelSchema,
   labelQuery: labelQuerySchema,
 
+  // Custom field
+  createCustomField: createCustomFieldSchema,
+  updateCustomField: updateCustomFieldSchema,
+  customFieldParams: customFieldParamsSchema,
+  customFieldValues: customFieldValuesSchema,
+
   // Task
   createTask: createTaskSchema,
   updateTask: updateTaskSchema,
@@ -598,6 +1121,23 @@ export const schemas = {
   createSubtask: createSubtaskSchema,
   updateSubtask: updateSubtaskSchema,
 
+  // Task dependency
+  taskDependency: taskDependencySchema,
+
+  // Time tracking
+  startTimer: startTimerSchema,
+  createTimeEntry: createTimeEntrySchema,
+  updateTimeEntry: updateTimeEntrySchema,
+  timeEntryParams: timeEntryParamsSchema,
+
+  // Task comment
+  taskComment: taskCommentSchema,
+  taskCommentParams: taskCommentParamsSchema,
+
+  // Task history
+  taskHistoryQuery: taskHistoryQuerySchema,
+  restoreTaskHistoryParams: restoreTaskHistoryParamsSchema,
+
   // Reminder
   createReminder: createReminderSchema,
   updateReminder: updateReminderSchema,
@@ -614,8 +1154,23 @@ export const schemas = {
   // Export
   exportRequest: exportRequestSchema,
 
+  // Trash
+  restoreTrashItem: restoreTrashItemSchema,
+  purgeTrashQuery: purgeTrashQuerySchema,
+
+  // Backup
+  backupIdParam: backupIdParamSchema,
+
   // Notification
   notificationPreferences: notificationPreferencesSchema,
+  notificationsQuery: notificationsQuerySchema,
+  updateNotification: updateNotificationSchema,
+
+  // Webhook
+  createWebhook: createWebhookSchema,
+  updateWebhook: updateWebhookSchema,
+  webhookDeliveriesQuery: webhookDeliveriesQuerySchema,
+  webhookDeliveryParams: webhookDeliveryParamsSchema,
 
   // Real-time
   websocketMessage: websocketMessageSchema,
@@ -0,0 +1,124 @@
+/**
+ * Webhook Delivery
+ *
+ * Queues committed task events for the webhooks subscribed to them and
+ * sends the queued deliveries. Each new delivery starts a run; deliveries
+ * that failed are retried by a timer set for the next one due.
+ */
+
+import { dbAPI } from "../../../lib/db/api";
+import {
+  isTaskEvent,
+  subscribeDomainEvents,
+  type RecordedDomainEvent,
+} from "../../../lib/events";
+import { toTaskUpdateMessage } from "./realtime-events";
+
+interface WebhookDeliveryState {
+  unsubscribe: (() => void) | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  running: Promise<void> | null;
+  runAgain: boolean;
+}
+
+// Instrumentation starts delivery and the replay route runs it, each from
+// its own copy of this module in a production build; they share one state
+const globalForWebhooks = globalThis as typeof globalThis & {
+  webhookDelivery?: WebhookDeliveryState;
+};
+const state = (globalForWebhooks.webhookDelivery ??= {
+  unsubscribe: null,
+  retryTimer: null,
+  running: null,
+  runAgain: false,
+});
+
+/**
+ * Start queueing and sending task events to webhooks. Deliveries left due
+ * by the last process are sent right away, which also sets the retry
+ * timer. Calling it again has no effect.
+ */
+export function startWebhookDelivery(): void {
+  if (!state.unsubscribe) {
+    state.unsubscribe = subscribeDomainEvents(queueDeliveries);
+    void deliverWebhooks();
+  }
+}
+
+/**
+ * Stop queueing events and cancel the retry timer; queued deliveries are
+ * sent once delivery is started again
+ */
+export function stopWebhookDelivery(): void {
+  state.unsubscribe?.();
+  state.unsubscribe = null;
+  if (state.retryTimer) {
+    clearTimeout(state.retryTimer);
+    state.retryTimer = null;
+  }
+}
+
+/**
+ * Send every delivery that is due, then set the timer for the next retry.
+ * Called during a run, it runs again once the current run is done.
+ */
+export function deliverWebhooks(): Promise<void> {
+  if (state.running) {
+    state.runAgain = true;
+    return state.running;
+  }
+
+  state.running = (async () => {
+    do {
+      state.runAgain = false;
+      try {
+        while ((await dbAPI.deliverDueWebhooks()) > 0) {
+          // Deliveries are sent in batches
+        }
+        await scheduleRetry();
+      } catch (error) {
+        console.error("[Webhooks] Delivery run failed:", error);
+      }
+    } while (state.runAgain);
+    state.running = null;
+  })();
+  return state.running;
+}
+
+async function queueDeliveries(event: RecordedDomainEvent): Promise<void> {
+  if (!isTaskEvent(event)) {
+    return;
+  }
+
+  const webhooks = await dbAPI.getWebhooks(event.userId);
+  const subscribed = webhooks.some(
+    (webhook) => webhook.isActive && webhook.eventTypes.includes(event.type)
+  );
+  if (!subscribed) {
+    return;
+  }
+
+  const message = await toTaskUpdateMessage(event);
+  if (!message) {
+    return; // Deleted again since
+  }
+
+  await dbAPI.queueWebhookDeliveries(event, message.payload);
+  // Sending may take a while; later events shouldn't wait for it
+  void deliverWebhooks();
+}
+
+async function scheduleRetry(): Promise<void> {
+  const nextAttemptAt = await dbAPI.getNextWebhookAttemptAt();
+
+  if (state.retryTimer) {
+    clearTimeout(state.retryTimer);
+    state.retryTimer = null;
+  }
+  if (nextAttemptAt && state.unsubscribe) {
+    state.retryTimer = setTimeout(() => {
+      state.retryTimer = null;
+      void deliverWebhooks();
+    }, Math.max(nextAttemptAt.getTime() - Date.now(), 0));
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Backup Restore API Route Handler
+ *
+ * Replaces the live database with a backup while the app keeps running
+ * POST /api/admin/backups/[id]/restore - Verify the backup, back up the current database and swap it in
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../lib/db/api";
+import { DatabaseError, NotFoundError } from "../../../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../_lib/utils";
+import { backupIdParamSchema } from "../../../../_lib/validation";
+import type { ApiContext } from "../../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      async (req: NextRequest, context: ApiContext) => {
+        const { id: backupId } = await getBackupId(req);
+
+        if (req.method === "POST") {
+          return handleRestoreBackup(req, context, backupId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      },
+      { required: true, permissions: ["admin"] }
+    )
+  )
+);
+
+export { handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate backup ID from request
+ */
+async function getBackupId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const backupId = segments[segments.length - 2]; // backups/[id]/restore
+
+  const validation = backupIdParamSchema.safeParse({ id: backupId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_BACKUP_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+// =============================================================================
+// POST /api/admin/backups/[id]/restore - Restore backup
+// =============================================================================
+
+async function handleRestoreBackup(
+  req: NextRequest,
+  context: ApiContext,
+  backupId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const { restored, safetyBackup } = await dbAPI.restoreBackup(backupId);
+
+    console.log(
+      `[Backups API] ${context.userId} restored ${restored.id}, previous database saved as ${safetyBackup.id}`
+    );
+
+    return createSuccessResponse(
+      {
+        restored: toBackupSummary(restored),
+        safetyBackup: toBackupSummary(safetyBackup),
+      },
+      {
+        action: "restored",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // A corrupt backup is rejected before the live database is touched
+    if (error instanceof DatabaseError && error.code === "BACKUP_VERIFY_ERROR") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode: 422,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 422 }
+      );
+    }
+
+    console.error("[Backups API] Error restoring backup:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to restore backup",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Backup details safe to return to clients (without the file path)
+ */
+function toBackupSummary({
+  id,
+  size,
+  createdAt,
+  verified,
+  verifiedAt,
+}: {
+  id: string;
+  size: number;
+  createdAt: Date;
+  verified: boolean;
+  verifiedAt?: Date;
+}) {
+  return { id, size, createdAt, verified, verifiedAt };
+}
@@ -0,0 +1,95 @@
+/**
+ * Backups API Route Handler
+ *
+ * Admin access to the database backups in the data directory
+ * GET /api/admin/backups - List backups with their integrity check results
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import { createSuccessResponse } from "../../_lib/utils";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      async (req: NextRequest, context: ApiContext) => {
+        if (req.method === "GET") {
+          return handleListBackups(req, context);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      },
+      { required: true, permissions: ["admin"] }
+    )
+  )
+);
+
+export { handler as GET };
+
+// =============================================================================
+// GET /api/admin/backups - List backups
+// =============================================================================
+
+async function handleListBackups(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    // File paths stay on the server
+    const backups = dbAPI
+      .listBackups()
+      .map(({ id, size, createdAt, verified, verifiedAt, integrityErrors }) => ({
+        id,
+        size,
+        createdAt,
+        verified,
+        verifiedAt,
+        integrityErrors,
+      }));
+    const latestVerified = backups.find((backup) => backup.verified);
+
+    return createSuccessResponse(
+      {
+        backups,
+      },
+      {
+        total: backups.length,
+        verified: backups.filter((backup) => backup.verified).length,
+        latestVerifiedAt: latestVerified?.createdAt.toISOString() ?? null,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Backups API] Error listing backups:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to list backups",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Blob Sweep API Route Handler
+ *
+ * Admin access to the attachment blob sweeper
+ * POST /api/admin/storage/sweep - Delete blobs no attachment references
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import { createSuccessResponse } from "../../../_lib/utils";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      async (req: NextRequest, context: ApiContext) => {
+        if (req.method === "POST") {
+          return handleSweepBlobs(req, context);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      },
+      { required: true, permissions: ["admin"] }
+    )
+  )
+);
+
+export { handler as POST };
+
+// =============================================================================
+// POST /api/admin/storage/sweep - Sweep unreferenced blobs
+// =============================================================================
+
+async function handleSweepBlobs(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+
+    // Reclaimed bytes also show up in the health check's disk space details
+    const sweep = await dbAPI.sweepOrphanedBlobs();
+
+    return createSuccessResponse(
+      {
+        sweep,
+      },
+      {
+        action: "swept",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Blob Sweep API] Error sweeping blobs:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to sweep unreferenced blobs",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Collection Lists API Route Handler
+ *
+ * Files lists under collections (sidebar folders)
+ * POST /api/collections/[id]/lists - Move a list into this collection
+ * DELETE /api/collections/[id]/lists?listId=... - Take a list out of it
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  collectionListSchema,
+  idParamSchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id: collectionId } = await getCollectionId(req);
+
+      if (req.method === "POST") {
+        return handleAddList(req, context, collectionId);
+      } else if (req.method === "DELETE") {
+        return handleRemoveList(req, context, collectionId);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as POST, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate collection ID from request
+ */
+async function getCollectionId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const collectionId = segments[segments.length - 2]; // [id]/lists
+
+  const validation = idParamSchema.safeParse({ id: collectionId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_COLLECTION_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map validation and lookup errors to responses
+ */
+function createCollectionErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+    return null;
+  }
+
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+/**
+ * Build a validation error response for an invalid list reference
+ */
+function createInvalidListResponse(issue: {
+  path: PropertyKey[];
+  message: string;
+  input?: unknown;
+}): NextResponse {
+  const error = createValidationError(
+    issue.path.join("."),
+    issue.message,
+    issue.input,
+    "VALIDATION_ERROR"
+  );
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        ...error,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 400 }
+  );
+}
+
+// =============================================================================
+// POST /api/collections/[id]/lists - Add list to collection
+// =============================================================================
+
+async function handleAddList(
+  req: NextRequest,
+  context: ApiContext,
+  collectionId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = collectionListSchema.safeParse(body);
+
+    if (!validation.success) {
+      return createInvalidListResponse(validation.error.issues[0]);
+    }
+
+    await dbAPI.getDatabase().initialize();
+
+    // A list is in one collection at most, so this moves it
+    await dbAPI.addListToCollection(
+      collectionId,
+      validation.data.listId,
+      context.userId
+    );
+    const collection = await dbAPI.getCollection(collectionId, context.userId);
+
+    return createSuccessResponse(
+      {
+        collection,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createCollectionErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Collections API] Error adding list:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to add list to collection",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/collections/[id]/lists - Remove list from collection
+// =============================================================================
+
+async function handleRemoveList(
+  req: NextRequest,
+  context: ApiContext,
+  collectionId: string
+): Promise<NextResponse> {
+  try {
+    const url = new URL(req.url);
+    const validation = collectionListSchema.safeParse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return createInvalidListResponse(validation.error.issues[0]);
+    }
+
+    const { listId } = validation.data;
+    await dbAPI.getDatabase().initialize();
+    const removed = await dbAPI.removeListFromCollection(
+      collectionId,
+      listId,
+      context.userId
+    );
+
+    if (!removed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: `List ${listId} is not in collection ${collectionId}`,
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const collection = await dbAPI.getCollection(collectionId, context.userId);
+
+    return createSuccessResponse(
+      {
+        collection,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createCollectionErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Collections API] Error removing list:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to remove list from collection",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Individual Collection API Route Handler
+ *
+ * Handles operations on individual collections
+ * GET /api/collections/[id] - Get collection
+ * PUT /api/collections/[id] - Update or archive collection
+ * DELETE /api/collections/[id] - Delete collection, keeping its lists
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../_lib/utils";
+import {
+  idParamSchema,
+  updateCollectionSchema,
+} from "../../_lib/validation";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id } = await getCollectionId(req);
+
+      if (req.method === "GET") {
+        return handleGetCollection(req, context, id);
+      } else if (req.method === "PUT") {
+        return handleUpdateCollection(req, context, id);
+      } else if (req.method === "DELETE") {
+        return handleDeleteCollection(req, context, id);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate collection ID from request
+ */
+async function getCollectionId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const collectionId = segments[segments.length - 1];
+
+  const validation = idParamSchema.safeParse({ id: collectionId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_COLLECTION_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/collections/[id] - Get collection
+// =============================================================================
+
+async function handleGetCollection(
+  req: NextRequest,
+  context: ApiContext,
+  collectionId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const collection = await dbAPI.getCollection(collectionId, context.userId);
+
+    return createSuccessResponse(
+      {
+        collection,
+      },
+      {
+        action: "retrieved",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Collections API] Error fetching collection:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch collection",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// PUT /api/collections/[id] - Update collection
+// =============================================================================
+
+async function handleUpdateCollection(
+  req: NextRequest,
+  context: ApiContext,
+  collectionId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateCollectionSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const collection = await dbAPI.updateCollection(
+      collectionId,
+      validation.data,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        collection,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Collections API] Error updating collection:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update collection",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/collections/[id] - Delete collection
+// =============================================================================
+
+async function handleDeleteCollection(
+  req: NextRequest,
+  context: ApiContext,
+  collectionId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await dbAPI.deleteCollection(collectionId, context.userId);
+
+    return createSuccessResponse(
+      {
+        collectionId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Collections API] Error deleting collection:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to delete collection",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
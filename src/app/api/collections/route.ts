@@ -0,0 +1,172 @@
+/**
+ * Collections API Route Handler
+ *
+ * Collections are sidebar folders that group lists
+ * GET /api/collections - Get collections in sidebar order with their lists
+ * and open task counts (?includeArchived=true to include archived ones)
+ * POST /api/collections - Create a collection
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../lib/db/api";
+import { ValidationError } from "../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import { createSuccessResponse, createValidationError } from "../_lib/utils";
+import { createCollectionSchema } from "../_lib/validation";
+import type { ApiContext } from "../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetCollections(req, context);
+      } else if (req.method === "POST") {
+        return handleCreateCollection(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// GET /api/collections - Get collections
+// =============================================================================
+
+async function handleGetCollections(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    const includeArchived =
+      req.nextUrl.searchParams.get("includeArchived") === "true";
+    await dbAPI.getDatabase().initialize();
+    const collections = await dbAPI.getCollections(context.userId, {
+      includeArchived,
+    });
+
+    return createSuccessResponse(
+      {
+        collections,
+      },
+      {
+        total: collections.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Collections API] Error fetching collections:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch collections",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/collections - Create collection
+// =============================================================================
+
+async function handleCreateCollection(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = createCollectionSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const collection = await dbAPI.createCollection(
+      validation.data,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        collection,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode: 400,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Collections API] Error creating collection:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create collection",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
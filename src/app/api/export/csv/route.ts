@@ -1,17 +1,70 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
+import { ValidationError } from "@/lib/db/types";
+import { formatCustomFieldValue } from "@/lib/custom-fields";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import { validateCustomFieldParams } from "../../_lib/utils";
+import type { ApiContext } from "../../_lib/types";
 
 export const dynamic = "force-dynamic";
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleExportCsv(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
 /**
  * GET /api/export/csv - Export tasks as CSV
  */
-export async function GET(request: NextRequest) {
+async function handleExportCsv(request: NextRequest, context: ApiContext) {
   try {
     const { searchParams } = new URL(request.url);
     const listId = searchParams.get("listId");
     const status = searchParams.get("status");
     const includeCompleted = searchParams.get("includeCompleted") === "true";
+
+    // Custom field filters (cf.<fieldId>[.<operator>]) and sorting
+    const customFieldParams = validateCustomFieldParams(
+      searchParams,
+      searchParams.get("sortBy") ?? undefined,
+      searchParams.get("sortOrder") === "asc" ? "asc" : "desc"
+    );
+    if (customFieldParams.error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: customFieldParams.error.code,
+            message: customFieldParams.error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
     
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
@@ -30,13 +83,23 @@ export async function GET(request: NextRequest) {
     if (listId) {
       taskFilters.listId = listId;
     }
+
+    taskFilters.customFields = customFieldParams.filters;
     
-    // Get tasks
-    const tasks = await dbAPI.getUserTasks("default-user", taskFilters);
+    // Get tasks (the CSV has no columns for task relations)
+    const tasks = await dbAPI.getUserTasks(context.userId, taskFilters, {
+      include: [],
+      customFieldSort: customFieldParams.sort,
+    });
     
     // Get lists for reference
-    const lists = await dbAPI.getUserLists("default-user");
+    const lists = await dbAPI.getUserLists(context.userId);
     const listMap = new Map(lists.map((l) => [l.id, l.name]));
+
+    // One column per custom field, named after its list unless exporting one list
+    const customFields = listId
+      ? await dbAPI.getCustomFields(listId, context.userId)
+      : await dbAPI.getUserCustomFields(context.userId);
     
     // Create CSV content
     const csvHeaders = [
@@ -51,6 +114,11 @@ export async function GET(request: NextRequest) {
       "List",
       "Created At",
       "Updated At",
+      ...customFields.map((field) =>
+        escapeCsv(
+          listId ? field.name : `${listMap.get(field.listId)}: ${field.name}`
+        )
+      ),
     ];
 
     const csvRows = tasks.map((task) => [
@@ -65,6 +133,9 @@ export async function GET(request: NextRequest) {
           listMap.get(task.listId) || "Inbox",
       new Date(task.createdAt).toLocaleDateString(),
       new Date(task.updatedAt).toLocaleDateString(),
+      ...customFields.map((field) =>
+        escapeCsv(formatCustomFieldValue(task.customFields?.[field.id]))
+      ),
     ]);
 
     const csvContent = [
@@ -87,11 +158,21 @@ export async function GET(request: NextRequest) {
     const errorResponse = {
       success: false,
       error: {
-        code: "CSV_EXPORT_ERROR",
+        code:
+          error instanceof ValidationError ? error.code : "CSV_EXPORT_ERROR",
         message: error instanceof Error ? error.message : "CSV export failed",
       },
     };
 
-    return NextResponse.json(errorResponse, { status: 500 });
+    return NextResponse.json(errorResponse, {
+      status: error instanceof ValidationError ? 400 : 500,
+    });
   }
 }
+
+/**
+ * Quote a CSV cell when it contains separators, quotes or line breaks
+ */
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
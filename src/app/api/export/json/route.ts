@@ -1,12 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
+import { ValidationError } from "@/lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import { validateCustomFieldParams } from "../../_lib/utils";
+import type { ApiContext } from "../../_lib/types";
 
 export const dynamic = "force-dynamic";
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleExportJson(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
 /**
  * GET /api/export/json - Export all user data as JSON
  */
-export async function GET(request: NextRequest) {
+async function handleExportJson(request: NextRequest, context: ApiContext) {
   try {
     const { searchParams } = new URL(request.url);
     const includeCompleted = searchParams.get("includeCompleted") === "true";
@@ -14,6 +47,25 @@ export async function GET(request: NextRequest) {
     const dateFrom = searchParams.get("dateFrom");
     const dateTo = searchParams.get("dateTo");
 
+    // Custom field filters (cf.<fieldId>[.<operator>]) and sorting
+    const customFieldParams = validateCustomFieldParams(
+      searchParams,
+      searchParams.get("sortBy") ?? undefined,
+      searchParams.get("sortOrder") === "asc" ? "asc" : "desc"
+    );
+    if (customFieldParams.error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: customFieldParams.error.code,
+            message: customFieldParams.error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
 
@@ -35,29 +87,46 @@ export async function GET(request: NextRequest) {
       };
     }
 
+    taskFilters.customFields = customFieldParams.filters;
+
+    // Counts only need the task rows, not their relations
+    const countOnly = { include: [] };
+
     // Export data
     const exportData = {
       exportedAt: new Date().toISOString(),
       version: "1.0",
-      userId: "default-user",
-      lists: await dbAPI.getUserLists("default-user"),
-      tasks: await dbAPI.getUserTasks("default-user", taskFilters),
-      labels: await dbAPI.getUserLabelsWithCounts("default-user"),
+      userId: context.userId,
+      lists: await dbAPI.getUserLists(context.userId),
+      customFields: await dbAPI.getUserCustomFields(context.userId),
+      tasks: await dbAPI.getUserTasks(context.userId, taskFilters, {
+        customFieldSort: customFieldParams.sort,
+      }),
+      labels: await dbAPI.getUserLabelsWithCounts(context.userId),
       statistics: {
-        totalLists: (await dbAPI.getUserLists("default-user")).length,
-        totalTasks: (await dbAPI.getUserTasks("default-user", taskFilters))
-          .length,
+        totalLists: (await dbAPI.getUserLists(context.userId)).length,
+        totalTasks: (
+          await dbAPI.getUserTasks(context.userId, taskFilters, countOnly)
+        ).length,
         completedTasks: (
-          await dbAPI.getUserTasks("default-user", {
-            ...taskFilters,
-            status: "completed",
-          })
+          await dbAPI.getUserTasks(
+            context.userId,
+            {
+              ...taskFilters,
+              status: "completed",
+            },
+            countOnly
+          )
         ).length,
         pendingTasks: (
-          await dbAPI.getUserTasks("default-user", {
-            ...taskFilters,
-            status: "todo",
-          })
+          await dbAPI.getUserTasks(
+            context.userId,
+            {
+              ...taskFilters,
+              status: "todo",
+            },
+            countOnly
+          )
         ).length,
       },
       metadata: {
@@ -67,6 +136,8 @@ export async function GET(request: NextRequest) {
           from: dateFrom,
           to: dateTo,
         },
+        customFieldFilters: customFieldParams.filters,
+        customFieldSort: customFieldParams.sort,
       },
     };
 
@@ -86,11 +157,13 @@ export async function GET(request: NextRequest) {
     const errorResponse = {
       success: false,
       error: {
-        code: "EXPORT_ERROR",
+        code: error instanceof ValidationError ? error.code : "EXPORT_ERROR",
         message: error instanceof Error ? error.message : "Export failed",
       },
     };
 
-    return NextResponse.json(errorResponse, { status: 500 });
+    return NextResponse.json(errorResponse, {
+      status: error instanceof ValidationError ? 400 : 500,
+    });
   }
 }
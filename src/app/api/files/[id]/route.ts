@@ -88,11 +88,10 @@ async function handleGetFile(
   fileId: string
 ): Promise<NextResponse> {
   try {
-    // Get attachment from database
-    const attachment = dbAPI.get(
-      `SELECT * FROM attachments WHERE id = ?`,
-      [fileId]
-    );
+    await dbAPI.getDatabase().initialize();
+
+    // Only attachments of the user's own tasks are found
+    const attachment = await dbAPI.getAttachment(fileId, context.userId);
 
     if (!attachment) {
       const error = createNotFoundError("File", fileId);
@@ -108,30 +107,14 @@ async function handleGetFile(
       );
     }
 
-    // Check if file belongs to user's tasks
-    if (attachment.taskId) {
-      const task = await dbAPI.getTaskWithDetails(attachment.taskId);
-      if (!task || task.userId !== context.userId) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "FORBIDDEN",
-              message: "Access denied to this file",
-              statusCode: 403,
-              timestamp: new Date().toISOString(),
-            },
-          },
-          { status: 403 }
-        );
-      }
-    }
-
     // Get task information if associated
     let taskInfo = null;
     if (attachment.taskId) {
-      const task = await dbAPI.getTaskWithDetails(attachment.taskId);
-      if (task && task.userId === context.userId) {
+      const task = await dbAPI.getTaskWithDetails(
+        attachment.taskId,
+        context.userId
+      );
+      if (task) {
         taskInfo = {
           id: task.id,
           name: task.name,
@@ -140,8 +123,11 @@ async function handleGetFile(
       }
     }
 
-    // Calculate file metadata
-    const fileStats = await getFileStats(attachment.path);
+    // Calculate file metadata; blobs are shared, so only files stored
+    // before blob storage have their own modification time
+    const fileStats = attachment.blobHash
+      ? null
+      : await getFileStats(attachment.path);
 
     const fileInfo = {
       id: attachment.id,
@@ -196,10 +182,10 @@ async function handleDeleteFile(
   fileId: string
 ): Promise<NextResponse> {
   try {
-    // Get attachment from database
-    const attachment = dbAPI.get(`SELECT * FROM attachments WHERE id = ?`, [
-      fileId,
-    ]);
+    await dbAPI.getDatabase().initialize();
+
+    // Only attachments of the user's own tasks are found
+    const attachment = await dbAPI.getAttachment(fileId, context.userId);
 
     if (!attachment) {
       const error = createNotFoundError("File", fileId);
@@ -215,36 +201,20 @@ async function handleDeleteFile(
       );
     }
 
-    // Check if file belongs to user's tasks
-    if (attachment.taskId) {
-      const task = await dbAPI.getTaskWithDetails(attachment.taskId);
-      if (!task || task.userId !== context.userId) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "FORBIDDEN",
-              message: "Access denied to this file",
-              statusCode: 403,
-              timestamp: new Date().toISOString(),
-            },
-          },
-          { status: 403 }
-        );
+    // Delete physical file. Blobs may be shared with other attachments and
+    // are deleted by the blob sweep once unreferenced.
+    if (!attachment.blobHash) {
+      try {
+        await fs.unlink(attachment.path);
+        console.log(`[File API] Deleted physical file: ${attachment.path}`);
+      } catch (fileError) {
+        console.error("[File API] Error deleting physical file:", fileError);
+        // Continue with database deletion even if physical file deletion fails
       }
     }
 
-    // Delete physical file
-    try {
-      await fs.unlink(attachment.path);
-      console.log(`[File API] Deleted physical file: ${attachment.path}`);
-    } catch (fileError) {
-      console.error("[File API] Error deleting physical file:", fileError);
-      // Continue with database deletion even if physical file deletion fails
-    }
-
     // Delete attachment from database
-    await dbAPI.deleteAttachment(fileId);
+    await dbAPI.deleteAttachment(fileId, context.userId);
 
     // Invalidate cache
     // if (attachment.taskId) await invalidateCacheByTag(`task:${attachment.taskId}:attachments`);
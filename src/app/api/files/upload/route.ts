@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { writeFile, mkdir } from "fs/promises";
-import { join } from "path";
 import { createDatabaseAPI } from "@/lib/db/api";
+import { getBlobStorage, hashContent } from "@/lib/storage";
 import { z } from "zod";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import type { ApiContext } from "../../_lib/types";
 
 // Validation schema for file upload
 const uploadSchema = z.object({
@@ -12,10 +17,36 @@ const uploadSchema = z.object({
   fileSize: z.number().positive(),
 });
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "POST") {
+        return handleUpload(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    }),
+    "upload"
+  )
+);
+
+export { handler as POST };
+
 /**
  * POST /api/files/upload - Upload file attachment for task
  */
-export async function POST(request: NextRequest) {
+async function handleUpload(request: NextRequest, context: ApiContext) {
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File;
@@ -90,33 +121,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = join(process.cwd(), "uploads");
-    await mkdir(uploadsDir, { recursive: true });
+    const dbAPI = createDatabaseAPI();
+    await dbAPI.getDatabase().initialize();
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, "_");
-    const fileName = `${timestamp}_${sanitizedFileName}`;
-    const filePath = join(uploadsDir, fileName);
+    // Files can only be attached to the user's own tasks
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
+    if (!task) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "TASK_NOT_FOUND",
+            message: "Task not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
 
-    // Save file
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    await writeFile(filePath, buffer);
+    // Identical uploads share one blob, addressed by content hash
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const blobHash = hashContent(buffer);
+    const storage = getBlobStorage();
+    await storage.put(blobHash, buffer);
 
     // Save file metadata to database
-    const dbAPI = createDatabaseAPI();
-    await dbAPI.getDatabase().initialize();
-
-    const attachment = await dbAPI.createAttachment({
-      taskId,
-      filename: fileName,
-      originalName: file.name,
-      mimeType: file.type,
-      size: file.size,
-      path: `/uploads/${fileName}`,
-    });
+    const attachment = await dbAPI.createAttachment(
+      {
+        taskId,
+        filename: blobHash,
+        originalName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        path: storage.keyFor(blobHash),
+        blobHash,
+      },
+      context.userId
+    );
 
     const response = {
       success: true,
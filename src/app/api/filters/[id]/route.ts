@@ -0,0 +1,265 @@
+/**
+ * Individual Saved Filter API Route Handler
+ *
+ * Handles operations on individual saved filters
+ * GET /api/filters/[id] - Get saved filter
+ * PUT /api/filters/[id] - Update saved filter, its sort or grouping
+ * DELETE /api/filters/[id] - Delete saved filter
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../_lib/utils";
+import {
+  idParamSchema,
+  updateSavedFilterSchema,
+} from "../../_lib/validation";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id } = await getFilterId(req);
+
+      if (req.method === "GET") {
+        return handleGetFilter(req, context, id);
+      } else if (req.method === "PUT") {
+        return handleUpdateFilter(req, context, id);
+      } else if (req.method === "DELETE") {
+        return handleDeleteFilter(req, context, id);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate saved filter ID from request
+ */
+async function getFilterId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const filterId = segments[segments.length - 1];
+
+  const validation = idParamSchema.safeParse({ id: filterId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_FILTER_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/filters/[id] - Get saved filter
+// =============================================================================
+
+async function handleGetFilter(
+  req: NextRequest,
+  context: ApiContext,
+  filterId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const filter = await dbAPI.getSavedFilter(filterId, context.userId);
+
+    return createSuccessResponse(
+      {
+        filter,
+      },
+      {
+        action: "retrieved",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Saved Filters API] Error fetching filter:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch saved filter",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// PUT /api/filters/[id] - Update saved filter
+// =============================================================================
+
+async function handleUpdateFilter(
+  req: NextRequest,
+  context: ApiContext,
+  filterId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateSavedFilterSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const filter = await dbAPI.updateSavedFilter(
+      filterId,
+      validation.data,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        filter,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Saved Filters API] Error updating filter:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update saved filter",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/filters/[id] - Delete saved filter
+// =============================================================================
+
+async function handleDeleteFilter(
+  req: NextRequest,
+  context: ApiContext,
+  filterId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await dbAPI.deleteSavedFilter(filterId, context.userId);
+
+    return createSuccessResponse(
+      {
+        filterId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Saved Filters API] Error deleting filter:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to delete saved filter",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
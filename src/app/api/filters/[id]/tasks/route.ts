@@ -0,0 +1,162 @@
+/**
+ * Saved Filter Tasks API Route Handler
+ *
+ * Evaluates a saved filter against the user's current tasks
+ * GET /api/filters/[id]/tasks - Get a page of matching tasks, in the
+ * filter's sort order
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createPaginatedResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  idParamSchema,
+  savedFilterTasksQuerySchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id: filterId } = await getFilterId(req);
+
+      if (req.method === "GET") {
+        return handleGetFilterTasks(req, context, filterId);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate saved filter ID from request
+ */
+async function getFilterId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const filterId = segments[segments.length - 2]; // filters/[id]/tasks
+
+  const validation = idParamSchema.safeParse({ id: filterId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_FILTER_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+// =============================================================================
+// GET /api/filters/[id]/tasks - Evaluate saved filter
+// =============================================================================
+
+async function handleGetFilterTasks(
+  req: NextRequest,
+  context: ApiContext,
+  filterId: string
+): Promise<NextResponse> {
+  try {
+    const validation = savedFilterTasksQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+
+    // Relative dates in the filter resolve against the current time
+    const page = await dbAPI.getSavedFilterTasks(filterId, context.userId, {
+      cursor: validation.data.cursor,
+      limit: validation.data.limit,
+    });
+
+    return createPaginatedResponse(page.tasks, {
+      pageSize: validation.data.limit,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    });
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      const statusCode = error instanceof NotFoundError ? 404 : 400;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: statusCode }
+      );
+    }
+
+    console.error("[Saved Filters API] Error evaluating filter:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to evaluate saved filter",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Saved Filters API Route Handler
+ *
+ * Smart lists: filter expressions evaluated live against the user's tasks
+ * GET /api/filters - Get saved filters with their current task counts
+ * POST /api/filters - Save a filter
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../lib/db/api";
+import { ValidationError } from "../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import { createSuccessResponse, createValidationError } from "../_lib/utils";
+import { createSavedFilterSchema } from "../_lib/validation";
+import type { ApiContext } from "../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetFilters(req, context);
+      } else if (req.method === "POST") {
+        return handleCreateFilter(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// GET /api/filters - Get saved filters
+// =============================================================================
+
+async function handleGetFilters(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const filters = await dbAPI.getSavedFilters(context.userId);
+
+    return createSuccessResponse(
+      {
+        filters,
+      },
+      {
+        total: filters.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Saved Filters API] Error fetching filters:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch saved filters",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/filters - Create saved filter
+// =============================================================================
+
+async function handleCreateFilter(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = createSavedFilterSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const filter = await dbAPI.createSavedFilter(
+      validation.data,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        filter,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode: 400,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Saved Filters API] Error creating filter:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create saved filter",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
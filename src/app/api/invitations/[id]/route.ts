@@ -0,0 +1,189 @@
+/**
+ * Invitation API Route Handler
+ *
+ * POST /api/invitations/[id] - Accept an invitation to a shared list
+ * DELETE /api/invitations/[id] - Decline it
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import { NotFoundError } from "../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../_lib/utils";
+import { idParamSchema } from "../../_lib/validation";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id: invitationId } = await getInvitationId(req);
+
+      if (req.method === "POST") {
+        return handleAcceptInvitation(req, context, invitationId);
+      } else if (req.method === "DELETE") {
+        return handleDeclineInvitation(req, context, invitationId);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as POST, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate invitation ID from request
+ */
+async function getInvitationId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const invitationId = segments[segments.length - 1];
+
+  const validation = idParamSchema.safeParse({ id: invitationId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_INVITATION_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map lookup errors to responses
+ */
+function createInvitationErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof NotFoundError)) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 404 }
+  );
+}
+
+// =============================================================================
+// POST /api/invitations/[id] - Accept invitation
+// =============================================================================
+
+async function handleAcceptInvitation(
+  req: NextRequest,
+  context: ApiContext,
+  invitationId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const list = await dbAPI.acceptListInvitation(invitationId, context.userId);
+
+    return createSuccessResponse(
+      {
+        list,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createInvitationErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Invitations API] Error accepting invitation:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to accept invitation",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/invitations/[id] - Decline invitation
+// =============================================================================
+
+async function handleDeclineInvitation(
+  req: NextRequest,
+  context: ApiContext,
+  invitationId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await dbAPI.declineListInvitation(invitationId, context.userId);
+
+    return createSuccessResponse(
+      {
+        id: invitationId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createInvitationErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Invitations API] Error declining invitation:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to decline invitation",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Invitations API Route Handler
+ *
+ * GET /api/invitations - Get the user's pending invitations to shared lists
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../lib/db/api";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import { createSuccessResponse } from "../_lib/utils";
+import type { ApiContext } from "../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetInvitations(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
+// =============================================================================
+// GET /api/invitations - Get pending invitations
+// =============================================================================
+
+async function handleGetInvitations(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const invitations = await dbAPI.getListInvitations(context.userId);
+
+    return createSuccessResponse(
+      {
+        invitations,
+      },
+      {
+        total: invitations.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Invitations API] Error fetching invitations:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch invitations",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
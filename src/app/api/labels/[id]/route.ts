@@ -9,6 +9,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { dbAPI } from "../../../../lib/db/api";
+import { ValidationError } from "../../../../lib/db/types";
 import {
   withAuth,
   withRateLimit,
@@ -90,6 +91,8 @@ async function handleGetLabel(
   labelId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Get label with task counts
     const labels = await dbAPI.getUserLabelsWithCounts(context.userId);
     const label = labels.find((l) => l.id === labelId);
@@ -108,22 +111,6 @@ async function handleGetLabel(
       );
     }
 
-    // Verify label belongs to user
-    if (label.userId !== context.userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "FORBIDDEN",
-            message: "Access denied to this label",
-            statusCode: 403,
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // Get usage statistics
     const usageStats = await getLabelUsageStats(labelId, context.userId);
 
@@ -207,6 +194,8 @@ async function handleUpdateLabel(
 
     const updateData = validation.data;
 
+    await dbAPI.getDatabase().initialize();
+
     // Verify label exists and belongs to user
     const labels = await dbAPI.getUserLabelsWithCounts(context.userId);
     const existingLabel = labels.find((l) => l.id === labelId);
@@ -279,28 +268,15 @@ async function handleUpdateLabel(
       }
     }
 
-    // Prepare update data
-    const dbUpdateData: any = {};
-
-    if (updateData.name !== undefined) dbUpdateData.name = updateData.name;
-    if (updateData.color !== undefined) dbUpdateData.color = updateData.color;
-    if (updateData.icon !== undefined) dbUpdateData.icon = updateData.icon;
-
-    // Update label in database using direct query
-    const updateFields = Object.entries(dbUpdateData).map(
-      ([key, value]) => `${key} = ?`
-    );
-
-    const updateValues = [
-      ...(Object.values(dbUpdateData) as any[]),
-      new Date(),
+    await dbAPI.updateLabel(
       labelId,
-    ];
-
-    const sql = `UPDATE labels SET ${updateFields.join(
-      ", "
-    )}, updated_at = ? WHERE id = ?`;
-    dbAPI.run(sql, updateValues);
+      {
+        name: updateData.name,
+        color: updateData.color,
+        icon: updateData.icon,
+      },
+      context.userId
+    );
 
     // Get the updated label with task counts
     const updatedLabels = await dbAPI.getUserLabelsWithCounts(context.userId);
@@ -321,6 +297,23 @@ async function handleUpdateLabel(
       }
     );
   } catch (error) {
+    // The name may be held by a trashed label
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            field: "name",
+            statusCode: 400,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     console.error("[Label API] Error updating label:", error);
 
     return NextResponse.json(
@@ -348,6 +341,8 @@ async function handleDeleteLabel(
   labelId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify label exists and belongs to user
     const labels = await dbAPI.getUserLabelsWithCounts(context.userId);
     const existingLabel = labels.find((l) => l.id === labelId);
@@ -377,7 +372,7 @@ async function handleDeleteLabel(
             success: false,
             error: {
               code: "VALIDATION_ERROR",
-              message: `Label is used by ${existingLabel.taskCount} tasks. Use ?force=true to remove from all tasks and delete.`,
+              message: `Label is used by ${existingLabel.taskCount} tasks. Use ?force=true to move it to the trash anyway.`,
               statusCode: 400,
               timestamp: new Date().toISOString(),
             },
@@ -385,21 +380,10 @@ async function handleDeleteLabel(
           { status: 400 }
         );
       }
-
-      // Remove label from all tasks that use it
-      const tasks = await dbAPI.getUserTasks(context.userId, {});
-      const tasksWithLabel = tasks.filter(
-        (task) =>
-          task.labels && task.labels.some((label: any) => label.id === labelId)
-      );
-
-      for (const task of tasksWithLabel) {
-        await dbAPI.removeLabelFromTask(task.id, labelId);
-      }
     }
 
-    // Delete label from database using direct query
-    dbAPI.run("DELETE FROM labels WHERE id = ?", [labelId]);
+    // Move label to the trash; its task assignments return when restored
+    await dbAPI.deleteLabel(labelId, context.userId);
 
     // Invalidate cache
     // await invalidateCacheByTag(`user:${context.userId}:labels`);
@@ -409,7 +393,7 @@ async function handleDeleteLabel(
     // Return success response
     return createSuccessResponse(
       {
-        message: "Label deleted successfully",
+        message: "Label moved to trash",
         deletedLabelId: labelId,
         removedFromTasks: existingLabel.taskCount,
       },
@@ -446,10 +430,10 @@ async function handleDeleteLabel(
 async function getLabelUsageStats(labelId: string, userId: string) {
   try {
     // Get all tasks with this label
-    const tasks = await dbAPI.getUserTasks(userId, {});
-    const tasksWithLabel = tasks.filter(
-      (task) =>
-        task.labels && task.labels.some((label: any) => label.id === labelId)
+    const tasksWithLabel = await dbAPI.getUserTasks(
+      userId,
+      { labelIds: [labelId] },
+      { include: [] }
     );
 
     // Calculate usage by status
@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { dbAPI } from "../../../lib/db/api";
+import { ValidationError } from "../../../lib/db/types";
 import { withAuth, withRateLimit, withErrorHandling } from "../_lib/middleware";
 import {
   createSuccessResponse,
@@ -91,6 +92,8 @@ async function handleGetLabels(
       color,
     } = params;
 
+    await dbAPI.getDatabase().initialize();
+
     // Get labels from database with task counts
     const labelsWithCounts = await dbAPI.getUserLabelsWithCounts(
       context.userId
@@ -244,6 +247,8 @@ async function handleCreateLabel(
 
     const labelData = validation.data;
 
+    await dbAPI.getDatabase().initialize();
+
     // Check if user already has a label with the same name
     const existingLabels = await dbAPI.getUserLabelsWithCounts(context.userId);
     const duplicateName = existingLabels.find(
@@ -320,6 +325,23 @@ async function handleCreateLabel(
       201
     );
   } catch (error) {
+    // The name may be held by a trashed label
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            field: "name",
+            statusCode: 400,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     console.error("[Labels API] Error creating label:", error);
 
     return NextResponse.json(
@@ -0,0 +1,166 @@
+/**
+ * List Template Instantiation API Route Handler
+ *
+ * Creates lists from list templates
+ * POST /api/list-templates/[id]/instantiate - Create a list with the
+ * template's tasks, their dates shifted to the chosen anchor day
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  idParamSchema,
+  instantiateListTemplateSchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id: templateId } = await getTemplateId(req);
+
+      if (req.method === "POST") {
+        return handleInstantiateTemplate(req, context, templateId);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate list template ID from request
+ */
+async function getTemplateId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const templateId = segments[segments.length - 2]; // [id]/instantiate
+
+  const validation = idParamSchema.safeParse({ id: templateId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TEMPLATE_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+// =============================================================================
+// POST /api/list-templates/[id]/instantiate - Create list from template
+// =============================================================================
+
+async function handleInstantiateTemplate(
+  req: NextRequest,
+  context: ApiContext,
+  templateId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const validation = instantiateListTemplateSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { anchorDate, ...options } = validation.data;
+    await dbAPI.getDatabase().initialize();
+    const instance = await dbAPI.instantiateListTemplate(
+      templateId,
+      context.userId,
+      {
+        ...options,
+        anchorDate: anchorDate ? new Date(`${anchorDate}T00:00:00`) : undefined,
+      }
+    );
+
+    return createSuccessResponse(
+      instance,
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      const statusCode = error instanceof NotFoundError ? 404 : 400;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: statusCode }
+      );
+    }
+
+    console.error("[List Templates API] Error instantiating template:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create list from template",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
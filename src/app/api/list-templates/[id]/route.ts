@@ -0,0 +1,265 @@
+/**
+ * Individual List Template API Route Handler
+ *
+ * Handles operations on individual list templates
+ * GET /api/list-templates/[id] - Get list template
+ * PUT /api/list-templates/[id] - Update list template
+ * DELETE /api/list-templates/[id] - Delete list template
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../_lib/utils";
+import {
+  idParamSchema,
+  updateListTemplateSchema,
+} from "../../_lib/validation";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id } = await getTemplateId(req);
+
+      if (req.method === "GET") {
+        return handleGetTemplate(req, context, id);
+      } else if (req.method === "PUT") {
+        return handleUpdateTemplate(req, context, id);
+      } else if (req.method === "DELETE") {
+        return handleDeleteTemplate(req, context, id);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate list template ID from request
+ */
+async function getTemplateId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const templateId = segments[segments.length - 1];
+
+  const validation = idParamSchema.safeParse({ id: templateId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TEMPLATE_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/list-templates/[id] - Get list template
+// =============================================================================
+
+async function handleGetTemplate(
+  req: NextRequest,
+  context: ApiContext,
+  templateId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const template = await dbAPI.getListTemplate(templateId, context.userId);
+
+    return createSuccessResponse(
+      {
+        template,
+      },
+      {
+        action: "retrieved",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[List Templates API] Error fetching template:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch list template",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// PUT /api/list-templates/[id] - Update list template
+// =============================================================================
+
+async function handleUpdateTemplate(
+  req: NextRequest,
+  context: ApiContext,
+  templateId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateListTemplateSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const template = await dbAPI.updateListTemplate(
+      templateId,
+      validation.data,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        template,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[List Templates API] Error updating template:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update list template",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/list-templates/[id] - Delete list template
+// =============================================================================
+
+async function handleDeleteTemplate(
+  req: NextRequest,
+  context: ApiContext,
+  templateId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await dbAPI.deleteListTemplate(templateId, context.userId);
+
+    return createSuccessResponse(
+      {
+        templateId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[List Templates API] Error deleting template:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to delete list template",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
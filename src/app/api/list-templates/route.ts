@@ -0,0 +1,169 @@
+/**
+ * List Templates API Route Handler
+ *
+ * Lists saved with their tasks, subtasks, labels and settings
+ * GET /api/list-templates - Get list templates, most used first
+ * POST /api/list-templates - Save an existing list as a template
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import { createSuccessResponse, createValidationError } from "../_lib/utils";
+import { createListTemplateSchema } from "../_lib/validation";
+import type { ApiContext } from "../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetTemplates(req, context);
+      } else if (req.method === "POST") {
+        return handleCreateTemplate(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// GET /api/list-templates - Get list templates
+// =============================================================================
+
+async function handleGetTemplates(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const templates = await dbAPI.getListTemplates(context.userId);
+
+    return createSuccessResponse(
+      {
+        templates,
+      },
+      {
+        total: templates.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[List Templates API] Error fetching templates:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch list templates",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/list-templates - Save list as template
+// =============================================================================
+
+async function handleCreateTemplate(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = createListTemplateSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { listId, anchorDate, ...details } = validation.data;
+    await dbAPI.getDatabase().initialize();
+    const template = await dbAPI.captureListTemplate(listId, context.userId, {
+      ...details,
+      anchorDate: anchorDate ? new Date(`${anchorDate}T00:00:00`) : undefined,
+    });
+
+    return createSuccessResponse(
+      {
+        template,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      const statusCode = error instanceof NotFoundError ? 404 : 400;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: statusCode }
+      );
+    }
+
+    console.error("[List Templates API] Error creating template:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create list template",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * List Custom Field API Route Handler
+ *
+ * Changes to a single custom field of a list
+ * PUT /api/lists/[id]/fields/[fieldId] - Rename the field or change its options
+ * DELETE /api/lists/[id]/fields/[fieldId] - Remove the field and its task values
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../lib/db/api";
+import {
+  NotFoundError,
+  ValidationError,
+} from "../../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  listFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../_lib/utils";
+import {
+  customFieldParamsSchema,
+  updateCustomFieldSchema,
+} from "../../../../_lib/validation";
+import type { ApiContext } from "../../../../_lib/types";
+
+// Members need the admin role to change custom fields
+const FIELD_ACCESS = { PUT: ["admin"], DELETE: ["admin"] };
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const params = await getFieldParams(req);
+
+        if (req.method === "PUT") {
+          return handleUpdateField(req, context, params);
+        } else if (req.method === "DELETE") {
+          return handleDeleteField(req, context, params);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, listFromPath, FIELD_ACCESS)
+    )
+  )
+);
+
+export { handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate list and field IDs from request
+ */
+async function getFieldParams(
+  req: NextRequest
+): Promise<{ id: string; fieldId: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  // lists/[id]/fields/[fieldId]
+  const validation = customFieldParamsSchema.safeParse({
+    id: segments[segments.length - 3],
+    fieldId: segments[segments.length - 1],
+  });
+
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_CUSTOM_FIELD_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return validation.data;
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+/**
+ * Fields are addressed through their list, so a field of another list
+ * is reported as missing
+ */
+async function getListField(
+  context: ApiContext,
+  { id: listId, fieldId }: { id: string; fieldId: string }
+) {
+  const fields = await dbAPI.getCustomFields(listId, context.userId);
+  const field = fields.find((candidate) => candidate.id === fieldId);
+  if (!field) {
+    throw new NotFoundError(`Custom field with ID ${fieldId} not found`);
+  }
+  return field;
+}
+
+// =============================================================================
+// PUT /api/lists/[id]/fields/[fieldId] - Update custom field
+// =============================================================================
+
+async function handleUpdateField(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; fieldId: string }
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateCustomFieldSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    await getListField(context, params);
+    const field = await dbAPI.updateCustomField(
+      params.fieldId,
+      validation.data,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        field,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Custom Fields API] Error updating field:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update custom field",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/lists/[id]/fields/[fieldId] - Delete custom field
+// =============================================================================
+
+async function handleDeleteField(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; fieldId: string }
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await getListField(context, params);
+    await dbAPI.deleteCustomField(params.fieldId, context.userId);
+
+    return createSuccessResponse(
+      {
+        fieldId: params.fieldId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Custom Fields API] Error deleting field:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to delete custom field",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * List Custom Fields API Route Handler
+ *
+ * Custom fields a list defines for its tasks
+ * GET /api/lists/[id]/fields - Get the list's custom fields
+ * POST /api/lists/[id]/fields - Add a custom field to the list
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  listFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  createCustomFieldSchema,
+  idParamSchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Members need the admin role to define custom fields
+const FIELD_ACCESS = { POST: ["admin"] };
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: listId } = await getListId(req);
+
+        if (req.method === "GET") {
+          return handleGetFields(req, context, listId);
+        } else if (req.method === "POST") {
+          return handleCreateField(req, context, listId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, listFromPath, FIELD_ACCESS)
+    )
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate list ID from request
+ */
+async function getListId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const listId = segments[segments.length - 2]; // lists/[id]/fields
+
+  const validation = idParamSchema.safeParse({ id: listId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_LIST_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/lists/[id]/fields - Get custom fields
+// =============================================================================
+
+async function handleGetFields(
+  req: NextRequest,
+  context: ApiContext,
+  listId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const fields = await dbAPI.getCustomFields(listId, context.userId);
+
+    return createSuccessResponse(
+      {
+        fields,
+      },
+      {
+        total: fields.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Custom Fields API] Error fetching fields:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch custom fields",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/lists/[id]/fields - Create custom field
+// =============================================================================
+
+async function handleCreateField(
+  req: NextRequest,
+  context: ApiContext,
+  listId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = createCustomFieldSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const field = await dbAPI.createCustomField(
+      { ...validation.data, listId },
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        field,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Custom Fields API] Error creating field:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create custom field",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * List Member API Route Handler
+ *
+ * Manages one member of a shared list
+ * PUT /api/lists/[id]/members/[userId] - Change the member's role
+ * DELETE /api/lists/[id]/members/[userId] - Remove the member, or leave
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  listFromPath,
+  getListPermissions,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../_lib/utils";
+import {
+  idParamSchema,
+  updateListMemberSchema,
+} from "../../../../_lib/validation";
+import type { ApiContext } from "../../../../_lib/types";
+
+// Members need the admin role to change roles; anyone can leave a list
+const MEMBER_ACCESS = { PUT: ["admin"], DELETE: ["read"] };
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const params = await getRouteParams(req);
+
+        if (req.method === "PUT") {
+          return handleUpdateMember(req, context, params);
+        } else if (req.method === "DELETE") {
+          return handleRemoveMember(req, context, params);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, listFromPath, MEMBER_ACCESS)
+    )
+  )
+);
+
+export { handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate list and user IDs from request
+ */
+async function getRouteParams(
+  req: NextRequest
+): Promise<{ id: string; userId: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const listId = segments[segments.length - 3]; // [id]/members/[userId]
+  const userId = segments[segments.length - 1];
+
+  for (const [field, value] of [
+    ["listId", listId],
+    ["userId", userId],
+  ]) {
+    const validation = idParamSchema.safeParse({ id: value });
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        field,
+        validationError.message,
+        validationError.input,
+        field === "listId" ? "INVALID_LIST_ID" : "INVALID_USER_ID"
+      );
+
+      throw new Error(JSON.stringify(error));
+    }
+  }
+
+  return { id: listId, userId };
+}
+
+/**
+ * Map validation and lookup errors to responses
+ */
+function createMemberErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+    return null;
+  }
+
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// PUT /api/lists/[id]/members/[userId] - Change member role
+// =============================================================================
+
+async function handleUpdateMember(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; userId: string }
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateListMemberSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const member = await dbAPI.updateListMemberRole(
+      params.id,
+      params.userId,
+      validation.data.role,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        member,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createMemberErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[List Members API] Error updating member:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update list member",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/lists/[id]/members/[userId] - Remove member
+// =============================================================================
+
+async function handleRemoveMember(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; userId: string }
+): Promise<NextResponse> {
+  try {
+    // Members can leave a list; removing someone else takes the admin role.
+    // Without access to the list the lookup below answers 404.
+    const permissions = getListPermissions(context.listRole);
+    if (
+      context.listRole &&
+      params.userId !== context.actorId &&
+      !permissions.includes("admin")
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "Only list admins can remove other members",
+            statusCode: 403,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    await dbAPI.removeListMember(params.id, params.userId, context.userId);
+
+    return createSuccessResponse(
+      {
+        listId: params.id,
+        userId: params.userId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createMemberErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[List Members API] Error removing member:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to remove list member",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * List Members API Route Handler
+ *
+ * Shares a list with other users by role
+ * GET /api/lists/[id]/members - Get members and pending invitations
+ * POST /api/lists/[id]/members - Invite a user by email
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  listFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  idParamSchema,
+  inviteListMemberSchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Members need the admin role to invite others
+const MEMBER_ACCESS = { POST: ["admin"] };
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: listId } = await getListId(req);
+
+        if (req.method === "GET") {
+          return handleGetMembers(req, context, listId);
+        } else if (req.method === "POST") {
+          return handleInviteMember(req, context, listId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, listFromPath, MEMBER_ACCESS)
+    )
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate list ID from request
+ */
+async function getListId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const listId = segments[segments.length - 2]; // [id]/members
+
+  const validation = idParamSchema.safeParse({ id: listId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_LIST_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map validation and lookup errors to responses
+ */
+function createMemberErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+    return null;
+  }
+
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/lists/[id]/members - Get list members
+// =============================================================================
+
+async function handleGetMembers(
+  req: NextRequest,
+  context: ApiContext,
+  listId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const members = await dbAPI.getListMembers(listId, context.userId);
+
+    return createSuccessResponse(
+      {
+        members,
+      },
+      {
+        total: members.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createMemberErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[List Members API] Error fetching members:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch list members",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/lists/[id]/members - Invite member
+// =============================================================================
+
+async function handleInviteMember(
+  req: NextRequest,
+  context: ApiContext,
+  listId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = inviteListMemberSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+
+    // The invitation is pending until the invited user accepts it
+    const member = await dbAPI.inviteListMember(
+      listId,
+      validation.data,
+      context.userId,
+      context.actorId
+    );
+
+    return createSuccessResponse(
+      {
+        member,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    const response = createMemberErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[List Members API] Error inviting member:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to invite list member",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { dbAPI } from "../../../../../lib/db/api";
 import {
   withAuth,
+  withListAccess,
+  listFromPath,
   withRateLimit,
   withErrorHandling,
 } from "../../../_lib/middleware";
@@ -23,25 +25,27 @@ import type { ApiContext } from "../../../_lib/types";
 // Apply middleware stack
 const handler = withErrorHandling(
   withRateLimit(
-    withAuth(async (req: NextRequest, context: ApiContext) => {
-      const { id } = await getListId(req);
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id } = await getListId(req);
 
-      if (req.method === "POST") {
-        return handleReorderList(req, context, id);
-      } else {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "METHOD_NOT_ALLOWED",
-              message: `Method ${req.method} not allowed`,
-              statusCode: 405,
+        if (req.method === "POST") {
+          return handleReorderList(req, context, id);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
             },
-          },
-          { status: 405 }
-        );
-      }
-    })
+            { status: 405 }
+          );
+        }
+      }, listFromPath)
+    )
   )
 );
 
@@ -84,6 +88,8 @@ async function handleReorderList(
   listId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify list exists and belongs to user
     const lists = await dbAPI.getUserListsWithCounts(context.userId);
     const list = lists.find((l) => l.id === listId);
@@ -174,7 +180,11 @@ async function handleReorderList(
     }
 
     // Get current tasks in the list to verify they exist and belong to user
-    const currentTasks = await dbAPI.getUserTasks(context.userId, { listId });
+    const currentTasks = await dbAPI.getUserTasks(
+      context.userId,
+      { listId },
+      { include: [] }
+    );
     const currentTaskIds = currentTasks.map((t) => t.id);
 
     // Check if all provided task IDs exist in this list
@@ -198,75 +208,19 @@ async function handleReorderList(
       );
     }
 
-    // Check if we're trying to reorder all tasks or a subset
-    const reorderAll = taskIds.length === currentTasks.length;
-    let reorderedTasks = [];
-
-    if (reorderAll) {
-      // Reordering all tasks - update positions for all
-      for (let i = 0; i < taskIds.length; i++) {
-        const taskId = taskIds[i];
-        try {
-          await dbAPI.updateTask(taskId, { position: i }, context.userId);
-          const updatedTask = await dbAPI.getTaskWithDetails(taskId);
-          if (updatedTask) {
-            reorderedTasks.push(updatedTask);
-          }
-        } catch (error) {
-          console.error(`[List Reorder] Error updating task ${taskId}:`, error);
-          // Continue with other tasks even if one fails
-        }
-      }
-    } else {
-      // Reordering a subset - need to handle positions carefully
-      // Get current positions of all tasks in the list
-      const allTasksWithPositions = currentTasks
-        .filter((t) => !taskIds.includes(t.id)) // Tasks not being reordered
-        .sort((a, b) => (a.position || 0) - (b.position || 0));
-
-      let currentPosition = 0;
-      const finalOrder: any[] = [];
-
-      // Add tasks in the new order
-      for (const taskId of taskIds) {
-        try {
-          await dbAPI.updateTask(
-            taskId,
-            { position: currentPosition },
-            context.userId
-          );
-          const updatedTask = await dbAPI.getTaskWithDetails(taskId);
-          if (updatedTask) {
-            finalOrder.push(updatedTask);
-          }
-          currentPosition++;
-        } catch (error) {
-          console.error(`[List Reorder] Error updating task ${taskId}:`, error);
-        }
-      }
-
-      // Add remaining tasks with updated positions
-      for (const task of allTasksWithPositions) {
-        try {
-          await dbAPI.updateTask(
-            task.id,
-            { position: currentPosition },
-            context.userId
-          );
-          const updatedTask = await dbAPI.getTaskWithDetails(task.id);
-          if (updatedTask) {
-            finalOrder.push(updatedTask);
-          }
-          currentPosition++;
-        } catch (error) {
-          console.error(
-            `[List Reorder] Error updating task ${task.id}:`,
-            error
-          );
-        }
+    // Tasks left out of taskIds keep their order after the listed ones
+    const tasks = await dbAPI.reorderListTasks(
+      listId,
+      taskIds,
+      context.userId,
+      context.actorId
+    );
+    const reorderedTasks = [];
+    for (const task of tasks) {
+      const details = await dbAPI.getTaskWithDetails(task.id, context.userId);
+      if (details) {
+        reorderedTasks.push(details);
       }
-
-      reorderedTasks = finalOrder;
     }
 
     // Invalidate cache
@@ -1,14 +1,66 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
+import { ValidationError } from "@/lib/db/types";
+import { countCustomFieldUsage } from "@/lib/custom-fields";
+import {
+  withAuth,
+  withListAccess,
+  listFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import type { ApiContext } from "../../_lib/types";
+
+// Only the owner can delete a list
+const LIST_ACCESS = { DELETE: ["owner"] };
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const params = getRouteParams(req);
+
+        if (req.method === "GET") {
+          return handleGetList(req, context, params);
+        } else if (req.method === "DELETE") {
+          return handleDeleteList(req, context, params);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, listFromPath, LIST_ACCESS)
+    )
+  )
+);
+
+export { handler as GET, handler as DELETE };
+
+/**
+ * Extract route params from the request path
+ */
+function getRouteParams(req: NextRequest): { id: string } {
+  const segments = req.nextUrl.pathname.split("/");
+  return { id: segments[segments.length - 1] };
+}
 
 // GET /api/lists/[id] - Get specific list with tasks
-export async function GET(
+async function handleGetList(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  context: ApiContext,
+  params: { id: string }
 ) {
   try {
     const listId = params.id;
-    const context = { userId: "default-user" }; // Mock context for now
 
     if (!listId) {
       return NextResponse.json(
@@ -27,7 +79,7 @@ export async function GET(
     await dbAPI.getDatabase().initialize();
 
     // Get list
-    const list = await dbAPI.getList(listId);
+    const list = await dbAPI.getList(listId, context.userId);
 
     if (!list) {
       return NextResponse.json(
@@ -44,6 +96,7 @@ export async function GET(
 
     // Get tasks for this list
     const tasks = await dbAPI.getUserTasks(context.userId, { listId });
+    const customFields = await dbAPI.getCustomFields(listId, context.userId);
 
     // Group tasks by status
     const tasksByStatus = {
@@ -57,6 +110,7 @@ export async function GET(
       success: true,
       data: {
         ...list,
+        customFields,
         tasks,
         tasksByStatus,
         taskCounts: {
@@ -66,6 +120,7 @@ export async function GET(
           done: tasksByStatus.done.length,
           archived: tasksByStatus.archived.length,
         },
+        customFieldsUsage: countCustomFieldUsage(customFields, tasks),
       },
     };
 
@@ -85,3 +140,67 @@ export async function GET(
     return NextResponse.json(errorResponse, { status: 500 });
   }
 }
+
+// DELETE /api/lists/[id] - Move list and its tasks to the trash
+async function handleDeleteList(
+  request: NextRequest,
+  context: ApiContext,
+  params: { id: string }
+) {
+  try {
+    const listId = params.id;
+
+    if (!listId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "MISSING_LIST_ID",
+            message: "List ID is required",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const dbAPI = createDatabaseAPI();
+    await dbAPI.getDatabase().initialize();
+
+    const list = await dbAPI.getList(listId, context.userId);
+
+    if (!list) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "LIST_NOT_FOUND",
+            message: "List not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    await dbAPI.deleteList(listId, context.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: "List moved to trash",
+    });
+  } catch (error) {
+    console.error("Error deleting list:", error);
+
+    const errorResponse = {
+      success: false,
+      error: {
+        code: "LIST_DELETE_ERROR",
+        message:
+          error instanceof Error ? error.message : "Failed to delete list",
+      },
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: error instanceof ValidationError ? 400 : 500,
+    });
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * List Share Link API Route Handler
+ *
+ * Public, read-only links to a list, served at /share/[linkId]
+ * GET /api/lists/[id]/share-link - Get the list's link, if it has one
+ * POST /api/lists/[id]/share-link - Mint a link, replacing the previous one
+ * DELETE /api/lists/[id]/share-link - Revoke the link
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import {
+  NotFoundError,
+  ValidationError,
+  type ListShareLink,
+} from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  listFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  createShareLinkSchema,
+  idParamSchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Members need the admin role to publish a list or take it down
+const SHARE_LINK_ACCESS = { POST: ["admin"], DELETE: ["admin"] };
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: listId } = await getListId(req);
+
+        if (req.method === "GET") {
+          return handleGetShareLink(req, context, listId);
+        } else if (req.method === "POST") {
+          return handleCreateShareLink(req, context, listId);
+        } else if (req.method === "DELETE") {
+          return handleRevokeShareLink(req, context, listId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, listFromPath, SHARE_LINK_ACCESS)
+    )
+  )
+);
+
+export { handler as GET, handler as POST, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate list ID from request
+ */
+async function getListId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const listId = segments[segments.length - 2]; // [id]/share-link
+
+  const validation = idParamSchema.safeParse({ id: listId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_LIST_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * The link with the address of its public page
+ */
+function toShareLinkResponse(req: NextRequest, link: ListShareLink | null) {
+  return {
+    link,
+    url: link ? new URL(`/share/${link.id}`, req.url).toString() : null,
+  };
+}
+
+/**
+ * Map validation and lookup errors to responses
+ */
+function createShareLinkErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+    return null;
+  }
+
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/lists/[id]/share-link - Get share link
+// =============================================================================
+
+async function handleGetShareLink(
+  req: NextRequest,
+  context: ApiContext,
+  listId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const link = await dbAPI.getListShareLink(listId, context.userId);
+
+    return createSuccessResponse(toShareLinkResponse(req, link), {
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const response = createShareLinkErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Share Links API] Error fetching share link:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch share link",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/lists/[id]/share-link - Create share link
+// =============================================================================
+
+async function handleCreateShareLink(
+  req: NextRequest,
+  context: ApiContext,
+  listId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const validation = createShareLinkSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { expiresAt } = validation.data;
+    await dbAPI.getDatabase().initialize();
+    const link = await dbAPI.createListShareLink(
+      listId,
+      context.userId,
+      { expiresAt: expiresAt ? new Date(expiresAt) : undefined },
+      context.actorId
+    );
+
+    return createSuccessResponse(
+      toShareLinkResponse(req, link),
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    const response = createShareLinkErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Share Links API] Error creating share link:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create share link",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/lists/[id]/share-link - Revoke share link
+// =============================================================================
+
+async function handleRevokeShareLink(
+  req: NextRequest,
+  context: ApiContext,
+  listId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const revoked = await dbAPI.revokeListShareLink(listId, context.userId);
+
+    if (!revoked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: `List ${listId} has no share link`,
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return createSuccessResponse(
+      {
+        listId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createShareLinkErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Share Links API] Error revoking share link:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to revoke share link",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
 import { CreateListData } from "@/types/lists";
 import { z } from "zod";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import type { ApiContext } from "../_lib/types";
 
 // Validation schemas
 const createListSchema = z.object({
@@ -24,10 +30,37 @@ const listFiltersSchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).default("asc"),
 });
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetLists(req, context);
+      } else if (req.method === "POST") {
+        return handleCreateList(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as POST };
+
 /**
  * GET /api/lists - Get user lists with filtering and pagination
  */
-export async function GET(request: NextRequest) {
+async function handleGetLists(request: NextRequest, context: ApiContext) {
       try {
     const { searchParams } = new URL(request.url);
     const filters = Object.fromEntries(searchParams.entries());
@@ -39,7 +72,7 @@ export async function GET(request: NextRequest) {
     await dbAPI.getDatabase().initialize();
     
     // Get user lists
-    const lists = await dbAPI.getUserLists("default-user");
+    const lists = await dbAPI.getUserLists(context.userId);
     
     // Apply filters
     let filteredLists = lists;
@@ -87,9 +120,11 @@ export async function GET(request: NextRequest) {
     // Get task counts for each list
     const listsWithCounts = await Promise.all(
       paginatedLists.map(async (list) => {
-        const listTasks = await dbAPI.getUserTasks("default-user", {
-          listId: list.id,
-        });
+        const listTasks = await dbAPI.getUserTasks(
+          context.userId,
+          { listId: list.id },
+          { include: [] }
+        );
             return {
           ...list,
           taskCount: listTasks.length,
@@ -135,7 +170,7 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/lists - Create new list
  */ 
-export async function POST(request: NextRequest) {
+async function handleCreateList(request: NextRequest, context: ApiContext) {
       try {
     const body = await request.json();
     const parsedData = createListSchema.parse(body);
@@ -144,7 +179,7 @@ export async function POST(request: NextRequest) {
     await dbAPI.getDatabase().initialize();
 
     // Get current lists to determine next position
-    const existingLists = await dbAPI.getUserLists("default-user");
+    const existingLists = await dbAPI.getUserLists(context.userId);
     const nextPosition =
       existingLists.length > 0
             ? Math.max(...existingLists.map((l) => (l.position || 0))) + 1
@@ -158,7 +193,7 @@ export async function POST(request: NextRequest) {
       emoji: parsedData.emoji || "📋",
       isFavorite: parsedData.isFavorite,
       isDefault: false,
-      userId: "default-user",
+      userId: context.userId,
       position: nextPosition,
     });
 
@@ -0,0 +1,80 @@
+/**
+ * Shared Lists API Route Handler
+ *
+ * GET /api/lists/shared - Get the lists other users shared with the user,
+ * with the user's role and the owner's name and avatar
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import { createSuccessResponse } from "../../_lib/utils";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetSharedLists(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
+// =============================================================================
+// GET /api/lists/shared - Get shared lists
+// =============================================================================
+
+async function handleGetSharedLists(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const lists = await dbAPI.getSharedLists(context.userId);
+
+    return createSuccessResponse(
+      {
+        lists,
+      },
+      {
+        total: lists.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Shared Lists API] Error fetching shared lists:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch shared lists",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
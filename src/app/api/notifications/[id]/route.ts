@@ -0,0 +1,160 @@
+/**
+ * Individual Notification API Route Handler
+ *
+ * PUT /api/notifications/[id] - Mark notification as read or unread
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import { NotFoundError } from "../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import {
+  createNotFoundError,
+  createSuccessResponse,
+  createValidationError,
+} from "../../_lib/utils";
+import {
+  idParamSchema,
+  updateNotificationSchema,
+} from "../../_lib/validation";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id } = await getNotificationId(req);
+
+      if (req.method === "PUT") {
+        return handleUpdateNotification(req, context, id);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as PUT };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate notification ID from request
+ */
+async function getNotificationId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const notificationId = segments[segments.length - 1];
+
+  const validation = idParamSchema.safeParse({ id: notificationId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_NOTIFICATION_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+// =============================================================================
+// PUT /api/notifications/[id] - Update notification
+// =============================================================================
+
+async function handleUpdateNotification(
+  req: NextRequest,
+  context: ApiContext,
+  notificationId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateNotificationSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const notification = await dbAPI.markNotificationRead(
+      notificationId,
+      context.userId,
+      validation.data.isRead
+    );
+
+    return createSuccessResponse(
+      {
+        notification,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      const notFound = createNotFoundError("Notification", notificationId);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...notFound,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error("[Notifications API] Error updating notification:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update notification",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Notifications API Route Handler
+ *
+ * Notification inbox of the signed-in user: reminders sent in-app and
+ * other notices
+ * GET /api/notifications - Get notifications, newest first
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../lib/db/api";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../_lib/utils";
+import { notificationsQuerySchema } from "../_lib/validation";
+import type { ApiContext } from "../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetNotifications(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
+// =============================================================================
+// GET /api/notifications - Get notifications
+// =============================================================================
+
+async function handleGetNotifications(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    const url = new URL(req.url);
+    const validation = notificationsQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const notifications = await dbAPI.getNotifications(context.userId, {
+      unreadOnly: validation.data.unread,
+      limit: validation.data.limit,
+    });
+    const unreadCount = await dbAPI.getUnreadNotificationCount(
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        notifications,
+      },
+      {
+        total: notifications.length,
+        unreadCount,
+        limit: validation.data.limit,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Notifications API] Error fetching notifications:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch notifications",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
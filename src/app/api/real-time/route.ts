@@ -1,164 +1,187 @@
 /**
- * Real-time WebSocket API Route Handler
+ * Real-time API Route Handler
  *
- * Handles WebSocket connections for real-time updates
- * GET /api/real-time - Upgrade to WebSocket connection
+ * Streams real-time messages to the client as Server-Sent Events
+ * GET /api/real-time - Open the event stream
+ *
+ * Each event is named after its message type and carries the message as
+ * JSON. A user receives messages about their own data and about lists
+ * shared with them. Reconnecting with Last-Event-ID replays the messages
+ * missed in between; when they are no longer available a "resync" event
+ * tells the client to reload instead.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { withErrorHandling } from "../_lib/middleware";
-import { createValidationError } from "../_lib/utils";
-import { websocketMessageSchema } from "../_lib/validation";
-import type {
-  ApiContext,
-  RealtimeMessage,
-  TaskUpdateMessage,
-} from "../_lib/types";
-import type { UserId } from "../../../types/utils";
+import { dbAPI } from "../../../lib/db/api";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import {
+  getRealtimeMessagesSince,
+  subscribeRealtime,
+} from "../_lib/realtime";
+import { forwardDomainEvents } from "../_lib/realtime-events";
+import type { ApiContext, RealtimeMessage } from "../_lib/types";
+
+// Comment lines sent while idle, so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Delay before the browser reconnects a dropped stream
+const RECONNECT_DELAY_MS = 3000;
+
+// Task, list and label changes are published as domain events
+forwardDomainEvents();
 
 // Apply middleware stack
-const handler = withErrorHandling(async (req: NextRequest) => {
-  if (req.method === "GET") {
-    return handleWebSocketConnection(req);
-  } else {
-    return NextResponse.json({ error: "Method Not Allowed" }, { status: 405 });
-  }
-});
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleEventStream(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
 
 export { handler as GET };
 
 // =============================================================================
-// WebSocket Connection Handler
-// =============================================================================
-
-function handleWebSocketConnection(req: NextRequest): NextResponse {
-  // In a real implementation, this would upgrade to WebSocket
-  // For now, return a placeholder response
-  return NextResponse.json({
-    message: "WebSocket endpoint - to be implemented",
-  });
-}
-
-// =============================================================================
-// WebSocket Message Processing
+// UTILITY FUNCTIONS
 // =============================================================================
 
 /**
- * Process incoming WebSocket message
+ * Whether a message may be sent to the user: it is about their own data,
+ * or about a list or task they have access to as a member
  */
-function processWebSocketMessage(
+async function canReceive(
   message: RealtimeMessage,
-  context: ApiContext
-): void {
-  try {
-    const validation = websocketMessageSchema.safeParse(message);
-    if (!validation.success) {
-      console.error("[WebSocket] Invalid message format:", validation.error);
-      return;
-    }
-
-    const validatedMessage = validation.data;
-
-    switch (validatedMessage.type) {
-      case "task_updated":
-        // Type-safe handling for task updates
-        if (
-          validatedMessage.payload.task &&
-          validatedMessage.payload.action
-        ) {
-          handleTaskUpdate(
-            {
-              task: validatedMessage.payload.task,
-              action: validatedMessage.payload.action,
-              changes: validatedMessage.payload.changes,
-              userId: validatedMessage.userId as UserId,
-            },
-            context
-          );
-        } else {
-          console.warn(
-            "[WebSocket] Invalid task update payload:",
-            validatedMessage.payload
-          );
-        }
-        break;
-      case "user_presence":
-        handlePresenceUpdate(
-          { ...validatedMessage, userId: validatedMessage.userId as UserId },
-          context
-        );
-        break;
-      case "notification":
-        handlePing(
-          { ...validatedMessage, userId: validatedMessage.userId as UserId },
-          context
-        );
-        break;
-      default:
-        console.warn(
-          "[WebSocket] Unknown message type:",
-          validatedMessage.type
-        );
-    }
-  } catch (error) {
-    console.error("[WebSocket] Error processing message:", error);
+  userId: string
+): Promise<boolean> {
+  if (message.userId === userId) {
+    return true;
   }
-}
 
-// =============================================================================
-// Message Type Handlers
-// =============================================================================
+  await dbAPI.getDatabase().initialize();
+  if (message.listId) {
+    return (await dbAPI.getListAccess(message.listId, userId)) !== null;
+  }
 
-/**
- * Handle task update message
- */
-function handleTaskUpdate(
-  message: TaskUpdateMessage,
-  context: ApiContext
-): void {
-  // Validate user has access to the task
-  // Broadcast update to relevant users
-  console.log(
-    `[WebSocket] Task ${message.task.id} updated by ${context.userId}`
-  );
-}
+  if (message.roomId?.startsWith("task:")) {
+    const taskId = message.roomId.slice("task:".length);
+    return (await dbAPI.getTaskAccess(taskId, userId)) !== null;
+  }
 
-/**
- * Handle presence update message
- */
-function handlePresenceUpdate(
-  message: RealtimeMessage,
-  context: ApiContext
-): void {
-  // Update user presence status
-  // Broadcast to other connected users
-  console.log(`[WebSocket] User ${context.userId} presence updated`);
+  return false;
 }
 
 /**
- * Handle ping message
+ * Format an event in the text/event-stream format
  */
-function handlePing(message: RealtimeMessage, context: ApiContext): void {
-  // Respond with pong
-  console.log(`[WebSocket] Ping from ${context.userId}`);
+function formatEvent(event: string, data: unknown, id?: string): string {
+  const lines = id ? [`id: ${id}`] : [];
+  lines.push(`event: ${event}`, `data: ${JSON.stringify(data)}`);
+  return `${lines.join("\n")}\n\n`;
 }
 
 // =============================================================================
-// Broadcast Functions
+// GET /api/real-time - Event stream
 // =============================================================================
 
-/**
- * Broadcast message to specific users
- */
-function broadcastToUsers(userIds: string[], message: any): void {
-  // Implementation would send to WebSocket connections
-  console.log(`[WebSocket] Broadcasting to users:`, userIds);
-}
+function handleEventStream(
+  req: NextRequest,
+  context: ApiContext
+): NextResponse {
+  const encoder = new TextEncoder();
+  const lastEventId =
+    req.headers.get("last-event-id") ??
+    req.nextUrl.searchParams.get("lastEventId");
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      // Messages are checked one at a time so they arrive in order
+      let queue = Promise.resolve();
+
+      const write = (chunk: string) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const send = (message: RealtimeMessage) => {
+        queue = queue
+          .then(async () => {
+            if (await canReceive(message, context.userId)) {
+              write(formatEvent(message.type, message, message.id));
+            }
+          })
+          .catch((error) => {
+            console.error("[Real-time API] Error sending message:", error);
+          });
+      };
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      if (lastEventId) {
+        const missed = getRealtimeMessagesSince(lastEventId);
+        if (missed) {
+          missed.forEach(send);
+        } else {
+          write(formatEvent("resync", { lastEventId }));
+        }
+      }
 
-/**
- * Broadcast message to all users in a list
- */
-function broadcastToList(listId: string, message: any): void {
-  // Implementation would send to users with access to the list
-  console.log(`[WebSocket] Broadcasting to list:`, listId);
+      const unsubscribe = subscribeRealtime(send);
+      const heartbeat = setInterval(() => {
+        write(`: heartbeat ${new Date().toISOString()}\n\n`);
+      }, HEARTBEAT_INTERVAL_MS);
+
+      close = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      req.signal.addEventListener("abort", () => close());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
 }
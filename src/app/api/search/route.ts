@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
+import type { Priority, TaskStatus, TaskWithDetails } from "@/lib/db/types";
+import type { ApiContext, SearchResult } from "../_lib/types";
 import { z } from "zod";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
 
 // Validation schemas
 const searchSchema = z.object({
@@ -22,10 +29,36 @@ const searchSchema = z.object({
     .optional(),
 });
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "POST") {
+        return handleSearch(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    }),
+    "search"
+  )
+);
+
+export { handler as POST };
+
 /**
- * POST /api/search - Search tasks and lists with fuzzy matching
+ * POST /api/search - Ranked full-text search over tasks, fuzzy matching for lists
  */
-export async function POST(request: NextRequest) {
+async function handleSearch(request: NextRequest, context: ApiContext) {
   try {
     const body = await request.json();
     const parsedData = searchSchema.parse(body);
@@ -43,91 +76,43 @@ export async function POST(request: NextRequest) {
 
     // Normalize search query
     const normalizedQuery = query.toLowerCase().trim();
+    let totalTasks = 0;
+    let totalLists = 0;
 
-    // Search tasks
+    // Search tasks through the full-text index
     if (type === "all" || type === "tasks") {
-      const tasks = await dbAPI.getUserTasks("default-user");
-      const matchingTasks = tasks.filter((task) => {
-        // Text matching in name, description, and other fields
-        const nameMatch = task.name.toLowerCase().includes(normalizedQuery);
-        const descMatch = task.description
-          ?.toLowerCase()
-          .includes(normalizedQuery);
-
-        // Fuzzy matching for better results
-        const fuzzyNameMatch = fuzzyMatch(
-          normalizedQuery,
-          task.name.toLowerCase()
-        );
-        const fuzzyDescMatch = task.description
-          ? fuzzyMatch(normalizedQuery, task.description.toLowerCase())
-          : false;
-
-        // Apply filters
-        if (filters) {
-          if (filters.status && task.status !== filters.status) return false;
-          if (filters.priority && task.priority !== filters.priority)
-            return false;
-          if (filters.listId && task.listId !== filters.listId) return false;
-          if (
-            filters.completed !== undefined &&
-            (task.status === "done") !== filters.completed
-          )
-            return false;
-
-          // Due date filters
-          if (filters.dueDateFrom && task.deadline) {
-            const taskDate = new Date(task.deadline);
-            const fromDate = new Date(filters.dueDateFrom);
-            if (taskDate < fromDate) return false;
-          }
-
-          if (filters.dueDateTo && task.deadline) {
-            const taskDate = new Date(task.deadline);
-            const toDate = new Date(filters.dueDateTo);
-            if (taskDate > toDate) return false;
-          }
-        }
-
-        return nameMatch || descMatch || fuzzyNameMatch || fuzzyDescMatch;
-      });
-
-      // Sort by relevance (exact matches first, then fuzzy matches)
-      const sortedTasks = matchingTasks.sort((a, b) => {
-        const aExact =
-          a.name.toLowerCase() === normalizedQuery ||
-          a.description?.toLowerCase() === normalizedQuery;
-        const bExact =
-          b.name.toLowerCase() === normalizedQuery ||
-          b.description?.toLowerCase() === normalizedQuery;
-
-        if (aExact && !bExact) return -1;
-        if (!aExact && bExact) return 1;
-
-        // Then sort by task priority and due date
-        const priorityOrder = { High: 3, Medium: 2, Low: 1, None: 0 };
-        const priorityDiff =
-          priorityOrder[b.priority] - priorityOrder[a.priority];
-        if (priorityDiff !== 0) return priorityDiff;
-
-        // Finally by deadline
-        if (a.deadline && b.deadline) {
-          return (
-            new Date(a.deadline).getTime() - new Date(b.deadline).getTime()
-          );
+      const { results: matches, total } = await dbAPI.searchTasks(
+        context.userId,
+        query,
+        {
+          limit,
+          offset,
+          filters: filters && {
+            ...filters,
+            status: filters.status as TaskStatus | undefined,
+            priority: filters.priority as Priority | undefined,
+          },
         }
-        if (a.deadline && !b.deadline) return -1;
-        if (!a.deadline && b.deadline) return 1;
-
-        return 0;
-      });
-
-      results.tasks = sortedTasks.slice(offset, offset + limit);
+      );
+
+      results.tasks = matches.map(
+        (match): SearchResult<TaskWithDetails> => ({
+          entity: match.task,
+          score: match.score,
+          highlights: match.highlights,
+          snippet: match.snippet,
+          matchType:
+            match.task.name.toLowerCase() === normalizedQuery
+              ? "exact"
+              : "partial",
+        })
+      );
+      totalTasks = total;
     }
 
     // Search lists
     if (type === "all" || type === "lists") {
-      const lists = await dbAPI.getUserLists("default-user");
+      const lists = await dbAPI.getUserLists(context.userId);
       const matchingLists = lists.filter((list) => {
         const nameMatch = list.name.toLowerCase().includes(normalizedQuery);
         const descMatch = list.description
@@ -167,10 +152,11 @@ export async function POST(request: NextRequest) {
       });
 
       results.lists = sortedLists.slice(offset, offset + limit);
+      totalLists = sortedLists.length;
     }
 
     // Calculate total results
-    results.total = results.tasks.length + results.lists.length;
+    results.total = totalTasks + totalLists;
 
     const response = {
       success: true,
@@ -178,10 +164,10 @@ export async function POST(request: NextRequest) {
         query,
         results,
         metadata: {
-          totalTasks: results.tasks.length,
-          totalLists: results.lists.length,
+          totalTasks,
+          totalLists,
           totalResults: results.total,
-          hasMore: results.total > offset + limit,
+          hasMore: Math.max(totalTasks, totalLists) > offset + limit,
           searchTime: Date.now(),
         },
       },
@@ -0,0 +1,96 @@
+/**
+ * Public Share API Route Handler
+ *
+ * GET /api/share/[linkId] - Get a shared list with its tasks and subtasks.
+ * Needs no authentication; private fields such as attachments and
+ * reminders are left out, and requests count against the "share" rate
+ * limit rather than the app's own.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import { withRateLimit, withErrorHandling } from "../../_lib/middleware";
+import { createSuccessResponse } from "../../_lib/utils";
+import { shareLinkIdSchema } from "../../_lib/validation";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(async (req: NextRequest) => {
+    if (req.method === "GET") {
+      return handleGetSharedList(req);
+    } else {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "METHOD_NOT_ALLOWED",
+            message: `Method ${req.method} not allowed`,
+            statusCode: 405,
+          },
+        },
+        { status: 405 }
+      );
+    }
+  }, "share")
+);
+
+export { handler as GET };
+
+// =============================================================================
+// GET /api/share/[linkId] - Get shared list
+// =============================================================================
+
+async function handleGetSharedList(req: NextRequest): Promise<NextResponse> {
+  try {
+    const segments = req.nextUrl.pathname.split("/");
+    const linkId = shareLinkIdSchema.safeParse(segments[segments.length - 1]);
+
+    await dbAPI.getDatabase().initialize();
+
+    // Unknown, revoked and expired links look the same from outside
+    const list = linkId.success ? await dbAPI.getPublicList(linkId.data) : null;
+
+    if (!list) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "This share link does not exist or has expired",
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const response = createSuccessResponse(
+      {
+        list,
+      },
+      {
+        total: list.tasks.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+    // Revoking a link takes effect at once
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error) {
+    console.error("[Share API] Error fetching shared list:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch shared list",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,8 +8,11 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { dbAPI } from "../../../../../lib/db/api";
+import { getBlobStorage, hashContent } from "../../../../../lib/storage";
 import {
   withAuth,
+  withListAccess,
+  taskFromPath,
   withRateLimit,
   withErrorHandling,
 } from "../../../_lib/middleware";
@@ -24,27 +27,29 @@ import type { ApiContext } from "../../../_lib/types";
 // Apply middleware stack
 const handler = withErrorHandling(
   withRateLimit(
-    withAuth(async (req: NextRequest, context: ApiContext) => {
-      const { id: taskId } = await getTaskId(req);
-
-      if (req.method === "GET") {
-        return handleGetAttachments(req, context, taskId);
-      } else if (req.method === "POST") {
-        return handleUploadAttachment(req, context, taskId);
-      } else {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "METHOD_NOT_ALLOWED",
-              message: `Method ${req.method} not allowed`,
-              statusCode: 405,
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId } = await getTaskId(req);
+
+        if (req.method === "GET") {
+          return handleGetAttachments(req, context, taskId);
+        } else if (req.method === "POST") {
+          return handleUploadAttachment(req, context, taskId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
             },
-          },
-          { status: 405 }
-        );
-      }
-    })
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
   )
 );
 
@@ -87,8 +92,10 @@ async function handleGetAttachments(
   taskId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify task exists and belongs to user
-    const task = await dbAPI.getTaskWithDetails(taskId);
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
     if (!task) {
       const error = createNotFoundError("Task", taskId);
       return NextResponse.json(
@@ -103,23 +110,8 @@ async function handleGetAttachments(
       );
     }
 
-    if (task.userId !== context.userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "FORBIDDEN",
-            message: "Access denied to this task",
-            statusCode: 403,
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // Get attachments
-    const attachments = await dbAPI.getAttachments(taskId);
+    const attachments = await dbAPI.getAttachments(taskId, context.userId);
 
     // Calculate total size and categorize by type
     const totalSize = attachments.reduce((sum, att) => sum + att.size, 0);
@@ -167,8 +159,10 @@ async function handleUploadAttachment(
   taskId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify task exists and belongs to user
-    const task = await dbAPI.getTaskWithDetails(taskId);
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
     if (!task) {
       const error = createNotFoundError("Task", taskId);
       return NextResponse.json(
@@ -183,21 +177,6 @@ async function handleUploadAttachment(
       );
     }
 
-    if (task.userId !== context.userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "FORBIDDEN",
-            message: "Access denied to this task",
-            statusCode: 403,
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // Handle file upload
     const formData = await req.formData();
     const file = formData.get("file") as File;
@@ -236,25 +215,25 @@ async function handleUploadAttachment(
       );
     }
 
-    // Generate unique filename
-    const fileExtension = file.name.split(".").pop();
-    const fileName = `${crypto.randomUUID()}.${fileExtension}`;
-    const filePath = `uploads/attachments/${fileName}`;
-
-    // In a real implementation, you would:
-    // 1. Save the file to cloud storage (AWS S3, Google Cloud Storage, etc.)
-    // 2. Get the public URL
-    // For now, we'll simulate the upload process
+    // Identical uploads share one blob, addressed by content hash
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const blobHash = hashContent(buffer);
+    const storage = getBlobStorage();
+    await storage.put(blobHash, buffer);
 
     // Create attachment record
-    const attachment = await dbAPI.createAttachment({
-      taskId,
-      filename: fileName,
-      originalName: file.name,
-      mimeType: file.type,
-      size: file.size,
-      path: filePath,
-    });
+    const attachment = await dbAPI.createAttachment(
+      {
+        taskId,
+        filename: blobHash,
+        originalName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        path: storage.keyFor(blobHash),
+        blobHash,
+      },
+      context.userId
+    );
 
     return createSuccessResponse(
       {
@@ -405,10 +384,7 @@ async function deleteAttachment(
   attachmentId: string,
   userId: string
 ): Promise<void> {
-  // In a real implementation, you would:
-  // 1. Verify the attachment belongs to a task owned by the user
-  // 2. Delete the file from storage
-  // 3. Delete the database record
-
-  await dbAPI.deleteAttachment(attachmentId);
+  // In a real implementation, you would also delete the file from storage.
+  // Attachments of other users' tasks are rejected with NotFoundError.
+  await dbAPI.deleteAttachment(attachmentId, userId);
 }
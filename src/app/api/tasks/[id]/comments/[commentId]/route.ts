@@ -0,0 +1,284 @@
+/**
+ * Task Comment API Route Handler
+ *
+ * Changes to a single comment; only its author can edit or delete it
+ * PUT /api/tasks/[id]/comments/[commentId] - Edit the comment
+ * DELETE /api/tasks/[id]/comments/[commentId] - Delete the comment
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../lib/db/api";
+import {
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+} from "../../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../_lib/middleware";
+import { publishRealtimeMessage } from "../../../../_lib/realtime";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../_lib/utils";
+import {
+  taskCommentParamsSchema,
+  taskCommentSchema,
+} from "../../../../_lib/validation";
+import type { ApiContext, TaskCommentMessage } from "../../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const params = await getCommentParams(req);
+
+        if (req.method === "PUT") {
+          return handleUpdateComment(req, context, params);
+        } else if (req.method === "DELETE") {
+          return handleDeleteComment(req, context, params);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate task and comment IDs from request
+ */
+async function getCommentParams(
+  req: NextRequest
+): Promise<{ id: string; commentId: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  // tasks/[id]/comments/[commentId]
+  const validation = taskCommentParamsSchema.safeParse({
+    id: segments[segments.length - 3],
+    commentId: segments[segments.length - 1],
+  });
+
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_COMMENT_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return validation.data;
+}
+
+/**
+ * Map database errors to 400/403/404 responses
+ */
+function createCommentErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof DatabaseError)) {
+    return null;
+  }
+
+  const statusCode =
+    error instanceof NotFoundError
+      ? 404
+      : error instanceof ValidationError
+      ? 400
+      : error.code === "FORBIDDEN"
+      ? 403
+      : null;
+  if (!statusCode) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+/**
+ * Comments are addressed through their task, so a comment on another
+ * task is reported as missing
+ */
+async function getTaskComment(
+  context: ApiContext,
+  { id: taskId, commentId }: { id: string; commentId: string }
+) {
+  const comments = await dbAPI.getTaskComments(taskId, context.userId);
+  const comment = comments.find((candidate) => candidate.id === commentId);
+  if (!comment) {
+    throw new NotFoundError(`Comment with ID ${commentId} not found`);
+  }
+  return comment;
+}
+
+// =============================================================================
+// PUT /api/tasks/[id]/comments/[commentId] - Update comment
+// =============================================================================
+
+async function handleUpdateComment(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; commentId: string }
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = taskCommentSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    await getTaskComment(context, params);
+    const comment = await dbAPI.updateTaskComment(
+      params.commentId,
+      validation.data.body,
+      context.userId,
+      context.actorId
+    );
+
+    publishRealtimeMessage<TaskCommentMessage>(
+      "comment_updated",
+      { taskId: params.id, comment, action: "updated" },
+      context.userId,
+      `task:${params.id}`
+    );
+
+    return createSuccessResponse(
+      {
+        comment,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createCommentErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Task Comments API] Error updating comment:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update comment",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/tasks/[id]/comments/[commentId] - Delete comment
+// =============================================================================
+
+async function handleDeleteComment(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; commentId: string }
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await getTaskComment(context, params);
+    const comment = await dbAPI.deleteTaskComment(
+      params.commentId,
+      context.userId,
+      context.actorId
+    );
+
+    publishRealtimeMessage<TaskCommentMessage>(
+      "comment_deleted",
+      { taskId: params.id, comment, action: "deleted" },
+      context.userId,
+      `task:${params.id}`
+    );
+
+    return createSuccessResponse(
+      {
+        commentId: params.commentId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createCommentErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Task Comments API] Error deleting comment:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to delete comment",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Task Comments API Route Handler
+ *
+ * Discussion thread on a task
+ * GET /api/tasks/[id]/comments - Get the task's comments, oldest first
+ * POST /api/tasks/[id]/comments - Comment on the task
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import { publishRealtimeMessage } from "../../../_lib/realtime";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import { idParamSchema, taskCommentSchema } from "../../../_lib/validation";
+import type { ApiContext, TaskCommentMessage } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId } = await getTaskId(req);
+
+        if (req.method === "GET") {
+          return handleGetComments(req, context, taskId);
+        } else if (req.method === "POST") {
+          return handleCreateComment(req, context, taskId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate task ID from request
+ */
+async function getTaskId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const taskId = segments[segments.length - 2]; // tasks/[id]/comments
+
+  const validation = idParamSchema.safeParse({ id: taskId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TASK_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/tasks/[id]/comments - Get comments
+// =============================================================================
+
+async function handleGetComments(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const comments = await dbAPI.getTaskComments(taskId, context.userId);
+
+    return createSuccessResponse(
+      {
+        comments,
+      },
+      {
+        total: comments.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Task Comments API] Error fetching comments:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch comments",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/comments - Create comment
+// =============================================================================
+
+async function handleCreateComment(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = taskCommentSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+
+    // Also logged in the task's history
+    const comment = await dbAPI.addTaskComment(
+      taskId,
+      validation.data.body,
+      context.userId,
+      context.actorId
+    );
+
+    publishRealtimeMessage<TaskCommentMessage>(
+      "comment_added",
+      { taskId, comment, action: "created" },
+      context.userId,
+      `task:${taskId}`
+    );
+
+    return createSuccessResponse(
+      {
+        comment,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Task Comments API] Error creating comment:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create comment",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
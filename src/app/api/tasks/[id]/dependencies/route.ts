@@ -0,0 +1,362 @@
+/**
+ * Task Dependencies API Route Handler
+ *
+ * Handles blocked-by / blocks relationships between tasks
+ * GET /api/tasks/[id]/dependencies - Get the tasks this task is blocked by and blocks
+ * POST /api/tasks/[id]/dependencies - Make this task blocked by another task
+ * DELETE /api/tasks/[id]/dependencies?dependsOnTaskId=... - Remove a dependency
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import { taskDependencySchema, idParamSchema } from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId } = await getTaskId(req);
+
+        if (req.method === "GET") {
+          return handleGetDependencies(req, context, taskId);
+        } else if (req.method === "POST") {
+          return handleAddDependency(req, context, taskId);
+        } else if (req.method === "DELETE") {
+          return handleRemoveDependency(req, context, taskId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as GET, handler as POST, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate task ID from request
+ */
+async function getTaskId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const taskId = segments[segments.length - 2]; // tasks/[id]/dependencies
+
+  const validation = idParamSchema.safeParse({ id: taskId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TASK_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Whether the user making the request can see the task. On a shared list
+ * the handler runs in the owner's scope, which also reaches the owner's
+ * lists that are not shared with them.
+ */
+async function isVisibleToActor(
+  context: ApiContext,
+  taskId: string
+): Promise<boolean> {
+  if (!context.actorId || context.actorId === context.userId) {
+    return true;
+  }
+  return (await dbAPI.getTaskAccess(taskId, context.actorId)) !== null;
+}
+
+/**
+ * Throw NotFoundError for the other task of a dependency when the user
+ * making the request cannot see it
+ */
+async function assertVisibleToActor(
+  context: ApiContext,
+  taskId: string
+): Promise<void> {
+  if (!(await isVisibleToActor(context, taskId))) {
+    throw new NotFoundError(`Task with ID ${taskId} not found`);
+  }
+}
+
+/**
+ * Map dependency validation and lookup errors to responses
+ */
+function createDependencyErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+    return null;
+  }
+
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+/**
+ * Build a validation error response for an invalid dependency payload
+ */
+function createInvalidDependencyResponse(
+  issue: { path: PropertyKey[]; message: string; input?: unknown }
+): NextResponse {
+  const error = createValidationError(
+    issue.path.join("."),
+    issue.message,
+    issue.input,
+    "VALIDATION_ERROR"
+  );
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        ...error,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 400 }
+  );
+}
+
+// =============================================================================
+// GET /api/tasks/[id]/dependencies - Get task dependencies
+// =============================================================================
+
+async function handleGetDependencies(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const dependencies = await dbAPI.getTaskDependencies(
+      taskId,
+      context.userId
+    );
+    // Blockers the user cannot see still block the task
+    const openBlockers = dependencies.blockedBy.filter(
+      (task) => task.status !== "done"
+    );
+
+    const visible = async (tasks: typeof dependencies.blockedBy) => {
+      const shown = await Promise.all(
+        tasks.map((task) => isVisibleToActor(context, task.id))
+      );
+      return tasks.filter((_, index) => shown[index]);
+    };
+    const blockedBy = await visible(dependencies.blockedBy);
+    const blocks = await visible(dependencies.blocks);
+
+    return createSuccessResponse(
+      {
+        blockedBy,
+        blocks,
+        isBlocked: openBlockers.length > 0,
+      },
+      {
+        openBlockers: openBlockers.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createDependencyErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Task Dependencies API] Error fetching dependencies:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch task dependencies",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/dependencies - Add dependency
+// =============================================================================
+
+async function handleAddDependency(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = taskDependencySchema.safeParse(body);
+
+    if (!validation.success) {
+      return createInvalidDependencyResponse(validation.error.issues[0]);
+    }
+
+    await dbAPI.getDatabase().initialize();
+    await assertVisibleToActor(context, validation.data.dependsOnTaskId);
+
+    // Rejects self-references, other users' tasks and cycles
+    const dependency = await dbAPI.addTaskDependency(
+      taskId,
+      validation.data.dependsOnTaskId,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        dependency,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    const response = createDependencyErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Task Dependencies API] Error adding dependency:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to add task dependency",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/tasks/[id]/dependencies - Remove dependency
+// =============================================================================
+
+async function handleRemoveDependency(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    const url = new URL(req.url);
+    const validation = taskDependencySchema.safeParse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return createInvalidDependencyResponse(validation.error.issues[0]);
+    }
+
+    const { dependsOnTaskId } = validation.data;
+    await dbAPI.getDatabase().initialize();
+    await assertVisibleToActor(context, dependsOnTaskId);
+
+    const removed = await dbAPI.removeTaskDependency(
+      taskId,
+      dependsOnTaskId,
+      context.userId
+    );
+
+    if (!removed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: `Task ${taskId} does not depend on task ${dependsOnTaskId}`,
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return createSuccessResponse(
+      {
+        taskId,
+        dependsOnTaskId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createDependencyErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Task Dependencies API] Error removing dependency:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to remove task dependency",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
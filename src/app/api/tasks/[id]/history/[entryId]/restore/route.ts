@@ -0,0 +1,149 @@
+/**
+ * Task History Restore API Route Handler
+ *
+ * Rolls a task back to the version recorded by a history entry
+ * POST /api/tasks/[id]/history/[entryId]/restore - Undo every change logged after the entry
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../../lib/db/api";
+import {
+  NotFoundError,
+  ValidationError,
+} from "../../../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../../_lib/utils";
+import { restoreTaskHistoryParamsSchema } from "../../../../../_lib/validation";
+import type { ApiContext } from "../../../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const params = await getRestoreParams(req);
+
+        if (req.method === "POST") {
+          return handleRestoreVersion(req, context, params);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate task and history entry IDs from request
+ */
+async function getRestoreParams(
+  req: NextRequest
+): Promise<{ id: string; entryId: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  // tasks/[id]/history/[entryId]/restore
+  const validation = restoreTaskHistoryParamsSchema.safeParse({
+    id: segments[segments.length - 4],
+    entryId: segments[segments.length - 2],
+  });
+
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_HISTORY_ENTRY"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return validation.data;
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/history/[entryId]/restore - Restore task version
+// =============================================================================
+
+async function handleRestoreVersion(
+  req: NextRequest,
+  context: ApiContext,
+  { id: taskId, entryId }: { id: string; entryId: string }
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const task = await dbAPI.restoreTaskVersion(
+      taskId,
+      entryId,
+      context.userId,
+      context.actorId
+    );
+
+    return createSuccessResponse(
+      {
+        task,
+        restoredFrom: entryId,
+      },
+      {
+        action: "restored",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      const statusCode = error instanceof NotFoundError ? 404 : 400;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: statusCode }
+      );
+    }
+
+    console.error("[Task History API] Error restoring version:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to restore task version",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
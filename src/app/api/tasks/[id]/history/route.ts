@@ -0,0 +1,165 @@
+/**
+ * Task History API Route Handler
+ *
+ * Handles the change log of individual tasks
+ * GET /api/tasks/[id]/history - Get history entries with before/after diffs
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+  createNotFoundError,
+} from "../../../_lib/utils";
+import { taskHistoryQuerySchema, idParamSchema } from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId } = await getTaskId(req);
+
+        if (req.method === "GET") {
+          return handleGetHistory(req, context, taskId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as GET };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate task ID from request
+ */
+async function getTaskId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const taskId = segments[segments.length - 2]; // tasks/[id]/history
+
+  const validation = idParamSchema.safeParse({ id: taskId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TASK_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+// =============================================================================
+// GET /api/tasks/[id]/history - Get task history
+// =============================================================================
+
+async function handleGetHistory(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    const url = new URL(req.url);
+    const validation = taskHistoryQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const history = await dbAPI.getTaskHistory(
+      taskId,
+      context.userId,
+      validation.data.limit
+    );
+
+    return createSuccessResponse(
+      {
+        history,
+      },
+      {
+        total: history.length,
+        limit: validation.data.limit,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      const notFound = createNotFoundError("Task", taskId);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...notFound,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error("[Task History API] Error fetching history:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch task history",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { dbAPI } from "../../../../../lib/db/api";
 import {
   withAuth,
+  withListAccess,
+  taskFromPath,
   withRateLimit,
   withErrorHandling,
 } from "../../../_lib/middleware";
@@ -24,27 +26,29 @@ import type { ApiContext } from "../../../_lib/types";
 // Apply middleware stack
 const handler = withErrorHandling(
   withRateLimit(
-    withAuth(async (req: NextRequest, context: ApiContext) => {
-      const { id: taskId } = await getTaskId(req);
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId } = await getTaskId(req);
 
-      if (req.method === "GET") {
-        return handleGetReminders(req, context, taskId);
-      } else if (req.method === "POST") {
-        return handleCreateReminder(req, context, taskId);
-      } else {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "METHOD_NOT_ALLOWED",
-              message: `Method ${req.method} not allowed`,
-              statusCode: 405,
+        if (req.method === "GET") {
+          return handleGetReminders(req, context, taskId);
+        } else if (req.method === "POST") {
+          return handleCreateReminder(req, context, taskId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
             },
-          },
-          { status: 405 }
-        );
-      }
-    })
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
   )
 );
 
@@ -87,8 +91,10 @@ async function handleGetReminders(
   taskId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify task exists and belongs to user
-    const task = await dbAPI.getTaskWithDetails(taskId);
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
     if (!task) {
       const error = createNotFoundError("Task", taskId);
       return NextResponse.json(
@@ -103,23 +109,8 @@ async function handleGetReminders(
       );
     }
 
-    if (task.userId !== context.userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "FORBIDDEN",
-            message: "Access denied to this task",
-            statusCode: 403,
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // Get reminders
-    const reminders = await dbAPI.getReminders(taskId);
+    const reminders = await dbAPI.getReminders(taskId, context.userId);
     const now = new Date();
 
     // Categorize reminders
@@ -173,8 +164,10 @@ async function handleCreateReminder(
   taskId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify task exists and belongs to user
-    const task = await dbAPI.getTaskWithDetails(taskId);
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
     if (!task) {
       const error = createNotFoundError("Task", taskId);
       return NextResponse.json(
@@ -189,21 +182,6 @@ async function handleCreateReminder(
       );
     }
 
-    if (task.userId !== context.userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "FORBIDDEN",
-            message: "Access denied to this task",
-            statusCode: 403,
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // Parse and validate request body
     const body = await req.json();
     const validation = createReminderSchema.safeParse({ ...body, taskId });
@@ -252,7 +230,7 @@ async function handleCreateReminder(
     }
 
     // Check for duplicate reminders
-    const existingReminders = await dbAPI.getReminders(taskId);
+    const existingReminders = await dbAPI.getReminders(taskId, context.userId);
     const duplicateReminder = existingReminders.find(
       (r) =>
         new Date(r.remindAt).getTime() === reminderDate.getTime() &&
@@ -276,12 +254,15 @@ async function handleCreateReminder(
     }
 
     // Create reminder
-    const newReminder = await dbAPI.createReminder({
-      taskId,
-      remindAt: reminderDate,
-      method,
-      isSent: false,
-    });
+    const newReminder = await dbAPI.createReminder(
+      {
+        taskId,
+        remindAt: reminderDate,
+        method,
+        isSent: false,
+      },
+      context.userId
+    );
 
     return createSuccessResponse(
       {
@@ -3,6 +3,17 @@ import { createDatabaseAPI } from "@/lib/db/api";
 import { UpdateTaskData } from "@/types/tasks";
 import { TaskId, ListId, Priority } from "@/types/utils";
 import { z } from "zod";
+import {
+  withAuth,
+  withListAccess,
+  checkPermissions,
+  getListPermissions,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import { customFieldValuesSchema } from "../../_lib/validation";
+import type { ApiContext } from "../../_lib/types";
 
 // Validation schemas
 const updateTaskSchema = z.object({
@@ -25,14 +36,57 @@ const updateTaskSchema = z.object({
   recurringPattern: z.any().optional(),
   listId: z.string().nullable().optional(),
   position: z.number().nonnegative().optional(),
+  customFields: customFieldValuesSchema.optional(),
 });
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const params = getRouteParams(req);
+
+        if (req.method === "GET") {
+          return handleGetTask(req, context, params);
+        } else if (req.method === "PUT") {
+          return handleUpdateTask(req, context, params);
+        } else if (req.method === "DELETE") {
+          return handleDeleteTask(req, context, params);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as GET, handler as PUT, handler as DELETE };
+
+/**
+ * Extract route params from the request path
+ */
+function getRouteParams(req: NextRequest): { id: string } {
+  const segments = req.nextUrl.pathname.split("/");
+  return { id: segments[segments.length - 1] };
+}
+
 /**
  * GET /api/tasks/[id] - Get specific task with details
  */
-export async function GET(
+async function handleGetTask(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  context: ApiContext,
+  params: { id: string }
 ) {
   try {
     const taskId = params.id;
@@ -54,7 +108,7 @@ export async function GET(
     await dbAPI.getDatabase().initialize();
 
     // Get task with full details
-    const task = await dbAPI.getTaskWithDetails(taskId);
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
 
     if (!task) {
       return NextResponse.json(
@@ -94,9 +148,10 @@ export async function GET(
 /**
  * PUT /api/tasks/[id] - Update task
  */
-export async function PUT(
+async function handleUpdateTask(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  context: ApiContext,
+  params: { id: string }
 ) {
   try {
     const taskId = params.id;
@@ -120,6 +175,34 @@ export async function PUT(
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
 
+    // Members of a shared list can only move tasks to lists they can edit
+    if (parsedData.listId && context.actorId !== context.userId) {
+      const access = await dbAPI.getListAccess(
+        parsedData.listId,
+        context.actorId ?? context.userId
+      );
+      const permissionResult = checkPermissions(
+        {
+          isAuthenticated: context.isAuthenticated,
+          permissions: getListPermissions(access?.role),
+        },
+        ["write"]
+      );
+
+      if (!permissionResult.allowed) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "FORBIDDEN",
+              message: `Cannot move the task to list ${parsedData.listId}`,
+            },
+          },
+          { status: 403 }
+        );
+      }
+    }
+
     // Prepare update data
     const updateData: UpdateTaskData = {
       id: taskId as TaskId,
@@ -133,13 +216,15 @@ export async function PUT(
       recurringPattern: parsedData.recurringPattern,
       listId: parsedData.listId ? (parsedData.listId as ListId) : undefined,
       position: parsedData.position,
+      customFields: parsedData.customFields,
     };
 
     // Update task
     const updatedTask = await dbAPI.updateTask(
       updateData.id,
       updateData,
-      "default-user"
+      context.userId,
+      context.actorId
     );
 
     if (!updatedTask) {
@@ -179,11 +264,12 @@ export async function PUT(
 }
 
 /**
- * DELETE /api/tasks/[id] - Delete task
+ * DELETE /api/tasks/[id] - Move task to the trash
  */
-export async function DELETE(
+async function handleDeleteTask(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  context: ApiContext,
+  params: { id: string }
 ) {
   try {
     const taskId = params.id;
@@ -204,12 +290,12 @@ export async function DELETE(
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
 
-    // Delete task (this will also handle related data like subtasks, reminders, etc.)
-    await dbAPI.deleteTask(taskId, "default-user");
+    // Move task to the trash (related data is kept until the trash is purged)
+    await dbAPI.deleteTask(taskId, context.userId, context.actorId);
 
     const response = {
       success: true,
-      message: "Task deleted successfully",
+      message: "Task moved to trash",
     };
 
     return NextResponse.json(response);
@@ -9,7 +9,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { dbAPI } from "../../../../../lib/db/api";
 import { 
-  withAuth, 
+  withAuth,
+  withListAccess,
+  taskFromPath,
   withRateLimit, 
   withErrorHandling ,
 } from "../../../_lib/middleware";
@@ -24,27 +26,29 @@ import type { ApiContext } from "../../../_lib/types";
 // Apply middleware stack
 const handler = withErrorHandling(
   withRateLimit(
-    withAuth(async (req: NextRequest, context: ApiContext) => {
-      const { id: taskId } = await getTaskId(req);
-
-      if (req.method === "GET") {
-        return handleGetSubtasks(req, context, taskId);
-            } else if (req.method === "POST") {
-        return handleCreateSubtask(req, context, taskId);
-      } else {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "METHOD_NOT_ALLOWED",
-              message: `Method ${req.method} not allowed`,
-              statusCode: 405,
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId } = await getTaskId(req);
+
+        if (req.method === "GET") {
+          return handleGetSubtasks(req, context, taskId);
+              } else if (req.method === "POST") {
+          return handleCreateSubtask(req, context, taskId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
             },
-          },
-          { status: 405 }
-        );
-      }
-    })
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
   )
 );
 
@@ -87,8 +91,10 @@ async function handleGetSubtasks(
   taskId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify task exists and belongs to user
-    const task = await dbAPI.getTaskWithDetails(taskId);
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
     if (!task) {
       const error = createNotFoundError("Task", taskId);
       return NextResponse.json(
@@ -103,23 +109,8 @@ async function handleGetSubtasks(
       );
     }
 
-    if (task.userId !== context.userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: "FORBIDDEN",
-            message: "Access denied to this task",
-            statusCode: 403,
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // Get subtasks
-    const subtasks = await dbAPI.getSubtasks(taskId);
+    const subtasks = await dbAPI.getSubtasks(taskId, context.userId);
 
     return createSuccessResponse(
           {
@@ -160,8 +151,10 @@ async function handleCreateSubtask(
   taskId: string
 ): Promise<NextResponse> {
   try {
+    await dbAPI.getDatabase().initialize();
+
     // Verify task exists and belongs to user
-    const task = await dbAPI.getTaskWithDetails(taskId);
+    const task = await dbAPI.getTaskWithDetails(taskId, context.userId);
     if (!task) {
       const error = createNotFoundError("Task", taskId);
       return NextResponse.json(
@@ -176,21 +169,6 @@ async function handleCreateSubtask(
       );
     }
 
-    if (task.userId !== context.userId) {
-      return NextResponse.json(
-              {
-          success: false,
-          error: {
-            code: "FORBIDDEN",
-            message: "Access denied to this task",
-            statusCode: 403,
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 403 }
-      );
-    }
-
     // Parse and validate request body
     const body = await req.json();
     const validation = createSubtaskSchema.safeParse({ ...body, taskId });
@@ -219,15 +197,19 @@ async function handleCreateSubtask(
     const { name, position } = validation.data;
 
     // Get current subtasks to determine next position
-    const existingSubtasks = await dbAPI.getSubtasks(taskId);
+    const existingSubtasks = await dbAPI.getSubtasks(taskId, context.userId);
     const nextPosition = position || existingSubtasks.length;
 
-     const newSubtask = await dbAPI.createSubtask({
-      name,
-      taskId,
-      position: nextPosition,
-      isCompleted: false,
-    });
+     const newSubtask = await dbAPI.createSubtask(
+      {
+        name,
+        taskId,
+        position: nextPosition,
+        isCompleted: false,
+      },
+      context.userId,
+      context.actorId
+    );
 
     return createSuccessResponse(
       {
@@ -0,0 +1,259 @@
+/**
+ * Task Time Entry API Route Handler
+ *
+ * Changes to a single time entry of a task
+ * PUT /api/tasks/[id]/time-entries/[entryId] - Correct the entry's times or description
+ * DELETE /api/tasks/[id]/time-entries/[entryId] - Remove the entry
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../lib/db/api";
+import {
+  NotFoundError,
+  ValidationError,
+} from "../../../../../../lib/db/types";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../_lib/utils";
+import {
+  timeEntryParamsSchema,
+  updateTimeEntrySchema,
+} from "../../../../_lib/validation";
+import type { ApiContext } from "../../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const params = await getEntryParams(req);
+
+        if (req.method === "PUT") {
+          return handleUpdateTimeEntry(req, context, params);
+        } else if (req.method === "DELETE") {
+          return handleDeleteTimeEntry(req, context, params);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate task and entry IDs from request
+ */
+async function getEntryParams(
+  req: NextRequest
+): Promise<{ id: string; entryId: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  // tasks/[id]/time-entries/[entryId]
+  const validation = timeEntryParamsSchema.safeParse({
+    id: segments[segments.length - 3],
+    entryId: segments[segments.length - 1],
+  });
+
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TIME_ENTRY_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return validation.data;
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+/**
+ * Entries are addressed through their task, so an entry of another task
+ * is reported as missing
+ */
+async function getTaskEntry(
+  context: ApiContext,
+  { id: taskId, entryId }: { id: string; entryId: string }
+) {
+  const entries = await dbAPI.getTimeEntries(taskId, context.userId);
+  const entry = entries.find((candidate) => candidate.id === entryId);
+  if (!entry) {
+    throw new NotFoundError(`Time entry with ID ${entryId} not found`);
+  }
+  return entry;
+}
+
+// =============================================================================
+// PUT /api/tasks/[id]/time-entries/[entryId] - Update time entry
+// =============================================================================
+
+async function handleUpdateTimeEntry(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; entryId: string }
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateTimeEntrySchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    await getTaskEntry(context, params);
+
+    const { startedAt, endedAt, description } = validation.data;
+    const entry = await dbAPI.updateTimeEntry(
+      params.entryId,
+      {
+        startedAt: startedAt ? new Date(startedAt) : undefined,
+        endedAt: endedAt ? new Date(endedAt) : undefined,
+        description,
+      },
+      context.userId,
+      context.actorId
+    );
+
+    return createSuccessResponse(
+      {
+        entry,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Time Entries API] Error updating time entry:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update time entry",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/tasks/[id]/time-entries/[entryId] - Delete time entry
+// =============================================================================
+
+async function handleDeleteTimeEntry(
+  req: NextRequest,
+  context: ApiContext,
+  params: { id: string; entryId: string }
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await getTaskEntry(context, params);
+    await dbAPI.deleteTimeEntry(
+      params.entryId,
+      context.userId,
+      context.actorId
+    );
+
+    return createSuccessResponse(
+      {
+        entryId: params.entryId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Time Entries API] Error deleting time entry:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to delete time entry",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Task Time Entries API Route Handler
+ *
+ * Time logged on a task, by timer or by hand. The task's actual time is
+ * recomputed from its entries whenever they change.
+ * GET /api/tasks/[id]/time-entries - Get the task's time entries
+ * POST /api/tasks/[id]/time-entries - Log time on the task
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../../lib/db/types";
+import {
+  formatTrackedTime,
+  getTrackedSeconds,
+} from "../../../../../lib/time-tracking";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  createTimeEntrySchema,
+  idParamSchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId } = await getTaskId(req);
+
+        if (req.method === "GET") {
+          return handleGetTimeEntries(req, context, taskId);
+        } else if (req.method === "POST") {
+          return handleCreateTimeEntry(req, context, taskId);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate task ID from request
+ */
+async function getTaskId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const taskId = segments[segments.length - 2]; // tasks/[id]/time-entries
+
+  const validation = idParamSchema.safeParse({ id: taskId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TASK_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/tasks/[id]/time-entries - Get time entries
+// =============================================================================
+
+async function handleGetTimeEntries(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const entries = await dbAPI.getTimeEntries(taskId, context.userId);
+    const trackedSeconds = getTrackedSeconds(entries);
+
+    return createSuccessResponse(
+      {
+        entries,
+        runningTimer: entries.find((entry) => !entry.endedAt) ?? null,
+        trackedSeconds,
+        actualTime:
+          trackedSeconds > 0 ? formatTrackedTime(trackedSeconds) : null,
+      },
+      {
+        total: entries.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Time Entries API] Error fetching time entries:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch time entries",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/time-entries - Create time entry
+// =============================================================================
+
+async function handleCreateTimeEntry(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = createTimeEntrySchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { startedAt, endedAt, description } = validation.data;
+    await dbAPI.getDatabase().initialize();
+    const entry = await dbAPI.createTimeEntry(
+      taskId,
+      {
+        startedAt: new Date(startedAt),
+        endedAt: new Date(endedAt),
+        description,
+      },
+      context.userId,
+      context.actorId
+    );
+
+    return createSuccessResponse(
+      {
+        entry,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Time Entries API] Error creating time entry:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create time entry",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
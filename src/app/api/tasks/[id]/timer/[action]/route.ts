@@ -0,0 +1,279 @@
+/**
+ * Task Timer API Route Handler
+ *
+ * Starts and stops the user's timer on a task. Each user can have only
+ * one running timer.
+ * POST /api/tasks/[id]/timer/start - Start a timer on the task
+ * POST /api/tasks/[id]/timer/stop - Stop the running timer on the task
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../lib/db/api";
+import {
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+} from "../../../../../../lib/db/types";
+import {
+  formatTrackedTime,
+  getTrackedSeconds,
+} from "../../../../../../lib/time-tracking";
+import {
+  withAuth,
+  withListAccess,
+  taskFromPath,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../_lib/utils";
+import { idParamSchema, startTimerSchema } from "../../../../_lib/validation";
+import type { ApiContext } from "../../../../_lib/types";
+
+const TIMER_ACTIONS = ["start", "stop"] as const;
+type TimerAction = (typeof TIMER_ACTIONS)[number];
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        const { id: taskId, action } = await getTimerParams(req);
+
+        if (!TIMER_ACTIONS.includes(action as TimerAction)) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "NOT_FOUND",
+                message: `Unknown timer action: ${action}`,
+                statusCode: 404,
+              },
+            },
+            { status: 404 }
+          );
+        }
+
+        if (req.method !== "POST") {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        } else if (action === "start") {
+          return handleStartTimer(req, context, taskId);
+        } else {
+          return handleStopTimer(req, context, taskId);
+        }
+      }, taskFromPath)
+    )
+  )
+);
+
+export { handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate the task ID and timer action from request
+ */
+async function getTimerParams(
+  req: NextRequest
+): Promise<{ id: string; action: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const taskId = segments[segments.length - 3]; // tasks/[id]/timer/[action]
+  const action = segments[segments.length - 1];
+
+  const validation = idParamSchema.safeParse({ id: taskId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_TASK_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id, action };
+}
+
+/**
+ * Map timer errors to responses; a second running timer is a conflict
+ */
+function createTimerErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof DatabaseError)) {
+    return null;
+  }
+
+  const statusCode =
+    error instanceof NotFoundError
+      ? 404
+      : error instanceof ValidationError
+      ? 400
+      : error.code === "TIMER_RUNNING"
+      ? 409
+      : null;
+  if (!statusCode) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/timer/start - Start timer
+// =============================================================================
+
+async function handleStartTimer(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    // The body is optional
+    const text = await req.text();
+    const validation = startTimerSchema.safeParse(
+      text ? JSON.parse(text) : {}
+    );
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const entry = await dbAPI.startTimer(
+      taskId,
+      context.userId,
+      validation.data.description,
+      context.actorId
+    );
+
+    return createSuccessResponse(
+      {
+        entry,
+      },
+      {
+        action: "started",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    const response = createTimerErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Task Timer API] Error starting timer:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to start timer",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/timer/stop - Stop timer
+// =============================================================================
+
+async function handleStopTimer(
+  req: NextRequest,
+  context: ApiContext,
+  taskId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const entry = await dbAPI.stopTimer(
+      taskId,
+      context.userId,
+      false,
+      context.actorId
+    );
+    const trackedSeconds = getTrackedSeconds(
+      await dbAPI.getTimeEntries(taskId, context.userId)
+    );
+
+    return createSuccessResponse(
+      {
+        entry,
+        trackedSeconds,
+        actualTime:
+          trackedSeconds > 0 ? formatTrackedTime(trackedSeconds) : null,
+      },
+      {
+        action: "stopped",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    const response = createTimerErrorResponse(error);
+    if (response) {
+      return response;
+    }
+
+    console.error("[Task Timer API] Error stopping timer:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to stop timer",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
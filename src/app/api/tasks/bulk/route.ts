@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
 import { z } from "zod";
+import {
+  withAuth,
+  withListAccess,
+  checkPermissions,
+  getListPermissions,
+  withRateLimit,
+  withErrorHandling,
+  type ListAccessTarget,
+} from "../../_lib/middleware";
+import type { ApiContext } from "../../_lib/types";
 
 // Validation schemas
 const bulkTaskOperationSchema = z.object({
@@ -23,10 +33,82 @@ const bulkTaskOperationSchema = z.object({
     .optional(),
 });
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        if (req.method === "POST") {
+          return handleBulkOperation(req, context);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, firstTaskFromBody)
+    ),
+    "bulk"
+  )
+);
+
+export { handler as POST };
+
+/**
+ * Resolve the first task of the operation. Tasks may be in different
+ * lists, so each one is checked again before it is changed.
+ */
+async function firstTaskFromBody(
+  req: NextRequest
+): Promise<ListAccessTarget | null> {
+  const body = await req
+    .clone()
+    .json()
+    .catch(() => null);
+  const parsed = bulkTaskOperationSchema.safeParse(body);
+  return parsed.success ? { taskId: parsed.data.taskIds[0] } : null;
+}
+
+/**
+ * Whether the user making the request can edit the list, or the list of
+ * the task. In a shared list's scope the operation could otherwise reach
+ * the owner's lists that are not shared with them.
+ */
+async function canActorEdit(
+  dbAPI: ReturnType<typeof createDatabaseAPI>,
+  context: ApiContext,
+  target: ListAccessTarget
+): Promise<boolean> {
+  if (!context.actorId || context.actorId === context.userId) {
+    return true;
+  }
+
+  const access = target.taskId
+    ? await dbAPI.getTaskAccess(target.taskId, context.actorId)
+    : await dbAPI.getListAccess(target.listId!, context.actorId);
+  return (
+    access?.ownerId === context.userId &&
+    checkPermissions(
+      {
+        isAuthenticated: context.isAuthenticated,
+        permissions: getListPermissions(access.role),
+      },
+      ["write"]
+    ).allowed
+  );
+}
+
 /**
  * POST /api/tasks/bulk - Bulk operations on multiple tasks
  */
-export async function POST(request: NextRequest) {
+async function handleBulkOperation(request: NextRequest, context: ApiContext) {
   try {
     const body = await request.json();
     const parsedData = bulkTaskOperationSchema.parse(body);
@@ -36,6 +118,35 @@ export async function POST(request: NextRequest) {
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
 
+    // Members of a shared list can only move tasks to lists they can edit
+    const targetListId =
+      operation === "move"
+        ? data?.newListId
+        : operation === "update"
+        ? data?.listId
+        : undefined;
+    if (
+      targetListId &&
+      !(await canActorEdit(dbAPI, context, { listId: targetListId }))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: `Cannot move tasks to list ${targetListId}`,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const assertCanEdit = async (taskId: string) => {
+      if (!(await canActorEdit(dbAPI, context, { taskId }))) {
+        throw new Error(`Task with ID ${taskId} not found`);
+      }
+    };
+
     let results: any = {};
 
     switch (operation) {
@@ -47,23 +158,21 @@ export async function POST(request: NextRequest) {
         const updateResults = [];
         for (const taskId of taskIds) {
           try {
+            await assertCanEdit(taskId);
+
+            // dueDate is the UI name for the deadline column
             const updateData = {
-              id: taskId,
               status: data.status,
               priority: data.priority,
               listId: data.listId,
-              dueDate:
-                data.dueDate !== undefined
-                  ? data.dueDate
-                    ? new Date(data.dueDate)
-                    : undefined
-                  : undefined,
+              deadline: data.dueDate ? new Date(data.dueDate) : undefined,
             };
 
             const updatedTask = await dbAPI.updateTask(
               taskId,
               updateData,
-              "default-user"
+              context.userId,
+              context.actorId
             );
             updateResults.push({
               taskId,
@@ -92,7 +201,13 @@ export async function POST(request: NextRequest) {
         const deleteResults = [];
         for (const taskId of taskIds) {
           try {
-            const deleted = await dbAPI.deleteTask(taskId, "default-user");
+            await assertCanEdit(taskId);
+
+            const deleted = await dbAPI.deleteTask(
+              taskId,
+              context.userId,
+              context.actorId
+            );
             deleteResults.push({
               taskId,
               success: deleted !== null, // Check if operation didn't throw error
@@ -123,8 +238,9 @@ export async function POST(request: NextRequest) {
         const moveResults = [];
         for (const taskId of taskIds) {
           try {
+            await assertCanEdit(taskId);
+
             const moveUpdateData = {
-              id: taskId,
               listId: data.newListId,
               position: data.newPosition,
             };
@@ -132,7 +248,8 @@ export async function POST(request: NextRequest) {
             const movedTask = await dbAPI.updateTask(
               taskId,
               moveUpdateData,
-              "default-user"
+              context.userId,
+              context.actorId
             );
             moveResults.push({
               taskId,
@@ -162,8 +279,13 @@ export async function POST(request: NextRequest) {
         const duplicateResults = [];
         for (const taskId of taskIds) {
           try {
+            await assertCanEdit(taskId);
+
             // Get original task
-            const originalTask = await dbAPI.getTaskWithDetails(taskId);
+            const originalTask = await dbAPI.getTaskWithDetails(
+              taskId,
+              context.userId
+            );
             if (!originalTask) {
               throw new Error("Original task not found");
             }
@@ -180,8 +302,8 @@ export async function POST(request: NextRequest) {
               actualTime: originalTask.actualTime,
               isRecurring: originalTask.isRecurring,
               recurringPattern: originalTask.recurringPattern,
-              userId: originalTask.userId,
-              listId: originalTask.listId,
+              userId: context.userId,
+              listId: originalTask.list?.id ?? originalTask.listId,
               parentTaskId: originalTask.parentTaskId,
               position: originalTask.position + 1,
             };
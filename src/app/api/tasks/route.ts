@@ -2,7 +2,27 @@ import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
 import { CreateTaskData, TaskFilters } from "@/types/tasks";
 import type { TaskStatus, Priority } from "@/types/utils";
+import {
+  ValidationError,
+  type FilterExpression,
+  type TaskSortField,
+} from "@/lib/db/types";
 import { z } from "zod";
+import {
+  withAuth,
+  withListAccess,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import {
+  createPaginatedResponse,
+  validateCustomFieldParams,
+} from "../_lib/utils";
+import {
+  customFieldValuesSchema,
+  filterExpressionSchema,
+} from "../_lib/validation";
+import type { ApiContext } from "../_lib/types";
 
 // Validation schemas
 const createTaskSchema = z.object({
@@ -24,11 +44,12 @@ const createTaskSchema = z.object({
   listId: z.string().optional(),
   parentTaskId: z.string().optional(),
   position: z.number().nonnegative().default(0),
+  customFields: customFieldValuesSchema.optional(),
 });
 
 const taskFiltersSchema = z.object({
-  page: z.coerce.number().positive().default(1),
-  limit: z.coerce.number().positive().max(100).default(20),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
   search: z.string().optional(),
   status: z.string().optional(),
   priority: z.string().optional(),
@@ -37,19 +58,141 @@ const taskFiltersSchema = z.object({
   completed: z.coerce.boolean().optional(),
   sortBy: z.string().optional(),
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  filter: z.string().optional(), // JSON filter expression
 });
 
+// Task fields the listing can be sorted by, besides custom fields (cf.<id>)
+const TASK_SORT_FIELDS: readonly TaskSortField[] = [
+  "createdAt",
+  "updatedAt",
+  "name",
+  "dueDate",
+  "date",
+  "priority",
+  "position",
+];
+
+function isTaskSortField(value: string): value is TaskSortField {
+  return (TASK_SORT_FIELDS as readonly string[]).includes(value);
+}
+
 /**
- * GET /api/tasks - Get tasks with filtering, pagination, sorting
+ * The list a task listing or a new task is for, from the query or the body
  */
-export async function GET(request: NextRequest) {
+async function getTaskListTarget(req: NextRequest) {
+  if (req.method === "POST") {
+    const body = await req
+      .clone()
+      .json()
+      .catch(() => null);
+    return {
+      listId: typeof body?.listId === "string" ? body.listId : undefined,
+    };
+  }
+  return { listId: req.nextUrl.searchParams.get("listId") ?? undefined };
+}
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(
+      withListAccess(async (req: NextRequest, context: ApiContext) => {
+        if (req.method === "GET") {
+          return handleGetTasks(req, context);
+        } else if (req.method === "POST") {
+          return handleCreateTask(req, context);
+        } else {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "METHOD_NOT_ALLOWED",
+                message: `Method ${req.method} not allowed`,
+                statusCode: 405,
+              },
+            },
+            { status: 405 }
+          );
+        }
+      }, getTaskListTarget)
+    )
+  )
+);
+
+export { handler as GET, handler as POST };
+
+/**
+ * GET /api/tasks - Get tasks with filtering, cursor pagination, sorting
+ */
+async function handleGetTasks(request: NextRequest, context: ApiContext) {
   try {
     const { searchParams } = new URL(request.url);
+
+    // Offset pages were replaced by cursors; a page would otherwise be
+    // ignored and the first page returned
+    if (searchParams.has("page")) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "UNSUPPORTED_PARAMETER",
+            message: "page is not supported; pass nextCursor as cursor instead",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     const filters = Object.fromEntries(searchParams.entries());
 
     // Validate and parse filters
     const parsedFilters = taskFiltersSchema.parse(filters);
 
+    // Custom field filters (cf.<fieldId>[.<operator>]) and sorting
+    const customFieldParams = validateCustomFieldParams(
+      searchParams,
+      parsedFilters.sortBy,
+      parsedFilters.sortOrder
+    );
+    if (customFieldParams.error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: customFieldParams.error.code,
+            message: customFieldParams.error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Boolean filter expression, e.g. priority High OR due soon
+    let where: FilterExpression | undefined;
+    if (parsedFilters.filter) {
+      let expression: unknown;
+      try {
+        expression = JSON.parse(parsedFilters.filter);
+      } catch {
+        expression = undefined;
+      }
+
+      const parsedExpression = filterExpressionSchema.safeParse(expression);
+      if (!parsedExpression.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_FILTER",
+              message: "filter must be a JSON filter expression",
+            },
+          },
+          { status: 400 }
+        );
+      }
+      where = parsedExpression.data;
+    }
+
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
 
@@ -65,75 +208,71 @@ export async function GET(request: NextRequest) {
       dateTo: parsedFilters.dueDate
         ? new Date(parsedFilters.dueDate)
         : undefined,
+      customFields: customFieldParams.filters,
+      where,
     };
 
-    // Get tasks with pagination
-    const tasks = await dbAPI.getUserTasks("default-user", dbFilters);
-
-    // Apply sorting
-    const sortedTasks = tasks.sort((a, b) => {
-      const { sortBy = "createdAt", sortOrder = "desc" } = parsedFilters;
-      const multiplier = sortOrder === "asc" ? 1 : -1;
-
-      switch (sortBy) {
-        case "name":
-          return multiplier * a.name.localeCompare(b.name);
-        case "dueDate":
-          if (!a.deadline && !b.deadline) return 0;
-          if (!a.deadline) return 1;
-          if (!b.deadline) return -1;
-          return multiplier * (a.deadline.getTime() - b.deadline.getTime());
-        case "priority":
-          const priorityOrder = { High: 3, Medium: 2, Low: 1, None: 0 };
-          return (
-            multiplier * (priorityOrder[b.priority] - priorityOrder[a.priority])
-          );
-        case "createdAt":
-        default:
-          return multiplier * (a.createdAt.getTime() - b.createdAt.getTime());
-      }
-    });
+    // Custom fields are sorted by their value; other fields need a column
+    const sortBy = parsedFilters.sortBy ?? "createdAt";
+    if (!customFieldParams.sort && !isTaskSortField(sortBy)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INVALID_SORT_FIELD",
+            message: `sortBy must be one of: ${TASK_SORT_FIELDS.join(", ")}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
 
-    // Apply pagination
-    const startIndex = (parsedFilters.page - 1) * parsedFilters.limit;
-    const endIndex = startIndex + parsedFilters.limit;
-    const paginatedTasks = sortedTasks.slice(startIndex, endIndex);
+    // Get one page of tasks, continuing from the cursor if given
+    const page = await dbAPI.getUserTasksPage(context.userId, dbFilters, {
+      sortBy: isTaskSortField(sortBy) ? sortBy : undefined,
+      sortOrder: parsedFilters.sortOrder === "asc" ? "ASC" : "DESC",
+      customFieldSort: customFieldParams.sort,
+      cursor: parsedFilters.cursor,
+      limit: parsedFilters.limit,
+    });
 
-    const response = {
-      success: true,
-      data: paginatedTasks,
-      pagination: {
-        page: parsedFilters.page,
-        limit: parsedFilters.limit,
-        total: tasks.length,
-        pages: Math.ceil(tasks.length / parsedFilters.limit),
-        hasNext: endIndex < tasks.length,
-        hasPrev: parsedFilters.page > 1,
+    return createPaginatedResponse(
+      page.tasks,
+      {
+        pageSize: parsedFilters.limit,
+        total: page.total,
+        nextCursor: page.nextCursor,
+        prevCursor: page.prevCursor,
       },
-      filters: parsedFilters,
-    };
-
-    return NextResponse.json(response);
+      {
+        filters: parsedFilters,
+      }
+    );
   } catch (error) {
     console.error("Error fetching tasks:", error);
 
     const errorResponse = {
       success: false,
       error: {
-        code: "TASKS_FETCH_ERROR",
+        code:
+          error instanceof ValidationError
+            ? error.code
+            : "TASKS_FETCH_ERROR",
         message:
           error instanceof Error ? error.message : "Failed to fetch tasks",
       },
     };
 
-    return NextResponse.json(errorResponse, { status: 500 });
+    return NextResponse.json(errorResponse, {
+      status: error instanceof ValidationError ? 400 : 500,
+    });
   }
 }
 
 /**
  * POST /api/tasks - Create new task
  */
-export async function POST(request: NextRequest) {
+async function handleCreateTask(request: NextRequest, context: ApiContext) {
   try {
     const body = await request.json();
     const parsedData = createTaskSchema.parse(body);
@@ -141,6 +280,10 @@ export async function POST(request: NextRequest) {
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
 
+    // Tasks without a list go to the user's default list
+    const listId =
+      parsedData.listId ?? (await dbAPI.getUserLists(context.userId))[0]?.id;
+
     // Create task
     const newTask = await dbAPI.createTask({
       name: parsedData.name,
@@ -152,10 +295,11 @@ export async function POST(request: NextRequest) {
       actualTime: parsedData.actualTime,
       isRecurring: parsedData.isRecurring,
       recurringPattern: parsedData.recurringPattern,
-      userId: "default-user",
-      listId: parsedData.listId || "default-list",
+      userId: context.userId,
+      listId,
       parentTaskId: parsedData.parentTaskId,
       position: parsedData.position,
+      customFields: parsedData.customFields,
     });
 
     const response = {
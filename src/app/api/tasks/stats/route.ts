@@ -1,19 +1,68 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createDatabaseAPI } from "@/lib/db/api";
 import type { TaskWithDetails } from "@/lib/db/types";
+import {
+  calculateEstimateVariance,
+  formatTrackedTime,
+} from "@/lib/time-tracking";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import type { ApiContext } from "../../_lib/types";
 
 export const dynamic = 'force-dynamic';
 
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetStats(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
 /**
  * GET /api/tasks/stats - Get task statistics and analytics
  */
-export async function GET(request: NextRequest) {
+async function handleGetStats(request: NextRequest, context: ApiContext) {
   try {
     const dbAPI = createDatabaseAPI();
     await dbAPI.getDatabase().initialize();
 
-    // Get basic task counts
-    const allTasks = await dbAPI.getUserTasks("default-user");
+    // Get basic task counts (only subtasks are needed for the statistics)
+    const allTasks = await dbAPI.getUserTasks(
+      context.userId,
+      {},
+      { include: ["subtasks"] }
+    );
+
+    // Tracked time comes from time entries rather than the HH:mm strings
+    const timeSummaries = await dbAPI.getTimeSummaries(context.userId);
+    const trackedSummaries = timeSummaries.filter(
+      (summary) => summary.trackedSeconds > 0
+    );
+    const totalTrackedSeconds = trackedSummaries.reduce(
+      (total, summary) => total + summary.trackedSeconds,
+      0
+    );
 
     // Calculate various statistics
     const stats = {
@@ -45,33 +94,39 @@ export async function GET(request: NextRequest) {
       recurring: allTasks.filter((t) => t.isRecurring).length,
       withSubtasks: allTasks.filter((t) => t.subtasks && t.subtasks.length > 0)
         .length,
-      averageEstimate: calculateAverageTime(allTasks.filter((t) => t.estimate)),
-      averageActualTime: calculateAverageTime(
-        allTasks.filter((t) => t.actualTime)
+      averageEstimate: calculateAverageTime(
+        allTasks.map((t) => t.estimate).filter(Boolean) as string[]
       ),
+      averageActualTime:
+        trackedSummaries.length > 0
+          ? formatTrackedTime(totalTrackedSeconds / trackedSummaries.length)
+          : "00:00",
+      timeTracking: {
+        trackedTasks: trackedSummaries.length,
+        totalTracked: formatTrackedTime(totalTrackedSeconds),
+        estimateVariance: calculateEstimateVariance(timeSummaries),
+      },
       completionRate: calculateCompletionRate(allTasks),
       productivity: calculateProductivity(allTasks),
     };
 
     // Get lists statistics
-    const lists = await dbAPI.getUserLists("default-user");
-    const listsWithTaskCounts = await Promise.all(
-      lists.map(async (list) => {
-        const listTasks = await dbAPI.getUserTasks("default-user", {
-          listId: list.id,
-        });
-        return {
-          ...list,
-          taskCount: listTasks.length,
-          completedTasks: listTasks.filter(
-            (t: TaskWithDetails) => t.status === "done"
-          ).length,
-          pendingTasks: listTasks.filter(
-            (t: TaskWithDetails) => t.status === "todo"
-          ).length,
-        };
-      })
-    );
+    const lists = await dbAPI.getUserLists(context.userId);
+    const listsWithTaskCounts = lists.map((list) => {
+      const listTasks = allTasks.filter(
+        (t: TaskWithDetails) => t.list?.id === list.id
+      );
+      return {
+        ...list,
+        taskCount: listTasks.length,
+        completedTasks: listTasks.filter(
+          (t: TaskWithDetails) => t.status === "done"
+        ).length,
+        pendingTasks: listTasks.filter(
+          (t: TaskWithDetails) => t.status === "todo"
+        ).length,
+      };
+    });
 
     const response = {
       success: true,
@@ -102,16 +157,16 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper functions
-function calculateAverageTime(tasks: any[]): string {
-  if (tasks.length === 0) return "00:00";
+function calculateAverageTime(times: string[]): string {
+  if (times.length === 0) return "00:00";
 
   let totalMinutes = 0;
-  for (const task of tasks) {
-    const [hours, minutes] = task.split(":").map(Number);
+  for (const time of times) {
+    const [hours, minutes] = time.split(":").map(Number);
     totalMinutes += hours * 60 + minutes;
   }
 
-  const avgMinutes = Math.round(totalMinutes / tasks.length);
+  const avgMinutes = Math.round(totalMinutes / times.length);
   const hours = Math.floor(avgMinutes / 60);
   const mins = avgMinutes % 60;
 
@@ -0,0 +1,180 @@
+/**
+ * Task Templates API Route Handler
+ *
+ * Reusable tasks with subtasks, labels and reminders
+ * GET /api/templates - Get task templates, most used first
+ * POST /api/templates - Create a template, or save a task as one
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../_lib/middleware";
+import { createSuccessResponse, createValidationError } from "../_lib/utils";
+import {
+  createTaskTemplateSchema,
+  taskTemplateFromTaskSchema,
+} from "../_lib/validation";
+import type { ApiContext } from "../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetTemplates(req, context);
+      } else if (req.method === "POST") {
+        return handleCreateTemplate(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as POST };
+
+// =============================================================================
+// GET /api/templates - Get task templates
+// =============================================================================
+
+async function handleGetTemplates(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const templates = await dbAPI.getTaskTemplates(context.userId);
+
+    return createSuccessResponse(
+      {
+        templates,
+      },
+      {
+        total: templates.length,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Task Templates API] Error fetching templates:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch task templates",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/templates - Create task template
+// =============================================================================
+
+async function handleCreateTemplate(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+
+    // A body with a taskId saves that task as a template
+    const fromTask = body && typeof body === "object" && "taskId" in body;
+    const validation = fromTask
+      ? taskTemplateFromTaskSchema.safeParse(body)
+      : createTaskTemplateSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    await dbAPI.getDatabase().initialize();
+    const template =
+      "taskId" in data
+        ? await dbAPI.createTaskTemplateFromTask(data.taskId, context.userId, {
+            name: data.name,
+            description: data.description,
+          })
+        : await dbAPI.createTaskTemplate(data, context.userId);
+
+    return createSuccessResponse(
+      {
+        template,
+      },
+      {
+        action: "created",
+        timestamp: new Date().toISOString(),
+      },
+      201
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      const statusCode = error instanceof NotFoundError ? 404 : 400;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: statusCode }
+      );
+    }
+
+    console.error("[Task Templates API] Error creating template:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create task template",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
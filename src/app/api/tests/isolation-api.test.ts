@@ -0,0 +1,206 @@
+/**
+ * Cross-User Isolation Tests
+ * Verifies that DatabaseAPI never exposes one user's data to another
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { createTestDatabaseAPI, TestDataFixtures } from '../../../lib/db/api';
+import { NotFoundError } from '../../../lib/db/types';
+
+describe('Cross-User Isolation', () => {
+  let testAPI: ReturnType<typeof createTestDatabaseAPI>;
+  let testData: ReturnType<typeof TestDataFixtures.createTestDataset>;
+
+  // Owner of the first two lists and tasks, and the user trying to reach them
+  let ownerId: string;
+  let otherUserId: string;
+
+  beforeAll(async () => {
+    testAPI = createTestDatabaseAPI({
+      path: './test-data/isolation-api-test.db',
+      verbose: false
+    });
+
+    await testAPI.testManager.initialize();
+    await testAPI.api.runMigrations();
+  });
+
+  afterAll(async () => {
+    await testAPI.testManager.cleanup();
+  });
+
+  beforeEach(async () => {
+    testData = TestDataFixtures.createTestDataset();
+    await testAPI.testHelpers.insertTestData(testData);
+
+    ownerId = testData.users[0].id;
+    otherUserId = testData.users[1].id;
+  });
+
+  afterEach(async () => {
+    await testAPI.testManager.clean();
+  });
+
+  describe('Tasks', () => {
+    test('should not return another user\'s task', async () => {
+      const task = testData.tasks[0];
+
+      expect(await testAPI.api.getTaskWithDetails(task.id, otherUserId)).toBeNull();
+      expect(await testAPI.api.getTaskWithDetails(task.id, ownerId)).not.toBeNull();
+    });
+
+    test('should not list another user\'s tasks', async () => {
+      const tasks = await testAPI.api.getUserTasks(otherUserId, {
+        listId: testData.lists[0].id,
+      });
+
+      expect(tasks).toHaveLength(0);
+    });
+
+    test('should not update or delete another user\'s task', async () => {
+      const task = testData.tasks[0];
+
+      await expect(
+        testAPI.api.updateTask(task.id, { name: 'Hijacked' }, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+      await expect(testAPI.api.deleteTask(task.id, otherUserId)).rejects.toThrow(NotFoundError);
+
+      const unchanged = await testAPI.api.getTaskWithDetails(task.id, ownerId);
+      expect(unchanged?.name).toBe(task.name);
+    });
+
+    test('should not create a task in another user\'s list', async () => {
+      await expect(
+        testAPI.api.createTask({
+          name: 'Intruder',
+          priority: 'Low',
+          status: 'todo',
+          position: 0,
+          isRecurring: false,
+          userId: otherUserId,
+          listId: testData.lists[0].id,
+        })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    test('should not move a task into another user\'s list', async () => {
+      const task = testData.tasks[2]; // Owned by the other user
+
+      await expect(
+        testAPI.api.updateTask(task.id, { listId: testData.lists[0].id }, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    test('should not expose another user\'s task history', async () => {
+      await expect(
+        testAPI.api.getTaskHistory(testData.tasks[0].id, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Lists', () => {
+    test('should not return another user\'s list', async () => {
+      const list = testData.lists[0];
+
+      expect(await testAPI.api.getList(list.id, otherUserId)).toBeNull();
+      expect(await testAPI.api.getList(list.id, ownerId)).not.toBeNull();
+    });
+
+    test('should not delete another user\'s list', async () => {
+      await expect(testAPI.api.deleteList(testData.lists[1].id, otherUserId)).rejects.toThrow(NotFoundError);
+      expect(await testAPI.api.getList(testData.lists[1].id, ownerId)).not.toBeNull();
+    });
+  });
+
+  describe('Labels', () => {
+    test('should not update or delete another user\'s label', async () => {
+      const label = testData.labels[0];
+
+      await expect(
+        testAPI.api.updateLabel(label.id, { name: 'Hijacked' }, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+      await expect(testAPI.api.deleteLabel(label.id, otherUserId)).rejects.toThrow(NotFoundError);
+
+      const labels = await testAPI.api.getUserLabelsWithCounts(ownerId);
+      expect(labels.find((l) => l.id === label.id)?.name).toBe(label.name);
+    });
+
+    test('should not attach another user\'s label to a task', async () => {
+      const ownTask = testData.tasks[2]; // Owned by the other user
+
+      await expect(
+        testAPI.api.addLabelToTask(ownTask.id, testData.labels[0].id, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    test('should not label or read labels of another user\'s task', async () => {
+      const task = testData.tasks[0];
+
+      await expect(
+        testAPI.api.addLabelToTask(task.id, testData.labels[2].id, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+      await expect(testAPI.api.getTaskLabels(task.id, otherUserId)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Attachments', () => {
+    test('should not read or delete another user\'s attachment', async () => {
+      const attachment = testData.attachments[0];
+
+      expect(await testAPI.api.getAttachment(attachment.id, otherUserId)).toBeNull();
+      await expect(testAPI.api.getAttachments(attachment.taskId, otherUserId)).rejects.toThrow(NotFoundError);
+      await expect(testAPI.api.deleteAttachment(attachment.id, otherUserId)).rejects.toThrow(NotFoundError);
+
+      expect(await testAPI.api.getAttachment(attachment.id, ownerId)).not.toBeNull();
+    });
+
+    test('should not attach files to another user\'s task', async () => {
+      await expect(
+        testAPI.api.createAttachment(
+          {
+            taskId: testData.tasks[1].id,
+            filename: 'payload.txt',
+            originalName: 'payload.txt',
+            mimeType: 'text/plain',
+            size: 16,
+            path: '/uploads/payload.txt',
+          },
+          otherUserId
+        )
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Reminders', () => {
+    test('should not read another user\'s reminders', async () => {
+      await expect(
+        testAPI.api.getReminders(testData.tasks[0].id, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    test('should not add reminders to another user\'s task', async () => {
+      await expect(
+        testAPI.api.createReminder(
+          {
+            taskId: testData.tasks[0].id,
+            remindAt: new Date(Date.now() + 3600000),
+            isSent: false,
+            method: 'push',
+          },
+          otherUserId
+        )
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Subtasks', () => {
+    test('should not read or update another user\'s subtasks', async () => {
+      const subtask = testData.subtasks[0];
+
+      await expect(testAPI.api.getSubtasks(subtask.taskId, otherUserId)).rejects.toThrow(NotFoundError);
+      await expect(
+        testAPI.api.updateSubtask(subtask.id, { isCompleted: true }, otherUserId)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -5,6 +5,7 @@
 
 import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
 import { createTestDatabaseAPI, TestDatabaseManager, TestDataFixtures } from '../../../lib/db/test-utils';
+import { DatabaseAPI } from '../../../lib/db/api';
 
 // Mock Next.js API route context
 function createMockRequest(url: string, options: RequestInit = {}) {
@@ -21,6 +22,8 @@ function createMockRequest(url: string, options: RequestInit = {}) {
 describe('Search API Routes', () => {
   let testAPI: ReturnType<typeof createTestDatabaseAPI>;
   let testDB: TestDatabaseManager;
+  let testData: ReturnType<typeof TestDataFixtures.createTestDataset>;
+  let api: DatabaseAPI;
 
   beforeAll(async () => {
     testDB = new TestDatabaseManager({
@@ -35,6 +38,7 @@ describe('Search API Routes', () => {
     
     await testDB.initialize();
     await testAPI.api.runMigrations();
+    api = new DatabaseAPI(testAPI.api);
   });
 
   afterAll(async () => {
@@ -42,7 +46,7 @@ describe('Search API Routes', () => {
   });
 
   beforeEach(async () => {
-    const testData = TestDataFixtures.createTestDataset();
+    testData = TestDataFixtures.createTestDataset();
     const helpers = testAPI.helpers();
     await helpers.insertTestData(testData);
   });
@@ -139,4 +143,36 @@ describe('Search API Routes', () => {
       expect(data.error).toContain('Query parameter is required');
     });
   });
+
+  describe('Full-text search', () => {
+    test('should return ranked prefix matches with highlights', async () => {
+      const userId = testData.users[0].id;
+
+      const { results, total } = await api.searchTasks(userId, 'groc');
+
+      expect(total).toBe(1);
+      expect(results[0].task.name).toBe('Buy groceries');
+      expect(typeof results[0].score).toBe('number');
+      expect(results[0].highlights.name).toEqual(['Buy <mark>groceries</mark>']);
+      expect(results[0].snippet).toContain('<mark>groceries</mark>');
+    });
+
+    test('should index subtask names', async () => {
+      const userId = testData.users[0].id;
+
+      const { results } = await api.searchTasks(userId, 'milk');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].highlights.subtasks).toEqual(['Buy <mark>milk</mark>']);
+    });
+
+    test('should not match tasks of other users', async () => {
+      const otherUserId = testData.users[1].id;
+
+      const { results, total } = await api.searchTasks(otherUserId, 'groceries');
+
+      expect(total).toBe(0);
+      expect(results).toHaveLength(0);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * Webhooks API Route Tests
+ * Tests that events recorded through the route handlers reach the delivery
+ * worker and are sent to a local receiver
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+
+import { dbAPI } from '../../../lib/db/api';
+import type { ApiContext } from '../_lib/types';
+import { startWebhookDelivery, stopWebhookDelivery } from '../_lib/webhook-delivery';
+import { POST as createTask } from '../tasks/route';
+
+describe('Webhooks API Routes', () => {
+  const userId = 'webhook-route-user';
+  let server: http.Server;
+  let received: string[];
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // Stand-in receiver recording each body
+    received = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        received.push(body);
+        res.writeHead(204);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // The routes use the shared database, which the test setup points at a test file
+    await dbAPI.getDatabase().initialize();
+    dbAPI.run('INSERT INTO users (id, name, email) VALUES (?, ?, ?)', [
+      userId,
+      'Webhook User',
+      `${userId}@example.com`,
+    ]);
+    await dbAPI.createList({
+      name: 'Inbox',
+      color: '#3b82f6',
+      emoji: '📥',
+      isDefault: true,
+      isFavorite: false,
+      position: 0,
+      userId,
+    });
+    await dbAPI.createWebhook({ url: `${baseUrl}/hooks`, eventTypes: ['TaskCreated'] }, userId);
+
+    startWebhookDelivery();
+  });
+
+  afterAll(async () => {
+    stopWebhookDelivery();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /**
+   * Wait until the check passes, for work the routes leave running in the background
+   */
+  const waitFor = async (check: () => boolean) => {
+    const deadline = Date.now() + 5000;
+    while (!check() && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  test('should queue and send a delivery for a task created through the route', async () => {
+    const request = new NextRequest('http://localhost:3000/api/tasks', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer user-${userId}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name: 'Hooked task' }),
+    });
+
+    const response = await createTask(request, {} as ApiContext);
+    expect(response.status).toBe(201);
+    const { data: task } = await response.json();
+
+    const deliveries = () =>
+      dbAPI.query<{ status: string; payload: string }>(
+        "SELECT status, payload FROM webhook_deliveries WHERE event_type = 'TaskCreated'"
+      );
+    await waitFor(() => deliveries()[0]?.status === 'succeeded');
+
+    expect(deliveries()).toHaveLength(1);
+    expect(deliveries()[0].status).toBe('succeeded');
+    expect(JSON.parse(deliveries()[0].payload).taskId).toBe(task.id);
+    expect(received).toHaveLength(1);
+  });
+});
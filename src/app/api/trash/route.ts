@@ -0,0 +1,265 @@
+/**
+ * Trash API Route Handler
+ *
+ * Handles soft-deleted tasks, lists and labels
+ * GET /api/trash - List trashed items
+ * POST /api/trash - Restore a trashed item together with its children
+ * DELETE /api/trash - Purge the user's items older than the retention period
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../lib/db/types";
+import { withAuth, withRateLimit, withErrorHandling } from "../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+  createNotFoundError,
+} from "../_lib/utils";
+import {
+  restoreTrashItemSchema,
+  purgeTrashQuerySchema,
+} from "../_lib/validation";
+import type { ApiContext } from "../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      if (req.method === "GET") {
+        return handleGetTrash(req, context);
+      } else if (req.method === "POST") {
+        return handleRestoreItem(req, context);
+      } else if (req.method === "DELETE") {
+        return handlePurgeTrash(req, context);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as POST, handler as DELETE };
+
+// =============================================================================
+// GET /api/trash - List trashed items
+// =============================================================================
+
+async function handleGetTrash(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const trash = await dbAPI.getTrash(context.userId);
+
+    return createSuccessResponse(trash, {
+      counts: {
+        tasks: trash.tasks.length,
+        lists: trash.lists.length,
+        labels: trash.labels.length,
+      },
+    });
+  } catch (error) {
+    console.error("[Trash API] Error fetching trash:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch trash",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// POST /api/trash - Restore a trashed item
+// =============================================================================
+
+async function handleRestoreItem(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = restoreTrashItemSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { type, id } = validation.data;
+
+    await dbAPI.getDatabase().initialize();
+
+    // Only items in the user's own trash can be restored
+    const trash = await dbAPI.getTrash(context.userId);
+    const items: Array<{ id: string }> =
+      type === "task" ? trash.tasks : type === "list" ? trash.lists : trash.labels;
+
+    if (!items.some((item) => item.id === id)) {
+      const error = createNotFoundError(`Trashed ${type}`, id);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const restored =
+      type === "task"
+        ? await dbAPI.restoreTask(id, context.userId)
+        : type === "list"
+        ? await dbAPI.restoreList(id, context.userId)
+        : await dbAPI.restoreLabel(id, context.userId);
+
+    return createSuccessResponse(
+      {
+        type,
+        item: restored,
+      },
+      {
+        action: "restored",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      const statusCode = error instanceof NotFoundError ? 404 : 400;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: statusCode }
+      );
+    }
+
+    console.error("[Trash API] Error restoring item:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to restore item",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/trash - Purge expired trash
+// =============================================================================
+
+async function handlePurgeTrash(
+  req: NextRequest,
+  context: ApiContext
+): Promise<NextResponse> {
+  try {
+    const url = new URL(req.url);
+    const validation = purgeTrashQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const purged = await dbAPI.purgeTrash(
+      validation.data.olderThanDays,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        purged,
+      },
+      {
+        action: "purged",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    console.error("[Trash API] Error purging trash:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to purge trash",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
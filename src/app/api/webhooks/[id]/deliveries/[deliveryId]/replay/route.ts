@@ -0,0 +1,144 @@
+/**
+ * Webhook Delivery Replay API Route Handler
+ *
+ * Sends a logged delivery again, with its original payload
+ * POST /api/webhooks/[id]/deliveries/[deliveryId]/replay - Queue a replay and send it
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../../../lib/db/api";
+import { NotFoundError } from "../../../../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../../../../_lib/utils";
+import { webhookDeliveryParamsSchema } from "../../../../../_lib/validation";
+import { deliverWebhooks } from "../../../../../_lib/webhook-delivery";
+import type { ApiContext } from "../../../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const params = await getReplayParams(req);
+
+      if (req.method === "POST") {
+        return handleReplayDelivery(req, context, params);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as POST };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate webhook and delivery IDs from request
+ */
+async function getReplayParams(
+  req: NextRequest
+): Promise<{ id: string; deliveryId: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  // webhooks/[id]/deliveries/[deliveryId]/replay
+  const validation = webhookDeliveryParamsSchema.safeParse({
+    id: segments[segments.length - 4],
+    deliveryId: segments[segments.length - 2],
+  });
+
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_WEBHOOK_DELIVERY"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return validation.data;
+}
+
+// =============================================================================
+// POST /api/webhooks/[id]/deliveries/[deliveryId]/replay - Replay delivery
+// =============================================================================
+
+async function handleReplayDelivery(
+  req: NextRequest,
+  context: ApiContext,
+  { id: webhookId, deliveryId }: { id: string; deliveryId: string }
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const delivery = await dbAPI.replayWebhookDelivery(
+      webhookId,
+      deliveryId,
+      context.userId
+    );
+    // Not awaited: the log shows how the replay went
+    void deliverWebhooks();
+
+    return createSuccessResponse(
+      {
+        delivery,
+        replayOf: deliveryId,
+      },
+      {
+        action: "replayed",
+        timestamp: new Date().toISOString(),
+      },
+      202
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            statusCode: 404,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error("[Webhooks API] Error replaying delivery:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to replay webhook delivery",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Webhook Deliveries API Route Handler
+ *
+ * Delivery log of a webhook: each event sent to it, with its status, the
+ * number of attempts and the outcome of the last one
+ * GET /api/webhooks/[id]/deliveries - Get deliveries, newest first
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../../lib/db/api";
+import { NotFoundError } from "../../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../../_lib/middleware";
+import {
+  createNotFoundError,
+  createSuccessResponse,
+  createValidationError,
+} from "../../../_lib/utils";
+import {
+  idParamSchema,
+  webhookDeliveriesQuerySchema,
+} from "../../../_lib/validation";
+import type { ApiContext } from "../../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id } = await getWebhookId(req);
+
+      if (req.method === "GET") {
+        return handleGetDeliveries(req, context, id);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate webhook ID from request
+ */
+async function getWebhookId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const webhookId = segments[segments.length - 2]; // webhooks/[id]/deliveries
+
+  const validation = idParamSchema.safeParse({ id: webhookId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_WEBHOOK_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+// =============================================================================
+// GET /api/webhooks/[id]/deliveries - Get delivery log
+// =============================================================================
+
+async function handleGetDeliveries(
+  req: NextRequest,
+  context: ApiContext,
+  webhookId: string
+): Promise<NextResponse> {
+  try {
+    const url = new URL(req.url);
+    const validation = webhookDeliveriesQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const deliveries = await dbAPI.getWebhookDeliveries(
+      webhookId,
+      context.userId,
+      validation.data.limit
+    );
+
+    return createSuccessResponse(
+      {
+        deliveries,
+      },
+      {
+        total: deliveries.length,
+        limit: validation.data.limit,
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      const notFound = createNotFoundError("Webhook", webhookId);
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...notFound,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error("[Webhooks API] Error fetching deliveries:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch webhook deliveries",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
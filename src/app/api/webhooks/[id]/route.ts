@@ -0,0 +1,262 @@
+/**
+ * Individual Webhook API Route Handler
+ *
+ * Handles operations on individual webhooks
+ * GET /api/webhooks/[id] - Get webhook
+ * PUT /api/webhooks/[id] - Update the URL, event types or secret, or pause it
+ * DELETE /api/webhooks/[id] - Delete webhook with its delivery log
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { dbAPI } from "../../../../lib/db/api";
+import { NotFoundError, ValidationError } from "../../../../lib/db/types";
+import {
+  withAuth,
+  withRateLimit,
+  withErrorHandling,
+} from "../../_lib/middleware";
+import {
+  createSuccessResponse,
+  createValidationError,
+} from "../../_lib/utils";
+import { idParamSchema, updateWebhookSchema } from "../../_lib/validation";
+import type { ApiContext } from "../../_lib/types";
+
+// Apply middleware stack
+const handler = withErrorHandling(
+  withRateLimit(
+    withAuth(async (req: NextRequest, context: ApiContext) => {
+      const { id } = await getWebhookId(req);
+
+      if (req.method === "GET") {
+        return handleGetWebhook(req, context, id);
+      } else if (req.method === "PUT") {
+        return handleUpdateWebhook(req, context, id);
+      } else if (req.method === "DELETE") {
+        return handleDeleteWebhook(req, context, id);
+      } else {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "METHOD_NOT_ALLOWED",
+              message: `Method ${req.method} not allowed`,
+              statusCode: 405,
+            },
+          },
+          { status: 405 }
+        );
+      }
+    })
+  )
+);
+
+export { handler as GET, handler as PUT, handler as DELETE };
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Extract and validate webhook ID from request
+ */
+async function getWebhookId(req: NextRequest): Promise<{ id: string }> {
+  const segments = req.nextUrl.pathname.split("/");
+  const webhookId = segments[segments.length - 1];
+
+  const validation = idParamSchema.safeParse({ id: webhookId });
+  if (!validation.success) {
+    const validationError = validation.error.issues[0];
+    const error = createValidationError(
+      validationError.path.join("."),
+      validationError.message,
+      validationError.input,
+      "INVALID_WEBHOOK_ID"
+    );
+
+    throw new Error(JSON.stringify(error));
+  }
+
+  return { id: validation.data.id };
+}
+
+/**
+ * Map database errors to 400/404 responses
+ */
+function createErrorResponse(
+  error: ValidationError | NotFoundError
+): NextResponse {
+  const statusCode = error instanceof NotFoundError ? 404 : 400;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        statusCode,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: statusCode }
+  );
+}
+
+// =============================================================================
+// GET /api/webhooks/[id] - Get webhook
+// =============================================================================
+
+async function handleGetWebhook(
+  req: NextRequest,
+  context: ApiContext,
+  webhookId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    const webhook = await dbAPI.getWebhook(webhookId, context.userId);
+
+    return createSuccessResponse(
+      {
+        webhook,
+      },
+      {
+        action: "retrieved",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Webhooks API] Error fetching webhook:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch webhook",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// PUT /api/webhooks/[id] - Update webhook
+// =============================================================================
+
+async function handleUpdateWebhook(
+  req: NextRequest,
+  context: ApiContext,
+  webhookId: string
+): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const validation = updateWebhookSchema.safeParse(body);
+
+    if (!validation.success) {
+      const validationError = validation.error.issues[0];
+      const error = createValidationError(
+        validationError.path.join("."),
+        validationError.message,
+        validationError.input,
+        "VALIDATION_ERROR"
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            ...error,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbAPI.getDatabase().initialize();
+    const webhook = await dbAPI.updateWebhook(
+      webhookId,
+      validation.data,
+      context.userId
+    );
+
+    return createSuccessResponse(
+      {
+        webhook,
+      },
+      {
+        action: "updated",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Webhooks API] Error updating webhook:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update webhook",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// =============================================================================
+// DELETE /api/webhooks/[id] - Delete webhook
+// =============================================================================
+
+async function handleDeleteWebhook(
+  req: NextRequest,
+  context: ApiContext,
+  webhookId: string
+): Promise<NextResponse> {
+  try {
+    await dbAPI.getDatabase().initialize();
+    await dbAPI.deleteWebhook(webhookId, context.userId);
+
+    return createSuccessResponse(
+      {
+        webhookId,
+      },
+      {
+        action: "deleted",
+        timestamp: new Date().toISOString(),
+      }
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return createErrorResponse(error);
+    }
+
+    console.error("[Webhooks API] Error deleting webhook:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to delete webhook",
+          statusCode: 500,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
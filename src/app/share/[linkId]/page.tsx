@@ -0,0 +1,11 @@
+import { SharedListView } from "@/components/lists";
+
+export const dynamic = "force-dynamic";
+
+export default function SharePage({
+  params,
+}: {
+  params: { linkId: string };
+}) {
+  return <SharedListView linkId={params.linkId} />;
+}
@@ -1,16 +1,28 @@
 'use client'
 
 import { useEffect } from 'react'
+import { usePathname } from 'next/navigation'
 import { useApp } from '@/store/hooks'
+import { connectRealtime } from '@/store/realtime'
 
 export function AppInit() {
   const appStore = useApp()
+  const pathname = usePathname()
+
+  // Public share pages are viewed without signing in, so there is no user
+  // to load and no stream to join
+  const isSharePage = pathname?.startsWith('/share/') ?? false
 
   useEffect(() => {
+    if (isSharePage) return
+
     appStore.loadUser()
       .then(() => console.log('App initialized'))
       .catch((error: unknown) => console.error('Failed to initialize app:', error))
-  }, [])
+  }, [isSharePage])
+
+  // Keep the stores in sync with changes made in other sessions
+  useEffect(() => (isSharePage ? undefined : connectRealtime()), [isSharePage])
 
   return null
 }
@@ -22,6 +22,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   DatePicker,
   TimePicker,
@@ -32,6 +33,11 @@ import { CreateTaskData, UpdateTaskData } from "@/types/tasks";
 import { CreateListData } from "@/types/lists";
 import { useTasks } from "@/store/hooks";
 import { useLists } from "@/store/hooks";
+import {
+  formatCustomFieldValue,
+  validateCustomFieldValues,
+} from "@/lib/custom-fields";
+import type { CustomField, CustomFieldValue } from "@/lib/db/types";
 import {
   Save,
   X,
@@ -46,6 +52,7 @@ import {
   FileText,
   CheckCircle2,
   Star,
+  SlidersHorizontal,
 } from "lucide-react";
 
 // Validation schemas
@@ -120,18 +127,68 @@ export function TaskForm({
     listId: task?.listId || listId || "",
     parentTaskId: task?.parentTaskId || parentTaskId || "",
     reminders: task?.reminders || [],
+    customFields: (task?.customFields || {}) as Record<
+      string,
+      CustomFieldValue | null
+    >,
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [listFields, setListFields] = useState<CustomField[]>([]);
 
   const { updateTask } = useTasks();
   const { lists } = useLists();
 
+  // Load the custom fields defined by the selected list
+  useEffect(() => {
+    if (!formData.listId) {
+      setListFields([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/lists/${formData.listId}/fields`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (!cancelled) {
+          setListFields(result?.data?.fields ?? []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setListFields([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.listId]);
+
+  // Values for the selected list's fields; empty values clear the field
+  const getCustomFieldValues = () =>
+    Object.fromEntries(
+      listFields.map((field) => [
+        field.id,
+        formData.customFields[field.id] ?? null,
+      ])
+    );
+
   const validateForm = () => {
     try {
       taskSchema.parse(formData);
+
+      const { errors: customFieldErrors } = validateCustomFieldValues(
+        listFields,
+        getCustomFieldValues()
+      );
+      if (customFieldErrors.length > 0) {
+        setErrors({ customFields: customFieldErrors.join(", ") });
+        return false;
+      }
+
       setErrors({});
       return true;
     } catch (error) {
@@ -159,6 +216,8 @@ export function TaskForm({
         listId: formData.listId || undefined,
         parentTaskId: formData.parentTaskId || undefined,
         reminders: formData.reminders,
+        customFields:
+          listFields.length > 0 ? getCustomFieldValues() : undefined,
       };
 
       await onSave(saveData);
@@ -178,6 +237,19 @@ export function TaskForm({
     }
   };
 
+  const handleCustomFieldChange = (
+    fieldId: string,
+    value: CustomFieldValue | null
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      customFields: { ...prev.customFields, [fieldId]: value },
+    }));
+    if (errors.customFields) {
+      setErrors((prev) => ({ ...prev, customFields: "" }));
+    }
+  };
+
   const priorityOptions = [
     { value: "None", label: "No priority", color: "bg-gray-500" },
     { value: "Low", label: "Low priority", color: "bg-green-500" },
@@ -321,6 +393,32 @@ export function TaskForm({
             </SelectContent>
           </Select>
         </div>
+
+        {/* Custom Fields */}
+        {listFields.length > 0 && (
+          <div className="space-y-4">
+            <Label className="flex items-center gap-2">
+              <SlidersHorizontal className="h-4 w-4" />
+              Custom Fields
+            </Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {listFields.map((field) => (
+                <CustomFieldInput
+                  key={field.id}
+                  field={field}
+                  value={formData.customFields[field.id]}
+                  onChange={(value) => handleCustomFieldChange(field.id, value)}
+                />
+              ))}
+            </div>
+            {errors.customFields && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {errors.customFields}
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Advanced Options */}
@@ -444,6 +542,114 @@ export function TaskForm({
   );
 }
 
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | null | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+}
+
+/**
+ * Input for a single custom field, chosen by the field type
+ */
+function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  const id = `custom-field-${field.id}`;
+  const label = (
+    <Label htmlFor={id}>
+      {field.name}
+      {field.required && " *"}
+    </Label>
+  );
+
+  switch (field.type) {
+    case "checkbox":
+      return (
+        <div className="flex items-center gap-2 pt-6">
+          <Checkbox
+            id={id}
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(checked === true)}
+          />
+          {label}
+        </div>
+      );
+
+    case "single_select":
+      return (
+        <div className="space-y-2">
+          {label}
+          <Select
+            value={typeof value === "string" ? value : ""}
+            onValueChange={(option) => onChange(option || null)}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={`Select ${field.name}`} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="">None</SelectItem>
+              {field.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+
+    case "multi_select": {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option)
+          ? selected.filter((item) => item !== option)
+          : [...selected, option];
+        onChange(next.length > 0 ? next : null);
+      };
+
+      return (
+        <div className="space-y-2">
+          {label}
+          <div id={id} className="flex flex-wrap gap-2">
+            {field.options.map((option) => (
+              <Badge
+                key={option}
+                variant={selected.includes(option) ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => toggle(option)}
+              >
+                {option}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <div className="space-y-2">
+          {label}
+          <Input
+            id={id}
+            type={
+              field.type === "number"
+                ? "number"
+                : field.type === "date"
+                  ? "date"
+                  : field.type === "url"
+                    ? "url"
+                    : "text"
+            }
+            placeholder={field.type === "url" ? "https://" : undefined}
+            value={formatCustomFieldValue(value ?? undefined)}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange(e.target.value || null)
+            }
+          />
+        </div>
+      );
+  }
+}
+
 export function ListForm({ list, onSave, onCancel, className }: ListFormProps) {
   const [formData, setFormData] = useState({
     name: list?.name || "",
@@ -2,25 +2,41 @@
 
 import React from "react";
 import { useState, useCallback, useRef } from "react";
+import { usePathname } from "next/navigation";
 import { Sidebar } from "./Sidebar";
 import { Header } from "./Header";
 import { ViewSystem } from "../views";
 import { SearchComponent } from "../search/SearchComponent";
 import { useApp } from "@/store/hooks";
+import { useListStore } from "@/store/list-store";
 import { useViewTransition } from "@/hooks/use-view-transition";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 
+type TaskView = "today" | "next7" | "upcoming" | "all";
+
 interface MainLayoutProps {
   children?: React.ReactNode;
 }
 
 export function MainLayout({ children }: MainLayoutProps) {
   const { sidebarCollapsed, toggleSidebar } = useApp();
+  const pathname = usePathname();
   const [showSearch, setShowSearch] = useState(false);
+  // Smart lists are shown as "filter:<savedFilterId>"
   const [currentView, setCurrentView] = useState<
-    "today" | "next7" | "upcoming" | "all"
+    TaskView | `filter:${string}`
   >("today");
+  const savedFilters = useListStore((state) => state.savedFilters);
+  const savedFilter = savedFilters.find(
+    (filter) => `filter:${filter.id}` === currentView
+  );
+  // A smart list that was deleted or isn't loaded yet shows all tasks
+  const view = savedFilter
+    ? "filter"
+    : currentView.startsWith("filter:")
+    ? "all"
+    : (currentView as TaskView);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
 
@@ -86,6 +102,11 @@ export function MainLayout({ children }: MainLayoutProps) {
     ]
   );
 
+  // Public share pages are shown on their own, without the app around them
+  if (pathname?.startsWith("/share/")) {
+    return <>{children}</>;
+  }
+
   return (
     <div className="flex h-screen bg-background">
       <Sidebar
@@ -127,7 +148,7 @@ export function MainLayout({ children }: MainLayoutProps) {
                 }`}
                 ref={contentRef}
               >
-                <ViewSystem view={currentView} />
+                <ViewSystem view={view} savedFilter={savedFilter} />
               </div>
             )}
           </div>
@@ -1,6 +1,12 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import {
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  type DragEvent,
+} from "react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -13,9 +19,18 @@ import {
   Edit,
   Trash2,
   Inbox,
+  Filter,
+  ChevronDown,
+  ChevronRight,
+  FolderPlus,
+  Archive,
+  ArchiveRestore,
+  Check,
+  X,
 } from "lucide-react";
 import { useViewTransition } from "@/hooks/use-view-transition";
 import { useListStore } from "@/store/list-store";
+import { useTaskStore } from "@/store/task-store";
 import { CreateListData } from "@/types/lists";
 import type { ListId } from "@/types/utils";
 
@@ -33,6 +48,12 @@ export function Sidebar({
   const [showCreateList, setShowCreateList] = useState(false);
   const [newListName, setNewListName] = useState("");
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const [showCreateFolder, setShowCreateFolder] = useState(false);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+  const [showArchivedFolders, setShowArchivedFolders] = useState(false);
+  // Folder ID a list is dragged over, or "" for the ungrouped lists
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
   const sidebarRef = useRef<HTMLDivElement>(null);
 
   const {
@@ -48,6 +69,51 @@ export function Sidebar({
   const updateList = listStore.updateList;
   const deleteList = listStore.deleteList;
   const toggleFavorite = listStore.toggleFavorite;
+  const savedFilters = listStore.savedFilters;
+  const loadSavedFilters = listStore.loadSavedFilters;
+  const deleteSavedFilter = listStore.deleteSavedFilter;
+  const collections = listStore.collections;
+  const loadCollections = listStore.loadCollections;
+  const createCollection = listStore.createCollection;
+  const updateCollection = listStore.updateCollection;
+  const deleteCollection = listStore.deleteCollection;
+  const moveListToCollection = listStore.moveListToCollection;
+  const sharedLists = listStore.sharedLists;
+  const invitations = listStore.invitations;
+  const loadSharedLists = listStore.loadSharedLists;
+  const loadInvitations = listStore.loadInvitations;
+  const respondToInvitation = listStore.respondToInvitation;
+  const tasks = useTaskStore((state) => state.tasks);
+
+  // Smart list counts are evaluated by the API; refresh them whenever
+  // the tasks change
+  useEffect(() => {
+    loadSavedFilters().catch((error) => {
+      console.error("Failed to load saved filters:", error);
+    });
+  }, [loadSavedFilters, tasks]);
+
+  // Folder task counts are aggregated by the API as well
+  useEffect(() => {
+    loadCollections().catch((error) => {
+      console.error("Failed to load collections:", error);
+    });
+  }, [loadCollections, tasks]);
+
+  useEffect(() => {
+    Promise.all([loadSharedLists(), loadInvitations()]).catch((error) => {
+      console.error("Failed to load shared lists:", error);
+    });
+  }, [loadSharedLists, loadInvitations]);
+
+  const activeFolders = collections.filter((folder) => !folder.archivedAt);
+  const archivedFolders = collections.filter((folder) => folder.archivedAt);
+  const filedListIds = new Set(
+    collections.flatMap((collection) => collection.listIds)
+  );
+  const ungroupedLists = lists.filter(
+    (list: any) => !filedListIds.has(list.id)
+  );
 
   const handleCreateList = async () => {
     if (!newListName.trim()) return;
@@ -100,6 +166,90 @@ export function Sidebar({
     }
   };
 
+  const handleInvitation = async (invitationId: string, accept: boolean) => {
+    try {
+      await respondToInvitation(invitationId, accept);
+    } catch (error) {
+      console.error("Failed to answer invitation:", error);
+    }
+  };
+
+  const handleDeleteSavedFilter = async (filterId: string) => {
+    if (confirm("Are you sure you want to delete this smart list?")) {
+      try {
+        await deleteSavedFilter(filterId);
+        if (currentView === `filter:${filterId}`) {
+          onViewChange?.("today");
+        }
+      } catch (error) {
+        console.error("Failed to delete saved filter:", error);
+      }
+    }
+  };
+
+  const handleCreateFolder = async () => {
+    if (!newFolderName.trim()) return;
+
+    try {
+      await createCollection({ name: newFolderName.trim() });
+      setNewFolderName("");
+      setShowCreateFolder(false);
+    } catch (error) {
+      console.error("Failed to create folder:", error);
+    }
+  };
+
+  const handleToggleFolder = (folderId: string) => {
+    setCollapsedFolders((current) =>
+      current.includes(folderId)
+        ? current.filter((id) => id !== folderId)
+        : [...current, folderId]
+    );
+  };
+
+  const handleArchiveFolder = async (folderId: string, archived: boolean) => {
+    try {
+      await updateCollection(folderId, { archived });
+    } catch (error) {
+      console.error("Failed to archive folder:", error);
+    }
+  };
+
+  const handleDeleteFolder = async (folderId: string) => {
+    if (confirm("Delete this folder? Its lists are kept.")) {
+      try {
+        await deleteCollection(folderId);
+      } catch (error) {
+        console.error("Failed to delete folder:", error);
+      }
+    }
+  };
+
+  // Drop targets: a folder ID, or "" to take a list out of its folder
+  const getDropHandlers = (target: string) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes("application/x-list-id")) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDropTarget(target);
+    },
+    onDragLeave: () => {
+      setDropTarget((current) => (current === target ? null : current));
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const listId = e.dataTransfer.getData("application/x-list-id");
+      if (!listId) return;
+
+      moveListToCollection(listId as ListId, target || null).catch(
+        (error) => {
+          console.error("Failed to move list:", error);
+        }
+      );
+    },
+  });
+
   const handleListClick = useCallback(
     (listName: string) => {
       if (isTransitioning || !onViewChange) return;
@@ -153,6 +303,68 @@ export function Sidebar({
     ]
   );
 
+  const renderListItem = (list: any) => (
+    <div
+      key={list.id}
+      className="group relative flex items-center gap-2 list-item-transition"
+      draggable={!collapsed}
+      onDragStart={(e) => {
+        e.dataTransfer.setData("application/x-list-id", list.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+    >
+      <Button
+        variant="ghost"
+        className={cn(
+          "flex-1 justify-start gap-2 h-8 transition-all duration-200",
+          collapsed && "px-2",
+          currentView === list.name.toLowerCase().replace(" ", "") &&
+            "bg-primary/10"
+        )}
+        style={{ color: list.color }}
+        onClick={() => handleListClick(list.name)}
+      >
+        <span className="text-sm">{list.emoji || "📋"}</span>
+        {!collapsed && (
+          <>
+            <span className="flex-1 text-left truncate">{list.name}</span>
+            <Badge variant="secondary" className="text-xs h-5 min-w-[20px]">
+              0
+            </Badge>
+          </>
+        )}
+      </Button>
+
+      {/* List Actions */}
+      {!collapsed && (
+        <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => handleToggleFavorite(list.id)}
+          >
+            {list.isFavorite ? (
+              <Star className="h-3 w-3 fill-current" />
+            ) : (
+              <StarOff className="h-3 w-3" />
+            )}
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => handleDeleteList(list.id)}
+            disabled={list.name === "Inbox"}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div
       ref={sidebarRef}
@@ -191,14 +403,25 @@ export function Sidebar({
             <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
               Lists
             </h3>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-              onClick={() => setShowCreateList(true)}
-            >
-              <Plus className="h-3 w-3" />
-            </Button>
+            <div className="flex">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="New folder"
+                onClick={() => setShowCreateFolder(true)}
+              >
+                <FolderPlus className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setShowCreateList(true)}
+              >
+                <Plus className="h-3 w-3" />
+              </Button>
+            </div>
           </div>
         )}
 
@@ -236,23 +459,257 @@ export function Sidebar({
           </Card>
         )}
 
-        {/* List Items */}
-        <div className="space-y-1">
-          {lists.map((list: any) => (
+        {/* Create Folder Form */}
+        {showCreateFolder && !collapsed && (
+          <Card className="p-2 mb-2 view-modal-transition">
+            <input
+              type="text"
+              placeholder="Folder name..."
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              className="w-full bg-transparent outline-none text-sm"
+              onKeyPress={(e) => e.key === "Enter" && handleCreateFolder()}
+              autoFocus
+            />
+            <div className="flex gap-1 mt-2">
+              <Button
+                size="sm"
+                onClick={handleCreateFolder}
+                disabled={!newFolderName.trim()}
+              >
+                Create
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setShowCreateFolder(false);
+                  setNewFolderName("");
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Folders - lists can be dragged between them */}
+        {activeFolders.map((folder) => {
+          const isOpen = !collapsedFolders.includes(folder.id);
+          const folderLists = folder.listIds
+            .map((id) => lists.find((list: any) => list.id === id))
+            .filter(Boolean);
+
+          return (
             <div
-              key={list.id}
-              className="group relative flex items-center gap-2 list-item-transition"
+              key={folder.id}
+              className={cn(
+                "mb-1 rounded-md",
+                dropTarget === folder.id && "ring-2 ring-primary/40"
+              )}
+              {...getDropHandlers(folder.id)}
             >
+              <div className="group relative flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  className={cn(
+                    "flex-1 justify-start gap-2 h-8",
+                    collapsed && "px-2"
+                  )}
+                  style={{ color: folder.color }}
+                  onClick={() => handleToggleFolder(folder.id)}
+                  title={folder.description}
+                >
+                  {!collapsed &&
+                    (isOpen ? (
+                      <ChevronDown className="h-3 w-3" />
+                    ) : (
+                      <ChevronRight className="h-3 w-3" />
+                    ))}
+                  <span className="text-sm">{folder.icon}</span>
+                  {!collapsed && (
+                    <>
+                      <span className="flex-1 text-left truncate font-medium">
+                        {folder.name}
+                      </span>
+                      <Badge
+                        variant="secondary"
+                        className="text-xs h-5 min-w-[20px]"
+                      >
+                        {folder.taskCount}
+                      </Badge>
+                    </>
+                  )}
+                </Button>
+
+                {!collapsed && (
+                  <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Archive folder"
+                      onClick={() => handleArchiveFolder(folder.id, true)}
+                    >
+                      <Archive className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleDeleteFolder(folder.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {isOpen && (
+                <div className={cn("space-y-1", !collapsed && "pl-4")}>
+                  {folderLists.map((list: any) => renderListItem(list))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {/* List Items - lists outside of folders */}
+        <div
+          className={cn(
+            "space-y-1 min-h-[8px] rounded-md",
+            dropTarget === "" && "ring-2 ring-primary/40"
+          )}
+          {...getDropHandlers("")}
+        >
+          {ungroupedLists.map((list: any) => renderListItem(list))}
+        </div>
+
+        {/* Archived Folders */}
+        {archivedFolders.length > 0 && !collapsed && (
+          <div className="mt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start gap-2 h-7 text-xs text-muted-foreground"
+              onClick={() => setShowArchivedFolders(!showArchivedFolders)}
+            >
+              {showArchivedFolders ? (
+                <ChevronDown className="h-3 w-3" />
+              ) : (
+                <ChevronRight className="h-3 w-3" />
+              )}
+              Archived folders ({archivedFolders.length})
+            </Button>
+            {showArchivedFolders &&
+              archivedFolders.map((folder) => (
+                <div
+                  key={folder.id}
+                  className="flex items-center gap-2 px-3 h-7 text-sm text-muted-foreground"
+                >
+                  <span>{folder.icon}</span>
+                  <span className="flex-1 truncate">{folder.name}</span>
+                  <span className="text-xs">{folder.listIds.length}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Unarchive folder"
+                    onClick={() => handleArchiveFolder(folder.id, false)}
+                  >
+                    <ArchiveRestore className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {/* Smart Lists - saved filters, evaluated when opened */}
+      {savedFilters.length > 0 && (
+        <div className="p-2 border-t">
+          {!collapsed && (
+            <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2 px-2">
+              Smart Lists
+            </h3>
+          )}
+          <div className="space-y-1">
+            {savedFilters.map((filter) => (
+              <div
+                key={filter.id}
+                className="group relative flex items-center gap-2 list-item-transition"
+              >
+                <Button
+                  variant="ghost"
+                  className={cn(
+                    "flex-1 justify-start gap-2 h-8 transition-all duration-200",
+                    collapsed && "px-2",
+                    currentView === `filter:${filter.id}` && "bg-primary/10"
+                  )}
+                  style={{ color: filter.color }}
+                  onClick={() => onViewChange?.(`filter:${filter.id}`)}
+                  title={filter.description}
+                >
+                  {filter.icon ? (
+                    <span className="text-sm">{filter.icon}</span>
+                  ) : (
+                    <Filter className="h-4 w-4" />
+                  )}
+                  {!collapsed && (
+                    <>
+                      <span className="flex-1 text-left truncate">
+                        {filter.name}
+                      </span>
+                      <Badge
+                        variant="secondary"
+                        className="text-xs h-5 min-w-[20px]"
+                      >
+                        {filter.taskCount}
+                      </Badge>
+                    </>
+                  )}
+                </Button>
+
+                {!collapsed && (
+                  <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleDeleteSavedFilter(filter.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Shared with me - lists of other users, with their owner */}
+      {(sharedLists.length > 0 || invitations.length > 0) && (
+        <div className="p-2 border-t">
+          {!collapsed && (
+            <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2 px-2">
+              Shared with me
+            </h3>
+          )}
+          <div className="space-y-1">
+            {sharedLists.map((list) => (
               <Button
+                key={list.id}
                 variant="ghost"
                 className={cn(
-                  "flex-1 justify-start gap-2 h-8 transition-all duration-200",
+                  "w-full justify-start gap-2 h-8 transition-all duration-200",
                   collapsed && "px-2",
                   currentView === list.name.toLowerCase().replace(" ", "") &&
                     "bg-primary/10"
                 )}
                 style={{ color: list.color }}
                 onClick={() => handleListClick(list.name)}
+                title={`Shared by ${list.ownerName} (${list.role})`}
               >
                 <span className="text-sm">{list.emoji || "📋"}</span>
                 {!collapsed && (
@@ -260,47 +717,55 @@ export function Sidebar({
                     <span className="flex-1 text-left truncate">
                       {list.name}
                     </span>
-                    <Badge
-                      variant="secondary"
-                      className="text-xs h-5 min-w-[20px]"
-                    >
-                      0
-                    </Badge>
+                    <span className="flex h-5 w-5 items-center justify-center overflow-hidden rounded-full bg-muted text-[10px] font-medium text-foreground">
+                      {list.ownerAvatar ? (
+                        <img
+                          src={list.ownerAvatar}
+                          alt={list.ownerName}
+                          className="h-full w-full object-cover"
+                        />
+                      ) : (
+                        list.ownerName.charAt(0).toUpperCase()
+                      )}
+                    </span>
                   </>
                 )}
               </Button>
+            ))}
 
-              {/* List Actions */}
-              {!collapsed && (
-                <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+            {/* Pending invitations */}
+            {!collapsed &&
+              invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center gap-2 px-3 h-8 text-sm text-muted-foreground"
+                  title={`Invited by ${invitation.invitedByName} (${invitation.role})`}
+                >
+                  <span>{invitation.listEmoji || "📋"}</span>
+                  <span className="flex-1 truncate">{invitation.listName}</span>
                   <Button
                     variant="ghost"
                     size="icon"
                     className="h-6 w-6"
-                    onClick={() => handleToggleFavorite(list.id)}
+                    title="Accept invitation"
+                    onClick={() => handleInvitation(invitation.id, true)}
                   >
-                    {list.isFavorite ? (
-                      <Star className="h-3 w-3 fill-current" />
-                    ) : (
-                      <StarOff className="h-3 w-3" />
-                    )}
+                    <Check className="h-3 w-3" />
                   </Button>
-
                   <Button
                     variant="ghost"
                     size="icon"
                     className="h-6 w-6"
-                    onClick={() => handleDeleteList(list.id)}
-                    disabled={list.name === "Inbox"}
+                    title="Decline invitation"
+                    onClick={() => handleInvitation(invitation.id, false)}
                   >
-                    <Trash2 className="h-3 w-3" />
+                    <X className="h-3 w-3" />
                   </Button>
                 </div>
-              )}
-            </div>
-          ))}
+              ))}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Collapsed State - Quick Add List Button */}
       {collapsed && (
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,7 +13,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { ListCard } from "./ListCard";
-import { AppList } from "@/types/lists";
+import { AppList, ListTemplate } from "@/types/lists";
 import { useLists } from "@/store/hooks";
 import {
   Grid,
@@ -25,6 +25,7 @@ import {
   Star,
   Archive,
   Inbox,
+  LayoutTemplate,
 } from "lucide-react";
 
 interface ListGridProps {
@@ -72,7 +73,36 @@ export function ListGrid({
   const [newListEmoji, setNewListEmoji] = useState("📋");
   const [newListColor, setNewListColor] = useState("#3B82F6");
 
-  const { lists, createList } = useLists();
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [templates, setTemplates] = useState<ListTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateListName, setTemplateListName] = useState("");
+  const [anchorDate, setAnchorDate] = useState("");
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  const { lists, createList, refreshLists } = useLists();
+
+  // Load list templates whenever the template dialog opens
+  useEffect(() => {
+    if (!showTemplateDialog) return;
+
+    const today = new Date();
+    today.setMinutes(today.getMinutes() - today.getTimezoneOffset());
+    setAnchorDate(today.toISOString().slice(0, 10));
+    setTemplateError(null);
+
+    fetch("/api/list-templates")
+      .then((response) => response.json())
+      .then((result) => {
+        const loaded: ListTemplate[] = result.data?.templates ?? [];
+        setTemplates(loaded);
+        setTemplateId(loaded[0]?.id ?? "");
+        setTemplateListName(loaded[0]?.name ?? "");
+      })
+      .catch((error) => {
+        console.error("Failed to load list templates:", error);
+      });
+  }, [showTemplateDialog]);
 
   // Available emojis for list icons
   const emojiOptions = [
@@ -188,6 +218,49 @@ export function ListGrid({
     }
   };
 
+  const handleSelectTemplate = (id: string) => {
+    setTemplateId(id);
+    setTemplateListName(
+      templates.find((template) => template.id === id)?.name ?? ""
+    );
+  };
+
+  const handleCreateFromTemplate = async () => {
+    if (!templateId || !templateListName.trim()) return;
+
+    try {
+      // Task dates keep their distance from the anchor day
+      const response = await fetch(
+        `/api/list-templates/${templateId}/instantiate`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: templateListName.trim(),
+            anchorDate: anchorDate || undefined,
+          }),
+        }
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          result.error?.message ?? "Failed to create list from template"
+        );
+      }
+
+      await refreshLists();
+      setShowTemplateDialog(false);
+      onCreateList?.();
+    } catch (error) {
+      console.error("Failed to create list from template:", error);
+      setTemplateError(
+        error instanceof Error
+          ? error.message
+          : "Failed to create list from template"
+      );
+    }
+  };
+
   const handleListSelect = (list: AppList) => {
     onListSelect?.(list);
   };
@@ -230,81 +303,168 @@ export function ListGrid({
         </div>
 
         {showCreateButton && (
-          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="h-4 w-4" />
-                Create List
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
-              <DialogHeader>
-                <DialogTitle>Create New List</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">List Name</label>
-                  <Input
-                    placeholder="Enter list name..."
-                    value={newListName}
-                    onChange={(e: any) => setNewListName(e.target.value)}
-                    onKeyPress={(e: any) => e.key === "Enter" && handleCreateList()}
-                  />
-                </div>
+          <div className="flex gap-2">
+            <Dialog
+              open={showTemplateDialog}
+              onOpenChange={setShowTemplateDialog}
+            >
+              <DialogTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <LayoutTemplate className="h-4 w-4" />
+                  New from template
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle>New List from Template</DialogTitle>
+                </DialogHeader>
+                {templates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">
+                    No list templates yet. Save a list as a template to reuse it
+                    here.
+                  </p>
+                ) : (
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Template</label>
+                      <select
+                        value={templateId}
+                        onChange={(e) => handleSelectTemplate(e.target.value)}
+                        className="w-full text-sm border rounded px-2 py-2"
+                      >
+                        {templates.map((template) => (
+                          <option key={template.id} value={template.id}>
+                            {template.emoji} {template.name} (
+                            {template.defaultTasks.length} tasks)
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">List Name</label>
+                      <Input
+                        placeholder="Enter list name..."
+                        value={templateListName}
+                        onChange={(e: any) =>
+                          setTemplateListName(e.target.value)
+                        }
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Start Date</label>
+                      <Input
+                        type="date"
+                        value={anchorDate}
+                        onChange={(e: any) => setAnchorDate(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Task dates keep their distance from this day
+                      </p>
+                    </div>
 
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Icon</label>
-                  <div className="grid grid-cols-10 gap-2">
-                    {emojiOptions.map((emoji) => (
+                    {templateError && (
+                      <p className="text-sm text-destructive">
+                        {templateError}
+                      </p>
+                    )}
+
+                    <div className="flex gap-2 pt-4">
                       <Button
-                        key={emoji}
-                        variant={newListEmoji === emoji ? "default" : "outline"}
-                        size="sm"
-                        className="h-8 w-8 p-0"
-                        onClick={() => setNewListEmoji(emoji)}
+                        onClick={handleCreateFromTemplate}
+                        disabled={!templateId || !templateListName.trim()}
                       >
-                        {emoji}
+                        Create List
                       </Button>
-                    ))}
+                      <Button
+                        variant="ghost"
+                        onClick={() => setShowTemplateDialog(false)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
                   </div>
-                </div>
+                )}
+              </DialogContent>
+            </Dialog>
 
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Color</label>
-                  <div className="grid grid-cols-5 gap-2">
-                    {colorOptions.map((color) => (
-                      <Button
-                        key={color}
-                        variant="outline"
-                        size="sm"
-                        className="h-8 w-8 p-0 border-2"
-                        style={{
-                          backgroundColor: color,
-                          borderColor: newListColor === color ? "#000" : color,
-                        }}
-                        onClick={() => setNewListColor(color)}
-                      />
-                    ))}
+            <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Create List
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle>Create New List</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">List Name</label>
+                    <Input
+                      placeholder="Enter list name..."
+                      value={newListName}
+                      onChange={(e: any) => setNewListName(e.target.value)}
+                      onKeyPress={(e: any) => e.key === "Enter" && handleCreateList()}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Icon</label>
+                    <div className="grid grid-cols-10 gap-2">
+                      {emojiOptions.map((emoji) => (
+                        <Button
+                          key={emoji}
+                          variant={newListEmoji === emoji ? "default" : "outline"}
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setNewListEmoji(emoji)}
+                        >
+                          {emoji}
+                        </Button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                <div className="flex gap-2 pt-4">
-                  <Button
-                    onClick={handleCreateList}
-                    disabled={!newListName.trim()}
-                  >
-                    Create List
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    onClick={() => setShowCreateDialog(false)}
-                  >
-                    Cancel
-                  </Button>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Color</label>
+                    <div className="grid grid-cols-5 gap-2">
+                      {colorOptions.map((color) => (
+                        <Button
+                          key={color}
+                          variant="outline"
+                          size="sm"
+                          className="h-8 w-8 p-0 border-2"
+                          style={{
+                            backgroundColor: color,
+                            borderColor: newListColor === color ? "#000" : color,
+                          }}
+                          onClick={() => setNewListColor(color)}
+                        />
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2 pt-4">
+                    <Button
+                      onClick={handleCreateList}
+                      disabled={!newListName.trim()}
+                    >
+                      Create List
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => setShowCreateDialog(false)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         )}
       </div>
 
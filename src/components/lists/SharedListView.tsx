@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, Circle, Clock } from 'lucide-react';
+import type { PublicList, PublicTask } from '@/lib/db/types';
+
+interface SharedListViewProps {
+  linkId: string;
+}
+
+/**
+ * Read-only view of a list opened through a public share link
+ */
+export function SharedListView({ linkId }: SharedListViewProps) {
+  const [list, setList] = useState<PublicList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/share/${encodeURIComponent(linkId)}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok || !body.success) {
+          throw new Error(body.error?.message ?? 'Failed to load list');
+        }
+        setList(body.data.list);
+      })
+      .catch((error: Error) => setError(error.message));
+  }, [linkId]);
+
+  if (error) {
+    return (
+      <div className="mx-auto max-w-2xl py-16 text-center text-muted-foreground">
+        {error}
+      </div>
+    );
+  }
+
+  if (!list) {
+    return (
+      <div className="mx-auto max-w-2xl py-16 text-center text-muted-foreground">
+        Loading…
+      </div>
+    );
+  }
+
+  // Child tasks are shown under their parent
+  const topLevelTasks = list.tasks.filter(
+    (task) =>
+      !task.parentTaskId ||
+      !list.tasks.some((parent) => parent.id === task.parentTaskId)
+  );
+  const childTasks = (taskId: string) =>
+    list.tasks.filter((task) => task.parentTaskId === taskId);
+
+  const renderTask = (task: PublicTask, depth = 0) => (
+    <li key={task.id} className="space-y-1">
+      <div
+        className="flex items-start gap-2"
+        style={{ paddingLeft: depth * 24 }}
+      >
+        {task.status === 'done' ? (
+          <CheckCircle2 className="mt-0.5 h-4 w-4 text-green-600" />
+        ) : (
+          <Circle className="mt-0.5 h-4 w-4 text-muted-foreground" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span
+              className={cn(
+                'truncate',
+                task.status === 'done' && 'line-through text-muted-foreground'
+              )}
+            >
+              {task.name}
+            </span>
+            {task.priority !== 'None' && (
+              <Badge variant="outline" className="text-xs">
+                {task.priority}
+              </Badge>
+            )}
+            {task.deadline && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock className="h-3 w-3" />
+                {new Date(task.deadline).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+          {task.description && (
+            <p className="text-sm text-muted-foreground">{task.description}</p>
+          )}
+          {task.subtasks.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {task.subtasks.map((subtask) => (
+                <li
+                  key={subtask.id}
+                  className="flex items-center gap-2 text-sm text-muted-foreground"
+                >
+                  {subtask.isCompleted ? (
+                    <CheckCircle2 className="h-3 w-3" />
+                  ) : (
+                    <Circle className="h-3 w-3" />
+                  )}
+                  <span className={cn(subtask.isCompleted && 'line-through')}>
+                    {subtask.name}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      {childTasks(task.id).length > 0 && (
+        <ul className="space-y-1">
+          {childTasks(task.id).map((child) => renderTask(child, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="mx-auto max-w-2xl py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle
+            className="flex items-center gap-2"
+            style={{ color: list.color }}
+          >
+            <span>{list.emoji || '📋'}</span>
+            {list.name}
+          </CardTitle>
+          {list.description && (
+            <p className="text-sm text-muted-foreground">{list.description}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Read-only shared list
+            {list.expiresAt &&
+              ` · link expires ${new Date(list.expiresAt).toLocaleString()}`}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {topLevelTasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No tasks yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {topLevelTasks.map((task) => renderTask(task))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
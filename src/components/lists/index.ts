@@ -1,2 +1,3 @@
 export { ListCard } from './ListCard';
-export { ListGrid } from './ListGrid';
\ No newline at end of file
+export { ListGrid } from './ListGrid';
+export { SharedListView } from './SharedListView';
\ No newline at end of file
@@ -66,6 +66,9 @@ vi.mock('lucide-react', () => ({
   Paperclip: () => <svg data-testid="paperclip-icon" />,
   Bell: () => <svg data-testid="bell-icon" />,
   AlertCircle: () => <svg data-testid="alert-icon" />,
+  Lock: () => <svg data-testid="lock-icon" />,
+  Play: () => <svg data-testid="play-icon" />,
+  Square: () => <svg data-testid="square-icon" />,
 }));
 
 // Mock utils
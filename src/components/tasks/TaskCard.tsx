@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { cn } from "@/lib/utils";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -18,10 +18,16 @@ import {
   Paperclip,
   Bell,
   AlertCircle,
+  Lock,
+  Play,
+  Square,
+  LayoutTemplate,
 } from "lucide-react";
 import { AppTask } from "@/types/tasks";
+import type { TaskTemplate } from "@/lib/db/types";
 import { TaskId } from "@/types/utils";
 import { useTasks } from "@/store/hooks";
+import { formatTrackedTime } from "@/lib/time-tracking";
 
 interface TaskCardProps {
   task: AppTask;
@@ -30,6 +36,7 @@ interface TaskCardProps {
   onComplete?: (taskId: TaskId) => void;
   onDelete?: (taskId: TaskId) => void;
   onDuplicate?: (taskId: TaskId) => void;
+  onSaveAsTemplate?: (template: TaskTemplate) => void;
   className?: string;
   showActions?: boolean;
   compact?: boolean;
@@ -42,13 +49,28 @@ export function TaskCard({
   onComplete,
   onDelete,
   onDuplicate,
+  onSaveAsTemplate,
   className,
   showActions = true,
   compact = false,
 }: TaskCardProps) {
   const [showActionsMenu, setShowActionsMenu] = useState(false);
+  const [timerStartedAt, setTimerStartedAt] = useState<Date | null>(
+    task.runningTimer ? new Date(task.runningTimer.startedAt) : null
+  );
+  const [timerBusy, setTimerBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const { updateTask } = useTasks();
 
+  // Tick the elapsed time while the timer runs
+  useEffect(() => {
+    if (!timerStartedAt) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timerStartedAt]);
+
   const handleComplete = async () => {
     const newStatus = task.status === "done" ? "todo" : "done";
     try {
@@ -62,6 +84,57 @@ export function TaskCard({
     }
   };
 
+  const handleToggleTimer = async () => {
+    const action = timerStartedAt ? "stop" : "start";
+    setTimerBusy(true);
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/timer/${action}`, {
+        method: "POST",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message ?? `Failed to ${action} timer`);
+      }
+
+      if (action === "start") {
+        setTimerStartedAt(new Date(result.data.entry.startedAt));
+      } else {
+        setTimerStartedAt(null);
+        await updateTask({
+          id: task.id,
+          actualTime: result.data.actualTime ?? undefined,
+          trackedSeconds: result.data.trackedSeconds,
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} timer:`, error);
+    } finally {
+      setTimerBusy(false);
+    }
+  };
+
+  const handleSaveAsTemplate = async () => {
+    const name = window.prompt("Template name", task.name)?.trim();
+    if (!name) return;
+
+    try {
+      // The server copies the task's subtasks, labels and reminders
+      const response = await fetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taskId: task.id, name }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error?.message ?? "Failed to save template");
+      }
+
+      onSaveAsTemplate?.(result.data.template);
+    } catch (error) {
+      console.error("Failed to save task as template:", error);
+    }
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case "High":
@@ -105,6 +178,9 @@ export function TaskCard({
       case "duplicate":
         onDuplicate?.(task.id);
         break;
+      case "template":
+        handleSaveAsTemplate();
+        break;
       case "archive":
         updateTask({ id: task.id, status: "archived" });
         break;
@@ -158,7 +234,7 @@ export function TaskCard({
 
                   {/* Actions Menu */}
                   {showActionsMenu && (
-                    <div className="absolute right-0 top-6 z-10 bg-background border rounded-md shadow-lg py-1 min-w-[120px]">
+                    <div className="absolute right-0 top-6 z-10 bg-background border rounded-md shadow-lg py-1 min-w-[140px]">
                       <Button
                         variant="ghost"
                         size="sm"
@@ -177,6 +253,15 @@ export function TaskCard({
                         <Copy className="h-3 w-3 mr-2" />
                         Duplicate
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full justify-start text-xs h-7"
+                        onClick={() => handleActionClick("template")}
+                      >
+                        <LayoutTemplate className="h-3 w-3 mr-2" />
+                        Save as template
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -221,6 +306,18 @@ export function TaskCard({
                 </span>
               </Badge>
 
+              {/* Blocked */}
+              {task.isBlocked && task.status !== "done" && (
+                <Badge
+                  variant="warning"
+                  className="text-xs px-1.5 py-0.5 flex items-center gap-1"
+                  title={`Waiting on ${task.blockedBy?.length ?? 0} unfinished task(s)`}
+                >
+                  <Lock className="h-3 w-3" />
+                  Blocked
+                </Badge>
+              )}
+
               {/* Due Date */}
               {(task.dueDate || task.deadline) && (
                 <Badge
@@ -247,6 +344,31 @@ export function TaskCard({
                 </Badge>
               )}
 
+              {/* Timer */}
+              {(timerStartedAt || task.status !== "done") && !compact && (
+                <Button
+                  variant={timerStartedAt ? "default" : "outline"}
+                  size="sm"
+                  className="h-5 px-1.5 text-xs gap-1 font-mono"
+                  onClick={handleToggleTimer}
+                  disabled={timerBusy}
+                  title={timerStartedAt ? "Stop timer" : "Start timer"}
+                >
+                  {timerStartedAt ? (
+                    <>
+                      <Square className="h-3 w-3" />
+                      {formatElapsed((now - timerStartedAt.getTime()) / 1000)}
+                    </>
+                  ) : (
+                    <>
+                      <Play className="h-3 w-3" />
+                      {!!task.trackedSeconds &&
+                        formatTrackedTime(task.trackedSeconds)}
+                    </>
+                  )}
+                </Button>
+              )}
+
               {/* Attachments */}
               {task.attachments && task.attachments.length > 0 && (
                 <Badge
@@ -306,3 +428,17 @@ export function TaskCard({
     </Card>
   );
 }
+
+/**
+ * Format a running timer's elapsed seconds as H:MM:SS
+ */
+function formatElapsed(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}`;
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Edit, Trash2, Send, X } from "lucide-react";
+import type { AppTaskComment, TaskDetailsProps } from "@/types/tasks";
+import type { TaskId } from "@/types/utils";
+
+interface TaskCommentsProps
+  extends Pick<
+    TaskDetailsProps,
+    | "comments"
+    | "currentUserId"
+    | "onAddComment"
+    | "onEditComment"
+    | "onDeleteComment"
+  > {
+  taskId: TaskId;
+  className?: string;
+}
+
+/**
+ * Comments timeline for the task details view
+ */
+export function TaskComments({
+  taskId,
+  comments = [],
+  currentUserId,
+  onAddComment,
+  onEditComment,
+  onDeleteComment,
+  className,
+}: TaskCommentsProps) {
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    const body = draft.trim();
+    if (!body || !onAddComment) return;
+
+    setSaving(true);
+    try {
+      await onAddComment(taskId, body);
+      setDraft("");
+    } catch (error) {
+      console.error("Failed to add comment:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = async (comment: AppTaskComment) => {
+    const body = editDraft.trim();
+    if (!body || !onEditComment) return;
+
+    setSaving(true);
+    try {
+      if (body !== comment.body) {
+        await onEditComment(comment.id, body);
+      }
+      setEditingId(null);
+    } catch (error) {
+      console.error("Failed to edit comment:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (comment: AppTaskComment) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-4 w-4" />
+        <h4 className="text-sm font-semibold">Comments</h4>
+        {comments.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {comments.length}
+          </span>
+        )}
+      </div>
+
+      {/* Timeline */}
+      {comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet</p>
+      ) : (
+        <ol className="relative space-y-4 border-l pl-4">
+          {comments.map((comment) => {
+            const isAuthor = comment.authorId === currentUserId;
+            const isEditing = editingId === comment.id;
+
+            return (
+              <li key={comment.id} className="group relative">
+                <span className="absolute -left-[1.6rem] flex h-6 w-6 items-center justify-center overflow-hidden rounded-full bg-muted text-xs font-medium">
+                  {comment.authorAvatar ? (
+                    <img
+                      src={comment.authorAvatar}
+                      alt={comment.authorName ?? ""}
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    (comment.authorName ?? "?").charAt(0).toUpperCase()
+                  )}
+                </span>
+
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {comment.authorName ?? "Unknown user"}
+                  </span>
+                  <time dateTime={new Date(comment.createdAt).toISOString()}>
+                    {new Date(comment.createdAt).toLocaleString()}
+                  </time>
+                  {comment.editedAt && <span>(edited)</span>}
+
+                  {isAuthor && !isEditing && (
+                    <span className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {onEditComment && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5"
+                          onClick={() => startEditing(comment)}
+                          title="Edit comment"
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {onDeleteComment && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5 text-red-600"
+                          onClick={() => onDeleteComment(comment.id)}
+                          title="Delete comment"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </span>
+                  )}
+                </div>
+
+                {isEditing ? (
+                  <div className="mt-1 space-y-2">
+                    <Textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      rows={2}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleEdit(comment)}
+                        disabled={saving || !editDraft.trim()}
+                      >
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditingId(null)}
+                        disabled={saving}
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-sm whitespace-pre-wrap break-words">
+                    {comment.body}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {/* New comment */}
+      {onAddComment && (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="Write a comment..."
+            rows={2}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleAdd}
+              disabled={saving || !draft.trim()}
+            >
+              <Send className="h-3 w-3 mr-2" />
+              Comment
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
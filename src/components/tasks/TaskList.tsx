@@ -35,10 +35,22 @@ interface TaskListProps {
   compact?: boolean;
   showActions?: boolean;
   loading?: boolean;
+  // Initial sort and grouping, e.g. from a saved filter
+  defaultSortBy?: SortOption;
+  defaultSortOrder?: "asc" | "desc";
+  defaultGroupBy?: GroupBy;
 }
 
-type SortOption = "name" | "dueDate" | "priority" | "createdAt" | "status";
-type GroupBy = "none" | "status" | "priority" | "dueDate";
+export type SortOption =
+  | "name"
+  | "dueDate"
+  | "date"
+  | "priority"
+  | "createdAt"
+  | "updatedAt"
+  | "position"
+  | "status";
+export type GroupBy = "none" | "status" | "priority" | "dueDate";
 
 export function TaskList({
   tasks,
@@ -54,10 +66,13 @@ export function TaskList({
   compact = false,
   showActions = true,
   loading = false,
+  defaultSortBy = "createdAt",
+  defaultSortOrder = "desc",
+  defaultGroupBy = "none",
 }: TaskListProps) {
-  const [sortBy, setSortBy] = useState<SortOption>("createdAt");
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
-  const [groupBy, setGroupBy] = useState<GroupBy>("none");
+  const [sortBy, setSortBy] = useState<SortOption>(defaultSortBy);
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">(defaultSortOrder);
+  const [groupBy, setGroupBy] = useState<GroupBy>(defaultGroupBy);
   const [showCompleted, setShowCompleted] = useState(true);
   const [viewMode, setViewMode] = useState<"grid" | "list">("list");
 
@@ -88,9 +103,23 @@ export function TaskList({
           priorityOrder[b.priority as keyof typeof priorityOrder] -
           priorityOrder[a.priority as keyof typeof priorityOrder];
         break;
+      case "date":
+        if (!a.date && !b.date) comparison = 0;
+        else if (!a.date) comparison = 1;
+        else if (!b.date) comparison = -1;
+        else
+          comparison = new Date(a.date).getTime() - new Date(b.date).getTime();
+        break;
       case "status":
         comparison = a.status.localeCompare(b.status);
         break;
+      case "updatedAt":
+        comparison =
+          new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
+        break;
+      case "position":
+        comparison = a.position - b.position;
+        break;
       case "createdAt":
       default:
         comparison =
@@ -259,6 +288,9 @@ export function TaskList({
             <option value="name">Sort by name</option>
             <option value="priority">Sort by priority</option>
             <option value="dueDate">Sort by due date</option>
+            <option value="date">Sort by scheduled date</option>
+            <option value="updatedAt">Sort by last update</option>
+            <option value="position">Sort by position</option>
             <option value="status">Sort by status</option>
           </select>
 
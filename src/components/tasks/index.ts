@@ -1,2 +1,3 @@
 export { TaskCard } from './TaskCard';
+export { TaskComments } from './TaskComments';
 export { TaskList } from './TaskList';
\ No newline at end of file
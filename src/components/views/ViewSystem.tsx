@@ -1,8 +1,10 @@
 "use client";
 
-import { useMemo, useRef, useCallback, useState } from "react";
+import { useMemo, useRef, useCallback, useState, useEffect } from "react";
 import { TaskList } from "../tasks";
+import type { SortOption } from "../tasks/TaskList";
 import { AppTask } from "@/types/tasks";
+import type { SavedFilterWithCount } from "@/lib/db/types";
 import { TaskId } from "@/types/utils";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -21,7 +23,8 @@ import { useTaskStore } from "@/store/task-store";
 import { shallow } from "zustand/shallow";
 
 interface ViewSystemProps {
-  view: "today" | "next7" | "upcoming" | "all";
+  view: "today" | "next7" | "upcoming" | "all" | "filter";
+  savedFilter?: SavedFilterWithCount; // Smart list shown by the filter view
   onCreateTask?: () => void;
   onEditTask?: (task: AppTask) => void;
   className?: string;
@@ -29,6 +32,7 @@ interface ViewSystemProps {
 
 export function ViewSystem({
   view,
+  savedFilter,
   onCreateTask,
   onEditTask,
   className,
@@ -37,6 +41,11 @@ export function ViewSystem({
   const updateTask = useTaskStore((state) => state.updateTask);
   const deleteTask = useTaskStore((state) => state.deleteTask);
   const duplicateTask = useTaskStore((state) => state.duplicateTask);
+  const loadSavedFilterTasks = useTaskStore(
+    (state) => state.loadSavedFilterTasks
+  );
+  const [filterTasks, setFilterTasks] = useState<AppTask[]>([]);
+  const [filterLoading, setFilterLoading] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const viewRef = useRef<HTMLDivElement>(null);
 
@@ -47,6 +56,34 @@ export function ViewSystem({
     applyTransitionStyles,
   } = useViewTransition();
 
+  // Smart lists are evaluated by the API; re-run when the filter or the
+  // tasks change
+  const savedFilterId = view === "filter" ? savedFilter?.id : undefined;
+  const savedFilterVersion = savedFilter?.updatedAt;
+  useEffect(() => {
+    if (!savedFilterId) {
+      setFilterTasks([]);
+      return;
+    }
+
+    let cancelled = false;
+    setFilterLoading(true);
+    loadSavedFilterTasks(savedFilterId)
+      .then((matched) => {
+        if (!cancelled) setFilterTasks(matched);
+      })
+      .catch((error) => {
+        console.error("Failed to load smart list:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setFilterLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedFilterId, savedFilterVersion, tasks, loadSavedFilterTasks]);
+
   // Filter tasks based on view type
   const { filteredTasks, viewTitle, viewSubtitle, statistics } = useMemo(() => {
     const now = new Date();
@@ -148,6 +185,27 @@ export function ViewSystem({
         };
         break;
 
+      case "filter":
+        // Tasks the saved filter matches, in its sort order
+        filtered = filterTasks;
+        title = savedFilter?.name ?? "Smart List";
+        subtitle = savedFilter?.description ?? "Saved filter";
+        stats = {
+          total: filtered.length,
+          completed: filtered.filter((t: AppTask) => t.status === "done")
+            .length,
+          overdue: filtered.filter(
+            (t: AppTask) =>
+              t.status !== "done" && t.dueDate && new Date(t.dueDate) < now
+          ).length,
+          today: filtered.filter(
+            (t: AppTask) =>
+              t.dueDate &&
+              new Date(t.dueDate).toDateString() === today.toDateString()
+          ).length,
+        };
+        break;
+
       case "all":
       default:
         // All tasks except archived
@@ -177,7 +235,29 @@ export function ViewSystem({
       viewSubtitle: subtitle,
       statistics: stats,
     };
-  }, [tasks, view]);
+  }, [tasks, view, filterTasks, savedFilter]);
+
+  // A smart list opens with its saved sort and grouping. TaskList ranks
+  // High priority first when ascending, the API when descending.
+  const savedSort = useMemo(() => {
+    if (view !== "filter" || !savedFilter) return undefined;
+    const direction =
+      savedFilter.sortBy === "priority"
+        ? savedFilter.sortDirection === "asc"
+          ? "desc"
+          : "asc"
+        : savedFilter.sortDirection;
+    return {
+      sortBy: savedFilter.sortBy as SortOption,
+      sortOrder: direction as "asc" | "desc",
+      groupBy: savedFilter.groupBy,
+    };
+  }, [view, savedFilter]);
+
+  // Remount the list when the saved sort or grouping changes
+  const taskListKey = savedSort
+    ? `filter-${savedFilter?.id}-${Object.values(savedSort).join("-")}`
+    : view;
 
   const handleTaskComplete = async (taskId: TaskId) => {
     try {
@@ -209,6 +289,8 @@ export function ViewSystem({
         return <TrendingUp className="h-5 w-5" />;
       case "all":
         return <List className="h-5 w-5" />;
+      case "filter":
+        return <Filter className="h-5 w-5" />;
     }
   };
 
@@ -345,9 +427,14 @@ export function ViewSystem({
       {/* Task List */}
       <div className="view-content">
         <TaskList
+          key={taskListKey}
           tasks={filteredTasks}
           title=""
           subtitle=""
+          loading={view === "filter" && filterLoading && !filterTasks.length}
+          defaultSortBy={savedSort?.sortBy}
+          defaultSortOrder={savedSort?.sortOrder}
+          defaultGroupBy={savedSort?.groupBy}
           onTaskComplete={handleTaskComplete}
           onTaskEdit={onEditTask}
           onTaskDelete={deleteTask}
@@ -359,6 +446,8 @@ export function ViewSystem({
               ? "No upcoming tasks. Schedule some future tasks to get started."
               : view === "next7"
               ? "No tasks in the next 7 days. You're all caught up!"
+              : view === "filter"
+              ? "No tasks match this smart list right now."
               : "No tasks found. Create your first task to get started!"
           }
         />
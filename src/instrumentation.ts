@@ -0,0 +1,30 @@
+/**
+ * Server Instrumentation
+ *
+ * Runs once when a server process starts, before it handles requests.
+ * Opens the database and starts the background workers that don't belong
+ * to any one request.
+ */
+
+export async function register(): Promise<void> {
+  // The edge runtime has neither the Node APIs nor the database. The imports
+  // stay inside this branch so they are left out of the edge bundle.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { dbAPI } = await import("./lib/db/api");
+    const { startReminderDispatch } = await import(
+      "./app/api/_lib/reminder-dispatch"
+    );
+    const { startWebhookDelivery } = await import(
+      "./app/api/_lib/webhook-delivery"
+    );
+
+    await dbAPI.getDatabase().initialize();
+    startWebhookDelivery();
+    startReminderDispatch();
+
+    // Events the last process recorded but didn't get to dispatch
+    void dbAPI.dispatchEvents().catch((error) => {
+      console.error("[Events] Dispatch failed:", error);
+    });
+  }
+}
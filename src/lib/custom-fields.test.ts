@@ -0,0 +1,125 @@
+/**
+ * Custom Field Tests
+ * Tests for validating and normalizing task custom field values
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import {
+  coerceCustomFieldFilterValue,
+  countCustomFieldUsage,
+  formatCustomFieldValue,
+  normalizeCustomFieldValue,
+  parseCustomFieldValues,
+  validateCustomFieldValues,
+} from './custom-fields';
+import type { CustomField, CustomFieldType } from './db/types';
+
+function field(
+  id: string,
+  type: CustomFieldType,
+  overrides: Partial<CustomField> = {}
+): CustomField {
+  return {
+    id,
+    listId: 'list-1',
+    name: id,
+    type,
+    options: [],
+    required: false,
+    position: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Custom Fields', () => {
+  describe('normalizeCustomFieldValue', () => {
+    test('should coerce numbers and reject non-numeric input', () => {
+      expect(normalizeCustomFieldValue(field('n', 'number'), '42.5')).toEqual({ value: 42.5 });
+      expect(normalizeCustomFieldValue(field('n', 'number'), 'abc')).toHaveProperty('error');
+    });
+
+    test('should normalize dates and reject dates that roll over', () => {
+      const date = field('d', 'date');
+      expect(normalizeCustomFieldValue(date, '2026-03-01T10:00:00Z')).toEqual({
+        value: '2026-03-01',
+      });
+      expect(normalizeCustomFieldValue(date, '2026-02-30')).toHaveProperty('error');
+    });
+
+    test('should keep multi-select values in option order', () => {
+      const tags = field('t', 'multi_select', { options: ['a', 'b', 'c'] });
+      expect(normalizeCustomFieldValue(tags, ['c', 'a'])).toEqual({ value: ['a', 'c'] });
+      expect(normalizeCustomFieldValue(tags, ['d'])).toHaveProperty('error');
+    });
+
+    test('should only accept http(s) URLs', () => {
+      const url = field('u', 'url');
+      expect(normalizeCustomFieldValue(url, 'https://example.com')).toEqual({
+        value: 'https://example.com',
+      });
+      expect(normalizeCustomFieldValue(url, 'javascript:alert(1)')).toHaveProperty('error');
+    });
+
+    test('should treat empty values as cleared', () => {
+      expect(normalizeCustomFieldValue(field('x', 'text'), '')).toEqual({ value: null });
+      expect(normalizeCustomFieldValue(field('x', 'checkbox'), null)).toEqual({ value: null });
+    });
+  });
+
+  describe('validateCustomFieldValues', () => {
+    const fields = [
+      field('stage', 'single_select', { options: ['Lead', 'Won'], required: true }),
+      field('budget', 'number'),
+    ];
+
+    test('should merge into current values and clear with null', () => {
+      const { values, errors } = validateCustomFieldValues(
+        fields,
+        { budget: null },
+        { stage: 'Lead', budget: 100, removed: 'x' }
+      );
+
+      expect(errors).toEqual([]);
+      expect(values).toEqual({ stage: 'Lead' });
+    });
+
+    test('should report unknown, invalid and missing required fields', () => {
+      const { errors } = validateCustomFieldValues(fields, {
+        budget: 'lots',
+        other: 1,
+      });
+
+      expect(errors).toEqual([
+        'budget must be a number',
+        'Unknown custom field: other',
+        'stage is required',
+      ]);
+    });
+
+    test('should not report an invalid required field twice', () => {
+      const { errors } = validateCustomFieldValues(fields, { stage: 'Lost' });
+      expect(errors).toEqual(['stage must be one of: Lead, Won']);
+    });
+  });
+
+  test('should coerce filter values to the field type', () => {
+    expect(coerceCustomFieldFilterValue(field('n', 'number'), '7')).toBe(7);
+    expect(coerceCustomFieldFilterValue(field('n', 'number'), '')).toBeNull();
+    expect(coerceCustomFieldFilterValue(field('c', 'checkbox'), 'false')).toBe(false);
+  });
+
+  test('should parse stored values and count usage', () => {
+    expect(parseCustomFieldValues('{"a":1}')).toEqual({ a: 1 });
+    expect(parseCustomFieldValues('not json')).toEqual({});
+    expect(formatCustomFieldValue(['a', 'b'])).toBe('a; b');
+
+    const usage = countCustomFieldUsage(
+      [field('a', 'number'), field('b', 'text')],
+      [{ customFields: { a: 1 } }, { customFields: {} }, {}]
+    );
+    expect(usage).toEqual({ a: 1, b: 0 });
+  });
+});
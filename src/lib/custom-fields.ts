@@ -0,0 +1,282 @@
+// Custom fields for list tasks
+// Validates and normalizes the values a task stores for the custom fields
+// its list defines. Values are kept as JSON on the task, keyed by field ID.
+
+import type {
+  CustomField,
+  CustomFieldOperator,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "./db/types";
+
+export const CUSTOM_FIELD_TYPES: readonly CustomFieldType[] = [
+  "text",
+  "number",
+  "date",
+  "single_select",
+  "multi_select",
+  "checkbox",
+  "url",
+];
+
+export const CUSTOM_FIELD_OPERATORS: readonly CustomFieldOperator[] = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "contains",
+  "set",
+  "unset",
+];
+
+// Longest text value a field accepts
+const MAX_TEXT_LENGTH = 1000;
+
+type NormalizeResult = { value: CustomFieldValue | null } | { error: string };
+
+/**
+ * Whether the field type has a fixed set of options
+ */
+export function isSelectField(type: CustomFieldType): boolean {
+  return type === "single_select" || type === "multi_select";
+}
+
+/**
+ * Parse values stored as JSON (or already parsed)
+ */
+export function parseCustomFieldValues(
+  value: string | CustomFieldValues | null | undefined
+): CustomFieldValues {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const values = typeof value === "string" ? JSON.parse(value) : value;
+    return values && typeof values === "object" && !Array.isArray(values)
+      ? values
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Validate values against the list's field definitions.
+ *
+ * `values` holds the fields to set; null or empty values clear a field.
+ * With `current`, the result is merged into the task's existing values.
+ * Required fields must end up with a value. Values for fields the list
+ * does not define are rejected, and dropped from `current`.
+ */
+export function validateCustomFieldValues(
+  fields: CustomField[],
+  values: Record<string, unknown>,
+  current: CustomFieldValues = {}
+): { values: CustomFieldValues; errors: string[] } {
+  const errors: string[] = [];
+  const invalidFields = new Set<string>();
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const result: CustomFieldValues = {};
+
+  for (const [fieldId, value] of Object.entries(current)) {
+    if (fieldsById.has(fieldId)) {
+      result[fieldId] = value;
+    }
+  }
+
+  for (const [fieldId, raw] of Object.entries(values)) {
+    const field = fieldsById.get(fieldId);
+    if (!field) {
+      errors.push(`Unknown custom field: ${fieldId}`);
+      continue;
+    }
+
+    const normalized = normalizeCustomFieldValue(field, raw);
+    if ("error" in normalized) {
+      errors.push(normalized.error);
+      invalidFields.add(fieldId);
+    } else if (normalized.value === null) {
+      delete result[fieldId];
+    } else {
+      result[fieldId] = normalized.value;
+    }
+  }
+
+  for (const field of fields) {
+    if (
+      field.required &&
+      result[field.id] === undefined &&
+      !invalidFields.has(field.id)
+    ) {
+      errors.push(`${field.name} is required`);
+    }
+  }
+
+  return { values: result, errors };
+}
+
+/**
+ * Convert a value to the field's stored representation.
+ * Empty values normalize to null.
+ */
+export function normalizeCustomFieldValue(
+  field: CustomField,
+  raw: unknown
+): NormalizeResult {
+  if (raw === null || raw === undefined || raw === "") {
+    return { value: null };
+  }
+
+  const invalid = { error: `Invalid value for ${field.name}` };
+
+  switch (field.type) {
+    case "text": {
+      if (typeof raw !== "string") {
+        return invalid;
+      }
+      const text = raw.trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        return {
+          error: `${field.name} must be at most ${MAX_TEXT_LENGTH} characters`,
+        };
+      }
+      return { value: text || null };
+    }
+
+    case "number": {
+      const number = typeof raw === "string" ? Number(raw.trim()) : raw;
+      return typeof number === "number" && Number.isFinite(number)
+        ? { value: number }
+        : { error: `${field.name} must be a number` };
+    }
+
+    case "date": {
+      const date = normalizeDate(raw);
+      return date ? { value: date } : { error: `${field.name} must be a date` };
+    }
+
+    case "single_select":
+      return typeof raw === "string" && field.options.includes(raw)
+        ? { value: raw }
+        : {
+            error: `${field.name} must be one of: ${field.options.join(", ")}`,
+          };
+
+    case "multi_select": {
+      const selected = Array.isArray(raw) ? raw : [raw];
+      if (!selected.every((option) => field.options.includes(option))) {
+        return {
+          error: `${field.name} must only contain: ${field.options.join(", ")}`,
+        };
+      }
+      // Keep the order the options are defined in
+      const value = field.options.filter((option) =>
+        selected.includes(option)
+      );
+      return { value: value.length > 0 ? value : null };
+    }
+
+    case "checkbox":
+      if (typeof raw === "boolean") {
+        return { value: raw };
+      }
+      return raw === "true" || raw === "false"
+        ? { value: raw === "true" }
+        : invalid;
+
+    case "url":
+      return typeof raw === "string" && isHttpUrl(raw.trim())
+        ? { value: raw.trim() }
+        : { error: `${field.name} must be an http(s) URL` };
+
+    default:
+      return invalid;
+  }
+}
+
+/**
+ * Coerce a filter value from a query string to the field type.
+ * Returns null if the value cannot match the field.
+ */
+export function coerceCustomFieldFilterValue(
+  field: CustomField,
+  raw: string
+): CustomFieldValue | null {
+  switch (field.type) {
+    case "number": {
+      const number = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(number) ? number : null;
+    }
+    case "date":
+      return normalizeDate(raw);
+    case "checkbox":
+      return raw === "true" || raw === "false" ? raw === "true" : null;
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Render a value as plain text (CSV cells, form inputs)
+ */
+export function formatCustomFieldValue(
+  value: CustomFieldValue | undefined
+): string {
+  if (value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.join("; ");
+  }
+  return String(value);
+}
+
+/**
+ * Number of tasks that have a value for each field
+ */
+export function countCustomFieldUsage(
+  fields: CustomField[],
+  tasks: Array<{ customFields?: CustomFieldValues }>
+): Record<string, number> {
+  const usage: Record<string, number> = {};
+
+  for (const field of fields) {
+    usage[field.id] = tasks.filter(
+      (task) => task.customFields?.[field.id] !== undefined
+    ).length;
+  }
+
+  return usage;
+}
+
+/**
+ * Normalize a Date or date string to YYYY-MM-DD
+ */
+function normalizeDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return null;
+  }
+
+  const date = value.slice(0, 10);
+  const parsed = new Date(`${date}T00:00:00Z`);
+  // Reject dates that roll over, such as 2026-02-30
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+    ? date
+    : null;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
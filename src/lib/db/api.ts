@@ -1,6 +1,7 @@
 // Database API Layer for Daily Task Planner
 // Type-safe query builders and database operations
 
+import { randomBytes } from "crypto";
 import { ValidationError, NotFoundError, DatabaseError } from "./types";
 import { DatabaseManager } from "./index";
 import {
@@ -8,7 +9,57 @@ import {
   DataValidator,
   HealthChecker,
   MigrationManager,
+  FullTextSearch,
+  type KeysetColumn,
+  type FilterSchema,
 } from "./utils";
+import {
+  getNextOccurrence,
+  parseRecurringPattern,
+  shiftByOccurrence,
+} from "../recurrence";
+import {
+  coerceCustomFieldFilterValue,
+  isSelectField,
+  parseCustomFieldValues,
+  validateCustomFieldValues,
+} from "../custom-fields";
+import {
+  formatTrackedTime,
+  getEntryDuration,
+  getTrackedSeconds,
+} from "../time-tracking";
+import { getBlobStorage, type BlobStorage } from "../storage";
+import {
+  publishDomainEvents,
+  type DomainEvent,
+  type RecordedDomainEvent,
+  type TaskEvent,
+} from "../events";
+import { resolveFilterDates } from "../filters";
+import {
+  REMINDER_LEASE_MS,
+  REMINDER_MAX_ATTEMPTS,
+  getReminderRetryDelay,
+  type ReminderChannels,
+} from "../reminders";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  generateWebhookSecret,
+  getWebhookRetryDelay,
+  sendWebhook,
+  type WebhookSender,
+} from "../webhooks";
+import {
+  fillTemplate,
+  fillTemplateDate,
+  fromAnchorOffset,
+  getTemplateInputs,
+  getTemplateTexts,
+  toAnchorOffset,
+  toTemplateDate,
+  type TemplateContext,
+} from "../templates";
 import {
   TestDatabaseManager,
   TestDataFixtures,
@@ -21,19 +72,189 @@ import type {
   Label,
   Subtask,
   Reminder,
+  ClaimedReminder,
+  InboxNotification,
   Attachment,
   TaskHistory,
   TaskWithDetails,
   ListWithTaskCount,
   LabelWithTaskCount,
+  TaskSearchResult,
+  TaskRelation,
+  TaskDependency,
+  TaskDependencies,
+  TaskHistoryDiff,
+  SubtaskSnapshot,
+  TrashContents,
+  TrashPurgeResult,
+  BlobSweepResult,
+  BackupInfo,
+  BackupRestoreResult,
+  CustomField,
+  CustomFieldFilter,
+  CustomFieldInput,
+  CustomFieldSort,
+  CustomFieldValues,
+  TimeEntry,
+  TaskTimeSummary,
+  TaskComment,
+  TaskQueryFilters,
+  TaskSortField,
+  TaskPage,
+  SavedFilter,
+  SavedFilterWithCount,
+  TaskTemplate,
+  TaskTemplateInstance,
+  ListTemplate,
+  ListTemplateTask,
+  ListTemplateInstance,
+  ListCollection,
+  ListCollectionWithLists,
+  ListRole,
+  ListMember,
+  ListAccess,
+  SharedList,
+  ListInvitation,
+  ListShareLink,
+  PublicList,
+  PublicTask,
+  Webhook,
+  WebhookDelivery,
   Priority,
   TaskStatus,
 } from "./types";
 
+// Editable fields of a task template; custom field values may be null
+// in input, which leaves the field out
+type TaskTemplateFields = Omit<
+  TaskTemplate,
+  | "id"
+  | "userId"
+  | "customFields"
+  | "usageCount"
+  | "inputs"
+  | "createdAt"
+  | "updatedAt"
+> & { customFields: CustomFieldInput };
+
+// BM25 weights for the tasks_fts columns (task_id, name, description, subtasks, labels)
+const SEARCH_COLUMN_WEIGHTS = "0.0, 10.0, 4.0, 2.0, 2.0";
+
+// Markers SQLite wraps around matched terms; control characters, so the
+// task text can be HTML-escaped before they become SEARCH_HIGHLIGHT_TAGS
+const SEARCH_MATCH_MARKERS = ["\u0002", "\u0003"] as const;
+
+// Tags wrapped around matched terms in highlights and snippets
+const SEARCH_HIGHLIGHT_TAGS = ["<mark>", "</mark>"] as const;
+
+// Relations loaded for tasks unless the caller narrows them with `include`
+const TASK_RELATIONS: readonly TaskRelation[] = [
+  "labels",
+  "subtasks",
+  "reminders",
+  "attachments",
+  "dependencies",
+  "timeEntries",
+];
+
+// Longest comment body accepted
+const MAX_COMMENT_LENGTH = 5000;
+
+// How long dispatched domain events stay in the outbox
+const DOMAIN_EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// How long claimed domain events are held before they are handed to the
+// subscribers again, in case a subscriber failed or the process stopped
+const DOMAIN_EVENT_LEASE_MS = 60 * 1000;
+
+// Attempts after which an event is no longer handed over
+const DOMAIN_EVENT_MAX_ATTEMPTS = 5;
+
+// How long a claimed webhook delivery is held before another run may send
+// it again, in case the process sending it stopped
+const WEBHOOK_DELIVERY_LEASE_MS = 60 * 1000;
+
+// How long an unreferenced blob is kept before a sweep deletes it
+const BLOB_SWEEP_GRACE_MS = 60 * 60 * 1000; // 1 hour
+
+// Sort expressions for paginated task listings
+const TASK_SORT_COLUMNS: Record<
+  TaskSortField,
+  { column: string; nullable?: boolean }
+> = {
+  createdAt: { column: "t.created_at" },
+  updatedAt: { column: "t.updated_at" },
+  name: { column: "t.name COLLATE NOCASE" },
+  dueDate: { column: "t.deadline", nullable: true },
+  date: { column: "t.date", nullable: true },
+  priority: {
+    column:
+      "CASE t.priority WHEN 'High' THEN 3 WHEN 'Medium' THEN 2 WHEN 'Low' THEN 1 ELSE 0 END",
+  },
+  position: { column: "t.position" },
+};
+
+// Custom field ids accepted in filter expressions ("cf.<fieldId>")
+const CUSTOM_FIELD_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+// Fields usable in task filter expressions (TaskQueryFilters.where)
+const TASK_FILTER_SCHEMA: FilterSchema = {
+  fields: {
+    id: "t.id",
+    name: "t.name",
+    description: "t.description",
+    status: "t.status",
+    priority: "t.priority",
+    listId: "t.list_id",
+    parentTaskId: "t.parent_task_id",
+    date: "t.date",
+    deadline: "t.deadline",
+    estimate: "t.estimate",
+    isRecurring: "t.is_recurring",
+    position: "t.position",
+    createdAt: "t.created_at",
+    updatedAt: "t.updated_at",
+    subtaskCount: "(SELECT COUNT(*) FROM subtasks s WHERE s.task_id = t.id)",
+    attachmentCount:
+      "(SELECT COUNT(*) FROM attachments a WHERE a.task_id = t.id)",
+  },
+  resolveField: (field) => {
+    const fieldId = field.startsWith("cf.") ? field.slice(3) : "";
+    return CUSTOM_FIELD_ID_PATTERN.test(fieldId)
+      ? `json_extract(t.custom_fields, '$."${fieldId}"')`
+      : undefined;
+  },
+  labelTaskColumn: "t.id",
+};
+
+// Task ids bound per relation query, below SQLITE_MAX_VARIABLE_NUMBER
+const TASK_ID_CHUNK_SIZE = 500;
+
+// Task fields tracked in history diffs and restorable from it, by column
+const TASK_COLUMNS: Record<string, string> = {
+  name: "name",
+  description: "description",
+  date: "date",
+  deadline: "deadline",
+  estimate: "estimate",
+  actualTime: "actual_time",
+  priority: "priority",
+  status: "status",
+  listId: "list_id",
+  parentTaskId: "parent_task_id",
+  position: "position",
+  isRecurring: "is_recurring",
+  recurringPattern: "recurring_pattern",
+  customFields: "custom_fields",
+};
+
 export class DatabaseAPI {
   private db: DatabaseManager;
   private healthChecker: HealthChecker;
   private migrationManager: MigrationManager;
+  private eventDispatchScheduled = false;
+  private eventDispatch: Promise<unknown> = Promise.resolve();
+  private eventRetryTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(dbManager: DatabaseManager) {
     this.db = dbManager;
@@ -47,7 +268,9 @@ export class DatabaseAPI {
    * Create a new task
    */
   public async createTask(
-    taskData: Omit<Task, "id" | "createdAt" | "updatedAt">
+    taskData: Omit<Task, "id" | "createdAt" | "updatedAt" | "customFields"> & {
+      customFields?: CustomFieldInput;
+    }
   ): Promise<Task> {
     const validation = DataValidator.validateTask(taskData);
     if (!validation.isValid) {
@@ -56,20 +279,49 @@ export class DatabaseAPI {
       );
     }
 
+    // Tasks can only be filed in the owner's lists and under the owner's tasks
+    this.getOwnedList(taskData.listId, taskData.userId);
+    if (taskData.parentTaskId) {
+      this.getOwnedTask(taskData.parentTaskId, taskData.userId);
+    }
+
+    const customFields = this.resolveCustomFieldValues(
+      taskData.listId,
+      taskData.customFields ?? {}
+    );
+
     const task: Task = {
       ...taskData,
+      customFields,
       id: crypto.randomUUID(),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    // Insert task
+    this.db.transaction(() => {
+      this.insertTask(task);
+      this.recordTaskEvent(
+        "TaskCreated",
+        task.id,
+        task.userId,
+        { diff: this.createdTaskDiff(task) },
+        `Task created: ${task.name}`
+      );
+    });
+
+    return task;
+  }
+
+  /**
+   * Insert a new task row
+   */
+  private insertTask(task: Task): void {
     this.db.run(
       `INSERT INTO tasks (
         id, name, description, date, deadline, estimate, actual_time,
         priority, status, user_id, list_id, parent_task_id, position,
-        is_recurring, recurring_pattern, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        is_recurring, recurring_pattern, custom_fields, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         task.id,
         task.name,
@@ -86,51 +338,51 @@ export class DatabaseAPI {
         task.position,
         task.isRecurring ? 1 : 0,
         task.recurringPattern ? JSON.stringify(task.recurringPattern) : null,
+        this.toColumnValue("customFields", task.customFields),
         task.createdAt,
         task.updatedAt,
       ]
     );
-
-    // Log task creation
-    await this.logTaskHistory(
-      task.id,
-      "created",
-      task.userId,
-      {
-        field: "all",
-        newValue: task.name,
-      },
-      `Task created: ${task.name}`
-    );
-
-    return task;
   }
 
   /**
-   * Get task by ID with all related data
+   * Get a user's task by ID with all related data
    */
   public async getTaskWithDetails(
-    taskId: string
+    taskId: string,
+    userId: string
   ): Promise<TaskWithDetails | null> {
-    const task = this.db.get<Task>("SELECT * FROM tasks WHERE id = ?", [
-      taskId,
-    ]);
+    const task = this.db.get<any>(
+      "SELECT * FROM tasks WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+      [taskId, userId]
+    );
 
     if (!task) {
       return null;
     }
 
     // Get related data
-    const [list, labels, subtasks, reminders, attachments] = await Promise.all([
-      this.getList(task.listId),
-      this.getTaskLabels(taskId),
-      this.getSubtasks(taskId),
-      this.getReminders(taskId),
-      this.getAttachments(taskId),
+    const [
+      list,
+      labels,
+      subtasks,
+      reminders,
+      attachments,
+      blockers,
+      timeEntries,
+    ] = await Promise.all([
+      this.getList(task.list_id, userId),
+      this.getTaskLabels(taskId, userId),
+      this.getSubtasks(taskId, userId),
+      this.getReminders(taskId, userId),
+      this.getAttachments(taskId, userId),
+      this.getOpenBlockers(taskId),
+      this.getTimeEntries(taskId, userId),
     ]);
 
     return {
       ...task,
+      customFields: parseCustomFieldValues(task.custom_fields),
       list: list || undefined,
       labels,
       subtasks,
@@ -138,6 +390,11 @@ export class DatabaseAPI {
       attachments,
       subtaskCount: subtasks.length,
       completedSubtaskCount: subtasks.filter((st) => st.isCompleted).length,
+      blockedBy: blockers.map((blocker) => blocker.id),
+      isBlocked: blockers.length > 0,
+      timeEntries,
+      runningTimer: timeEntries.find((entry) => !entry.endedAt),
+      trackedSeconds: getTrackedSeconds(timeEntries),
     };
   }
 
@@ -146,16 +403,107 @@ export class DatabaseAPI {
    */
   public async getUserTasks(
     userId: string,
-    filters: {
-      listId?: string;
-      status?: TaskStatus;
-      priority?: Priority;
-      labelIds?: string[];
-      dateFrom?: Date;
-      dateTo?: Date;
-      search?: string;
+    filters: TaskQueryFilters = {},
+    options: {
+      include?: Iterable<TaskRelation>;
+      customFieldSort?: CustomFieldSort;
     } = {}
   ): Promise<TaskWithDetails[]> {
+    const queryBuilder = this.buildUserTasksQuery(userId, filters, options);
+
+    // Tasks without a value sort last in either direction
+    const { customFieldSort } = options;
+    if (customFieldSort) {
+      const value = this.customFieldValueSql(customFieldSort.fieldId);
+      queryBuilder
+        .orderBy(`${value} IS NULL`)
+        .orderBy(value, customFieldSort.direction);
+    }
+
+    // Full-text search, ranked by relevance
+    if (filters.search && FullTextSearch.buildMatchQuery(filters.search)) {
+      queryBuilder.orderBy(`bm25(tasks_fts, ${SEARCH_COLUMN_WEIGHTS})`);
+    }
+
+    // Order by position and creation date
+    queryBuilder
+      .orderBy("t.list_id")
+      .orderBy("t.position")
+      .orderBy("t.created_at", "DESC");
+
+    const { sql, params } = queryBuilder.build();
+    const tasks = this.db.query<any>(sql, params);
+
+    return this.attachTaskDetails(tasks, options.include);
+  }
+
+  /**
+   * Get one page of a user's tasks. Pages are keyed on the sort column
+   * plus the task id, so tasks added or removed between requests don't
+   * shift later pages; pass a returned cursor to get the next or
+   * previous page.
+   */
+  public async getUserTasksPage(
+    userId: string,
+    filters: TaskQueryFilters = {},
+    options: {
+      include?: Iterable<TaskRelation>;
+      sortBy?: TaskSortField;
+      sortOrder?: "ASC" | "DESC";
+      customFieldSort?: CustomFieldSort;
+      cursor?: string;
+      limit?: number;
+    } = {}
+  ): Promise<TaskPage> {
+    const {
+      sortBy = "createdAt",
+      sortOrder = "DESC",
+      customFieldSort,
+      cursor,
+      limit = 20,
+    } = options;
+    const queryBuilder = this.buildUserTasksQuery(userId, filters, options);
+    const { sql: countSql, params: countParams } = queryBuilder.buildCount();
+    const total = this.db.get<{ count: number }>(countSql, countParams);
+
+    const sort = customFieldSort
+      ? {
+          column: this.customFieldValueSql(customFieldSort.fieldId),
+          direction: customFieldSort.direction,
+          nullable: true,
+        }
+      : { ...TASK_SORT_COLUMNS[sortBy], direction: sortOrder };
+
+    // Tasks without a value sort last in either direction; the id breaks
+    // ties so every task has a unique position
+    const keyset: KeysetColumn[] = [
+      { column: sort.column, direction: sort.direction },
+      { column: "t.id", direction: sort.direction },
+    ];
+    if (sort.nullable) {
+      keyset.unshift({ column: `${sort.column} IS NULL`, direction: "ASC" });
+    }
+
+    queryBuilder.keyset(keyset, limit, cursor);
+    const { sql, params } = queryBuilder.build();
+    const page = queryBuilder.readKeysetPage<any>(this.db.query(sql, params));
+
+    return {
+      tasks: await this.attachTaskDetails(page.rows, options.include),
+      total: total?.count ?? 0,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    };
+  }
+
+  /**
+   * Query a user's tasks matching the filters, without ordering
+   */
+  private buildUserTasksQuery(
+    userId: string,
+    filters: TaskQueryFilters,
+    options: { customFieldSort?: CustomFieldSort }
+  ): QueryBuilder {
     const queryBuilder = new QueryBuilder()
       .select([
         "t.*",
@@ -165,7 +513,8 @@ export class DatabaseAPI {
       ])
       .from("tasks t")
       .join("lists l", "t.list_id = l.id")
-      .where({ "t.user_id": userId });
+      .where({ "t.user_id": userId })
+      .whereRaw("t.deleted_at IS NULL");
 
     // Apply filters
     if (filters.listId) {
@@ -188,77 +537,406 @@ export class DatabaseAPI {
       queryBuilder.where({ "t.date <=": filters.dateTo });
     }
 
-    if (filters.search) {
-      queryBuilder.where({ "t.name LIKE": `%${filters.search}%` });
+    // Tasks carrying any of the given labels
+    if (filters.labelIds && filters.labelIds.length > 0) {
+      queryBuilder.filter(
+        { op: "hasAnyLabel", labelIds: filters.labelIds },
+        TASK_FILTER_SCHEMA
+      );
     }
 
-    // Order by position and creation date
-    queryBuilder
-      .orderBy("t.list_id")
-      .orderBy("t.position")
-      .orderBy("t.created_at", "DESC");
+    // Custom field filters, typed by the field definitions; the sort field
+    // is checked here too
+    const { customFieldSort } = options;
+    const customFields = this.getCustomFieldsById(userId, [
+      ...(filters.customFields ?? []).map((filter) => filter.fieldId),
+      ...(customFieldSort ? [customFieldSort.fieldId] : []),
+    ]);
 
-    const { sql, params } = queryBuilder.build();
-    const tasks = this.db.query<any>(sql, params);
+    for (const filter of filters.customFields ?? []) {
+      const { condition, params } = this.buildCustomFieldCondition(
+        customFields.get(filter.fieldId)!,
+        filter
+      );
+      queryBuilder.whereRaw(condition, params);
+    }
 
-    // Get labels for each task
-    const tasksWithDetails = await Promise.all(
-      tasks.map(async (task: any) => {
-        const [labels, subtasks, reminders, attachments] = await Promise.all([
-          this.getTaskLabels(task.id),
-          this.getSubtasks(task.id),
-          this.getReminders(task.id),
-          this.getAttachments(task.id),
-        ]);
+    if (filters.where) {
+      queryBuilder.filter(filters.where, TASK_FILTER_SCHEMA);
+    }
 
-        return {
-          ...task,
-          list: {
-            id: task.list_id,
-            name: task.list_name,
-            color: task.list_color,
-            emoji: task.list_emoji,
-            isDefault: false,
-            userId: task.user_id,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          } as List,
-          labels,
-          subtasks,
-          reminders,
-          attachments,
-          subtaskCount: subtasks.length,
-          completedSubtaskCount: subtasks.filter((st) => st.isCompleted).length,
-        } as TaskWithDetails;
-      })
-    );
+    // Full-text search
+    const matchQuery = filters.search
+      ? FullTextSearch.buildMatchQuery(filters.search)
+      : null;
+    if (matchQuery) {
+      queryBuilder
+        .join("tasks_fts", "tasks_fts.task_id = t.id")
+        .where({ "tasks_fts MATCH": matchQuery });
+    }
+
+    return queryBuilder;
+  }
+
+  /**
+   * Full-text search over a user's tasks, their subtasks and labels.
+   * Every term is prefix-matched and results are ranked by BM25.
+   */
+  public async searchTasks(
+    userId: string,
+    query: string,
+    options: {
+      limit?: number;
+      offset?: number;
+      filters?: {
+        listId?: string;
+        status?: TaskStatus;
+        priority?: Priority;
+        completed?: boolean;
+        dueDateFrom?: string;
+        dueDateTo?: string;
+        hasLabels?: boolean;
+        labelIds?: string[];
+      };
+    } = {}
+  ): Promise<{ results: TaskSearchResult[]; total: number }> {
+    const matchQuery = FullTextSearch.buildMatchQuery(query);
+    if (!matchQuery) {
+      return { results: [], total: 0 };
+    }
+
+    const { limit = 20, offset = 0, filters = {} } = options;
+    const conditions = [
+      "tasks_fts MATCH ?",
+      "t.user_id = ?",
+      "t.deleted_at IS NULL",
+    ];
+    const params: any[] = [matchQuery, userId];
+
+    if (filters.listId) {
+      conditions.push("t.list_id = ?");
+      params.push(filters.listId);
+    }
+
+    if (filters.status) {
+      conditions.push("t.status = ?");
+      params.push(filters.status);
+    }
+
+    if (filters.priority) {
+      conditions.push("t.priority = ?");
+      params.push(filters.priority);
+    }
+
+    if (filters.completed !== undefined) {
+      conditions.push(filters.completed ? "t.status = 'done'" : "t.status != 'done'");
+    }
+
+    if (filters.dueDateFrom) {
+      conditions.push("(t.deadline IS NULL OR t.deadline >= ?)");
+      params.push(filters.dueDateFrom);
+    }
+
+    if (filters.dueDateTo) {
+      conditions.push("(t.deadline IS NULL OR t.deadline <= ?)");
+      params.push(filters.dueDateTo);
+    }
+
+    if (filters.hasLabels !== undefined) {
+      conditions.push(
+        `${filters.hasLabels ? "" : "NOT "}EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = t.id)`
+      );
+    }
 
-    // Filter by labels if specified
     if (filters.labelIds && filters.labelIds.length > 0) {
-      return tasksWithDetails.filter((task) =>
-        task.labels?.some((label: Label) =>
-          filters.labelIds!.includes(label.id)
-        )
+      const placeholders = filters.labelIds.map(() => "?").join(", ");
+      conditions.push(
+        `EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = t.id AND tl.label_id IN (${placeholders}))`
       );
+      params.push(...filters.labelIds);
+    }
+
+    const fromClause = `
+      FROM tasks_fts
+      JOIN tasks t ON t.id = tasks_fts.task_id
+      JOIN lists l ON l.id = t.list_id
+      WHERE ${conditions.join(" AND ")}`;
+
+    const total =
+      this.db.get<{ count: number }>(
+        `SELECT COUNT(*) as count ${fromClause}`,
+        params
+      )?.count || 0;
+
+    const [open, close] = SEARCH_MATCH_MARKERS;
+    const rows = this.db.query<any>(
+      `SELECT
+        t.*,
+        l.name as list_name,
+        l.color as list_color,
+        l.emoji as list_emoji,
+        bm25(tasks_fts, ${SEARCH_COLUMN_WEIGHTS}) as search_rank,
+        highlight(tasks_fts, 1, '${open}', '${close}') as name_highlight,
+        highlight(tasks_fts, 2, '${open}', '${close}') as description_highlight,
+        highlight(tasks_fts, 3, '${open}', '${close}') as subtasks_highlight,
+        highlight(tasks_fts, 4, '${open}', '${close}') as labels_highlight,
+        snippet(tasks_fts, -1, '${open}', '${close}', '…', 12) as search_snippet
+      ${fromClause}
+      ORDER BY search_rank
+      LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+
+    const tasks = await this.attachTaskDetails(
+      rows.map(
+        ({
+          search_rank,
+          name_highlight,
+          description_highlight,
+          subtasks_highlight,
+          labels_highlight,
+          search_snippet,
+          ...task
+        }: any) => task
+      )
+    );
+
+    const results = rows.map((row: any, index: number) => {
+      const highlights: Record<string, string[]> = {};
+      const fields = {
+        name: row.name_highlight,
+        description: row.description_highlight,
+        subtasks: row.subtasks_highlight,
+        labels: row.labels_highlight,
+      };
+
+      for (const [field, highlighted] of Object.entries(fields)) {
+        const fragments = FullTextSearch.extractHighlights(highlighted, open).map(
+          (fragment) =>
+            FullTextSearch.markHighlights(fragment, SEARCH_MATCH_MARKERS, SEARCH_HIGHLIGHT_TAGS)
+        );
+        if (fragments.length > 0) {
+          highlights[field] = fragments;
+        }
+      }
+
+      return {
+        task: tasks[index],
+        // bm25() is negative, with better matches further below zero
+        score: -row.search_rank,
+        highlights,
+        snippet: FullTextSearch.markHighlights(
+          row.search_snippet,
+          SEARCH_MATCH_MARKERS,
+          SEARCH_HIGHLIGHT_TAGS
+        ),
+      };
+    });
+
+    return { results, total };
+  }
+
+  /**
+   * Load the requested relations for task rows selected together with
+   * their list's name, color and emoji. Each relation is fetched with a
+   * single `task_id IN (...)` query rather than one query per task.
+   */
+  private async attachTaskDetails(
+    tasks: any[],
+    include: Iterable<TaskRelation> = TASK_RELATIONS
+  ): Promise<TaskWithDetails[]> {
+    const relations = new Set(include);
+    const taskIds = tasks.map((task) => task.id as string);
+
+    const labelsByTask = relations.has("labels")
+      ? this.groupByTaskId(
+          this.queryByTaskIds<any>(
+            (placeholders) =>
+              `SELECT tl.task_id as relation_task_id, l.* FROM labels l
+               INNER JOIN task_labels tl ON l.id = tl.label_id
+               WHERE tl.task_id IN (${placeholders}) AND l.deleted_at IS NULL
+               ORDER BY l.name ASC`,
+            taskIds
+          ),
+          ({ relation_task_id, ...label }) => [relation_task_id, label as Label]
+        )
+      : undefined;
+
+    const subtasksByTask = relations.has("subtasks")
+      ? this.groupByTaskId(
+          this.queryByTaskIds<any>(
+            (placeholders) =>
+              `SELECT * FROM subtasks WHERE task_id IN (${placeholders}) ORDER BY position ASC`,
+            taskIds
+          ),
+          (subtask) => [subtask.task_id, subtask as Subtask]
+        )
+      : undefined;
+
+    const remindersByTask = relations.has("reminders")
+      ? this.groupByTaskId(
+          this.queryByTaskIds<any>(
+            (placeholders) =>
+              `SELECT * FROM reminders WHERE task_id IN (${placeholders}) ORDER BY remind_at ASC`,
+            taskIds
+          ),
+          (reminder) => [reminder.task_id, reminder as Reminder]
+        )
+      : undefined;
+
+    const attachmentsByTask = relations.has("attachments")
+      ? this.groupByTaskId(
+          this.queryByTaskIds<any>(
+            (placeholders) =>
+              `SELECT * FROM attachments WHERE task_id IN (${placeholders}) ORDER BY uploaded_at DESC`,
+            taskIds
+          ),
+          (attachment) => [attachment.task_id, this.toAttachment(attachment)]
+        )
+      : undefined;
+
+    const blockersByTask = relations.has("dependencies")
+      ? this.groupByTaskId(
+          this.queryByTaskIds<any>(
+            (placeholders) =>
+              `SELECT d.task_id, d.depends_on_task_id FROM task_dependencies d
+               INNER JOIN tasks b ON b.id = d.depends_on_task_id
+               WHERE d.task_id IN (${placeholders})
+                 AND b.status != 'done' AND b.deleted_at IS NULL`,
+            taskIds
+          ),
+          (dependency) => [
+            dependency.task_id,
+            dependency.depends_on_task_id as string,
+          ]
+        )
+      : undefined;
+
+    const timeEntriesByTask = relations.has("timeEntries")
+      ? this.groupByTaskId(
+          this.queryByTaskIds<any>(
+            (placeholders) =>
+              `SELECT * FROM time_entries WHERE task_id IN (${placeholders}) ORDER BY started_at DESC`,
+            taskIds
+          ),
+          (entry) => [entry.task_id, this.toTimeEntry(entry)]
+        )
+      : undefined;
+
+    return tasks.map((task: any) => {
+      const subtasks = subtasksByTask?.get(task.id) ?? [];
+      const blockedBy = blockersByTask?.get(task.id) ?? [];
+      const timeEntries = timeEntriesByTask?.get(task.id) ?? [];
+
+      return {
+        ...task,
+        customFields: parseCustomFieldValues(task.custom_fields),
+        list: {
+          id: task.list_id,
+          name: task.list_name,
+          color: task.list_color,
+          emoji: task.list_emoji,
+          isDefault: false,
+          userId: task.user_id,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        } as List,
+        labels: labelsByTask && (labelsByTask.get(task.id) ?? []),
+        subtasks: subtasksByTask && subtasks,
+        reminders: remindersByTask && (remindersByTask.get(task.id) ?? []),
+        attachments:
+          attachmentsByTask && (attachmentsByTask.get(task.id) ?? []),
+        subtaskCount: subtasksByTask && subtasks.length,
+        completedSubtaskCount:
+          subtasksByTask && subtasks.filter((st) => st.isCompleted).length,
+        blockedBy: blockersByTask && blockedBy,
+        isBlocked: blockersByTask && blockedBy.length > 0,
+        timeEntries: timeEntriesByTask && timeEntries,
+        runningTimer:
+          timeEntriesByTask && timeEntries.find((entry) => !entry.endedAt),
+        trackedSeconds: timeEntriesByTask && getTrackedSeconds(timeEntries),
+      } as TaskWithDetails;
+    });
+  }
+
+  /**
+   * Run a `task_id IN (...)` query in chunks that stay below SQLite's
+   * bound parameter limit
+   */
+  private queryByTaskIds<T>(
+    buildSql: (placeholders: string) => string,
+    taskIds: string[]
+  ): T[] {
+    const rows: T[] = [];
+
+    for (let i = 0; i < taskIds.length; i += TASK_ID_CHUNK_SIZE) {
+      const chunk = taskIds.slice(i, i + TASK_ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      rows.push(...this.db.query<T>(buildSql(placeholders), chunk));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Group relation rows by the task they belong to, keeping row order
+   */
+  private groupByTaskId<R, T>(
+    rows: R[],
+    split: (row: R) => [string, T]
+  ): Map<string, T[]> {
+    const grouped = new Map<string, T[]>();
+
+    for (const row of rows) {
+      const [taskId, value] = split(row);
+      const group = grouped.get(taskId);
+      if (group) {
+        group.push(value);
+      } else {
+        grouped.set(taskId, [value]);
+      }
     }
 
-    return tasksWithDetails;
+    return grouped;
   }
 
   /**
-   * Update task
+   * Update one of the user's tasks. Changed fields are recorded in the task
+   * history as a before/after diff, made by `actorId` when that is a
+   * member of the shared list the task is in.
    */
   public async updateTask(
     taskId: string,
-    updates: Partial<Omit<Task, "id" | "userId" | "createdAt">>,
-    changedBy: string
+    updates: Partial<
+      Omit<Task, "id" | "userId" | "createdAt" | "customFields">
+    > & { customFields?: CustomFieldInput },
+    changedBy: string,
+    actorId: string = changedBy
   ): Promise<Task> {
     // Get current task for change tracking
-    const currentTask = this.db.get<Task>("SELECT * FROM tasks WHERE id = ?", [
-      taskId,
-    ]);
-    if (!currentTask) {
-      throw new NotFoundError(`Task with ID ${taskId} not found`);
+    const currentTask: any = this.getOwnedTask(taskId, changedBy);
+
+    if (updates.listId && updates.listId !== currentTask.list_id) {
+      this.getOwnedList(updates.listId, changedBy);
+    }
+    if (
+      updates.parentTaskId &&
+      updates.parentTaskId !== currentTask.parent_task_id
+    ) {
+      this.getOwnedTask(updates.parentTaskId, changedBy);
+    }
+
+    // Custom field values are checked against the list the task ends up in
+    const listId = updates.listId ?? currentTask.list_id;
+    if (updates.customFields !== undefined || listId !== currentTask.list_id) {
+      updates = {
+        ...updates,
+        customFields: this.resolveCustomFieldValues(
+          listId,
+          updates.customFields ?? {},
+          parseCustomFieldValues(currentTask.custom_fields)
+        ),
+      };
     }
 
     // Validate updates
@@ -272,464 +950,4960 @@ export class DatabaseAPI {
       }
     }
 
-    // Build update query
-    const updateFields = Object.entries(updates)
-      .filter(([_, value]) => value !== undefined)
-      .map(([key, value]) => {
-        const dbKey = this.camelToSnakeCase(key);
+    const updatedTask = this.db.transaction(() => {
+      const diff = this.writeTaskFields(currentTask, updates);
+      if (Object.keys(diff).length === 0) {
+        return null;
+      }
 
-        if (key === "recurringPattern" && value) {
-          return `${dbKey} = ?`;
-        }
+      this.recordTaskChange(
+        taskId,
+        actorId,
+        diff,
+        `Updated ${Object.keys(diff).join(", ")}`
+      );
 
-        return `${dbKey} = ?`;
-      });
+      const updatedTask = this.db.get<any>(
+        "SELECT * FROM tasks WHERE id = ?",
+        [taskId]
+      )!;
 
-    if (updateFields.length === 0) {
-      return currentTask;
-    }
+      if (diff.status?.after === "done") {
+        this.logUnblockedTasks(taskId, actorId);
 
-    const updateValues = Object.entries(updates)
-      .filter(([_, value]) => value !== undefined)
-      .map(([key, value]) => {
-        if (key === "recurringPattern" && value) {
-          return JSON.stringify(value);
-        }
-        if (typeof value === "boolean") {
-          return value ? 1 : 0;
+        // Completing a recurring task spawns its next occurrence
+        const nextTask = updatedTask.is_recurring
+          ? this.spawnNextOccurrence(updatedTask)
+          : null;
+        if (nextTask) {
+          this.recordTaskEvent(
+            "TaskCreated",
+            nextTask.id,
+            actorId,
+            {
+              diff: this.createdTaskDiff(nextTask),
+              previousOccurrence: taskId,
+            },
+            `Next occurrence created: ${nextTask.name}`
+          );
         }
-        return value;
-      });
-
-    // Add updated_at timestamp
-    updateFields.push("updated_at = ?");
-    updateValues.push(new Date());
-
-    const sql = `
-      UPDATE tasks
-      SET ${updateFields.join(", ")}
-      WHERE id = ?
-    `;
-    updateValues.push(taskId);
-
-    this.db.run(sql, updateValues);
-
-    // Log changes
-    for (const [key, newValue] of Object.entries(updates)) {
-      if (key !== "updatedAt" && key !== "createdAt") {
-        const oldValue = (currentTask as any)[key];
-        await this.logTaskHistory(
-          taskId,
-          "updated",
-          changedBy,
-          {
-            field: key,
-            oldValue,
-            newValue,
-          },
-          `Updated ${key}`
-        );
       }
-    }
+
+      return updatedTask;
+    });
 
     // Return updated task
-    return this.db.get<Task>("SELECT * FROM tasks WHERE id = ?", [taskId])!;
+    return (updatedTask ?? currentTask) as Task;
   }
 
   /**
-   * Delete task
+   * Write the tracked task fields that differ from the current row and
+   * return their before/after diff. Fields not tracked in TASK_COLUMNS
+   * are ignored.
    */
-  public async deleteTask(taskId: string, changedBy: string): Promise<void> {
-    const task = this.db.get<Task>("SELECT * FROM tasks WHERE id = ?", [
-      taskId,
-    ]);
-    if (!task) {
-      throw new NotFoundError(`Task with ID ${taskId} not found`);
-    }
-
-    // The deletion will be logged by the database trigger
-    this.db.run("DELETE FROM tasks WHERE id = ?", [taskId]);
-  }
+  private writeTaskFields(
+    current: any,
+    updates: Record<string, any>
+  ): TaskHistoryDiff {
+    const diff: TaskHistoryDiff = {};
 
-  // =================== LIST OPERATIONS ===================
+    for (const [field, column] of Object.entries(TASK_COLUMNS)) {
+      if (updates[field] === undefined) {
+        continue;
+      }
 
-  /**
-   * Create a new list
-   */
-  public async createList(
-    listData: Omit<List, "id" | "createdAt" | "updatedAt">
-  ): Promise<List> {
-    const validation = DataValidator.validateList(listData);
-    if (!validation.isValid) {
-      throw new ValidationError(
-        `List validation failed: ${validation.errors.join(", ")}`
-      );
+      const before = this.toHistoryValue(field, current[column]);
+      const after = this.toHistoryValue(field, updates[field]);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        diff[field] = { before, after };
+      }
     }
 
-    const list: List = {
-      ...listData,
-      id: crypto.randomUUID(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const fields = Object.keys(diff);
+    if (fields.length === 0) {
+      return diff;
+    }
 
     this.db.run(
-      "INSERT INTO lists (id, name, color, emoji, is_default, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      `UPDATE tasks
+       SET ${fields.map((field) => `${TASK_COLUMNS[field]} = ?`).join(", ")},
+           updated_at = ?
+       WHERE id = ?`,
       [
-        list.id,
-        list.name,
-        list.color,
-        list.emoji,
-        list.isDefault ? 1 : 0,
-        list.userId,
-        list.createdAt,
-        list.updatedAt,
+        ...fields.map((field) => this.toColumnValue(field, diff[field].after)),
+        new Date(),
+        current.id,
       ]
     );
 
-    return list;
+    return diff;
   }
 
   /**
-   * Get all lists for a user
+   * Normalize a task field value for history diffs (JSON-safe and
+   * comparable between database rows and API input)
    */
-  public async getUserLists(userId: string): Promise<List[]> {
-    return this.db.query<List>(
-      `SELECT * FROM lists WHERE user_id = ? ORDER BY is_default DESC, name ASC`,
-      [userId]
+  private toHistoryValue(field: string, value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (field === "isRecurring") {
+      return Boolean(value);
+    }
+    if (field === "recurringPattern" && typeof value === "string") {
+      return parseRecurringPattern(value);
+    }
+    if (field === "customFields") {
+      const values = parseCustomFieldValues(value as any);
+      return Object.keys(values).length > 0 ? values : null;
+    }
+    return value;
+  }
+
+  /**
+   * Convert a history value back to its column representation
+   */
+  private toColumnValue(field: string, value: unknown): unknown {
+    if (field === "recurringPattern") {
+      return value ? JSON.stringify(value) : null;
+    }
+    if (field === "customFields") {
+      return value && Object.keys(value).length > 0
+        ? JSON.stringify(value)
+        : null;
+    }
+    if (field === "isRecurring") {
+      return value ? 1 : 0;
+    }
+    return value;
+  }
+
+  /**
+   * Diff for a newly created task, with every set field changed from null
+   */
+  private createdTaskDiff(task: Task): TaskHistoryDiff {
+    const diff: TaskHistoryDiff = {};
+
+    for (const field of Object.keys(TASK_COLUMNS)) {
+      const after = this.toHistoryValue(field, (task as any)[field]);
+      if (after !== null) {
+        diff[field] = { before: null, after };
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Create the next occurrence of a completed recurring task.
+   * Labels are carried over, subtasks are reset and reminders keep their
+   * offset from the task date. Returns null when the series has ended or
+   * the next occurrence already exists.
+   */
+  private spawnNextOccurrence(task: any): Task | null {
+    const pattern = parseRecurringPattern(task.recurring_pattern);
+    if (!pattern) {
+      return null;
+    }
+
+    const seriesId: string = task.recurrence_series_id ?? task.id;
+    const index: number = task.recurrence_index ?? 1;
+
+    // Occurrences follow the task date, then the deadline, then completion
+    const anchorField = task.date ? "date" : task.deadline ? "deadline" : null;
+    const anchor = anchorField ? new Date(task[anchorField]) : new Date();
+
+    const next = getNextOccurrence(pattern, anchor, index);
+    if (!next) {
+      return null;
+    }
+
+    return this.db.transaction(() => {
+      const existing = this.db.get<any>(
+        `SELECT id FROM tasks
+         WHERE recurrence_series_id = ? AND recurrence_index = ? AND deleted_at IS NULL`,
+        [seriesId, index + 1]
+      );
+      if (existing) {
+        return null;
+      }
+
+      const now = new Date();
+      const position =
+        this.db.get<{ position: number }>(
+          "SELECT COALESCE(MAX(position), -1) + 1 as position FROM tasks WHERE list_id = ?",
+          [task.list_id]
+        )?.position ?? 0;
+
+      const nextTask: Task = {
+        id: crypto.randomUUID(),
+        name: task.name,
+        description: task.description ?? undefined,
+        date: anchorField === "deadline" ? undefined : next,
+        deadline:
+          anchorField === "deadline"
+            ? next
+            : task.deadline && anchorField === "date"
+            ? shiftByOccurrence(new Date(task.deadline), anchor, next)
+            : undefined,
+        estimate: task.estimate ?? undefined,
+        priority: task.priority,
+        status: "todo",
+        userId: task.user_id,
+        listId: task.list_id,
+        parentTaskId: task.parent_task_id ?? undefined,
+        position,
+        isRecurring: true,
+        recurringPattern: pattern,
+        recurrenceSeriesId: seriesId,
+        recurrenceIndex: index + 1,
+        customFields: parseCustomFieldValues(task.custom_fields),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      this.db.run(
+        `INSERT INTO tasks (
+          id, name, description, date, deadline, estimate, priority, status,
+          user_id, list_id, parent_task_id, position, is_recurring,
+          recurring_pattern, recurrence_series_id, recurrence_index,
+          custom_fields, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          nextTask.id,
+          nextTask.name,
+          nextTask.description,
+          nextTask.date,
+          nextTask.deadline,
+          nextTask.estimate,
+          nextTask.priority,
+          nextTask.status,
+          nextTask.userId,
+          nextTask.listId,
+          nextTask.parentTaskId,
+          nextTask.position,
+          1,
+          task.recurring_pattern,
+          seriesId,
+          index + 1,
+          task.custom_fields,
+          now,
+          now,
+        ]
+      );
+
+      // Mark the completed task as part of the series
+      if (!task.recurrence_series_id) {
+        this.db.run("UPDATE tasks SET recurrence_series_id = ? WHERE id = ?", [
+          seriesId,
+          task.id,
+        ]);
+      }
+
+      this.db.run(
+        `INSERT INTO task_labels (task_id, label_id, created_at)
+         SELECT ?, label_id, ? FROM task_labels WHERE task_id = ?`,
+        [nextTask.id, now, task.id]
+      );
+
+      for (const subtask of this.db.query<any>(
+        "SELECT * FROM subtasks WHERE task_id = ? ORDER BY position ASC",
+        [task.id]
+      )) {
+        this.db.run(
+          `INSERT INTO subtasks (id, name, is_completed, task_id, position, created_at, updated_at)
+           VALUES (?, ?, 0, ?, ?, ?, ?)`,
+          [crypto.randomUUID(), subtask.name, nextTask.id, subtask.position, now, now]
+        );
+      }
+
+      // Reminders are relative to the task's date, so they need one to move with
+      if (anchorField) {
+        for (const reminder of this.db.query<any>(
+          "SELECT * FROM reminders WHERE task_id = ?",
+          [task.id]
+        )) {
+          this.db.run(
+            `INSERT INTO reminders (id, task_id, remind_at, is_sent, method, created_at, updated_at)
+             VALUES (?, ?, ?, 0, ?, ?, ?)`,
+            [
+              crypto.randomUUID(),
+              nextTask.id,
+              shiftByOccurrence(new Date(reminder.remind_at), anchor, next),
+              reminder.method,
+              now,
+              now,
+            ]
+          );
+        }
+      }
+
+      return nextTask;
+    });
+  }
+
+  /**
+   * Move task and its child tasks to the trash. `actorId` is recorded in
+   * the history, as in updateTask().
+   */
+  public async deleteTask(
+    taskId: string,
+    changedBy: string,
+    actorId: string = changedBy
+  ): Promise<void> {
+    const task: any = this.getOwnedTask(taskId, changedBy);
+
+    const deletedAt = new Date();
+
+    this.db.transaction(() => {
+      this.db.run(
+        `WITH RECURSIVE subtree(id) AS (
+           SELECT ?
+           UNION ALL
+           SELECT t.id FROM tasks t JOIN subtree s ON t.parent_task_id = s.id
+         )
+         UPDATE tasks SET deleted_at = ?
+         WHERE id IN (SELECT id FROM subtree) AND deleted_at IS NULL`,
+        [taskId, deletedAt]
+      );
+
+      this.recordTaskEvent(
+        "TaskDeleted",
+        taskId,
+        actorId,
+        {
+          diff: { deletedAt: { before: null, after: deletedAt.toISOString() } },
+        },
+        `Task moved to trash: ${task.name}`
+      );
+    });
+  }
+
+  /**
+   * Restore a trashed task together with the child tasks trashed with it
+   */
+  public async restoreTask(taskId: string, changedBy: string): Promise<Task> {
+    const task = this.db.get<any>(
+      "SELECT * FROM tasks WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL",
+      [taskId, changedBy]
+    );
+    if (!task) {
+      throw new NotFoundError(`Task with ID ${taskId} not found in trash`);
+    }
+
+    const list = this.db.get<any>("SELECT * FROM lists WHERE id = ?", [
+      task.list_id,
+    ]);
+    if (list?.deleted_at) {
+      throw new ValidationError(
+        `List "${list.name}" is in the trash; restore the list first`
+      );
+    }
+
+    this.db.transaction(() => {
+      this.db.run(
+        `WITH RECURSIVE subtree(id) AS (
+           SELECT ?
+           UNION ALL
+           SELECT t.id FROM tasks t JOIN subtree s ON t.parent_task_id = s.id
+         )
+         UPDATE tasks SET deleted_at = NULL
+         WHERE id IN (SELECT id FROM subtree) AND deleted_at = ?`,
+        [taskId, task.deleted_at]
+      );
+
+      this.recordTaskEvent(
+        "TaskRestored",
+        taskId,
+        changedBy,
+        { diff: { deletedAt: { before: task.deleted_at, after: null } } },
+        `Task restored from trash: ${task.name}`
+      );
+    });
+
+    return this.db.get<Task>("SELECT * FROM tasks WHERE id = ?", [taskId])!;
+  }
+
+  // =================== TASK DEPENDENCY OPERATIONS ===================
+
+  /**
+   * Get the tasks a user's task is blocked by and the tasks it blocks
+   */
+  public async getTaskDependencies(
+    taskId: string,
+    userId: string
+  ): Promise<TaskDependencies> {
+    this.getOwnedTask(taskId, userId);
+
+    return {
+      blockedBy: this.db.query<Task>(
+        `SELECT t.* FROM tasks t
+         INNER JOIN task_dependencies d ON t.id = d.depends_on_task_id
+         WHERE d.task_id = ? AND t.deleted_at IS NULL
+         ORDER BY t.position ASC`,
+        [taskId]
+      ),
+      blocks: this.db.query<Task>(
+        `SELECT t.* FROM tasks t
+         INNER JOIN task_dependencies d ON t.id = d.task_id
+         WHERE d.depends_on_task_id = ? AND t.deleted_at IS NULL
+         ORDER BY t.position ASC`,
+        [taskId]
+      ),
+    };
+  }
+
+  /**
+   * Make a task blocked by another task of the same user.
+   * Rejects dependencies that would create a cycle.
+   */
+  public async addTaskDependency(
+    taskId: string,
+    dependsOnTaskId: string,
+    userId: string
+  ): Promise<TaskDependency> {
+    if (taskId === dependsOnTaskId) {
+      throw new ValidationError("A task cannot depend on itself");
+    }
+
+    this.getOwnedTask(taskId, userId);
+    this.getOwnedTask(dependsOnTaskId, userId);
+
+    return this.db.transaction(() => {
+      // A cycle exists if the new blocker already (transitively) waits on the task
+      const cycle = this.db.get<{ id: string }>(
+        `WITH RECURSIVE upstream(id) AS (
+           SELECT depends_on_task_id FROM task_dependencies WHERE task_id = ?
+           UNION
+           SELECT d.depends_on_task_id FROM task_dependencies d
+           INNER JOIN upstream u ON d.task_id = u.id
+         )
+         SELECT id FROM upstream WHERE id = ?`,
+        [dependsOnTaskId, taskId]
+      );
+      if (cycle) {
+        throw new ValidationError(
+          `Task ${dependsOnTaskId} already depends on task ${taskId}; dependency would create a cycle`
+        );
+      }
+
+      const dependency: TaskDependency = {
+        taskId,
+        dependsOnTaskId,
+        createdAt: new Date(),
+      };
+
+      this.db.run(
+        "INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_task_id, created_at) VALUES (?, ?, ?)",
+        [taskId, dependsOnTaskId, dependency.createdAt]
+      );
+
+      return dependency;
+    });
+  }
+
+  /**
+   * Remove a dependency between two of a user's tasks
+   */
+  public async removeTaskDependency(
+    taskId: string,
+    dependsOnTaskId: string,
+    userId: string
+  ): Promise<boolean> {
+    this.getOwnedTask(taskId, userId);
+
+    const result = this.db.run(
+      "DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_task_id = ?",
+      [taskId, dependsOnTaskId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Get the unfinished tasks blocking a task
+   */
+  private async getOpenBlockers(taskId: string): Promise<Task[]> {
+    return this.db.query<Task>(
+      `SELECT t.* FROM tasks t
+       INNER JOIN task_dependencies d ON t.id = d.depends_on_task_id
+       WHERE d.task_id = ? AND t.status != 'done' AND t.deleted_at IS NULL`,
+      [taskId]
+    );
+  }
+
+  /**
+   * Log a history entry on every task left without open blockers
+   * once `blockerId` is done
+   */
+  private logUnblockedTasks(blockerId: string, changedBy: string): void {
+    const unblocked = this.db.query<any>(
+      `SELECT t.id, t.name FROM tasks t
+       INNER JOIN task_dependencies d ON t.id = d.task_id
+       WHERE d.depends_on_task_id = ? AND t.deleted_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM task_dependencies o
+           INNER JOIN tasks b ON b.id = o.depends_on_task_id
+           WHERE o.task_id = t.id AND b.status != 'done' AND b.deleted_at IS NULL
+         )`,
+      [blockerId]
+    );
+
+    for (const task of unblocked) {
+      this.recordTaskChange(
+        task.id,
+        changedBy,
+        { isBlocked: { before: true, after: false } },
+        `Task unblocked: ${task.name}`,
+        { unblockedBy: blockerId }
+      );
+    }
+  }
+
+  /**
+   * Get a task that belongs to the user, or throw NotFoundError
+   */
+  private getOwnedTask(taskId: string, userId: string): Task {
+    const task = this.db.get<Task>(
+      "SELECT * FROM tasks WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+      [taskId, userId]
+    );
+    if (!task) {
+      throw new NotFoundError(`Task with ID ${taskId} not found`);
+    }
+    return task;
+  }
+
+  // =================== TIME TRACKING OPERATIONS ===================
+
+  /**
+   * Start a timer on one of the user's tasks. Each user can have only
+   * one running timer; a timer left running on a task that has since
+   * been trashed is stopped first. On a shared list the timer is
+   * `actorId`'s, a member of the list.
+   */
+  public async startTimer(
+    taskId: string,
+    userId: string,
+    description?: string,
+    actorId: string = userId
+  ): Promise<TimeEntry> {
+    this.getOwnedTask(taskId, userId);
+
+    const running = await this.getRunningTimer(actorId, true);
+    if (running && !this.isActiveTask(running.taskId)) {
+      await this.stopTimer(running.taskId, actorId, true, actorId);
+    } else if (running) {
+      throw new DatabaseError(
+        running.taskId === taskId
+          ? "A timer is already running on this task"
+          : `A timer is already running on task ${running.taskId}; stop it first`,
+        "TIMER_RUNNING"
+      );
+    }
+
+    const now = new Date();
+    const entry: TimeEntry = {
+      id: crypto.randomUUID(),
+      taskId,
+      userId: actorId,
+      startedAt: now,
+      description: description?.trim() || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.run(
+      `INSERT INTO time_entries (
+        id, task_id, user_id, started_at, description, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.taskId,
+        entry.userId,
+        entry.startedAt,
+        entry.description ?? null,
+        entry.createdAt,
+        entry.updatedAt,
+      ]
+    );
+
+    return entry;
+  }
+
+  /**
+   * Stop the running timer of the user, or of `actorId` as in startTimer(),
+   * on a task and add its duration to the task's actual time
+   */
+  public async stopTimer(
+    taskId: string,
+    userId: string,
+    includeTrashed = false,
+    actorId: string = userId
+  ): Promise<TimeEntry> {
+    if (!includeTrashed) {
+      this.getOwnedTask(taskId, userId);
+    }
+
+    const row = this.db.get<any>(
+      "SELECT * FROM time_entries WHERE task_id = ? AND user_id = ? AND ended_at IS NULL",
+      [taskId, actorId]
+    );
+    if (!row) {
+      throw new NotFoundError(`No timer is running on task ${taskId}`);
+    }
+
+    const now = new Date();
+    const entry: TimeEntry = {
+      ...this.toTimeEntry(row),
+      endedAt: now,
+      updatedAt: now,
+    };
+    entry.duration = getEntryDuration(entry.startedAt, now);
+
+    this.db.transaction(() => {
+      this.db.run(
+        "UPDATE time_entries SET ended_at = ?, duration = ?, updated_at = ? WHERE id = ?",
+        [entry.endedAt, entry.duration, entry.updatedAt, entry.id]
+      );
+      this.syncActualTime(taskId, actorId);
+    });
+    return entry;
+  }
+
+  /**
+   * Get the user's running timer, if any
+   */
+  public async getRunningTimer(
+    userId: string,
+    includeTrashed = false
+  ): Promise<TimeEntry | null> {
+    const row = this.db.get<any>(
+      `SELECT e.* FROM time_entries e
+       INNER JOIN tasks t ON t.id = e.task_id
+       WHERE e.user_id = ? AND e.ended_at IS NULL
+         ${includeTrashed ? "" : "AND t.deleted_at IS NULL"}`,
+      [userId]
+    );
+    return row ? this.toTimeEntry(row) : null;
+  }
+
+  /**
+   * Get the time entries of one of the user's tasks, newest first
+   */
+  public async getTimeEntries(
+    taskId: string,
+    userId: string
+  ): Promise<TimeEntry[]> {
+    this.getOwnedTask(taskId, userId);
+
+    return this.db
+      .query<any>(
+        "SELECT * FROM time_entries WHERE task_id = ? ORDER BY started_at DESC",
+        [taskId]
+      )
+      .map((row) => this.toTimeEntry(row));
+  }
+
+  /**
+   * Log time on a task after the fact, as `actorId` on a shared list.
+   * Manual entries must have ended; running entries are only created by
+   * starting a timer.
+   */
+  public async createTimeEntry(
+    taskId: string,
+    entryData: Pick<TimeEntry, "startedAt" | "endedAt" | "description">,
+    userId: string,
+    actorId: string = userId
+  ): Promise<TimeEntry> {
+    this.getOwnedTask(taskId, userId);
+
+    if (!entryData.endedAt) {
+      throw new ValidationError("Time entry must have an end time");
+    }
+    this.assertValidTimeEntryRange(entryData.startedAt, entryData.endedAt);
+
+    const now = new Date();
+    const entry: TimeEntry = {
+      id: crypto.randomUUID(),
+      taskId,
+      userId: actorId,
+      startedAt: entryData.startedAt,
+      endedAt: entryData.endedAt,
+      duration: getEntryDuration(entryData.startedAt, entryData.endedAt),
+      description: entryData.description?.trim() || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.transaction(() => {
+      this.db.run(
+        `INSERT INTO time_entries (
+          id, task_id, user_id, started_at, ended_at, duration, description, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.id,
+          entry.taskId,
+          entry.userId,
+          entry.startedAt,
+          entry.endedAt,
+          entry.duration,
+          entry.description ?? null,
+          entry.createdAt,
+          entry.updatedAt,
+        ]
+      );
+      this.syncActualTime(taskId, actorId);
+    });
+    return entry;
+  }
+
+  /**
+   * Update a time entry. A running entry can't be given an end time;
+   * stop its timer instead. Members of a shared list, as `actorId`, can
+   * only change their own entries.
+   */
+  public async updateTimeEntry(
+    entryId: string,
+    updates: Partial<Pick<TimeEntry, "startedAt" | "endedAt" | "description">>,
+    userId: string,
+    actorId: string = userId
+  ): Promise<TimeEntry> {
+    const current = this.getOwnedTimeEntry(entryId, userId, actorId);
+
+    if (!current.endedAt && updates.endedAt) {
+      throw new ValidationError(
+        "Stop the timer to set the end time of a running entry"
+      );
+    }
+
+    const entry: TimeEntry = {
+      ...current,
+      startedAt: updates.startedAt ?? current.startedAt,
+      endedAt: updates.endedAt ?? current.endedAt,
+      description:
+        updates.description !== undefined
+          ? updates.description.trim() || undefined
+          : current.description,
+      updatedAt: new Date(),
+    };
+    this.assertValidTimeEntryRange(
+      entry.startedAt,
+      entry.endedAt ?? new Date()
+    );
+    entry.duration = entry.endedAt
+      ? getEntryDuration(entry.startedAt, entry.endedAt)
+      : undefined;
+
+    this.db.transaction(() => {
+      this.db.run(
+        `UPDATE time_entries
+         SET started_at = ?, ended_at = ?, duration = ?, description = ?, updated_at = ?
+         WHERE id = ?`,
+        [
+          entry.startedAt,
+          entry.endedAt ?? null,
+          entry.duration ?? null,
+          entry.description ?? null,
+          entry.updatedAt,
+          entryId,
+        ]
+      );
+      this.syncActualTime(entry.taskId, actorId);
+    });
+    return entry;
+  }
+
+  /**
+   * Delete a time entry and subtract it from the task's actual time. As in
+   * updateTimeEntry(), members can only delete their own entries.
+   */
+  public async deleteTimeEntry(
+    entryId: string,
+    userId: string,
+    actorId: string = userId
+  ): Promise<void> {
+    const entry = this.getOwnedTimeEntry(entryId, userId, actorId);
+
+    this.db.transaction(() => {
+      this.db.run("DELETE FROM time_entries WHERE id = ?", [entryId]);
+      this.syncActualTime(entry.taskId, actorId);
+    });
+  }
+
+  /**
+   * Tracked time of each of the user's tasks with an estimate or
+   * time entries, for comparing estimates with real time
+   */
+  public async getTimeSummaries(userId: string): Promise<TaskTimeSummary[]> {
+    return this.db
+      .query<any>(
+        `SELECT t.id, t.estimate, COALESCE(SUM(e.duration), 0) as tracked
+         FROM tasks t
+         LEFT JOIN time_entries e ON e.task_id = t.id
+         WHERE t.user_id = ? AND t.deleted_at IS NULL
+         GROUP BY t.id
+         HAVING t.estimate IS NOT NULL OR COUNT(e.id) > 0`,
+        [userId]
+      )
+      .map((row) => ({
+        taskId: row.id,
+        estimate: row.estimate ?? undefined,
+        trackedSeconds: row.tracked,
+      }));
+  }
+
+  /**
+   * Get a time entry on one of the user's tasks, or throw NotFoundError.
+   * Any entry on the task is the owner's to change; `actorId`, when that
+   * is someone else, only their own.
+   */
+  private getOwnedTimeEntry(
+    entryId: string,
+    userId: string,
+    actorId: string = userId
+  ): TimeEntry {
+    const row = this.db.get<any>(
+      `SELECT e.* FROM time_entries e
+       INNER JOIN tasks t ON t.id = e.task_id
+       WHERE e.id = ? AND t.user_id = ? AND t.deleted_at IS NULL`,
+      [entryId, userId]
+    );
+    if (!row || (actorId !== userId && row.user_id !== actorId)) {
+      throw new NotFoundError(`Time entry with ID ${entryId} not found`);
+    }
+    return this.toTimeEntry(row);
+  }
+
+  private assertValidTimeEntryRange(startedAt: Date, endedAt: Date): void {
+    if (isNaN(startedAt.getTime()) || isNaN(endedAt.getTime())) {
+      throw new ValidationError("Time entry has an invalid date");
+    }
+    if (endedAt <= startedAt) {
+      throw new ValidationError("Time entry must end after it starts");
+    }
+    if (endedAt > new Date()) {
+      throw new ValidationError("Time entry cannot end in the future");
+    }
+  }
+
+  private isActiveTask(taskId: string): boolean {
+    return !!this.db.get(
+      "SELECT 1 FROM tasks WHERE id = ? AND deleted_at IS NULL",
+      [taskId]
+    );
+  }
+
+  /**
+   * Recompute a task's actual time from its ended time entries,
+   * logging the change in the task's history
+   */
+  private syncActualTime(taskId: string, changedBy: string): void {
+    const task = this.db.get<any>(
+      "SELECT name, actual_time FROM tasks WHERE id = ?",
+      [taskId]
+    );
+    const { tracked } = this.db.get<{ tracked: number }>(
+      "SELECT COALESCE(SUM(duration), 0) as tracked FROM time_entries WHERE task_id = ? AND ended_at IS NOT NULL",
+      [taskId]
+    )!;
+
+    const before = task?.actual_time ?? null;
+    const after = tracked > 0 ? formatTrackedTime(tracked) : null;
+    if (!task || before === after) {
+      return;
+    }
+
+    this.db.run(
+      "UPDATE tasks SET actual_time = ?, updated_at = ? WHERE id = ?",
+      [after, new Date(), taskId]
+    );
+    this.recordTaskChange(
+      taskId,
+      changedBy,
+      { actualTime: { before, after } },
+      `Tracked time updated: ${task.name}`
+    );
+  }
+
+  private toTimeEntry(row: any): TimeEntry {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      userId: row.user_id,
+      startedAt: new Date(row.started_at),
+      endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+      duration: row.duration ?? undefined,
+      description: row.description ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // =================== LIST OPERATIONS ===================
+
+  /**
+   * Create a new list
+   */
+  public async createList(
+    listData: Omit<List, "id" | "createdAt" | "updatedAt">
+  ): Promise<List> {
+    const validation = DataValidator.validateList(listData);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `List validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    const list: List = {
+      ...listData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.db.transaction(() => {
+      this.assertNameAvailable("lists", list.userId, list.name);
+      this.db.run(
+        "INSERT INTO lists (id, name, color, emoji, is_default, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+        [
+          list.id,
+          list.name,
+          list.color,
+          list.emoji,
+          list.isDefault ? 1 : 0,
+          list.userId,
+          list.createdAt,
+          list.updatedAt,
+        ]
+      );
+      this.recordEvent({ type: "ListCreated", listId: list.id }, list.userId);
+    });
+
+    return list;
+  }
+
+  /**
+   * Get all lists for a user
+   */
+  public async getUserLists(userId: string): Promise<List[]> {
+    return this.db.query<List>(
+      `SELECT * FROM lists
+       WHERE user_id = ? AND deleted_at IS NULL
+       ORDER BY is_default DESC, name ASC`,
+      [userId]
+    );
+  }
+
+  /**
+   * Get lists for user with task counts
+   */
+  public async getUserListsWithCounts(
+    userId: string
+  ): Promise<ListWithTaskCount[]> {
+    return this.db.query<ListWithTaskCount>(
+      `SELECT
+        l.*,
+        COUNT(t.id) as taskCount,
+        SUM(CASE WHEN t.status = 'done' THEN 1 ELSE 0 END) as completedTaskCount
+      FROM lists l
+      LEFT JOIN tasks t ON l.id = t.list_id AND t.deleted_at IS NULL
+      WHERE l.user_id = ? AND l.deleted_at IS NULL
+      GROUP BY l.id
+      ORDER BY l.is_default DESC, l.name ASC`,
+      [userId]
+    );
+  }
+
+  /**
+   * Get one of the user's lists by ID
+   */
+  public async getList(listId: string, userId: string): Promise<List | null> {
+    return (this.db.get<List>(
+      "SELECT * FROM lists WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+      [listId, userId]
+    ) ?? null) as List | null;
+  }
+
+  /**
+   * Get a list that belongs to the user, or throw NotFoundError
+   */
+  private getOwnedList(listId: string, userId: string): List {
+    const list = this.db.get<List>(
+      "SELECT * FROM lists WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+      [listId, userId]
+    );
+    if (!list) {
+      throw new NotFoundError(`List with ID ${listId} not found`);
+    }
+    return list;
+  }
+
+  /**
+   * Move list and all of its tasks to the trash
+   */
+  public async deleteList(listId: string, userId: string): Promise<void> {
+    const list = this.db.get<any>(
+      "SELECT * FROM lists WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+      [listId, userId]
+    );
+    if (!list) {
+      throw new NotFoundError(`List with ID ${listId} not found`);
+    }
+    if (list.is_default) {
+      throw new ValidationError("The default list cannot be deleted");
+    }
+
+    const deletedAt = new Date();
+
+    this.db.transaction(() => {
+      this.db.run("UPDATE lists SET deleted_at = ? WHERE id = ?", [
+        deletedAt,
+        listId,
+      ]);
+      this.db.run(
+        "UPDATE tasks SET deleted_at = ? WHERE list_id = ? AND deleted_at IS NULL",
+        [deletedAt, listId]
+      );
+      this.recordEvent({ type: "ListDeleted", listId }, userId);
+    });
+  }
+
+  /**
+   * Restore a trashed list together with the tasks trashed with it
+   */
+  public async restoreList(listId: string, userId: string): Promise<List> {
+    const list = this.db.get<any>(
+      "SELECT * FROM lists WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL",
+      [listId, userId]
+    );
+    if (!list) {
+      throw new NotFoundError(`List with ID ${listId} not found in trash`);
+    }
+
+    this.db.transaction(() => {
+      this.db.run(
+        "UPDATE tasks SET deleted_at = NULL WHERE list_id = ? AND deleted_at = ?",
+        [listId, list.deleted_at]
+      );
+      this.db.run("UPDATE lists SET deleted_at = NULL WHERE id = ?", [listId]);
+      this.recordEvent({ type: "ListRestored", listId }, userId);
+    });
+
+    return this.db.get<List>("SELECT * FROM lists WHERE id = ?", [listId])!;
+  }
+
+  /**
+   * Put tasks of one of the user's lists first, in the given order,
+   * followed by its other tasks in their current order. Returns the list's
+   * tasks in their new order. Position changes are recorded in the task
+   * history, made by `actorId` as in updateTask().
+   */
+  public async reorderListTasks(
+    listId: string,
+    taskIds: string[],
+    userId: string,
+    actorId: string = userId
+  ): Promise<Task[]> {
+    this.getOwnedList(listId, userId);
+
+    const tasks = this.db.query<any>(
+      `SELECT * FROM tasks
+       WHERE list_id = ? AND user_id = ? AND deleted_at IS NULL
+       ORDER BY position ASC`,
+      [listId, userId]
+    );
+    const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+    const missing = taskIds.filter((taskId) => !tasksById.has(taskId));
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `The following tasks do not exist in this list: ${missing.join(", ")}`
+      );
+    }
+
+    const order = [
+      ...new Set([...taskIds, ...tasks.map((task) => task.id)]),
+    ];
+
+    this.db.transaction(() => {
+      order.forEach((taskId, position) => {
+        const diff = this.writeTaskFields(tasksById.get(taskId), { position });
+        if (Object.keys(diff).length > 0) {
+          this.recordTaskChange(taskId, actorId, diff, "Updated position");
+        }
+      });
+      this.recordEvent(
+        { type: "ListReordered", listId, taskIds: order },
+        userId,
+        actorId
+      );
+    });
+
+    return order.map(
+      (taskId) =>
+        this.db.get<Task>("SELECT * FROM tasks WHERE id = ?", [taskId])!
+    );
+  }
+
+  // =================== LIST COLLECTION OPERATIONS ===================
+
+  /**
+   * Create a collection (sidebar folder) for lists
+   */
+  public async createCollection(
+    collectionData: Pick<ListCollection, "name"> &
+      Partial<
+        Pick<ListCollection, "description" | "color" | "icon" | "position">
+      >,
+    userId: string
+  ): Promise<ListCollectionWithLists> {
+    const now = new Date();
+    const collection: ListCollection = {
+      id: crypto.randomUUID(),
+      userId,
+      name: collectionData.name?.trim(),
+      description: collectionData.description,
+      color: collectionData.color ?? "#6B7280",
+      icon: collectionData.icon ?? "📁",
+      position:
+        collectionData.position ??
+        this.db.get<{ position: number }>(
+          "SELECT COALESCE(MAX(position), -1) + 1 as position FROM list_collections WHERE user_id = ?",
+          [userId]
+        )?.position ??
+        0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.assertValidCollection(collection);
+    this.assertUniqueCollectionName(userId, collection.name);
+
+    this.db.run(
+      `INSERT INTO list_collections (
+        id, user_id, name, description, color, icon, position, created_at,
+        updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        collection.id,
+        collection.userId,
+        collection.name,
+        collection.description ?? null,
+        collection.color,
+        collection.icon,
+        collection.position,
+        collection.createdAt,
+        collection.updatedAt,
+      ]
+    );
+
+    return { ...collection, listIds: [], taskCount: 0 };
+  }
+
+  /**
+   * Get the user's collections in sidebar order, with their lists and the
+   * number of open tasks in them. Archived collections are left out unless
+   * asked for.
+   */
+  public async getCollections(
+    userId: string,
+    options: { includeArchived?: boolean } = {}
+  ): Promise<ListCollectionWithLists[]> {
+    const rows = this.db.query<any>(
+      `SELECT * FROM list_collections
+       WHERE user_id = ?
+         ${options.includeArchived ? "" : "AND archived_at IS NULL"}
+       ORDER BY position ASC, created_at ASC`,
+      [userId]
+    );
+
+    const listIds = new Map<string, string[]>();
+    for (const { id, collection_id } of this.db.query<any>(
+      `SELECT id, collection_id FROM lists
+       WHERE user_id = ? AND collection_id IS NOT NULL AND deleted_at IS NULL
+       ORDER BY position ASC, name ASC`,
+      [userId]
+    )) {
+      listIds.set(collection_id, [...(listIds.get(collection_id) ?? []), id]);
+    }
+
+    const taskCounts = new Map(
+      this.db
+        .query<{ collection_id: string; count: number }>(
+          `SELECT l.collection_id, COUNT(t.id) as count
+           FROM lists l
+           INNER JOIN tasks t ON t.list_id = l.id AND t.deleted_at IS NULL
+           WHERE l.user_id = ? AND l.collection_id IS NOT NULL
+             AND l.deleted_at IS NULL AND t.status IN ('todo', 'in_progress')
+           GROUP BY l.collection_id`,
+          [userId]
+        )
+        .map((row) => [row.collection_id, row.count])
+    );
+
+    return rows.map((row) => ({
+      ...this.toCollection(row),
+      listIds: listIds.get(row.id) ?? [],
+      taskCount: taskCounts.get(row.id) ?? 0,
+    }));
+  }
+
+  /**
+   * Get one of the user's collections with its lists and open task count
+   */
+  public async getCollection(
+    collectionId: string,
+    userId: string
+  ): Promise<ListCollectionWithLists> {
+    this.getOwnedCollection(collectionId, userId);
+    const collections = await this.getCollections(userId, {
+      includeArchived: true,
+    });
+    return collections.find((collection) => collection.id === collectionId)!;
+  }
+
+  /**
+   * Update a collection. `archived` archives the whole collection, or
+   * brings it back; its lists stay in it either way.
+   */
+  public async updateCollection(
+    collectionId: string,
+    updates: Partial<
+      Pick<
+        ListCollection,
+        "name" | "description" | "color" | "icon" | "position"
+      >
+    > & { archived?: boolean },
+    userId: string
+  ): Promise<ListCollectionWithLists> {
+    const { archived, ...changes } = updates;
+    const current = this.getOwnedCollection(collectionId, userId);
+    const collection: ListCollection = {
+      ...current,
+      ...changes,
+      name: changes.name?.trim() ?? current.name,
+      updatedAt: new Date(),
+    };
+    if (archived !== undefined) {
+      collection.archivedAt = archived
+        ? current.archivedAt ?? collection.updatedAt
+        : undefined;
+    }
+
+    this.assertValidCollection(collection);
+    if (collection.name !== current.name) {
+      this.assertUniqueCollectionName(userId, collection.name);
+    }
+
+    this.db.run(
+      `UPDATE list_collections
+       SET name = ?, description = ?, color = ?, icon = ?, position = ?, archived_at = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        collection.name,
+        collection.description ?? null,
+        collection.color,
+        collection.icon,
+        collection.position,
+        collection.archivedAt ?? null,
+        collection.updatedAt,
+        collectionId,
+      ]
+    );
+
+    return this.getCollection(collectionId, userId);
+  }
+
+  /**
+   * Delete a collection; its lists are kept and no longer filed anywhere
+   */
+  public async deleteCollection(
+    collectionId: string,
+    userId: string
+  ): Promise<void> {
+    this.getOwnedCollection(collectionId, userId);
+
+    this.db.transaction(() => {
+      this.db.run(
+        "UPDATE lists SET collection_id = NULL, updated_at = ? WHERE collection_id = ?",
+        [new Date(), collectionId]
+      );
+      this.db.run("DELETE FROM list_collections WHERE id = ?", [
+        collectionId,
+      ]);
+    });
+  }
+
+  /**
+   * File a list under a collection, moving it out of any other one
+   */
+  public async addListToCollection(
+    collectionId: string,
+    listId: string,
+    userId: string
+  ): Promise<void> {
+    this.getOwnedCollection(collectionId, userId);
+    this.getOwnedList(listId, userId);
+
+    this.db.run(
+      "UPDATE lists SET collection_id = ?, updated_at = ? WHERE id = ?",
+      [collectionId, new Date(), listId]
+    );
+  }
+
+  /**
+   * Take a list out of a collection. Returns false if it was not in it.
+   */
+  public async removeListFromCollection(
+    collectionId: string,
+    listId: string,
+    userId: string
+  ): Promise<boolean> {
+    this.getOwnedCollection(collectionId, userId);
+    this.getOwnedList(listId, userId);
+
+    const result = this.db.run(
+      "UPDATE lists SET collection_id = NULL, updated_at = ? WHERE id = ? AND collection_id = ?",
+      [new Date(), listId, collectionId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Get a collection of the user, or throw NotFoundError
+   */
+  private getOwnedCollection(
+    collectionId: string,
+    userId: string
+  ): ListCollection {
+    const row = this.db.get<any>(
+      "SELECT * FROM list_collections WHERE id = ? AND user_id = ?",
+      [collectionId, userId]
+    );
+    if (!row) {
+      throw new NotFoundError(`Collection with ID ${collectionId} not found`);
+    }
+    return this.toCollection(row);
+  }
+
+  private assertValidCollection(collection: ListCollection): void {
+    const validation = DataValidator.validateListCollection(collection);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `Collection validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+  }
+
+  private assertUniqueCollectionName(userId: string, name: string): void {
+    const existing = this.db.get<{ id: string }>(
+      "SELECT id FROM list_collections WHERE user_id = ? AND name = ?",
+      [userId, name]
+    );
+    if (existing) {
+      throw new ValidationError(`Collection "${name}" already exists`);
+    }
+  }
+
+  private toCollection(row: any): ListCollection {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      color: row.color,
+      icon: row.icon,
+      position: row.position,
+      archivedAt: row.archived_at ? new Date(row.archived_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // =================== LIST MEMBER OPERATIONS ===================
+
+  /**
+   * What the user may do with a list: "owner" for their own lists, their
+   * member role for lists shared with them, or null without access
+   */
+  public async getListAccess(
+    listId: string,
+    userId: string
+  ): Promise<ListAccess | null> {
+    const list = this.db.get<{ user_id: string }>(
+      "SELECT user_id FROM lists WHERE id = ? AND deleted_at IS NULL",
+      [listId]
+    );
+    if (!list) {
+      return null;
+    }
+    if (list.user_id === userId) {
+      return { listId, ownerId: userId, role: "owner" };
+    }
+
+    const member = this.db.get<{ role: ListRole }>(
+      "SELECT role FROM list_members WHERE list_id = ? AND user_id = ? AND accepted_at IS NOT NULL",
+      [listId, userId]
+    );
+    return member ? { listId, ownerId: list.user_id, role: member.role } : null;
+  }
+
+  /**
+   * Access the user has to a task, through the list it is in. Tasks in a
+   * shared list belong to the list's owner.
+   */
+  public async getTaskAccess(
+    taskId: string,
+    userId: string
+  ): Promise<ListAccess | null> {
+    const task = this.db.get<{ list_id: string; user_id: string }>(
+      "SELECT list_id, user_id FROM tasks WHERE id = ?",
+      [taskId]
+    );
+    if (!task) {
+      return null;
+    }
+    if (task.user_id === userId) {
+      return { listId: task.list_id, ownerId: userId, role: "owner" };
+    }
+    return this.getListAccess(task.list_id, userId);
+  }
+
+  /**
+   * Get the members of a list, including pending invitations
+   */
+  public async getListMembers(
+    listId: string,
+    ownerId: string
+  ): Promise<ListMember[]> {
+    this.getOwnedList(listId, ownerId);
+
+    return this.db
+      .query<any>(
+        `SELECT m.*, u.name, u.email, u.avatar
+         FROM list_members m
+         INNER JOIN users u ON u.id = m.user_id
+         WHERE m.list_id = ?
+         ORDER BY m.accepted_at IS NULL, u.name ASC`,
+        [listId]
+      )
+      .map((row) => this.toListMember(row));
+  }
+
+  /**
+   * Invite a user, by email, to a list. The invitation is pending until
+   * the user accepts it.
+   */
+  public async inviteListMember(
+    listId: string,
+    invitation: { email: string; role: ListRole },
+    ownerId: string,
+    invitedBy: string = ownerId
+  ): Promise<ListMember> {
+    this.getOwnedList(listId, ownerId);
+    this.assertValidListRole(invitation.role);
+
+    const user = this.db.get<{ id: string }>(
+      "SELECT id FROM users WHERE email = ? COLLATE NOCASE",
+      [invitation.email.trim()]
+    );
+    if (!user) {
+      throw new NotFoundError(`No user with email ${invitation.email}`);
+    }
+    if (user.id === ownerId) {
+      throw new ValidationError("The list owner cannot be invited");
+    }
+
+    const existing = this.db.get<{ accepted_at: string | null }>(
+      "SELECT accepted_at FROM list_members WHERE list_id = ? AND user_id = ?",
+      [listId, user.id]
+    );
+    if (existing) {
+      throw new ValidationError(
+        existing.accepted_at
+          ? `${invitation.email} is already a member of this list`
+          : `${invitation.email} has already been invited to this list`
+      );
+    }
+
+    const id = crypto.randomUUID();
+    this.db.run(
+      "INSERT INTO list_members (id, list_id, user_id, role, invited_by, invited_at) VALUES (?, ?, ?, ?, ?, ?)",
+      [id, listId, user.id, invitation.role, invitedBy, new Date()]
+    );
+
+    return this.getListMember(listId, user.id);
+  }
+
+  /**
+   * Change the role of a member, or of a pending invitation
+   */
+  public async updateListMemberRole(
+    listId: string,
+    memberId: string,
+    role: ListRole,
+    ownerId: string
+  ): Promise<ListMember> {
+    this.getOwnedList(listId, ownerId);
+    this.assertValidListRole(role);
+    this.getListMember(listId, memberId);
+
+    this.db.run(
+      "UPDATE list_members SET role = ? WHERE list_id = ? AND user_id = ?",
+      [role, listId, memberId]
+    );
+
+    return this.getListMember(listId, memberId);
+  }
+
+  /**
+   * Remove a member from a list, or withdraw their invitation
+   */
+  public async removeListMember(
+    listId: string,
+    memberId: string,
+    ownerId: string
+  ): Promise<void> {
+    this.getOwnedList(listId, ownerId);
+    this.getListMember(listId, memberId);
+
+    this.db.run("DELETE FROM list_members WHERE list_id = ? AND user_id = ?", [
+      listId,
+      memberId,
+    ]);
+  }
+
+  /**
+   * Get the user's pending invitations, newest first
+   */
+  public async getListInvitations(userId: string): Promise<ListInvitation[]> {
+    return this.db
+      .query<any>(
+        `SELECT m.id, m.list_id, m.role, m.invited_by, m.invited_at,
+                l.name as list_name, l.emoji as list_emoji,
+                u.name as invited_by_name
+         FROM list_members m
+         INNER JOIN lists l ON l.id = m.list_id AND l.deleted_at IS NULL
+         INNER JOIN users u ON u.id = m.invited_by
+         WHERE m.user_id = ? AND m.accepted_at IS NULL
+         ORDER BY m.invited_at DESC`,
+        [userId]
+      )
+      .map((row) => ({
+        id: row.id,
+        listId: row.list_id,
+        listName: row.list_name,
+        listEmoji: row.list_emoji,
+        role: row.role,
+        invitedBy: row.invited_by,
+        invitedByName: row.invited_by_name,
+        invitedAt: new Date(row.invited_at),
+      }));
+  }
+
+  /**
+   * Accept an invitation; the list then shows up in getSharedLists()
+   */
+  public async acceptListInvitation(
+    invitationId: string,
+    userId: string
+  ): Promise<SharedList> {
+    const invitation = this.getPendingInvitation(invitationId, userId);
+
+    this.db.run("UPDATE list_members SET accepted_at = ? WHERE id = ?", [
+      new Date(),
+      invitationId,
+    ]);
+
+    const shared = await this.getSharedLists(userId);
+    return shared.find((list) => list.id === invitation.list_id)!;
+  }
+
+  /**
+   * Decline an invitation
+   */
+  public async declineListInvitation(
+    invitationId: string,
+    userId: string
+  ): Promise<void> {
+    this.getPendingInvitation(invitationId, userId);
+    this.db.run("DELETE FROM list_members WHERE id = ?", [invitationId]);
+  }
+
+  /**
+   * Get the lists other users shared with the user, with their owners
+   */
+  public async getSharedLists(userId: string): Promise<SharedList[]> {
+    return this.db
+      .query<any>(
+        `SELECT l.id, l.name, l.color, l.emoji, m.role, m.accepted_at,
+                u.id as owner_id, u.name as owner_name,
+                u.avatar as owner_avatar
+         FROM list_members m
+         INNER JOIN lists l ON l.id = m.list_id AND l.deleted_at IS NULL
+         INNER JOIN users u ON u.id = l.user_id
+         WHERE m.user_id = ? AND m.accepted_at IS NOT NULL
+         ORDER BY l.name ASC`,
+        [userId]
+      )
+      .map((row) => ({
+        id: row.id,
+        name: row.name,
+        color: row.color,
+        emoji: row.emoji,
+        role: row.role,
+        ownerId: row.owner_id,
+        ownerName: row.owner_name,
+        ownerAvatar: row.owner_avatar ?? undefined,
+        acceptedAt: new Date(row.accepted_at),
+      }));
+  }
+
+  /**
+   * Get a member of a list, or throw NotFoundError
+   */
+  private getListMember(listId: string, memberId: string): ListMember {
+    const row = this.db.get<any>(
+      `SELECT m.*, u.name, u.email, u.avatar
+       FROM list_members m
+       INNER JOIN users u ON u.id = m.user_id
+       WHERE m.list_id = ? AND m.user_id = ?`,
+      [listId, memberId]
+    );
+    if (!row) {
+      throw new NotFoundError(`User ${memberId} is not a member of this list`);
+    }
+    return this.toListMember(row);
+  }
+
+  /**
+   * Get a pending invitation of the user, or throw NotFoundError
+   */
+  private getPendingInvitation(invitationId: string, userId: string): any {
+    const row = this.db.get<any>(
+      `SELECT m.* FROM list_members m
+       INNER JOIN lists l ON l.id = m.list_id AND l.deleted_at IS NULL
+       WHERE m.id = ? AND m.user_id = ? AND m.accepted_at IS NULL`,
+      [invitationId, userId]
+    );
+    if (!row) {
+      throw new NotFoundError(`Invitation with ID ${invitationId} not found`);
+    }
+    return row;
+  }
+
+  private assertValidListRole(role: string): void {
+    if (!["read", "write", "admin"].includes(role)) {
+      throw new ValidationError("Role must be read, write or admin");
+    }
+  }
+
+  private toListMember(row: any): ListMember {
+    return {
+      id: row.id,
+      listId: row.list_id,
+      userId: row.user_id,
+      role: row.role,
+      invitedBy: row.invited_by,
+      invitedAt: new Date(row.invited_at),
+      acceptedAt: row.accepted_at ? new Date(row.accepted_at) : undefined,
+      name: row.name,
+      email: row.email,
+      avatar: row.avatar ?? undefined,
+    };
+  }
+
+  // =================== LIST SHARE LINK OPERATIONS ===================
+
+  /**
+   * Get the public link of one of the user's lists, or null without one
+   */
+  public async getListShareLink(
+    listId: string,
+    userId: string
+  ): Promise<ListShareLink | null> {
+    this.getOwnedList(listId, userId);
+
+    const row = this.db.get<any>(
+      "SELECT * FROM list_share_links WHERE list_id = ?",
+      [listId]
+    );
+    return row ? this.toListShareLink(row) : null;
+  }
+
+  /**
+   * Mint a public, read-only link to a list. A list has one link at most,
+   * so this replaces the previous link, which stops working.
+   */
+  public async createListShareLink(
+    listId: string,
+    userId: string,
+    { expiresAt }: { expiresAt?: Date } = {},
+    createdBy: string = userId
+  ): Promise<ListShareLink> {
+    this.getOwnedList(listId, userId);
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError("Share link expiry must be in the future");
+    }
+
+    const link: ListShareLink = {
+      id: randomBytes(24).toString("base64url"),
+      listId,
+      createdBy,
+      expiresAt,
+      createdAt: new Date(),
+    };
+
+    this.db.transaction(() => {
+      this.db.run("DELETE FROM list_share_links WHERE list_id = ?", [listId]);
+      this.db.run(
+        "INSERT INTO list_share_links (id, list_id, created_by, expires_at, created_at) VALUES (?, ?, ?, ?, ?)",
+        [link.id, listId, createdBy, expiresAt ?? null, link.createdAt]
+      );
+    });
+
+    return link;
+  }
+
+  /**
+   * Revoke the public link of a list. Returns false if it had none.
+   */
+  public async revokeListShareLink(
+    listId: string,
+    userId: string
+  ): Promise<boolean> {
+    this.getOwnedList(listId, userId);
+
+    const result = this.db.run(
+      "DELETE FROM list_share_links WHERE list_id = ?",
+      [listId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Get the list a share link points to with its tasks and subtasks, or
+   * null when the link does not exist or has expired. Only fields that are
+   * safe to publish are read: no attachments, reminders, comments, time
+   * tracking or custom fields.
+   */
+  public async getPublicList(linkId: string): Promise<PublicList | null> {
+    const list = this.db.get<any>(
+      `SELECT l.id, l.name, l.description, l.color, l.emoji, s.expires_at
+       FROM list_share_links s
+       INNER JOIN lists l ON l.id = s.list_id AND l.deleted_at IS NULL
+       WHERE s.id = ?`,
+      [linkId]
+    );
+    const expiresAt = list?.expires_at ? new Date(list.expires_at) : undefined;
+    if (!list || (expiresAt && expiresAt.getTime() <= Date.now())) {
+      return null;
+    }
+
+    const subtasks = new Map<string, PublicTask["subtasks"]>();
+    for (const row of this.db.query<any>(
+      `SELECT s.id, s.name, s.is_completed, s.position, s.task_id
+       FROM subtasks s
+       INNER JOIN tasks t ON t.id = s.task_id
+       WHERE t.list_id = ? AND t.deleted_at IS NULL
+       ORDER BY s.position ASC`,
+      [list.id]
+    )) {
+      const taskSubtasks = subtasks.get(row.task_id) ?? [];
+      taskSubtasks.push({
+        id: row.id,
+        name: row.name,
+        isCompleted: Boolean(row.is_completed),
+        position: row.position,
+      });
+      subtasks.set(row.task_id, taskSubtasks);
+    }
+
+    const tasks = this.db
+      .query<any>(
+        `SELECT id, name, description, date, deadline, priority, status,
+                parent_task_id, position
+         FROM tasks
+         WHERE list_id = ? AND deleted_at IS NULL AND status != 'archived'
+         ORDER BY position ASC, created_at ASC`,
+        [list.id]
+      )
+      .map((row) => ({
+        id: row.id,
+        name: row.name,
+        description: row.description ?? undefined,
+        date: row.date ? new Date(row.date) : undefined,
+        deadline: row.deadline ? new Date(row.deadline) : undefined,
+        priority: row.priority,
+        status: row.status,
+        parentTaskId: row.parent_task_id ?? undefined,
+        position: row.position,
+        subtasks: subtasks.get(row.id) ?? [],
+      }));
+
+    return {
+      id: list.id,
+      name: list.name,
+      description: list.description ?? undefined,
+      color: list.color,
+      emoji: list.emoji,
+      tasks,
+      expiresAt,
+    };
+  }
+
+  private toListShareLink(row: any): ListShareLink {
+    return {
+      id: row.id,
+      listId: row.list_id,
+      createdBy: row.created_by,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  // =================== CUSTOM FIELD OPERATIONS ===================
+
+  /**
+   * Get the custom fields a user's list defines, in display order
+   */
+  public async getCustomFields(
+    listId: string,
+    userId: string
+  ): Promise<CustomField[]> {
+    this.getOwnedList(listId, userId);
+    return this.loadCustomFields(listId);
+  }
+
+  /**
+   * Get the custom fields of all of a user's lists
+   */
+  public async getUserCustomFields(userId: string): Promise<CustomField[]> {
+    return this.db
+      .query<any>(
+        `SELECT cf.* FROM custom_fields cf
+         INNER JOIN lists l ON l.id = cf.list_id
+         WHERE l.user_id = ? AND l.deleted_at IS NULL
+         ORDER BY l.name ASC, cf.position ASC, cf.created_at ASC`,
+        [userId]
+      )
+      .map((row) => this.toCustomField(row));
+  }
+
+  /**
+   * Add a custom field to one of the user's lists
+   */
+  public async createCustomField(
+    fieldData: Omit<
+      CustomField,
+      "id" | "options" | "required" | "position" | "createdAt" | "updatedAt"
+    > &
+      Partial<Pick<CustomField, "options" | "required" | "position">>,
+    userId: string
+  ): Promise<CustomField> {
+    const validation = DataValidator.validateCustomField(fieldData);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `Custom field validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    this.getOwnedList(fieldData.listId, userId);
+    this.assertUniqueCustomFieldName(fieldData.listId, fieldData.name);
+
+    const now = new Date();
+    const field: CustomField = {
+      id: crypto.randomUUID(),
+      listId: fieldData.listId,
+      name: fieldData.name.trim(),
+      type: fieldData.type,
+      options: isSelectField(fieldData.type) ? fieldData.options ?? [] : [],
+      required: fieldData.required ?? false,
+      position:
+        fieldData.position ??
+        this.db.get<{ position: number }>(
+          "SELECT COALESCE(MAX(position), -1) + 1 as position FROM custom_fields WHERE list_id = ?",
+          [fieldData.listId]
+        )?.position ??
+        0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.run(
+      `INSERT INTO custom_fields (
+        id, list_id, name, type, options, required, position, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        field.id,
+        field.listId,
+        field.name,
+        field.type,
+        JSON.stringify(field.options),
+        field.required,
+        field.position,
+        field.createdAt,
+        field.updatedAt,
+      ]
+    );
+
+    return field;
+  }
+
+  /**
+   * Update a custom field. The type is fixed once created; values that
+   * refer to removed select options are cleared from the list's tasks.
+   */
+  public async updateCustomField(
+    fieldId: string,
+    updates: Partial<Pick<CustomField, "name" | "options" | "required" | "position">>,
+    userId: string
+  ): Promise<CustomField> {
+    const current = this.getOwnedCustomField(fieldId, userId);
+    const field: CustomField = {
+      ...current,
+      name: updates.name?.trim() ?? current.name,
+      options: isSelectField(current.type)
+        ? updates.options ?? current.options
+        : [],
+      required: updates.required ?? current.required,
+      position: updates.position ?? current.position,
+      updatedAt: new Date(),
+    };
+
+    const validation = DataValidator.validateCustomField(field);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `Custom field validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+    if (field.name !== current.name) {
+      this.assertUniqueCustomFieldName(field.listId, field.name);
+    }
+
+    const removedOptions = current.options.filter(
+      (option) => !field.options.includes(option)
+    );
+
+    this.db.transaction(() => {
+      this.db.run(
+        `UPDATE custom_fields
+         SET name = ?, options = ?, required = ?, position = ?, updated_at = ?
+         WHERE id = ?`,
+        [
+          field.name,
+          JSON.stringify(field.options),
+          field.required,
+          field.position,
+          field.updatedAt,
+          fieldId,
+        ]
+      );
+
+      if (removedOptions.length > 0) {
+        this.rewriteCustomFieldValues(field, (value) => {
+          const kept = (Array.isArray(value) ? value : [value]).filter(
+            (option) => field.options.includes(String(option))
+          );
+          if (kept.length === 0) {
+            return undefined;
+          }
+          return Array.isArray(value) ? kept.map(String) : value;
+        });
+      }
+    });
+
+    return field;
+  }
+
+  /**
+   * Remove a custom field and its values from the list's tasks
+   */
+  public async deleteCustomField(
+    fieldId: string,
+    userId: string
+  ): Promise<void> {
+    const field = this.getOwnedCustomField(fieldId, userId);
+
+    this.db.transaction(() => {
+      this.rewriteCustomFieldValues(field, () => undefined);
+      this.db.run("DELETE FROM custom_fields WHERE id = ?", [fieldId]);
+    });
+  }
+
+  /**
+   * Get a custom field on one of the user's lists, or throw NotFoundError
+   */
+  private getOwnedCustomField(fieldId: string, userId: string): CustomField {
+    const row = this.db.get<any>(
+      `SELECT cf.* FROM custom_fields cf
+       INNER JOIN lists l ON l.id = cf.list_id
+       WHERE cf.id = ? AND l.user_id = ? AND l.deleted_at IS NULL`,
+      [fieldId, userId]
+    );
+    if (!row) {
+      throw new NotFoundError(`Custom field with ID ${fieldId} not found`);
+    }
+    return this.toCustomField(row);
+  }
+
+  /**
+   * Look up the user's custom fields by ID. Unknown IDs are a validation
+   * error since they come from filter and sort parameters.
+   */
+  private getCustomFieldsById(
+    userId: string,
+    fieldIds: string[]
+  ): Map<string, CustomField> {
+    const ids = Array.from(new Set(fieldIds));
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const fields = new Map(
+      this.db
+        .query<any>(
+          `SELECT cf.* FROM custom_fields cf
+           INNER JOIN lists l ON l.id = cf.list_id
+           WHERE l.user_id = ? AND l.deleted_at IS NULL
+             AND cf.id IN (${ids.map(() => "?").join(", ")})`,
+          [userId, ...ids]
+        )
+        .map((row) => [row.id as string, this.toCustomField(row)])
+    );
+
+    const unknown = ids.filter((id) => !fields.has(id));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown custom field: ${unknown.join(", ")}`);
+    }
+
+    return fields;
+  }
+
+  private loadCustomFields(listId: string): CustomField[] {
+    return this.db
+      .query<any>(
+        "SELECT * FROM custom_fields WHERE list_id = ? ORDER BY position ASC, created_at ASC",
+        [listId]
+      )
+      .map((row) => this.toCustomField(row));
+  }
+
+  private assertUniqueCustomFieldName(listId: string, name: string): void {
+    const existing = this.db.get<{ id: string }>(
+      "SELECT id FROM custom_fields WHERE list_id = ? AND name = ?",
+      [listId, name.trim()]
+    );
+    if (existing) {
+      throw new ValidationError(`Custom field "${name.trim()}" already exists`);
+    }
+  }
+
+  /**
+   * Validate custom field values against a list's fields and merge them
+   * into the task's current values
+   */
+  private resolveCustomFieldValues(
+    listId: string,
+    values: Record<string, unknown>,
+    current: CustomFieldValues = {}
+  ): CustomFieldValues {
+    const result = validateCustomFieldValues(
+      this.loadCustomFields(listId),
+      values,
+      current
+    );
+    if (result.errors.length > 0) {
+      throw new ValidationError(
+        `Custom field validation failed: ${result.errors.join(", ")}`
+      );
+    }
+    return result.values;
+  }
+
+  /**
+   * Replace a field's value on every task of its list; returning
+   * undefined removes the value
+   */
+  private rewriteCustomFieldValues(
+    field: CustomField,
+    rewrite: (value: unknown) => unknown
+  ): void {
+    const tasks = this.db.query<{ id: string; custom_fields: string }>(
+      `SELECT t.id, t.custom_fields FROM tasks t
+       WHERE t.list_id = ? AND ${this.customFieldValueSql(field.id)} IS NOT NULL`,
+      [field.listId]
+    );
+
+    for (const task of tasks) {
+      const values: Record<string, unknown> = parseCustomFieldValues(
+        task.custom_fields
+      );
+      const value = rewrite(values[field.id]);
+      if (value === undefined) {
+        delete values[field.id];
+      } else {
+        values[field.id] = value;
+      }
+
+      this.db.run("UPDATE tasks SET custom_fields = ? WHERE id = ?", [
+        this.toColumnValue("customFields", values),
+        task.id,
+      ]);
+    }
+  }
+
+  /**
+   * SQL expression for a task's custom field value. Field IDs are
+   * generated UUIDs, so they are safe to inline in the JSON path.
+   */
+  private customFieldValueSql(fieldId: string): string {
+    return `json_extract(t.custom_fields, '$."${fieldId}"')`;
+  }
+
+  /**
+   * Build the WHERE condition for a custom field filter
+   */
+  private buildCustomFieldCondition(
+    field: CustomField,
+    filter: CustomFieldFilter
+  ): { condition: string; params: any[] } {
+    const value = this.customFieldValueSql(field.id);
+
+    if (filter.operator === "set") {
+      return { condition: `${value} IS NOT NULL`, params: [] };
+    }
+    if (filter.operator === "unset") {
+      return { condition: `${value} IS NULL`, params: [] };
+    }
+
+    const operand =
+      filter.value === undefined
+        ? null
+        : coerceCustomFieldFilterValue(field, filter.value);
+    if (operand === null) {
+      throw new ValidationError(`Invalid filter value for ${field.name}`);
+    }
+
+    const unsupported = new ValidationError(
+      `Operator "${filter.operator}" is not supported for ${field.name}`
+    );
+
+    // Multi-select values match when they include the option
+    if (field.type === "multi_select") {
+      const includes = `EXISTS (SELECT 1 FROM json_each(t.custom_fields, '$."${field.id}"') WHERE json_each.value = ?)`;
+      if (filter.operator === "eq" || filter.operator === "contains") {
+        return { condition: includes, params: [operand] };
+      }
+      if (filter.operator === "ne") {
+        return { condition: `NOT ${includes}`, params: [operand] };
+      }
+      throw unsupported;
+    }
+
+    switch (filter.operator) {
+      case "eq":
+        return { condition: `${value} = ?`, params: [operand] };
+      case "ne":
+        return {
+          condition: `${value} IS NULL OR ${value} != ?`,
+          params: [operand],
+        };
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte": {
+        if (field.type !== "number" && field.type !== "date") {
+          throw unsupported;
+        }
+        const comparison = { gt: ">", gte: ">=", lt: "<", lte: "<=" }[
+          filter.operator
+        ];
+        return { condition: `${value} ${comparison} ?`, params: [operand] };
+      }
+      case "contains": {
+        if (field.type !== "text" && field.type !== "url") {
+          throw unsupported;
+        }
+        const pattern = QueryBuilder.escapeLike(String(operand));
+        return {
+          condition: `${value} LIKE ? ESCAPE '\\'`,
+          params: [`%${pattern}%`],
+        };
+      }
+      default:
+        throw unsupported;
+    }
+  }
+
+  private toCustomField(row: any): CustomField {
+    return {
+      id: row.id,
+      listId: row.list_id,
+      name: row.name,
+      type: row.type,
+      options: JSON.parse(row.options || "[]"),
+      required: Boolean(row.required),
+      position: row.position,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // =================== SAVED FILTER OPERATIONS ===================
+
+  /**
+   * Save a filter as a smart list
+   */
+  public async createSavedFilter(
+    filterData: Pick<
+      SavedFilter,
+      "name" | "description" | "icon" | "color" | "filter"
+    > &
+      Partial<
+        Pick<SavedFilter, "sortBy" | "sortDirection" | "groupBy" | "position">
+      >,
+    userId: string
+  ): Promise<SavedFilter> {
+    const now = new Date();
+    const savedFilter: SavedFilter = {
+      id: crypto.randomUUID(),
+      userId,
+      name: filterData.name?.trim(),
+      description: filterData.description,
+      icon: filterData.icon,
+      color: filterData.color,
+      filter: filterData.filter,
+      sortBy: filterData.sortBy ?? "createdAt",
+      sortDirection: filterData.sortDirection ?? "desc",
+      groupBy: filterData.groupBy ?? "none",
+      position:
+        filterData.position ??
+        this.db.get<{ position: number }>(
+          "SELECT COALESCE(MAX(position), -1) + 1 as position FROM saved_filters WHERE user_id = ?",
+          [userId]
+        )?.position ??
+        0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.assertValidSavedFilter(savedFilter);
+    this.assertUniqueSavedFilterName(userId, savedFilter.name);
+
+    this.db.run(
+      `INSERT INTO saved_filters (
+        id, user_id, name, description, icon, color, filter, sort_by,
+        sort_direction, group_by, position, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        savedFilter.id,
+        savedFilter.userId,
+        savedFilter.name,
+        savedFilter.description ?? null,
+        savedFilter.icon ?? null,
+        savedFilter.color ?? null,
+        JSON.stringify(savedFilter.filter),
+        savedFilter.sortBy,
+        savedFilter.sortDirection,
+        savedFilter.groupBy,
+        savedFilter.position,
+        savedFilter.createdAt,
+        savedFilter.updatedAt,
+      ]
+    );
+
+    return savedFilter;
+  }
+
+  /**
+   * Get the user's saved filters in sidebar order, with the number of
+   * tasks each matches now
+   */
+  public async getSavedFilters(
+    userId: string
+  ): Promise<SavedFilterWithCount[]> {
+    const now = new Date();
+    const rows = this.db.query<any>(
+      "SELECT * FROM saved_filters WHERE user_id = ? ORDER BY position ASC, created_at ASC",
+      [userId]
+    );
+
+    return rows.map((row) => {
+      const savedFilter = this.toSavedFilter(row);
+      const { sql, params } = this.buildUserTasksQuery(
+        userId,
+        { where: resolveFilterDates(savedFilter.filter, now) },
+        {}
+      ).buildCount();
+
+      return {
+        ...savedFilter,
+        taskCount: this.db.get<{ count: number }>(sql, params)?.count ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Get one of the user's saved filters
+   */
+  public async getSavedFilter(
+    filterId: string,
+    userId: string
+  ): Promise<SavedFilter> {
+    return this.getOwnedSavedFilter(filterId, userId);
+  }
+
+  /**
+   * Update a saved filter
+   */
+  public async updateSavedFilter(
+    filterId: string,
+    updates: Partial<
+      Pick<
+        SavedFilter,
+        | "name"
+        | "description"
+        | "icon"
+        | "color"
+        | "filter"
+        | "sortBy"
+        | "sortDirection"
+        | "groupBy"
+        | "position"
+      >
+    >,
+    userId: string
+  ): Promise<SavedFilter> {
+    const current = this.getOwnedSavedFilter(filterId, userId);
+    const savedFilter: SavedFilter = {
+      ...current,
+      ...updates,
+      name: updates.name?.trim() ?? current.name,
+      updatedAt: new Date(),
+    };
+
+    this.assertValidSavedFilter(savedFilter);
+    if (savedFilter.name !== current.name) {
+      this.assertUniqueSavedFilterName(userId, savedFilter.name);
+    }
+
+    this.db.run(
+      `UPDATE saved_filters
+       SET name = ?, description = ?, icon = ?, color = ?, filter = ?, sort_by = ?,
+           sort_direction = ?, group_by = ?, position = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        savedFilter.name,
+        savedFilter.description ?? null,
+        savedFilter.icon ?? null,
+        savedFilter.color ?? null,
+        JSON.stringify(savedFilter.filter),
+        savedFilter.sortBy,
+        savedFilter.sortDirection,
+        savedFilter.groupBy,
+        savedFilter.position,
+        savedFilter.updatedAt,
+        filterId,
+      ]
+    );
+
+    return savedFilter;
+  }
+
+  /**
+   * Delete a saved filter; the tasks it matched are untouched
+   */
+  public async deleteSavedFilter(
+    filterId: string,
+    userId: string
+  ): Promise<void> {
+    this.getOwnedSavedFilter(filterId, userId);
+    this.db.run("DELETE FROM saved_filters WHERE id = ?", [filterId]);
+  }
+
+  /**
+   * Evaluate a saved filter: one page of the tasks it matches now, in the
+   * filter's sort order
+   */
+  public async getSavedFilterTasks(
+    filterId: string,
+    userId: string,
+    options: {
+      include?: Iterable<TaskRelation>;
+      cursor?: string;
+      limit?: number;
+    } = {}
+  ): Promise<TaskPage> {
+    const savedFilter = this.getOwnedSavedFilter(filterId, userId);
+
+    return this.getUserTasksPage(
+      userId,
+      { where: resolveFilterDates(savedFilter.filter) },
+      {
+        ...options,
+        sortBy: savedFilter.sortBy,
+        sortOrder: savedFilter.sortDirection === "asc" ? "ASC" : "DESC",
+      }
+    );
+  }
+
+  /**
+   * Get a saved filter of the user, or throw NotFoundError
+   */
+  private getOwnedSavedFilter(filterId: string, userId: string): SavedFilter {
+    const row = this.db.get<any>(
+      "SELECT * FROM saved_filters WHERE id = ? AND user_id = ?",
+      [filterId, userId]
+    );
+    if (!row) {
+      throw new NotFoundError(`Saved filter with ID ${filterId} not found`);
+    }
+    return this.toSavedFilter(row);
+  }
+
+  /**
+   * Check a saved filter before storing it. The expression is compiled so
+   * unknown fields are rejected when saving rather than when it is opened.
+   */
+  private assertValidSavedFilter(savedFilter: SavedFilter): void {
+    const validation = DataValidator.validateSavedFilter(savedFilter);
+    if (!(savedFilter.sortBy in TASK_SORT_COLUMNS)) {
+      validation.errors.push(`Invalid sort field: ${savedFilter.sortBy}`);
+    }
+    if (validation.errors.length > 0) {
+      throw new ValidationError(
+        `Saved filter validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    QueryBuilder.compileFilter(
+      resolveFilterDates(savedFilter.filter),
+      TASK_FILTER_SCHEMA
+    );
+  }
+
+  private assertUniqueSavedFilterName(userId: string, name: string): void {
+    const existing = this.db.get<{ id: string }>(
+      "SELECT id FROM saved_filters WHERE user_id = ? AND name = ?",
+      [userId, name]
+    );
+    if (existing) {
+      throw new ValidationError(`Saved filter "${name}" already exists`);
+    }
+  }
+
+  private toSavedFilter(row: any): SavedFilter {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      icon: row.icon ?? undefined,
+      color: row.color ?? undefined,
+      filter: JSON.parse(row.filter),
+      sortBy: row.sort_by,
+      sortDirection: row.sort_direction,
+      groupBy: row.group_by,
+      position: row.position,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // =================== TASK TEMPLATE OPERATIONS ===================
+
+  /**
+   * Create a task template
+   */
+  public async createTaskTemplate(
+    templateData: Pick<TaskTemplate, "name" | "taskName"> &
+      Partial<Omit<TaskTemplateFields, "name" | "taskName">>,
+    userId: string
+  ): Promise<TaskTemplate> {
+    const now = new Date();
+    const template: TaskTemplate = {
+      id: crypto.randomUUID(),
+      userId,
+      name: templateData.name?.trim(),
+      description: templateData.description,
+      listId: templateData.listId,
+      taskName: templateData.taskName,
+      taskDescription: templateData.taskDescription,
+      priority: templateData.priority ?? "None",
+      estimate: templateData.estimate,
+      date: templateData.date,
+      deadline: templateData.deadline,
+      labels: templateData.labels ?? [],
+      subtasks: templateData.subtasks ?? [],
+      reminders: templateData.reminders ?? [],
+      customFields: this.withoutNullValues(templateData.customFields ?? {}),
+      usageCount: 0,
+      inputs: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    template.inputs = getTemplateInputs(getTemplateTexts(template));
+
+    this.assertValidTaskTemplate(template);
+    this.assertUniqueTaskTemplateName(userId, template.name);
+
+    this.db.run(
+      `INSERT INTO task_templates (
+        id, user_id, list_id, name, description, task_name, task_description,
+        priority, estimate, date, deadline, labels, subtasks, reminders,
+        custom_fields, usage_count, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        template.id,
+        template.userId,
+        template.listId ?? null,
+        template.name,
+        template.description ?? null,
+        template.taskName,
+        template.taskDescription ?? null,
+        template.priority,
+        template.estimate ?? null,
+        template.date ?? null,
+        template.deadline ?? null,
+        JSON.stringify(template.labels),
+        JSON.stringify(template.subtasks),
+        JSON.stringify(template.reminders),
+        JSON.stringify(template.customFields),
+        template.usageCount,
+        template.createdAt,
+        template.updatedAt,
+      ]
+    );
+
+    return template;
+  }
+
+  /**
+   * Save one of the user's tasks as a template. Subtasks, labels, custom
+   * field values and reminders are copied; the task's date and deadline
+   * become placeholders relative to the day it was created, so a task due
+   * three days after creation gives {{date+3d}}.
+   */
+  public async createTaskTemplateFromTask(
+    taskId: string,
+    userId: string,
+    details: Partial<Pick<TaskTemplate, "name" | "description">> = {}
+  ): Promise<TaskTemplate> {
+    const task: any = this.getOwnedTask(taskId, userId);
+    const createdAt = new Date(task.created_at);
+
+    const relativeDate = (value: string | null) =>
+      value ? toTemplateDate(new Date(value), createdAt) : undefined;
+
+    // Reminders are kept as an offset before the deadline, or the date
+    const anchor = task.deadline ?? task.date;
+    const reminders = anchor
+      ? this.db
+          .query<any>(
+            "SELECT * FROM reminders WHERE task_id = ? ORDER BY remind_at ASC",
+            [taskId]
+          )
+          .map((reminder) => ({
+            timing: Math.round(
+              (new Date(anchor).getTime() -
+                new Date(reminder.remind_at).getTime()) /
+                60000
+            ),
+            method: reminder.method,
+          }))
+          .filter((reminder) => reminder.timing >= 0)
+      : [];
+
+    return this.createTaskTemplate(
+      {
+        name: details.name ?? task.name,
+        description: details.description,
+        listId: task.list_id,
+        taskName: task.name,
+        taskDescription: task.description ?? undefined,
+        priority: task.priority,
+        estimate: task.estimate ?? undefined,
+        date: relativeDate(task.date),
+        deadline: relativeDate(task.deadline),
+        labels: this.getTaskLabelIds(taskId),
+        subtasks: this.db
+          .query<{ name: string; position: number }>(
+            "SELECT name, position FROM subtasks WHERE task_id = ? ORDER BY position ASC",
+            [taskId]
+          )
+          .map(({ name, position }) => ({ name, position })),
+        reminders,
+        customFields: parseCustomFieldValues(task.custom_fields),
+      },
+      userId
+    );
+  }
+
+  /**
+   * Get the user's task templates, most used first
+   */
+  public async getTaskTemplates(userId: string): Promise<TaskTemplate[]> {
+    return this.db
+      .query<any>(
+        "SELECT * FROM task_templates WHERE user_id = ? ORDER BY usage_count DESC, name ASC",
+        [userId]
+      )
+      .map((row) => this.toTaskTemplate(row));
+  }
+
+  /**
+   * Get one of the user's task templates
+   */
+  public async getTaskTemplate(
+    templateId: string,
+    userId: string
+  ): Promise<TaskTemplate> {
+    return this.getOwnedTaskTemplate(templateId, userId);
+  }
+
+  /**
+   * Update a task template
+   */
+  public async updateTaskTemplate(
+    templateId: string,
+    updates: Partial<TaskTemplateFields>,
+    userId: string
+  ): Promise<TaskTemplate> {
+    const current = this.getOwnedTaskTemplate(templateId, userId);
+    const template: TaskTemplate = {
+      ...current,
+      ...updates,
+      name: updates.name?.trim() ?? current.name,
+      customFields: updates.customFields
+        ? this.withoutNullValues(updates.customFields)
+        : current.customFields,
+      updatedAt: new Date(),
+    };
+    template.inputs = getTemplateInputs(getTemplateTexts(template));
+
+    this.assertValidTaskTemplate(template);
+    if (template.name !== current.name) {
+      this.assertUniqueTaskTemplateName(userId, template.name);
+    }
+
+    this.db.run(
+      `UPDATE task_templates
+       SET list_id = ?, name = ?, description = ?, task_name = ?, task_description = ?,
+           priority = ?, estimate = ?, date = ?, deadline = ?, labels = ?, subtasks = ?,
+           reminders = ?, custom_fields = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        template.listId ?? null,
+        template.name,
+        template.description ?? null,
+        template.taskName,
+        template.taskDescription ?? null,
+        template.priority,
+        template.estimate ?? null,
+        template.date ?? null,
+        template.deadline ?? null,
+        JSON.stringify(template.labels),
+        JSON.stringify(template.subtasks),
+        JSON.stringify(template.reminders),
+        JSON.stringify(template.customFields),
+        template.updatedAt,
+        templateId,
+      ]
+    );
+
+    return template;
+  }
+
+  /**
+   * Delete a task template; tasks created from it are untouched
+   */
+  public async deleteTaskTemplate(
+    templateId: string,
+    userId: string
+  ): Promise<void> {
+    this.getOwnedTaskTemplate(templateId, userId);
+    this.db.run("DELETE FROM task_templates WHERE id = ?", [templateId]);
+  }
+
+  /**
+   * Create a task from a template, with its subtasks, labels and
+   * reminders, in one transaction. Placeholders are filled in from `inputs`
+   * and the current day. Labels deleted since the template was saved are
+   * skipped, as are custom field values the target list doesn't define;
+   * reminders need the task to end up with a deadline or date.
+   */
+  public async instantiateTaskTemplate(
+    templateId: string,
+    userId: string,
+    options: { listId?: string; inputs?: Record<string, string> } = {}
+  ): Promise<TaskTemplateInstance> {
+    const template = this.getOwnedTaskTemplate(templateId, userId);
+    const context: TemplateContext = {
+      now: new Date(),
+      inputs: options.inputs,
+    };
+
+    const listId =
+      options.listId ?? template.listId ?? this.getDefaultListId(userId);
+    if (!listId) {
+      throw new ValidationError("Choose a list for the task");
+    }
+    this.getOwnedList(listId, userId);
+
+    const fieldIds = new Set(
+      this.loadCustomFields(listId).map((field) => field.id)
+    );
+    const customFields = this.resolveCustomFieldValues(
+      listId,
+      Object.fromEntries(
+        Object.entries(template.customFields).filter(([fieldId]) =>
+          fieldIds.has(fieldId)
+        )
+      )
+    );
+
+    const now = new Date();
+    const task: Task = {
+      id: crypto.randomUUID(),
+      name: fillTemplate(template.taskName, context).trim(),
+      description: template.taskDescription
+        ? fillTemplate(template.taskDescription, context)
+        : undefined,
+      date: fillTemplateDate(template.date, context),
+      deadline: fillTemplateDate(template.deadline, context),
+      estimate: template.estimate,
+      priority: template.priority,
+      status: "todo",
+      userId,
+      listId,
+      position: 0,
+      isRecurring: false,
+      customFields,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const validation = DataValidator.validateTask(task);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `Task validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    const subtasks: Subtask[] = template.subtasks.map((subtask, index) => ({
+      id: crypto.randomUUID(),
+      name: fillTemplate(subtask.name, context).trim(),
+      isCompleted: false,
+      taskId: task.id,
+      position: subtask.position ?? index,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    const anchor = task.deadline ?? task.date;
+    const reminders: Reminder[] = anchor
+      ? template.reminders.map((reminder) => ({
+          id: crypto.randomUUID(),
+          taskId: task.id,
+          remindAt: new Date(anchor.getTime() - reminder.timing * 60000),
+          isSent: false,
+          method: reminder.method,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      : [];
+
+    const labelIds = this.db.transaction(() => {
+      task.position =
+        this.db.get<{ position: number }>(
+          "SELECT COALESCE(MAX(position), -1) + 1 as position FROM tasks WHERE list_id = ?",
+          [listId]
+        )?.position ?? 0;
+      this.insertTask(task);
+
+      for (const subtask of subtasks) {
+        this.db.run(
+          "INSERT INTO subtasks (id, name, is_completed, task_id, position, created_at, updated_at) VALUES (?, ?, 0, ?, ?, ?, ?)",
+          [subtask.id, subtask.name, task.id, subtask.position, now, now]
+        );
+      }
+
+      const labelIds = this.db
+        .query<{ id: string }>(
+          `SELECT id FROM labels
+           WHERE id IN (${template.labels.map(() => "?").join(", ") || "NULL"})
+             AND user_id = ? AND deleted_at IS NULL
+           ORDER BY id ASC`,
+          [...template.labels, userId]
+        )
+        .map((label) => label.id);
+      for (const labelId of labelIds) {
+        this.db.run(
+          "INSERT INTO task_labels (task_id, label_id, created_at) VALUES (?, ?, ?)",
+          [task.id, labelId, now]
+        );
+      }
+
+      for (const reminder of reminders) {
+        this.db.run(
+          "INSERT INTO reminders (id, task_id, remind_at, is_sent, method, created_at, updated_at) VALUES (?, ?, ?, 0, ?, ?, ?)",
+          [reminder.id, task.id, reminder.remindAt, reminder.method, now, now]
+        );
+      }
+
+      this.db.run(
+        "UPDATE task_templates SET usage_count = usage_count + 1 WHERE id = ?",
+        [templateId]
+      );
+
+      this.recordTaskEvent(
+        "TaskCreated",
+        task.id,
+        userId,
+        { diff: this.createdTaskDiff(task), templateId },
+        `Task created from template: ${template.name}`
+      );
+
+      return labelIds;
+    });
+
+    return { task, subtasks, labelIds, reminders };
+  }
+
+  /**
+   * Custom field values without the cleared (null) ones
+   */
+  private withoutNullValues(values: CustomFieldInput): CustomFieldValues {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== null)
+    ) as CustomFieldValues;
+  }
+
+  /**
+   * ID of the user's default list, if they have one
+   */
+  private getDefaultListId(userId: string): string | undefined {
+    return this.db.get<{ id: string }>(
+      "SELECT id FROM lists WHERE user_id = ? AND is_default = 1 AND deleted_at IS NULL",
+      [userId]
+    )?.id;
+  }
+
+  /**
+   * Get a task template of the user, or throw NotFoundError
+   */
+  private getOwnedTaskTemplate(
+    templateId: string,
+    userId: string
+  ): TaskTemplate {
+    const row = this.db.get<any>(
+      "SELECT * FROM task_templates WHERE id = ? AND user_id = ?",
+      [templateId, userId]
+    );
+    if (!row) {
+      throw new NotFoundError(`Task template with ID ${templateId} not found`);
+    }
+    return this.toTaskTemplate(row);
+  }
+
+  /**
+   * Check a template before storing it; its list and labels must belong
+   * to the user
+   */
+  private assertValidTaskTemplate(template: TaskTemplate): void {
+    const validation = DataValidator.validateTaskTemplate(template);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `Task template validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    if (template.listId) {
+      this.getOwnedList(template.listId, template.userId);
+    }
+    for (const labelId of template.labels) {
+      this.getOwnedLabel(labelId, template.userId);
+    }
+  }
+
+  private assertUniqueTaskTemplateName(userId: string, name: string): void {
+    const existing = this.db.get<{ id: string }>(
+      "SELECT id FROM task_templates WHERE user_id = ? AND name = ?",
+      [userId, name]
+    );
+    if (existing) {
+      throw new ValidationError(`Task template "${name}" already exists`);
+    }
+  }
+
+  private toTaskTemplate(row: any): TaskTemplate {
+    const template: TaskTemplate = {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      listId: row.list_id ?? undefined,
+      taskName: row.task_name,
+      taskDescription: row.task_description ?? undefined,
+      priority: row.priority,
+      estimate: row.estimate ?? undefined,
+      date: row.date ?? undefined,
+      deadline: row.deadline ?? undefined,
+      labels: JSON.parse(row.labels),
+      subtasks: JSON.parse(row.subtasks),
+      reminders: JSON.parse(row.reminders),
+      customFields: parseCustomFieldValues(row.custom_fields),
+      usageCount: row.usage_count,
+      inputs: [],
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+    template.inputs = getTemplateInputs(getTemplateTexts(template));
+    return template;
+  }
+
+  // =================== LIST TEMPLATE OPERATIONS ===================
+
+  /**
+   * Save one of the user's lists as a template: its settings and tasks
+   * with their subtasks and labels. Task dates are kept relative to
+   * `anchorDate`, by default the earliest date or deadline in the list.
+   * Completed tasks are included and start over as open tasks.
+   */
+  public async captureListTemplate(
+    listId: string,
+    userId: string,
+    details: Partial<
+      Pick<ListTemplate, "name" | "description" | "settings">
+    > & { anchorDate?: Date } = {}
+  ): Promise<ListTemplate> {
+    const list: any = this.getOwnedList(listId, userId);
+    const rows = this.db.query<any>(
+      `SELECT * FROM tasks
+       WHERE list_id = ? AND deleted_at IS NULL
+       ORDER BY position ASC, created_at ASC`,
+      [listId]
+    );
+
+    const labelIds = new Map<string, string[]>();
+    for (const { task_id, label_id } of this.db.query<any>(
+      `SELECT tl.task_id, tl.label_id FROM task_labels tl
+       INNER JOIN tasks t ON t.id = tl.task_id
+       INNER JOIN labels l ON l.id = tl.label_id
+       WHERE t.list_id = ? AND t.deleted_at IS NULL AND l.deleted_at IS NULL
+       ORDER BY tl.label_id ASC`,
+      [listId]
+    )) {
+      labelIds.set(task_id, [...(labelIds.get(task_id) ?? []), label_id]);
+    }
+
+    const subtasks = new Map<string, ListTemplateTask["subtasks"]>();
+    for (const { task_id, name, position } of this.db.query<any>(
+      `SELECT s.task_id, s.name, s.position FROM subtasks s
+       INNER JOIN tasks t ON t.id = s.task_id
+       WHERE t.list_id = ? AND t.deleted_at IS NULL
+       ORDER BY s.position ASC`,
+      [listId]
+    )) {
+      subtasks.set(task_id, [
+        ...(subtasks.get(task_id) ?? []),
+        { name, position },
+      ]);
+    }
+
+    const dates = rows
+      .flatMap((row) => [row.date, row.deadline])
+      .filter(Boolean)
+      .map((value) => new Date(value).getTime());
+    const anchor =
+      details.anchorDate ??
+      (dates.length > 0 ? new Date(Math.min(...dates)) : new Date());
+
+    const indexById = new Map(rows.map((row, index) => [row.id, index]));
+    const defaultTasks: ListTemplateTask[] = rows.map((row) => ({
+      name: row.name,
+      description: row.description ?? undefined,
+      priority: row.priority,
+      estimate: row.estimate ?? undefined,
+      position: row.position,
+      dateOffset: row.date
+        ? toAnchorOffset(new Date(row.date), anchor)
+        : undefined,
+      deadlineOffset: row.deadline
+        ? toAnchorOffset(new Date(row.deadline), anchor)
+        : undefined,
+      parentIndex: row.parent_task_id
+        ? indexById.get(row.parent_task_id)
+        : undefined,
+      labels: labelIds.get(row.id) ?? [],
+      subtasks: subtasks.get(row.id) ?? [],
+    }));
+
+    const now = new Date();
+    const template: ListTemplate = {
+      id: crypto.randomUUID(),
+      userId,
+      name: (details.name ?? list.name)?.trim(),
+      description: details.description ?? list.description ?? undefined,
+      color: list.color,
+      emoji: list.emoji,
+      settings:
+        details.settings ?? (list.settings ? JSON.parse(list.settings) : {}),
+      labels: [...new Set(defaultTasks.flatMap((task) => task.labels))].sort(),
+      defaultTasks,
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.assertValidListTemplate(template);
+    this.assertUniqueListTemplateName(userId, template.name);
+
+    this.db.run(
+      `INSERT INTO list_templates (
+        id, user_id, name, description, color, emoji, settings, labels,
+        default_tasks, usage_count, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        template.id,
+        template.userId,
+        template.name,
+        template.description ?? null,
+        template.color,
+        template.emoji,
+        JSON.stringify(template.settings),
+        JSON.stringify(template.labels),
+        JSON.stringify(template.defaultTasks),
+        template.usageCount,
+        template.createdAt,
+        template.updatedAt,
+      ]
+    );
+
+    return template;
+  }
+
+  /**
+   * Get the user's list templates, most used first
+   */
+  public async getListTemplates(userId: string): Promise<ListTemplate[]> {
+    return this.db
+      .query<any>(
+        "SELECT * FROM list_templates WHERE user_id = ? ORDER BY usage_count DESC, name ASC",
+        [userId]
+      )
+      .map((row) => this.toListTemplate(row));
+  }
+
+  /**
+   * Get one of the user's list templates
+   */
+  public async getListTemplate(
+    templateId: string,
+    userId: string
+  ): Promise<ListTemplate> {
+    return this.getOwnedListTemplate(templateId, userId);
+  }
+
+  /**
+   * Update a list template's details and settings; its tasks are changed
+   * by capturing the list again
+   */
+  public async updateListTemplate(
+    templateId: string,
+    updates: Partial<
+      Pick<
+        ListTemplate,
+        "name" | "description" | "color" | "emoji" | "settings"
+      >
+    >,
+    userId: string
+  ): Promise<ListTemplate> {
+    const current = this.getOwnedListTemplate(templateId, userId);
+    const template: ListTemplate = {
+      ...current,
+      ...updates,
+      name: updates.name?.trim() ?? current.name,
+      updatedAt: new Date(),
+    };
+
+    this.assertValidListTemplate(template);
+    if (template.name !== current.name) {
+      this.assertUniqueListTemplateName(userId, template.name);
+    }
+
+    this.db.run(
+      `UPDATE list_templates
+       SET name = ?, description = ?, color = ?, emoji = ?, settings = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        template.name,
+        template.description ?? null,
+        template.color,
+        template.emoji,
+        JSON.stringify(template.settings),
+        template.updatedAt,
+        templateId,
+      ]
+    );
+
+    return template;
+  }
+
+  /**
+   * Delete a list template; lists created from it are untouched
+   */
+  public async deleteListTemplate(
+    templateId: string,
+    userId: string
+  ): Promise<void> {
+    this.getOwnedListTemplate(templateId, userId);
+    this.db.run("DELETE FROM list_templates WHERE id = ?", [templateId]);
+  }
+
+  /**
+   * Create a list from a template, with all of its tasks, subtasks and
+   * labels, in one transaction. Task dates keep their offset from the
+   * template's anchor day, moved to `anchorDate` (today by default).
+   * Labels deleted since the template was captured are skipped.
+   */
+  public async instantiateListTemplate(
+    templateId: string,
+    userId: string,
+    options: {
+      name?: string;
+      color?: string;
+      emoji?: string;
+      anchorDate?: Date;
+    } = {}
+  ): Promise<ListTemplateInstance> {
+    const template = this.getOwnedListTemplate(templateId, userId);
+    const anchor = options.anchorDate ?? new Date();
+    const now = new Date();
+
+    const list: List = {
+      id: crypto.randomUUID(),
+      name: options.name?.trim() || template.name,
+      color: options.color ?? template.color,
+      emoji: options.emoji ?? template.emoji,
+      isDefault: false,
+      isFavorite: false,
+      description: template.description,
+      position: 0,
+      userId,
+      settings: template.settings,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const validation = DataValidator.validateList(list);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `List validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    // Names stay taken while a list is in the trash
+    const existing = this.db.get<{ id: string }>(
+      "SELECT id FROM lists WHERE user_id = ? AND name = ?",
+      [userId, list.name]
+    );
+    if (existing) {
+      throw new ValidationError(`List "${list.name}" already exists`);
+    }
+
+    const tasks: Task[] = template.defaultTasks.map((task) => ({
+      id: crypto.randomUUID(),
+      name: task.name,
+      description: task.description,
+      date:
+        task.dateOffset !== undefined
+          ? fromAnchorOffset(task.dateOffset, anchor)
+          : undefined,
+      deadline:
+        task.deadlineOffset !== undefined
+          ? fromAnchorOffset(task.deadlineOffset, anchor)
+          : undefined,
+      estimate: task.estimate,
+      priority: task.priority,
+      status: "todo",
+      userId,
+      listId: list.id,
+      position: task.position,
+      isRecurring: false,
+      customFields: {},
+      createdAt: now,
+      updatedAt: now,
+    }));
+    template.defaultTasks.forEach((task, index) => {
+      if (task.parentIndex !== undefined && tasks[task.parentIndex]) {
+        tasks[index].parentTaskId = tasks[task.parentIndex].id;
+      }
+    });
+
+    this.db.transaction(() => {
+      this.assertNameAvailable("lists", userId, list.name);
+      list.position =
+        this.db.get<{ position: number }>(
+          "SELECT COALESCE(MAX(position), -1) + 1 as position FROM lists WHERE user_id = ?",
+          [userId]
+        )?.position ?? 0;
+
+      this.db.run(
+        `INSERT INTO lists (
+          id, name, color, emoji, is_default, is_favorite, description,
+          position, user_id, settings, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, 0, 0, ?, ?, ?, ?, ?, ?)`,
+        [
+          list.id,
+          list.name,
+          list.color,
+          list.emoji,
+          list.description ?? null,
+          list.position,
+          userId,
+          JSON.stringify(list.settings),
+          now,
+          now,
+        ]
+      );
+
+      // Parents are linked once every task exists
+      for (const task of tasks) {
+        this.insertTask({ ...task, parentTaskId: undefined });
+      }
+      for (const task of tasks.filter((task) => task.parentTaskId)) {
+        this.db.run("UPDATE tasks SET parent_task_id = ? WHERE id = ?", [
+          task.parentTaskId,
+          task.id,
+        ]);
+      }
+
+      const labelIds = new Set(
+        this.db
+          .query<{ id: string }>(
+            "SELECT id FROM labels WHERE user_id = ? AND deleted_at IS NULL",
+            [userId]
+          )
+          .map((label) => label.id)
+      );
+
+      template.defaultTasks.forEach((templateTask, index) => {
+        const taskId = tasks[index].id;
+
+        for (const subtask of templateTask.subtasks) {
+          this.db.run(
+            "INSERT INTO subtasks (id, name, is_completed, task_id, position, created_at, updated_at) VALUES (?, ?, 0, ?, ?, ?, ?)",
+            [
+              crypto.randomUUID(),
+              subtask.name,
+              taskId,
+              subtask.position,
+              now,
+              now,
+            ]
+          );
+        }
+
+        for (const labelId of templateTask.labels) {
+          if (labelIds.has(labelId)) {
+            this.db.run(
+              "INSERT INTO task_labels (task_id, label_id, created_at) VALUES (?, ?, ?)",
+              [taskId, labelId, now]
+            );
+          }
+        }
+      });
+
+      this.db.run(
+        "UPDATE list_templates SET usage_count = usage_count + 1 WHERE id = ?",
+        [templateId]
+      );
+
+      this.recordEvent({ type: "ListCreated", listId: list.id }, userId);
+      for (const task of tasks) {
+        this.recordTaskEvent(
+          "TaskCreated",
+          task.id,
+          userId,
+          { diff: this.createdTaskDiff(task), listTemplateId: templateId },
+          `Task created from list template: ${template.name}`
+        );
+      }
+    });
+
+    return { list, tasks };
+  }
+
+  /**
+   * Get a list template of the user, or throw NotFoundError
+   */
+  private getOwnedListTemplate(
+    templateId: string,
+    userId: string
+  ): ListTemplate {
+    const row = this.db.get<any>(
+      "SELECT * FROM list_templates WHERE id = ? AND user_id = ?",
+      [templateId, userId]
+    );
+    if (!row) {
+      throw new NotFoundError(`List template with ID ${templateId} not found`);
+    }
+    return this.toListTemplate(row);
+  }
+
+  private assertValidListTemplate(template: ListTemplate): void {
+    const validation = DataValidator.validateListTemplate(template);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `List template validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+  }
+
+  private assertUniqueListTemplateName(userId: string, name: string): void {
+    const existing = this.db.get<{ id: string }>(
+      "SELECT id FROM list_templates WHERE user_id = ? AND name = ?",
+      [userId, name]
+    );
+    if (existing) {
+      throw new ValidationError(`List template "${name}" already exists`);
+    }
+  }
+
+  private toListTemplate(row: any): ListTemplate {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      color: row.color,
+      emoji: row.emoji,
+      settings: JSON.parse(row.settings),
+      labels: JSON.parse(row.labels),
+      defaultTasks: JSON.parse(row.default_tasks),
+      usageCount: row.usage_count,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // =================== LABEL OPERATIONS ===================
+
+  /**
+   * Create a new label
+   */
+  public async createLabel(
+    labelData: Omit<Label, "id" | "createdAt" | "updatedAt">
+  ): Promise<Label> {
+    const validation = DataValidator.validateLabel(labelData);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `Label validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    const label: Label = {
+      ...labelData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.db.transaction(() => {
+      this.assertNameAvailable("labels", label.userId, label.name);
+      this.db.run(
+        "INSERT INTO labels (id, name, icon, color, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        [
+          label.id,
+          label.name,
+          label.icon,
+          label.color,
+          label.userId,
+          label.createdAt,
+          label.updatedAt,
+        ]
+      );
+      this.recordEvent(
+        { type: "LabelCreated", labelId: label.id },
+        label.userId
+      );
+    });
+
+    return label;
+  }
+
+  /**
+   * Get labels for user with task counts
+   */
+  public async getUserLabelsWithCounts(
+    userId: string
+  ): Promise<LabelWithTaskCount[]> {
+    return this.db.query<LabelWithTaskCount>(
+      `SELECT
+        l.*,
+        COUNT(DISTINCT t.id) as taskCount
+      FROM labels l
+      LEFT JOIN task_labels tl ON l.id = tl.label_id
+      LEFT JOIN tasks t ON t.id = tl.task_id AND t.deleted_at IS NULL
+      WHERE l.user_id = ? AND l.deleted_at IS NULL
+      GROUP BY l.id
+      ORDER BY l.name ASC`,
+      [userId]
+    );
+  }
+
+  /**
+   * Update one of the user's labels
+   */
+  public async updateLabel(
+    labelId: string,
+    updates: Partial<Pick<Label, "name" | "color" | "icon">>,
+    userId: string
+  ): Promise<Label> {
+    const currentLabel = this.getOwnedLabel(labelId, userId);
+    const updatedLabel = {
+      ...currentLabel,
+      name: updates.name ?? currentLabel.name,
+      color: updates.color ?? currentLabel.color,
+      icon: updates.icon ?? currentLabel.icon,
+    };
+
+    const validation = DataValidator.validateLabel(updatedLabel);
+    if (!validation.isValid) {
+      throw new ValidationError(
+        `Label validation failed: ${validation.errors.join(", ")}`
+      );
+    }
+
+    this.db.transaction(() => {
+      this.assertNameAvailable("labels", userId, updatedLabel.name, labelId);
+      this.db.run(
+        "UPDATE labels SET name = ?, color = ?, icon = ?, updated_at = ? WHERE id = ?",
+        [
+          updatedLabel.name,
+          updatedLabel.color,
+          updatedLabel.icon,
+          new Date(),
+          labelId,
+        ]
+      );
+      this.recordEvent({ type: "LabelUpdated", labelId }, userId);
+    });
+
+    return this.db.get<Label>("SELECT * FROM labels WHERE id = ?", [labelId])!;
+  }
+
+  /**
+   * Throw ValidationError when the user has another list or label with the
+   * name. Trashed ones keep their name, and the table's unique constraint
+   * would otherwise drop the row without an error.
+   */
+  private assertNameAvailable(
+    table: "lists" | "labels",
+    userId: string,
+    name: string,
+    exceptId: string = ""
+  ): void {
+    const existing = this.db.get<{ deleted_at: string | null }>(
+      `SELECT deleted_at FROM ${table} WHERE user_id = ? AND name = ? AND id != ?`,
+      [userId, name, exceptId]
+    );
+    if (!existing) {
+      return;
+    }
+
+    const kind = table === "lists" ? "list" : "label";
+    throw new ValidationError(
+      existing.deleted_at
+        ? `A ${kind} named "${name}" is in the trash; restore it or pick another name`
+        : `A ${kind} named "${name}" already exists`
+    );
+  }
+
+  /**
+   * Get a label that belongs to the user, or throw NotFoundError
+   */
+  private getOwnedLabel(labelId: string, userId: string): Label {
+    const label = this.db.get<Label>(
+      "SELECT * FROM labels WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+      [labelId, userId]
+    );
+    if (!label) {
+      throw new NotFoundError(`Label with ID ${labelId} not found`);
+    }
+    return label;
+  }
+
+  /**
+   * Move label to the trash. Its task assignments are kept (but hidden)
+   * so that restoring the label brings them back.
+   */
+  public async deleteLabel(labelId: string, userId: string): Promise<void> {
+    this.db.transaction(() => {
+      const result = this.db.run(
+        "UPDATE labels SET deleted_at = ? WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+        [new Date(), labelId, userId]
+      );
+      if (result.changes === 0) {
+        throw new NotFoundError(`Label with ID ${labelId} not found`);
+      }
+      this.recordEvent({ type: "LabelDeleted", labelId }, userId);
+    });
+  }
+
+  /**
+   * Restore a trashed label
+   */
+  public async restoreLabel(labelId: string, userId: string): Promise<Label> {
+    this.db.transaction(() => {
+      const result = this.db.run(
+        "UPDATE labels SET deleted_at = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL",
+        [labelId, userId]
+      );
+      if (result.changes === 0) {
+        throw new NotFoundError(`Label with ID ${labelId} not found in trash`);
+      }
+      this.recordEvent({ type: "LabelRestored", labelId }, userId);
+    });
+
+    return this.db.get<Label>("SELECT * FROM labels WHERE id = ?", [labelId])!;
+  }
+
+  // =================== TASK-LABEL OPERATIONS ===================
+
+  /**
+   * Add one of the user's labels to one of their tasks
+   */
+  public async addLabelToTask(
+    taskId: string,
+    labelId: string,
+    changedBy: string
+  ): Promise<void> {
+    this.getOwnedTask(taskId, changedBy);
+    this.getOwnedLabel(labelId, changedBy);
+    const before = this.getTaskLabelIds(taskId);
+
+    this.db.transaction(() => {
+      const result = this.db.run(
+        "INSERT OR IGNORE INTO task_labels (task_id, label_id, created_at) VALUES (?, ?, ?)",
+        [taskId, labelId, new Date()]
+      );
+
+      if (result.changes > 0) {
+        this.recordTaskChange(
+          taskId,
+          changedBy,
+          { labelIds: { before, after: this.getTaskLabelIds(taskId) } },
+          "Added label"
+        );
+      }
+    });
+  }
+
+  /**
+   * Remove a label from one of the user's tasks
+   */
+  public async removeLabelFromTask(
+    taskId: string,
+    labelId: string,
+    changedBy: string
+  ): Promise<void> {
+    this.getOwnedTask(taskId, changedBy);
+    const before = this.getTaskLabelIds(taskId);
+
+    this.db.transaction(() => {
+      const result = this.db.run(
+        "DELETE FROM task_labels WHERE task_id = ? AND label_id = ?",
+        [taskId, labelId]
+      );
+
+      if (result.changes > 0) {
+        this.recordTaskChange(
+          taskId,
+          changedBy,
+          { labelIds: { before, after: this.getTaskLabelIds(taskId) } },
+          "Removed label"
+        );
+      }
+    });
+  }
+
+  /**
+   * IDs of all labels attached to a task, including trashed ones
+   */
+  private getTaskLabelIds(taskId: string): string[] {
+    return this.db
+      .query<{ label_id: string }>(
+        "SELECT label_id FROM task_labels WHERE task_id = ? ORDER BY label_id ASC",
+        [taskId]
+      )
+      .map((row) => row.label_id);
+  }
+
+  /**
+   * Get labels of one of the user's tasks
+   */
+  public async getTaskLabels(taskId: string, userId: string): Promise<Label[]> {
+    this.getOwnedTask(taskId, userId);
+
+    return this.db.query<Label>(
+      `SELECT l.* FROM labels l
+       INNER JOIN task_labels tl ON l.id = tl.label_id
+       WHERE tl.task_id = ? AND l.deleted_at IS NULL
+       ORDER BY l.name ASC`,
+      [taskId]
+    );
+  }
+
+  // =================== SUBTASK OPERATIONS ===================
+
+  /**
+   * Create a subtask on one of the user's tasks, logged as made by `actorId`
+   */
+  public async createSubtask(
+    subtaskData: Omit<Subtask, "id" | "createdAt" | "updatedAt">,
+    changedBy: string,
+    actorId: string = changedBy
+  ): Promise<Subtask> {
+    this.getOwnedTask(subtaskData.taskId, changedBy);
+
+    const subtask: Subtask = {
+      ...subtaskData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.db.transaction(() => {
+      this.db.run(
+        "INSERT INTO subtasks (id, name, is_completed, task_id, position, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        [
+          subtask.id,
+          subtask.name,
+          subtask.isCompleted ? 1 : 0,
+          subtask.taskId,
+          subtask.position,
+          subtask.createdAt,
+          subtask.updatedAt,
+        ]
+      );
+
+      this.recordTaskChange(
+        subtask.taskId,
+        actorId,
+        {
+          [`subtask:${subtask.id}`]: {
+            before: null,
+            after: this.toSubtaskSnapshot(subtask),
+          },
+        },
+        `Added subtask: ${subtask.name}`
+      );
+    });
+
+    return subtask;
+  }
+
+  /**
+   * Get subtasks of one of the user's tasks
+   */
+  public async getSubtasks(taskId: string, userId: string): Promise<Subtask[]> {
+    this.getOwnedTask(taskId, userId);
+
+    return this.db.query<Subtask>(
+      "SELECT * FROM subtasks WHERE task_id = ? ORDER BY position ASC",
+      [taskId]
+    );
+  }
+
+  /**
+   * Update a subtask of one of the user's tasks
+   */
+  public async updateSubtask(
+    subtaskId: string,
+    updates: Partial<Subtask>,
+    changedBy: string
+  ): Promise<Subtask> {
+    const currentSubtask = this.db.get<any>(
+      `SELECT s.* FROM subtasks s
+       INNER JOIN tasks t ON t.id = s.task_id
+       WHERE s.id = ? AND t.user_id = ? AND t.deleted_at IS NULL`,
+      [subtaskId, changedBy]
+    );
+    if (!currentSubtask) {
+      throw new NotFoundError(`Subtask with ID ${subtaskId} not found`);
+    }
+
+    const updateFields = Object.entries(updates)
+      .filter(([_, value]) => value !== undefined)
+      .map(([key]) => `${this.camelToSnakeCase(key)} = ?`);
+
+    if (updateFields.length === 0) {
+      return currentSubtask;
+    }
+
+    const updateValues = Object.entries(updates)
+      .filter(([_, value]) => value !== undefined)
+      .map(([key, value]) => {
+        if (key === "isCompleted") {
+          return value ? 1 : 0;
+        }
+        return value;
+      });
+
+    updateFields.push("updated_at = ?");
+    updateValues.push(new Date());
+
+    const sql = `
+      UPDATE subtasks
+      SET ${updateFields.join(", ")}
+      WHERE id = ?
+    `;
+    updateValues.push(subtaskId);
+
+    const updatedSubtask = this.db.transaction(() => {
+      this.db.run(sql, updateValues);
+
+      const updatedSubtask = this.db.get<any>(
+        "SELECT * FROM subtasks WHERE id = ?",
+        [subtaskId]
+      )!;
+
+      const before = this.toSubtaskSnapshot(currentSubtask);
+      const after = this.toSubtaskSnapshot(updatedSubtask);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        this.recordTaskChange(
+          updatedSubtask.task_id,
+          changedBy,
+          { [`subtask:${subtaskId}`]: { before, after } },
+          `Updated subtask: ${updatedSubtask.name}`
+        );
+      }
+
+      return updatedSubtask;
+    });
+
+    return updatedSubtask as Subtask;
+  }
+
+  /**
+   * Tracked subtask fields, from either a database row or a Subtask
+   */
+  private toSubtaskSnapshot(subtask: any): SubtaskSnapshot {
+    return {
+      name: subtask.name,
+      isCompleted: Boolean(subtask.is_completed ?? subtask.isCompleted),
+      position: subtask.position,
+    };
+  }
+
+  // =================== REMINDER OPERATIONS ===================
+
+  /**
+   * Create a reminder on one of the user's tasks
+   */
+  public async createReminder(
+    reminderData: Omit<Reminder, "id" | "createdAt" | "updatedAt">,
+    userId: string
+  ): Promise<Reminder> {
+    this.getOwnedTask(reminderData.taskId, userId);
+
+    const reminder: Reminder = {
+      ...reminderData,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.db.run(
+      "INSERT INTO reminders (id, task_id, remind_at, is_sent, method, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      [
+        reminder.id,
+        reminder.taskId,
+        reminder.remindAt,
+        reminder.isSent ? 1 : 0,
+        reminder.method,
+        reminder.createdAt,
+        reminder.updatedAt,
+      ]
+    );
+
+    return reminder;
+  }
+
+  /**
+   * Get reminders of one of the user's tasks
+   */
+  public async getReminders(
+    taskId: string,
+    userId: string
+  ): Promise<Reminder[]> {
+    this.getOwnedTask(taskId, userId);
+
+    return this.db.query<Reminder>(
+      "SELECT * FROM reminders WHERE task_id = ? ORDER BY remind_at ASC",
+      [taskId]
+    );
+  }
+
+  /**
+   * Get pending reminders
+   */
+  public async getPendingReminders(limit: number = 100): Promise<Reminder[]> {
+    return this.db.query<Reminder>(
+      `SELECT r.* FROM reminders r
+       INNER JOIN tasks t ON r.task_id = t.id
+       WHERE r.is_sent = 0 AND r.remind_at <= ? AND t.status != 'done'
+         AND t.deleted_at IS NULL
+       ORDER BY r.remind_at ASC
+       LIMIT ?`,
+      [new Date(), limit]
+    );
+  }
+
+  /**
+   * Claim pending reminders for sending: they are held for
+   * REMINDER_LEASE_MS, during which no other claim returns them. The claim
+   * is a single statement, so processes sharing the database never claim
+   * the same reminder at once. Reminders that failed REMINDER_MAX_ATTEMPTS
+   * times are no longer claimed.
+   */
+  public async claimDueReminders(
+    limit: number = 20,
+    leaseMs: number = REMINDER_LEASE_MS
+  ): Promise<ClaimedReminder[]> {
+    const now = new Date();
+    const claimed = this.db.query<{ id: string }>(
+      `UPDATE reminders
+       SET claimed_until = ?, attempts = attempts + 1, updated_at = ?
+       WHERE id IN (
+         SELECT r.id FROM reminders r
+         INNER JOIN tasks t ON r.task_id = t.id
+         WHERE r.is_sent = 0 AND r.remind_at <= ? AND t.status != 'done'
+           AND t.deleted_at IS NULL AND r.attempts < ?
+           AND (r.claimed_until IS NULL OR r.claimed_until <= ?)
+         ORDER BY r.remind_at ASC
+         LIMIT ?
+       )
+       RETURNING id`,
+      [
+        new Date(now.getTime() + leaseMs),
+        now,
+        now,
+        REMINDER_MAX_ATTEMPTS,
+        now,
+        limit,
+      ]
+    );
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    const rows = this.db.query<any>(
+      `SELECT r.*, t.name AS task_name, t.date AS task_date,
+              t.deadline AS task_deadline, t.list_id AS task_list_id,
+              u.id AS owner_id, u.name AS owner_name, u.email AS owner_email
+       FROM reminders r
+       INNER JOIN tasks t ON r.task_id = t.id
+       INNER JOIN users u ON t.user_id = u.id
+       WHERE r.id IN (${claimed.map(() => "?").join(", ")})
+       ORDER BY r.remind_at ASC`,
+      claimed.map((row) => row.id)
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      taskId: row.task_id,
+      remindAt: new Date(row.remind_at),
+      isSent: Boolean(row.is_sent),
+      method: row.method,
+      attempts: row.attempts,
+      task: {
+        id: row.task_id,
+        name: row.task_name,
+        date: row.task_date ? new Date(row.task_date) : undefined,
+        deadline: row.task_deadline ? new Date(row.task_deadline) : undefined,
+        listId: row.task_list_id,
+      },
+      user: {
+        id: row.owner_id,
+        name: row.owner_name,
+        email: row.owner_email,
+      },
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
+
+  /**
+   * Mark reminder as sent
+   */
+  public async markReminderSent(reminderId: string): Promise<void> {
+    this.db.run(
+      "UPDATE reminders SET is_sent = 1, claimed_until = NULL, last_error = NULL, updated_at = ? WHERE id = ?",
+      [new Date(), reminderId]
+    );
+  }
+
+  /**
+   * Record a failed attempt to send a claimed reminder; it is claimed
+   * again once the retry delay for its number of attempts has passed
+   */
+  public async markReminderFailed(
+    reminderId: string,
+    error: string
+  ): Promise<void> {
+    const reminder = this.db.get<{ attempts: number }>(
+      "SELECT attempts FROM reminders WHERE id = ?",
+      [reminderId]
+    );
+    if (!reminder) {
+      return; // Deleted with its task meanwhile
+    }
+
+    const now = new Date();
+    this.db.run(
+      "UPDATE reminders SET claimed_until = ?, last_error = ?, updated_at = ? WHERE id = ?",
+      [
+        new Date(now.getTime() + getReminderRetryDelay(reminder.attempts)),
+        error,
+        now,
+        reminderId,
+      ]
     );
   }
 
   /**
-   * Get lists for user with task counts
+   * Claim the due reminders and send each through the channel for its
+   * method. Returns the number of reminders claimed.
    */
-  public async getUserListsWithCounts(
-    userId: string
-  ): Promise<ListWithTaskCount[]> {
-    return this.db.query<ListWithTaskCount>(
-      `SELECT
-        l.*,
-        COUNT(t.id) as taskCount,
-        SUM(CASE WHEN t.status = 'done' THEN 1 ELSE 0 END) as completedTaskCount
-      FROM lists l
-      LEFT JOIN tasks t ON l.id = t.list_id
-      WHERE l.user_id = ?
-      GROUP BY l.id
-      ORDER BY l.is_default DESC, l.name ASC`,
-      [userId]
+  public async dispatchDueReminders(
+    channels: ReminderChannels,
+    limit: number = 20
+  ): Promise<number> {
+    const reminders = await this.claimDueReminders(limit);
+
+    await Promise.all(
+      reminders.map(async (reminder) => {
+        try {
+          await channels[reminder.method].send(reminder);
+          await this.markReminderSent(reminder.id);
+        } catch (error) {
+          await this.markReminderFailed(
+            reminder.id,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      })
     );
+
+    return reminders.length;
   }
 
+  // =================== NOTIFICATION OPERATIONS ===================
+
   /**
-   * Get list by ID
+   * Add a notification to a user's inbox. A notification for a source
+   * that already has one is not added again; the existing one is returned.
    */
-  public async getList(listId: string): Promise<List | null> {
-    return this.db.get<List>("SELECT * FROM lists WHERE id = ?", [
-      listId,
-    ]) as List | null;
+  public async createNotification(
+    notificationData: Pick<
+      InboxNotification,
+      "userId" | "type" | "title" | "message" | "taskId" | "sourceId"
+    >
+  ): Promise<InboxNotification> {
+    const id = crypto.randomUUID();
+    this.db.run(
+      `INSERT INTO notifications (
+        id, user_id, type, title, message, task_id, source_id, is_read,
+        created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)
+      ON CONFLICT(user_id, source_id) DO NOTHING`,
+      [
+        id,
+        notificationData.userId,
+        notificationData.type,
+        notificationData.title,
+        notificationData.message,
+        notificationData.taskId ?? null,
+        notificationData.sourceId ?? null,
+        new Date(),
+      ]
+    );
+
+    const row = notificationData.sourceId
+      ? this.db.get<any>(
+          "SELECT * FROM notifications WHERE user_id = ? AND source_id = ?",
+          [notificationData.userId, notificationData.sourceId]
+        )
+      : this.db.get<any>("SELECT * FROM notifications WHERE id = ?", [id]);
+    return this.toInboxNotification(row);
   }
 
-  // =================== LABEL OPERATIONS ===================
+  /**
+   * Get the user's notifications, newest first
+   */
+  public async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<InboxNotification[]> {
+    return this.db
+      .query<any>(
+        `SELECT * FROM notifications
+         WHERE user_id = ?${options.unreadOnly ? " AND is_read = 0" : ""}
+         ORDER BY created_at DESC, rowid DESC
+         LIMIT ?`,
+        [userId, options.limit ?? 50]
+      )
+      .map((row) => this.toInboxNotification(row));
+  }
 
   /**
-   * Create a new label
+   * Count the user's unread notifications
    */
-  public async createLabel(
-    labelData: Omit<Label, "id" | "createdAt" | "updatedAt">
-  ): Promise<Label> {
-    const validation = DataValidator.validateLabel(labelData);
-    if (!validation.isValid) {
-      throw new ValidationError(
-        `Label validation failed: ${validation.errors.join(", ")}`
+  public async getUnreadNotificationCount(userId: string): Promise<number> {
+    return (
+      this.db.get<{ count: number }>(
+        "SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND is_read = 0",
+        [userId]
+      )?.count ?? 0
+    );
+  }
+
+  /**
+   * Mark one of the user's notifications as read, or unread again
+   */
+  public async markNotificationRead(
+    notificationId: string,
+    userId: string,
+    isRead: boolean = true
+  ): Promise<InboxNotification> {
+    const { changes } = this.db.run(
+      "UPDATE notifications SET is_read = ? WHERE id = ? AND user_id = ?",
+      [isRead, notificationId, userId]
+    );
+    if (changes === 0) {
+      throw new NotFoundError(
+        `Notification with ID ${notificationId} not found`
       );
     }
 
-    const label: Label = {
-      ...labelData,
+    return this.toInboxNotification(
+      this.db.get<any>("SELECT * FROM notifications WHERE id = ?", [
+        notificationId,
+      ])
+    );
+  }
+
+  private toInboxNotification(row: any): InboxNotification {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      taskId: row.task_id ?? undefined,
+      sourceId: row.source_id ?? undefined,
+      isRead: Boolean(row.is_read),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  // =================== ATTACHMENT OPERATIONS ===================
+
+  /**
+   * Attach a file to one of the user's tasks. Attachments with a
+   * `blobHash` register the blob on first use and take a reference to it.
+   */
+  public async createAttachment(
+    attachmentData: Omit<
+      Attachment,
+      "id" | "createdAt" | "updatedAt" | "uploadedAt"
+    >,
+    userId: string
+  ): Promise<Attachment> {
+    this.getOwnedTask(attachmentData.taskId, userId);
+
+    const attachment: Attachment = {
+      ...attachmentData,
       id: crypto.randomUUID(),
       createdAt: new Date(),
       updatedAt: new Date(),
+      uploadedAt: new Date(),
     };
 
-    this.db.run(
-      "INSERT INTO labels (id, name, icon, color, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
-      [
-        label.id,
-        label.name,
-        label.icon,
-        label.color,
-        label.userId,
-        label.createdAt,
-        label.updatedAt,
-      ]
-    );
+    this.db.transaction(() => {
+      if (attachment.blobHash) {
+        this.db.run(
+          "INSERT OR IGNORE INTO blobs (hash, size, mime_type, created_at) VALUES (?, ?, ?, ?)",
+          [
+            attachment.blobHash,
+            attachment.size,
+            attachment.mimeType,
+            attachment.uploadedAt,
+          ]
+        );
+      }
 
-    return label;
+      // The reference_attachment_blob trigger counts the new reference
+      this.db.run(
+        "INSERT INTO attachments (id, task_id, filename, original_name, mime_type, size, path, blob_hash, uploaded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+        [
+          attachment.id,
+          attachment.taskId,
+          attachment.filename,
+          attachment.originalName,
+          attachment.mimeType,
+          attachment.size,
+          attachment.path,
+          attachment.blobHash ?? null,
+          attachment.uploadedAt,
+        ]
+      );
+    });
+
+    return attachment;
   }
 
   /**
-   * Get labels for user with task counts
+   * Get attachments of one of the user's tasks
    */
-  public async getUserLabelsWithCounts(
+  public async getAttachments(
+    taskId: string,
     userId: string
-  ): Promise<LabelWithTaskCount[]> {
-    return this.db.query<LabelWithTaskCount>(
-      `SELECT
-        l.*,
-        COUNT(DISTINCT tl.task_id) as taskCount
-      FROM labels l
-      LEFT JOIN task_labels tl ON l.id = tl.label_id
-      WHERE l.user_id = ?
-      GROUP BY l.id
-      ORDER BY l.name ASC`,
-      [userId]
+  ): Promise<Attachment[]> {
+    this.getOwnedTask(taskId, userId);
+
+    return this.db
+      .query(
+        "SELECT * FROM attachments WHERE task_id = ? ORDER BY uploaded_at DESC",
+        [taskId]
+      )
+      .map((row) => this.toAttachment(row));
+  }
+
+  /**
+   * Get an attachment of one of the user's tasks
+   */
+  public async getAttachment(
+    attachmentId: string,
+    userId: string
+  ): Promise<Attachment | null> {
+    const row = this.db.get(
+      `SELECT a.* FROM attachments a
+       INNER JOIN tasks t ON t.id = a.task_id
+       WHERE a.id = ? AND t.user_id = ? AND t.deleted_at IS NULL`,
+      [attachmentId, userId]
     );
+    return row ? this.toAttachment(row) : null;
   }
 
-  // =================== TASK-LABEL OPERATIONS ===================
+  /**
+   * Delete an attachment of one of the user's tasks. Its blob stays on
+   * disk until a sweep finds it unreferenced.
+   */
+  public async deleteAttachment(
+    attachmentId: string,
+    userId: string
+  ): Promise<void> {
+    const result = this.db.run(
+      `DELETE FROM attachments
+       WHERE id = ? AND task_id IN (
+         SELECT id FROM tasks WHERE user_id = ? AND deleted_at IS NULL
+       )`,
+      [attachmentId, userId]
+    );
+    if (result.changes === 0) {
+      throw new NotFoundError(`Attachment with ID ${attachmentId} not found`);
+    }
+  }
 
   /**
-   * Add label to task
+   * Delete blobs no attachment has referenced for `graceMs`, and stored
+   * blobs the database doesn't know about, e.g. left by a failed upload.
+   * The grace period keeps a sweep from racing uploads in progress.
    */
-  public async addLabelToTask(taskId: string, labelId: string): Promise<void> {
+  public async sweepOrphanedBlobs(
+    storage: BlobStorage = getBlobStorage(),
+    graceMs: number = BLOB_SWEEP_GRACE_MS
+  ): Promise<BlobSweepResult> {
+    const cutoff = new Date(Date.now() - graceMs);
+    let blobsDeleted = 0;
+    let bytesReclaimed = 0;
+
+    const orphans = this.db.query<{ hash: string; size: number }>(
+      `SELECT hash, size FROM blobs
+       WHERE ref_count <= 0 AND COALESCE(orphaned_at, created_at) <= ?`,
+      [cutoff]
+    );
+    for (const orphan of orphans) {
+      // Skipped if an upload referenced the blob again since the query
+      const released = this.db.run(
+        "DELETE FROM blobs WHERE hash = ? AND ref_count <= 0",
+        [orphan.hash]
+      );
+      if (released.changes > 0 && (await storage.delete(orphan.hash))) {
+        blobsDeleted++;
+        bytesReclaimed += orphan.size;
+      }
+    }
+
+    for (const stored of await storage.list()) {
+      if (stored.modifiedAt > cutoff) {
+        continue;
+      }
+
+      const known = this.db.get("SELECT 1 FROM blobs WHERE hash = ?", [
+        stored.hash,
+      ]);
+      if (!known && (await storage.delete(stored.hash))) {
+        blobsDeleted++;
+        bytesReclaimed += stored.size;
+      }
+    }
+
+    const result: BlobSweepResult = {
+      blobsDeleted,
+      bytesReclaimed,
+      sweptAt: new Date(),
+    };
     this.db.run(
-      "INSERT OR IGNORE INTO task_labels (task_id, label_id, created_at) VALUES (?, ?, ?)",
-      [taskId, labelId, new Date()]
+      "INSERT INTO blob_sweeps (id, blobs_deleted, bytes_reclaimed, swept_at) VALUES (?, ?, ?, ?)",
+      [crypto.randomUUID(), blobsDeleted, bytesReclaimed, result.sweptAt]
     );
+
+    return result;
   }
 
   /**
-   * Remove label from task
+   * Map an attachments row to an Attachment
    */
-  public async removeLabelFromTask(
+  private toAttachment(row: any): Attachment {
+    const uploadedAt = new Date(row.uploaded_at);
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      filename: row.filename,
+      originalName: row.original_name,
+      mimeType: row.mime_type,
+      size: row.size,
+      path: row.path,
+      blobHash: row.blob_hash ?? undefined,
+      uploadedAt,
+      createdAt: uploadedAt,
+      updatedAt: uploadedAt,
+    };
+  }
+
+  // =================== TASK COMMENT OPERATIONS ===================
+
+  /**
+   * Get the comments on one of the user's tasks, oldest first, with
+   * their author's name and avatar
+   */
+  public async getTaskComments(
     taskId: string,
-    labelId: string
-  ): Promise<void> {
-    this.db.run("DELETE FROM task_labels WHERE task_id = ? AND label_id = ?", [
-      taskId,
-      labelId,
-    ]);
+    userId: string
+  ): Promise<TaskComment[]> {
+    this.getOwnedTask(taskId, userId);
+
+    return this.db
+      .query<any>(
+        `SELECT c.*, u.name as author_name, u.avatar as author_avatar
+         FROM task_comments c
+         LEFT JOIN users u ON u.id = c.author_id
+         WHERE c.task_id = ?
+         ORDER BY c.created_at ASC`,
+        [taskId]
+      )
+      .map((row) => this.toTaskComment(row));
   }
 
   /**
-   * Get labels for task
+   * Comment on a task. The comment is logged in the task's history.
+   * `authorId` differs from the owner `userId` for members of a shared list.
    */
-  public async getTaskLabels(taskId: string): Promise<Label[]> {
-    return this.db.query<Label>(
-      `SELECT l.* FROM labels l
-       INNER JOIN task_labels tl ON l.id = tl.label_id
-       WHERE tl.task_id = ?
-       ORDER BY l.name ASC`,
-      [taskId]
+  public async addTaskComment(
+    taskId: string,
+    body: string,
+    userId: string,
+    authorId: string = userId
+  ): Promise<TaskComment> {
+    const task: any = this.getOwnedTask(taskId, userId);
+    const text = this.validateCommentBody(body);
+
+    const now = new Date();
+    const id = crypto.randomUUID();
+
+    this.db.transaction(() => {
+      this.db.run(
+        `INSERT INTO task_comments (id, task_id, author_id, body, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, taskId, authorId, text, now, now]
+      );
+
+      this.recordTaskChange(
+        taskId,
+        authorId,
+        { [`comment:${id}`]: { before: null, after: text } },
+        `Comment added: ${task.name}`,
+        { commentId: id }
+      );
+    });
+
+    return this.getOwnedTaskComment(id, userId);
+  }
+
+  /**
+   * Edit a comment; only its author can change it
+   */
+  public async updateTaskComment(
+    commentId: string,
+    body: string,
+    userId: string,
+    authorId: string = userId
+  ): Promise<TaskComment> {
+    const comment = this.getOwnedTaskComment(commentId, userId);
+    this.assertCommentAuthor(comment, authorId);
+    const text = this.validateCommentBody(body);
+
+    if (text !== comment.body) {
+      const now = new Date();
+      this.db.run(
+        "UPDATE task_comments SET body = ?, edited_at = ?, updated_at = ? WHERE id = ?",
+        [text, now, now, commentId]
+      );
+    }
+
+    return this.getOwnedTaskComment(commentId, userId);
+  }
+
+  /**
+   * Delete a comment; only its author can remove it
+   */
+  public async deleteTaskComment(
+    commentId: string,
+    userId: string,
+    authorId: string = userId
+  ): Promise<TaskComment> {
+    const comment = this.getOwnedTaskComment(commentId, userId);
+    this.assertCommentAuthor(comment, authorId);
+
+    this.db.run("DELETE FROM task_comments WHERE id = ?", [commentId]);
+    return comment;
+  }
+
+  /**
+   * Get a comment on one of the user's tasks, or throw NotFoundError
+   */
+  private getOwnedTaskComment(
+    commentId: string,
+    userId: string
+  ): TaskComment {
+    const row = this.db.get<any>(
+      `SELECT c.*, u.name as author_name, u.avatar as author_avatar
+       FROM task_comments c
+       INNER JOIN tasks t ON t.id = c.task_id
+       LEFT JOIN users u ON u.id = c.author_id
+       WHERE c.id = ? AND t.user_id = ? AND t.deleted_at IS NULL`,
+      [commentId, userId]
     );
+    if (!row) {
+      throw new NotFoundError(`Comment with ID ${commentId} not found`);
+    }
+    return this.toTaskComment(row);
   }
 
-  // =================== SUBTASK OPERATIONS ===================
+  private assertCommentAuthor(comment: TaskComment, userId: string): void {
+    if (comment.authorId !== userId) {
+      throw new DatabaseError(
+        "Only the author can change a comment",
+        "FORBIDDEN"
+      );
+    }
+  }
+
+  private validateCommentBody(body: string): string {
+    const text = body.trim();
+    if (!text) {
+      throw new ValidationError("Comment cannot be empty");
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      throw new ValidationError(
+        `Comment must be at most ${MAX_COMMENT_LENGTH} characters`
+      );
+    }
+    return text;
+  }
+
+  private toTaskComment(row: any): TaskComment {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      authorId: row.author_id,
+      body: row.body,
+      editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+      authorName: row.author_name ?? undefined,
+      authorAvatar: row.author_avatar ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // =================== WEBHOOK OPERATIONS ===================
 
   /**
-   * Create subtask
+   * Register a webhook; a secret is generated when none is given
    */
-  public async createSubtask(
-    subtaskData: Omit<Subtask, "id" | "createdAt" | "updatedAt">
-  ): Promise<Subtask> {
-    const subtask: Subtask = {
-      ...subtaskData,
+  public async createWebhook(
+    webhookData: Pick<Webhook, "url" | "eventTypes"> &
+      Partial<Pick<Webhook, "secret" | "isActive">>,
+    userId: string
+  ): Promise<Webhook> {
+    const now = new Date();
+    const webhook: Webhook = {
       id: crypto.randomUUID(),
-      createdAt: new Date(),
+      userId,
+      url: webhookData.url,
+      eventTypes: [...new Set(webhookData.eventTypes)],
+      secret: webhookData.secret ?? generateWebhookSecret(),
+      isActive: webhookData.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.assertValidWebhook(webhook);
+
+    this.db.run(
+      `INSERT INTO webhooks (
+        id, user_id, url, event_types, secret, is_active, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        webhook.id,
+        webhook.userId,
+        webhook.url,
+        JSON.stringify(webhook.eventTypes),
+        webhook.secret,
+        webhook.isActive,
+        webhook.createdAt,
+        webhook.updatedAt,
+      ]
+    );
+
+    return webhook;
+  }
+
+  /**
+   * Get the user's webhooks, oldest first
+   */
+  public async getWebhooks(userId: string): Promise<Webhook[]> {
+    return this.db
+      .query<any>(
+        "SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at ASC",
+        [userId]
+      )
+      .map((row) => this.toWebhook(row));
+  }
+
+  /**
+   * Get one of the user's webhooks
+   */
+  public async getWebhook(webhookId: string, userId: string): Promise<Webhook> {
+    return this.getOwnedWebhook(webhookId, userId);
+  }
+
+  /**
+   * Update a webhook. Deliveries already queued keep their payload but
+   * are sent to the new URL and signed with the new secret.
+   */
+  public async updateWebhook(
+    webhookId: string,
+    updates: Partial<
+      Pick<Webhook, "url" | "eventTypes" | "secret" | "isActive">
+    >,
+    userId: string
+  ): Promise<Webhook> {
+    const current = this.getOwnedWebhook(webhookId, userId);
+    const webhook: Webhook = {
+      ...current,
+      ...updates,
+      eventTypes: [...new Set(updates.eventTypes ?? current.eventTypes)],
       updatedAt: new Date(),
     };
 
-    this.db.run(
-      "INSERT INTO subtasks (id, name, is_completed, task_id, position, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
-      [
-        subtask.id,
-        subtask.name,
-        subtask.isCompleted ? 1 : 0,
-        subtask.taskId,
-        subtask.position,
-        subtask.createdAt,
-        subtask.updatedAt,
-      ]
+    this.assertValidWebhook(webhook);
+
+    this.db.run(
+      `UPDATE webhooks
+       SET url = ?, event_types = ?, secret = ?, is_active = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        webhook.url,
+        JSON.stringify(webhook.eventTypes),
+        webhook.secret,
+        webhook.isActive,
+        webhook.updatedAt,
+        webhookId,
+      ]
+    );
+
+    return webhook;
+  }
+
+  /**
+   * Delete a webhook with its delivery log
+   */
+  public async deleteWebhook(webhookId: string, userId: string): Promise<void> {
+    this.getOwnedWebhook(webhookId, userId);
+    this.db.run("DELETE FROM webhooks WHERE id = ?", [webhookId]);
+  }
+
+  /**
+   * Get a webhook's delivery log, newest first
+   */
+  public async getWebhookDeliveries(
+    webhookId: string,
+    userId: string,
+    limit: number = 50
+  ): Promise<WebhookDelivery[]> {
+    this.getOwnedWebhook(webhookId, userId);
+
+    return this.db
+      .query<any>(
+        "SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?",
+        [webhookId, limit]
+      )
+      .map((row) => this.toWebhookDelivery(row));
+  }
+
+  /**
+   * Send a logged delivery again, whether it succeeded or not. The replay
+   * is a new delivery of the same event and payload, retried like any
+   * other.
+   */
+  public async replayWebhookDelivery(
+    webhookId: string,
+    deliveryId: string,
+    userId: string
+  ): Promise<WebhookDelivery> {
+    this.getOwnedWebhook(webhookId, userId);
+    const row = this.db.get<any>(
+      "SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?",
+      [deliveryId, webhookId]
+    );
+    if (!row) {
+      throw new NotFoundError(
+        `Webhook delivery with ID ${deliveryId} not found`
+      );
+    }
+
+    return this.insertWebhookDelivery(
+      webhookId,
+      row.event_id,
+      row.event_type,
+      row.payload,
+      deliveryId
+    );
+  }
+
+  /**
+   * Queue a task event for each of its owner's active webhooks subscribed
+   * to the event's type. Webhooks the event was already queued for are
+   * skipped, since an event may be dispatched more than once.
+   */
+  public async queueWebhookDeliveries(
+    event: RecordedDomainEvent<TaskEvent>,
+    payload: unknown
+  ): Promise<WebhookDelivery[]> {
+    const webhooks = this.db.query<{ id: string }>(
+      `SELECT id FROM webhooks
+       WHERE user_id = ? AND is_active = 1
+         AND EXISTS (SELECT 1 FROM json_each(event_types) WHERE value = ?)
+         AND NOT EXISTS (
+           SELECT 1 FROM webhook_deliveries
+           WHERE webhook_id = webhooks.id AND event_id = ? AND replay_of IS NULL
+         )`,
+      [event.userId, event.type, event.id]
+    );
+    const body = JSON.stringify(payload);
+
+    return this.db.transaction(() =>
+      webhooks.map((webhook) =>
+        this.insertWebhookDelivery(webhook.id, event.id, event.type, body)
+      )
+    );
+  }
+
+  /**
+   * Send the pending deliveries that are due and record the outcome: a
+   * delivery that fails is retried with exponential backoff until it has
+   * had WEBHOOK_MAX_ATTEMPTS attempts. Deliveries are claimed for a while
+   * before they are sent, so concurrent runs don't send one twice. Returns
+   * the number of deliveries attempted.
+   */
+  public async deliverDueWebhooks(
+    send: WebhookSender = sendWebhook,
+    limit: number = 20
+  ): Promise<number> {
+    const now = new Date();
+    const due = this.db.transaction(() => {
+      const rows = this.db.query<any>(
+        `SELECT webhook_deliveries.*, webhooks.url, webhooks.secret
+         FROM webhook_deliveries
+         JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+         WHERE webhook_deliveries.status = 'pending' AND webhook_deliveries.next_attempt_at <= ?
+           AND webhooks.is_active = 1
+         ORDER BY webhook_deliveries.next_attempt_at ASC, webhook_deliveries.rowid ASC
+         LIMIT ?`,
+        [now, limit]
+      );
+
+      const leaseUntil = new Date(now.getTime() + WEBHOOK_DELIVERY_LEASE_MS);
+      for (const row of rows) {
+        this.db.run(
+          "UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ?",
+          [leaseUntil, row.id]
+        );
+      }
+      return rows;
+    });
+
+    await Promise.all(
+      due.map(async (row) => {
+        const response = await send({
+          url: row.url,
+          secret: row.secret,
+          eventType: row.event_type,
+          deliveryId: row.id,
+          body: row.payload,
+        });
+
+        const attemptedAt = new Date();
+        const attempts = row.attempts + 1;
+        const status = response.ok
+          ? "succeeded"
+          : attempts >= WEBHOOK_MAX_ATTEMPTS
+          ? "failed"
+          : "pending";
+        this.db.run(
+          `UPDATE webhook_deliveries
+           SET status = ?, attempts = ?, next_attempt_at = ?, last_attempt_at = ?,
+               response_status = ?, error = ?
+           WHERE id = ?`,
+          [
+            status,
+            attempts,
+            status === "pending"
+              ? new Date(attemptedAt.getTime() + getWebhookRetryDelay(attempts))
+              : null,
+            attemptedAt,
+            response.statusCode ?? null,
+            response.error ?? null,
+            row.id,
+          ]
+        );
+      })
     );
 
-    return subtask;
+    return due.length;
   }
 
   /**
-   * Get subtasks for task
+   * When the next pending delivery is due, or null when none is pending
    */
-  public async getSubtasks(taskId: string): Promise<Subtask[]> {
-    return this.db.query<Subtask>(
-      "SELECT * FROM subtasks WHERE task_id = ? ORDER BY position ASC",
-      [taskId]
+  public async getNextWebhookAttemptAt(): Promise<Date | null> {
+    const row = this.db.get<{ next_attempt_at: string | null }>(
+      `SELECT MIN(webhook_deliveries.next_attempt_at) AS next_attempt_at
+       FROM webhook_deliveries
+       JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+       WHERE webhook_deliveries.status = 'pending' AND webhooks.is_active = 1`
+    );
+    return row?.next_attempt_at ? new Date(row.next_attempt_at) : null;
+  }
+
+  private insertWebhookDelivery(
+    webhookId: string,
+    eventId: string,
+    eventType: string,
+    body: string,
+    replayOf?: string
+  ): WebhookDelivery {
+    const now = new Date();
+    const id = crypto.randomUUID();
+    this.db.run(
+      `INSERT INTO webhook_deliveries (
+        id, webhook_id, event_id, event_type, payload, next_attempt_at, replay_of, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, webhookId, eventId, eventType, body, now, replayOf ?? null, now]
+    );
+
+    return this.toWebhookDelivery(
+      this.db.get<any>("SELECT * FROM webhook_deliveries WHERE id = ?", [id])
     );
   }
 
   /**
-   * Update subtask
+   * Get a webhook of the user, or throw NotFoundError
    */
-  public async updateSubtask(
-    subtaskId: string,
-    updates: Partial<Subtask>
-  ): Promise<Subtask> {
-    const currentSubtask = this.db.get<Subtask>(
-      "SELECT * FROM subtasks WHERE id = ?",
-      [subtaskId]
+  private getOwnedWebhook(webhookId: string, userId: string): Webhook {
+    const row = this.db.get<any>(
+      "SELECT * FROM webhooks WHERE id = ? AND user_id = ?",
+      [webhookId, userId]
     );
-    if (!currentSubtask) {
-      throw new NotFoundError(`Subtask with ID ${subtaskId} not found`);
+    if (!row) {
+      throw new NotFoundError(`Webhook with ID ${webhookId} not found`);
     }
+    return this.toWebhook(row);
+  }
 
-    const updateFields = Object.entries(updates)
-      .filter(([_, value]) => value !== undefined)
-      .map(([key]) => `${this.camelToSnakeCase(key)} = ?`);
-
-    if (updateFields.length === 0) {
-      return currentSubtask;
+  private assertValidWebhook(webhook: Webhook): void {
+    const validation = DataValidator.validateWebhook(webhook);
+    if (validation.errors.length > 0) {
+      throw new ValidationError(
+        `Webhook validation failed: ${validation.errors.join(", ")}`
+      );
     }
+  }
 
-    const updateValues = Object.entries(updates)
-      .filter(([_, value]) => value !== undefined)
-      .map(([key, value]) => {
-        if (key === "isCompleted") {
-          return value ? 1 : 0;
-        }
-        return value;
-      });
-
-    updateFields.push("updated_at = ?");
-    updateValues.push(new Date());
-
-    const sql = `
-      UPDATE subtasks
-      SET ${updateFields.join(", ")}
-      WHERE id = ?
-    `;
-    updateValues.push(subtaskId);
-
-    this.db.run(sql, updateValues);
+  private toWebhook(row: any): Webhook {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      url: row.url,
+      eventTypes: JSON.parse(row.event_types),
+      secret: row.secret,
+      isActive: Boolean(row.is_active),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
 
-    return this.db.get<Subtask>("SELECT * FROM subtasks WHERE id = ?", [
-      subtaskId,
-    ])!;
+  private toWebhookDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: JSON.parse(row.payload),
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at
+        ? new Date(row.next_attempt_at)
+        : undefined,
+      lastAttemptAt: row.last_attempt_at
+        ? new Date(row.last_attempt_at)
+        : undefined,
+      responseStatus: row.response_status ?? undefined,
+      error: row.error ?? undefined,
+      replayOf: row.replay_of ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
   }
 
-  // =================== REMINDER OPERATIONS ===================
+  // =================== DOMAIN EVENT OPERATIONS ===================
 
   /**
-   * Create reminder
+   * Write a domain event to the outbox. Call inside the transaction making
+   * the change, so the event is stored if and only if the change is; it is
+   * dispatched to subscribers once the transaction has committed.
    */
-  public async createReminder(
-    reminderData: Omit<Reminder, "id" | "createdAt" | "updatedAt">
-  ): Promise<Reminder> {
-    const reminder: Reminder = {
-      ...reminderData,
-      id: crypto.randomUUID(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
+  private recordEvent(
+    event: DomainEvent,
+    userId: string,
+    actorId: string = userId
+  ): void {
     this.db.run(
-      "INSERT INTO reminders (id, task_id, remind_at, is_sent, method, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      "INSERT INTO domain_events (id, type, user_id, actor_id, data, created_at) VALUES (?, ?, ?, ?, ?, ?)",
       [
-        reminder.id,
-        reminder.taskId,
-        reminder.remindAt,
-        reminder.isSent ? 1 : 0,
-        reminder.method,
-        reminder.createdAt,
-        reminder.updatedAt,
+        crypto.randomUUID(),
+        event.type,
+        userId,
+        actorId,
+        JSON.stringify(event),
+        new Date(),
       ]
     );
 
-    return reminder;
+    // Transactions are synchronous, so this runs after the commit
+    if (!this.eventDispatchScheduled) {
+      this.eventDispatchScheduled = true;
+      queueMicrotask(() => {
+        this.eventDispatchScheduled = false;
+        this.dispatchEvents().catch((error) => {
+          console.error("[Events] Dispatch failed:", error);
+        });
+      });
+    }
   }
 
   /**
-   * Get reminders for task
+   * Hand the outbox's pending events to the subscribers, oldest first, and
+   * return how many there were. Dispatches run one after another, so
+   * events reach subscribers in the order they were recorded. Events a
+   * subscriber failed for are handed over again once their lease ends.
    */
-  public async getReminders(taskId: string): Promise<Reminder[]> {
-    return this.db.query<Reminder>(
-      "SELECT * FROM reminders WHERE task_id = ? ORDER BY remind_at ASC",
-      [taskId]
-    );
+  public dispatchEvents(): Promise<number> {
+    const dispatch = this.eventDispatch.then(async () => {
+      let dispatched = 0;
+      let rows: any[];
+      while ((rows = this.claimPendingEvents()).length > 0) {
+        const failed = await publishDomainEvents(
+          rows.map((row) => this.toDomainEvent(row))
+        );
+        this.markEventsDispatched(
+          rows.map((row) => row.id).filter((id) => !failed.includes(id))
+        );
+        dispatched += rows.length;
+      }
+      this.scheduleEventRetry();
+      return dispatched;
+    });
+    this.eventDispatch = dispatch.catch(() => undefined);
+    return dispatch;
   }
 
   /**
-   * Get pending reminders
+   * Claim a batch of the outbox's pending events: they are held for
+   * DOMAIN_EVENT_LEASE_MS, during which no other claim returns them.
+   * Events claimed DOMAIN_EVENT_MAX_ATTEMPTS times are no longer claimed.
    */
-  public async getPendingReminders(limit: number = 100): Promise<Reminder[]> {
-    return this.db.query<Reminder>(
-      `SELECT r.* FROM reminders r
-       INNER JOIN tasks t ON r.task_id = t.id
-       WHERE r.is_sent = 0 AND r.remind_at <= datetime('now') AND t.status != 'done'
-       ORDER BY r.remind_at ASC
-       LIMIT ?`,
-      [limit]
+  private claimPendingEvents(limit: number = 100): any[] {
+    const now = new Date();
+    const rows = this.db.query<any>(
+      `UPDATE domain_events
+       SET claimed_until = ?, attempts = attempts + 1
+       WHERE rowid IN (
+         SELECT rowid FROM domain_events
+         WHERE dispatched_at IS NULL AND attempts < ?
+           AND (claimed_until IS NULL OR claimed_until <= ?)
+         ORDER BY rowid ASC
+         LIMIT ?
+       )
+       RETURNING rowid, *`,
+      [
+        new Date(now.getTime() + DOMAIN_EVENT_LEASE_MS),
+        DOMAIN_EVENT_MAX_ATTEMPTS,
+        now,
+        limit,
+      ]
     );
+    return rows.sort((a, b) => a.rowid - b.rowid);
   }
 
   /**
-   * Mark reminder as sent
+   * Mark claimed events as dispatched, pruning events dispatched (or given
+   * up on) before the retention period
    */
-  public async markReminderSent(reminderId: string): Promise<void> {
-    this.db.run(
-      "UPDATE reminders SET is_sent = 1, updated_at = ? WHERE id = ?",
-      [new Date(), reminderId]
-    );
+  private markEventsDispatched(eventIds: string[]): void {
+    const now = new Date();
+    this.db.transaction(() => {
+      if (eventIds.length > 0) {
+        this.db.run(
+          `UPDATE domain_events SET dispatched_at = ?, claimed_until = NULL
+           WHERE id IN (${eventIds.map(() => "?").join(", ")})`,
+          [now, ...eventIds]
+        );
+      }
+      this.db.run(
+        `DELETE FROM domain_events
+         WHERE COALESCE(dispatched_at, created_at) < ?
+           AND (dispatched_at IS NOT NULL OR attempts >= ?)`,
+        [
+          new Date(now.getTime() - DOMAIN_EVENT_RETENTION_MS),
+          DOMAIN_EVENT_MAX_ATTEMPTS,
+        ]
+      );
+    });
   }
 
-  // =================== ATTACHMENT OPERATIONS ===================
-
   /**
-   * Create attachment
+   * Set a timer for the end of the earliest lease held by a pending event
    */
-  public async createAttachment(
-    attachmentData: Omit<
-      Attachment,
-      "id" | "createdAt" | "updatedAt" | "uploadedAt"
-    >
-  ): Promise<Attachment> {
-    const attachment: Attachment = {
-      ...attachmentData,
-      id: crypto.randomUUID(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      uploadedAt: new Date(),
-    };
-
-    this.db.run(
-      "INSERT INTO attachments (id, task_id, filename, original_name, mime_type, size, path, uploaded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
-      [
-        attachment.id,
-        attachment.taskId,
-        attachment.filename,
-        attachment.originalName,
-        attachment.mimeType,
-        attachment.size,
-        attachment.path,
-        attachment.uploadedAt,
-      ]
+  private scheduleEventRetry(): void {
+    const next = this.db.get<{ claimed_until: string | null }>(
+      `SELECT MIN(claimed_until) AS claimed_until FROM domain_events
+       WHERE dispatched_at IS NULL AND attempts < ?`,
+      [DOMAIN_EVENT_MAX_ATTEMPTS]
     );
 
-    return attachment;
+    if (this.eventRetryTimer) {
+      clearTimeout(this.eventRetryTimer);
+      this.eventRetryTimer = null;
+    }
+    if (next?.claimed_until) {
+      this.eventRetryTimer = setTimeout(() => {
+        this.eventRetryTimer = null;
+        this.dispatchEvents().catch((error) => {
+          console.error("[Events] Dispatch failed:", error);
+        });
+      }, Math.max(new Date(next.claimed_until).getTime() - Date.now(), 0));
+      // Retries alone shouldn't keep the process alive
+      this.eventRetryTimer.unref?.();
+    }
   }
 
-  /**
-   * Get attachments for task
-   */
-  public async getAttachments(taskId: string): Promise<Attachment[]> {
-    return this.db.query<Attachment>(
-      "SELECT * FROM attachments WHERE task_id = ? ORDER BY uploaded_at DESC",
-      [taskId]
-    );
+  private toDomainEvent(row: any): RecordedDomainEvent {
+    return {
+      ...JSON.parse(row.data),
+      id: row.id,
+      userId: row.user_id,
+      actorId: row.actor_id,
+      occurredAt: new Date(row.created_at).toISOString(),
+    };
   }
 
   /**
-   * Delete attachment
+   * Record a change to a task: its history entry and its domain event,
+   * followed by TaskCompleted when an update sets the status to done.
+   * Call inside the transaction making the change.
    */
-  public async deleteAttachment(attachmentId: string): Promise<void> {
-    this.db.run("DELETE FROM attachments WHERE id = ?", [attachmentId]);
+  private recordTaskEvent(
+    type: Exclude<TaskEvent["type"], "TaskCompleted">,
+    taskId: string,
+    actorId: string,
+    changes: { diff: TaskHistoryDiff } & Record<string, any>,
+    description: string
+  ): void {
+    const task = this.db.get<any>(
+      "SELECT user_id, list_id FROM tasks WHERE id = ?",
+      [taskId]
+    )!;
+    const fields = { taskId, listId: task.list_id };
+    const status = changes.diff.status;
+
+    const action: TaskHistory["action"] =
+      type === "TaskCreated"
+        ? "created"
+        : type === "TaskDeleted"
+        ? "deleted"
+        : !status
+        ? "updated"
+        : status.after === "done"
+        ? "completed"
+        : status.before === "done"
+        ? "uncompleted"
+        : "status_changed";
+    this.insertTaskHistory(taskId, action, actorId, changes, description);
+
+    this.recordEvent(
+      type === "TaskUpdated"
+        ? { type, ...fields, diff: changes.diff }
+        : { type, ...fields },
+      task.user_id,
+      actorId
+    );
+    if (type === "TaskUpdated" && status?.after === "done") {
+      this.recordEvent(
+        { type: "TaskCompleted", ...fields },
+        task.user_id,
+        actorId
+      );
+    }
   }
 
   // =================== TASK HISTORY OPERATIONS ===================
@@ -744,12 +5918,20 @@ export class DatabaseAPI {
     changes: Record<string, any>,
     description?: string
   ): Promise<void> {
-    const historyId = `history_${taskId}_${Date.now()}`;
+    this.insertTaskHistory(taskId, action, changedBy, changes, description);
+  }
 
+  private insertTaskHistory(
+    taskId: string,
+    action: TaskHistory["action"],
+    changedBy: string,
+    changes: Record<string, any>,
+    description?: string
+  ): void {
     this.db.run(
       "INSERT INTO task_history (id, task_id, action, changed_by, changes, description, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
       [
-        historyId,
+        crypto.randomUUID(),
         taskId,
         action,
         changedBy,
@@ -761,19 +5943,287 @@ export class DatabaseAPI {
   }
 
   /**
-   * Get task history
+   * Get the history of one of the user's tasks, newest first, with
+   * `changes` parsed
    */
   public async getTaskHistory(
     taskId: string,
+    userId: string,
     limit: number = 50
   ): Promise<TaskHistory[]> {
-    return this.db.query<TaskHistory>(
-      `SELECT * FROM task_history
-       WHERE task_id = ?
-       ORDER BY created_at DESC
-       LIMIT ?`,
-      [taskId, limit]
+    this.getOwnedTask(taskId, userId);
+
+    return this.db
+      .query<any>(
+        `SELECT * FROM task_history
+         WHERE task_id = ?
+         ORDER BY created_at DESC, rowid DESC
+         LIMIT ?`,
+        [taskId, limit]
+      )
+      .map((entry) => ({
+        ...entry,
+        changes:
+          typeof entry.changes === "string"
+            ? JSON.parse(entry.changes)
+            : entry.changes,
+      }));
+  }
+
+  /**
+   * Roll a task back to the version recorded by a history entry: every
+   * change logged after the entry is undone, including label and subtask
+   * changes. The rollback itself is logged as a new entry, by `actorId`.
+   */
+  public async restoreTaskVersion(
+    taskId: string,
+    entryId: string,
+    userId: string,
+    actorId: string = userId
+  ): Promise<Task> {
+    const task: any = this.getOwnedTask(taskId, userId);
+
+    const entry = this.db.get<any>(
+      "SELECT rowid, * FROM task_history WHERE id = ? AND task_id = ?",
+      [entryId, taskId]
+    );
+    if (!entry) {
+      throw new NotFoundError(
+        `History entry ${entryId} not found for task ${taskId}`
+      );
+    }
+
+    // Walk newer entries from the latest back, so each field ends up with
+    // the value it had right after the entry
+    const target: Record<string, unknown> = {};
+    const newerEntries = this.db.query<any>(
+      `SELECT changes FROM task_history
+       WHERE task_id = ? AND (created_at > ? OR (created_at = ? AND rowid > ?))
+       ORDER BY created_at DESC, rowid DESC`,
+      [taskId, entry.created_at, entry.created_at, entry.rowid]
+    );
+    for (const newer of newerEntries) {
+      for (const [key, change] of Object.entries(
+        this.parseHistoryDiff(newer.changes)
+      )) {
+        target[key] = change.before;
+      }
+    }
+
+    if (typeof target.listId === "string" && target.listId !== task.list_id) {
+      const list = this.db.get<any>(
+        "SELECT id FROM lists WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+        [target.listId, userId]
+      );
+      if (!list) {
+        throw new ValidationError(
+          `Cannot restore task to list ${target.listId}; the list no longer exists`
+        );
+      }
+    }
+
+    this.db.transaction(() => {
+      const taskUpdates: Record<string, unknown> = {};
+      for (const field of Object.keys(TASK_COLUMNS)) {
+        if (field in target) {
+          taskUpdates[field] = target[field];
+        }
+      }
+
+      const diff = this.writeTaskFields(task, taskUpdates);
+
+      if (Array.isArray(target.labelIds)) {
+        Object.assign(diff, this.writeTaskLabels(taskId, target.labelIds));
+      }
+
+      for (const [key, snapshot] of Object.entries(target)) {
+        if (key.startsWith("subtask:")) {
+          Object.assign(
+            diff,
+            this.writeSubtask(
+              taskId,
+              key.slice("subtask:".length),
+              snapshot as SubtaskSnapshot | null
+            )
+          );
+        }
+      }
+
+      if (Object.keys(diff).length > 0) {
+        this.recordTaskChange(
+          taskId,
+          actorId,
+          diff,
+          `Restored version from ${entry.created_at}`,
+          { restoredFrom: entryId }
+        );
+      }
+    });
+
+    return this.db.get<Task>("SELECT * FROM tasks WHERE id = ?", [taskId])!;
+  }
+
+  /**
+   * Record an update to a task, with the history action matching its
+   * status change. Call inside the transaction making the change.
+   */
+  private recordTaskChange(
+    taskId: string,
+    changedBy: string,
+    diff: TaskHistoryDiff,
+    description: string,
+    details: Record<string, any> = {}
+  ): void {
+    this.recordTaskEvent(
+      "TaskUpdated",
+      taskId,
+      changedBy,
+      { ...details, diff },
+      description
+    );
+  }
+
+  /**
+   * Read the diff of a history entry. Entries logged before diffs were
+   * recorded hold a single `{ field, oldValue, newValue }` change.
+   */
+  private parseHistoryDiff(changes: unknown): TaskHistoryDiff {
+    const parsed: any =
+      typeof changes === "string" ? JSON.parse(changes) : changes;
+
+    if (parsed?.diff) {
+      return parsed.diff;
+    }
+    if (parsed?.field && parsed.field in TASK_COLUMNS) {
+      return {
+        [parsed.field]: { before: parsed.oldValue, after: parsed.newValue },
+      };
+    }
+    return {};
+  }
+
+  /**
+   * Set the labels of a task, keeping only labels that still exist
+   */
+  private writeTaskLabels(taskId: string, labelIds: string[]): TaskHistoryDiff {
+    const before = this.getTaskLabelIds(taskId);
+
+    for (const labelId of before.filter((id) => !labelIds.includes(id))) {
+      this.db.run("DELETE FROM task_labels WHERE task_id = ? AND label_id = ?", [
+        taskId,
+        labelId,
+      ]);
+    }
+
+    const now = new Date();
+    for (const labelId of labelIds.filter((id) => !before.includes(id))) {
+      this.db.run(
+        `INSERT OR IGNORE INTO task_labels (task_id, label_id, created_at)
+         SELECT ?, id, ? FROM labels WHERE id = ?`,
+        [taskId, now, labelId]
+      );
+    }
+
+    const after = this.getTaskLabelIds(taskId);
+    return JSON.stringify(before) === JSON.stringify(after)
+      ? {}
+      : { labelIds: { before, after } };
+  }
+
+  /**
+   * Bring a subtask to a snapshot, creating or deleting it as needed
+   */
+  private writeSubtask(
+    taskId: string,
+    subtaskId: string,
+    snapshot: SubtaskSnapshot | null
+  ): TaskHistoryDiff {
+    const current = this.db.get<any>(
+      "SELECT * FROM subtasks WHERE id = ? AND task_id = ?",
+      [subtaskId, taskId]
+    );
+    const before = current ? this.toSubtaskSnapshot(current) : null;
+
+    if (JSON.stringify(before) === JSON.stringify(snapshot)) {
+      return {};
+    }
+
+    const now = new Date();
+    if (!snapshot) {
+      this.db.run("DELETE FROM subtasks WHERE id = ?", [subtaskId]);
+    } else if (!current) {
+      this.db.run(
+        "INSERT INTO subtasks (id, name, is_completed, task_id, position, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        [
+          subtaskId,
+          snapshot.name,
+          snapshot.isCompleted ? 1 : 0,
+          taskId,
+          snapshot.position,
+          now,
+          now,
+        ]
+      );
+    } else {
+      this.db.run(
+        "UPDATE subtasks SET name = ?, is_completed = ?, position = ?, updated_at = ? WHERE id = ?",
+        [
+          snapshot.name,
+          snapshot.isCompleted ? 1 : 0,
+          snapshot.position,
+          now,
+          subtaskId,
+        ]
+      );
+    }
+
+    return { [`subtask:${subtaskId}`]: { before, after: snapshot } };
+  }
+
+  // =================== TRASH OPERATIONS ===================
+
+  /**
+   * Get a user's trashed items. Tasks trashed together with their list or
+   * parent task are omitted, since restoring that item restores them too.
+   */
+  public async getTrash(userId: string): Promise<TrashContents> {
+    const tasks = this.db.query<Task>(
+      `SELECT t.* FROM tasks t
+       JOIN lists l ON l.id = t.list_id
+       LEFT JOIN tasks p ON p.id = t.parent_task_id
+       WHERE t.user_id = ? AND t.deleted_at IS NOT NULL
+         AND (l.deleted_at IS NULL OR l.deleted_at != t.deleted_at)
+         AND (p.deleted_at IS NULL OR p.deleted_at != t.deleted_at)
+       ORDER BY t.deleted_at DESC`,
+      [userId]
+    );
+
+    const lists = this.db.query<List>(
+      `SELECT * FROM lists
+       WHERE user_id = ? AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC`,
+      [userId]
     );
+
+    const labels = this.db.query<Label>(
+      `SELECT * FROM labels
+       WHERE user_id = ? AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC`,
+      [userId]
+    );
+
+    return { tasks, lists, labels };
+  }
+
+  /**
+   * Permanently delete trashed items older than the retention period
+   * (defaults to the configured `trashRetentionDays`)
+   */
+  public async purgeTrash(
+    retentionDays?: number,
+    userId?: string
+  ): Promise<TrashPurgeResult> {
+    return this.db.purgeTrash(retentionDays, userId);
   }
 
   // =================== HEALTH AND MAINTENANCE ===================
@@ -792,6 +6242,13 @@ export class DatabaseAPI {
     await this.migrationManager.runMigrations();
   }
 
+  /**
+   * Roll back migrations newer than `toId`
+   */
+  public async rollbackMigrations(toId: number) {
+    await this.migrationManager.rollback(toId);
+  }
+
   /**
    * Optimize database
    */
@@ -800,10 +6257,24 @@ export class DatabaseAPI {
   }
 
   /**
-   * Create backup
+   * Create a verified backup
+   */
+  public async createBackup(backupPath?: string): Promise<BackupInfo> {
+    return this.db.createBackup(backupPath);
+  }
+
+  /**
+   * List backups, newest first
+   */
+  public listBackups(): BackupInfo[] {
+    return this.db.listBackups();
+  }
+
+  /**
+   * Restore the database from a backup
    */
-  public async createBackup(backupPath?: string) {
-    await this.db.createBackup(backupPath);
+  public async restoreBackup(backupId: string): Promise<BackupRestoreResult> {
+    return this.db.restoreBackup(backupId);
   }
 
   // =================== UTILITY METHODS ===================
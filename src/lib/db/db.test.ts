@@ -3,25 +3,15 @@
  * Tests for database operations, schema validation, and data integrity
  */
 
-import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
-import Database from 'better-sqlite3';
-import { 
-  createTestDatabaseAPI, 
-  DatabaseTestHelpers,
-  TestDataFixtures 
-} from './api';
-import { 
-  createTaskSchema,
-  createListSchema,
-  createLabelSchema 
-} from './schema';
-import { 
-  TaskId, 
-  ListId, 
-  LabelId, 
-  ApiError 
-} from '../../types/utils';
-import { TEST_DATA } from '../../test/setup';
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import fs from 'fs';
+import path from 'path';
+import { createTestDatabaseAPI, TestDataFixtures } from './api';
+import type { DatabaseTestHelpers } from './test-utils';
+import type { Task } from './types';
+import { MigrationManager } from './utils';
+import { MIGRATIONS } from './schema';
+import { subscribeDomainEvents, type RecordedDomainEvent, type TaskEvent } from '../events';
 
 // Test database configuration
 const TEST_DB_PATH = './test-data/db-test.db';
@@ -40,8 +30,8 @@ describe('Database Layer', () => {
     dbHelper = testAPI.testHelpers;
     
     // Initialize database with schema
-    await testAPI.api.runMigrations();
     await testAPI.api.getDatabase().initialize();
+    await testAPI.api.runMigrations();
   });
 
   afterAll(async () => {
@@ -49,64 +39,106 @@ describe('Database Layer', () => {
     await testAPI.testManager.cleanup();
   });
 
+  /**
+   * Insert a user with a default list, for tests creating their own data
+   */
+  const createUserWithList = async (userId: string) => {
+    testAPI.api.run('INSERT INTO users (id, name, email) VALUES (?, ?, ?)', [
+      userId,
+      'Test User',
+      `${userId}@example.com`,
+    ]);
+    return testAPI.api.createList({
+      name: 'Inbox',
+      color: '#3b82f6',
+      emoji: '📥',
+      isDefault: true,
+      isFavorite: false,
+      position: 0,
+      userId,
+    });
+  };
+
+  /**
+   * Data for a new task, with the fields every task needs
+   */
+  const newTask = (
+    userId: string,
+    listId: string,
+    overrides: Partial<Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'customFields'>> = {}
+  ) => ({
+    name: 'Test Task',
+    userId,
+    listId,
+    status: 'todo' as const,
+    priority: 'None' as const,
+    position: 0,
+    isRecurring: false,
+    ...overrides,
+  });
+
   describe('Database Schema', () => {
+    const columns = (table: string) =>
+      new Map(
+        testAPI.api
+          .query<{ name: string; notnull: number }>(`PRAGMA table_info(${table})`)
+          .map(column => [column.name, column])
+      );
+
     test('should create tasks table with correct schema', () => {
-      const schema = createTaskSchema();
+      const schema = columns('tasks');
       
-      expect(schema.name).toBe('tasks');
-      expect(schema.columns).toHaveProperty('id');
-      expect(schema.columns).toHaveProperty('name');
-      expect(schema.columns).toHaveProperty('user_id');
-      expect(schema.columns).toHaveProperty('status');
-      expect(schema.columns).toHaveProperty('priority');
+      expect(schema.has('id')).toBe(true);
+      expect(schema.has('name')).toBe(true);
+      expect(schema.has('user_id')).toBe(true);
+      expect(schema.has('status')).toBe(true);
+      expect(schema.has('priority')).toBe(true);
       
       // Test column constraints
-      expect(schema.columns.id.notNull).toBe(true);
-      expect(schema.columns.name.notNull).toBe(true);
-      expect(schema.columns.user_id.notNull).toBe(true);
+      expect(schema.get('name')!.notnull).toBe(1);
+      expect(schema.get('user_id')!.notnull).toBe(1);
     });
 
     test('should create lists table with correct schema', () => {
-      const schema = createListSchema();
+      const schema = columns('lists');
       
-      expect(schema.name).toBe('lists');
-      expect(schema.columns).toHaveProperty('id');
-      expect(schema.columns).toHaveProperty('name');
-      expect(schema.columns).toHaveProperty('user_id');
-      expect(schema.columns).toHaveProperty('task_count');
+      expect(schema.has('id')).toBe(true);
+      expect(schema.has('name')).toBe(true);
+      expect(schema.has('user_id')).toBe(true);
+      expect(schema.has('deleted_at')).toBe(true);
       
-      expect(schema.columns.id.notNull).toBe(true);
-      expect(schema.columns.name.notNull).toBe(true);
-      expect(schema.columns.user_id.notNull).toBe(true);
+      expect(schema.get('name')!.notnull).toBe(1);
+      expect(schema.get('user_id')!.notnull).toBe(1);
     });
 
     test('should create labels table with correct schema', () => {
-      const schema = createLabelSchema();
+      const schema = columns('labels');
       
-      expect(schema.name).toBe('labels');
-      expect(schema.columns).toHaveProperty('id');
-      expect(schema.columns).toHaveProperty('name');
-      expect(schema.columns).toHaveProperty('user_id');
-      expect(schema.columns).toHaveProperty('color');
-      expect(schema.columns).toHaveProperty('task_count');
+      expect(schema.has('id')).toBe(true);
+      expect(schema.has('name')).toBe(true);
+      expect(schema.has('user_id')).toBe(true);
+      expect(schema.has('color')).toBe(true);
+      expect(schema.has('deleted_at')).toBe(true);
     });
   });
 
   describe('Database API - Tasks', () => {
     const testUserId = 'test-user-1';
-    const testListId = 'test-list-1';
+    let testListId: string;
+
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+      testListId = (await createUserWithList(testUserId)).id;
+    });
 
     test('should create a new task', async () => {
-      const taskData = {
+      const taskData = newTask(testUserId, testListId, {
         name: 'Test Task Creation',
         description: 'Testing task creation functionality',
-        userId: testUserId,
-        listId: testListId,
-        status: 'todo' as const,
-        priority: 'Medium' as const,
+        priority: 'Medium',
         date: new Date(),
-        estimate: 60
-      };
+        estimate: '01:00'
+      });
 
       const createdTask = await testAPI.api.createTask(taskData);
       
@@ -122,27 +154,30 @@ describe('Database Layer', () => {
       expect(createdTask.updatedAt).toBeInstanceOf(Date);
 
       // Verify task exists in database
-      const retrievedTask = await testAPI.api.getTaskWithDetails(createdTask.id);
-      expect(retrievedTask).toEqual(createdTask);
+      const retrievedTask = await testAPI.api.getTaskWithDetails(createdTask.id, testUserId);
+      expect(retrievedTask).toMatchObject({
+        id: createdTask.id,
+        name: taskData.name,
+        description: taskData.description,
+        estimate: '01:00',
+      });
     });
 
     test('should retrieve user tasks with filtering', async () => {
       // Create multiple tasks
-      const task1 = await testAPI.api.createTask({
+      const task1 = await testAPI.api.createTask(newTask(testUserId, testListId, {
         name: 'High Priority Task',
         description: 'Test high priority',
-        userId: testUserId,
         status: 'todo',
         priority: 'High'
-      });
+      }));
 
-      const task2 = await testAPI.api.createTask({
+      const task2 = await testAPI.api.createTask(newTask(testUserId, testListId, {
         name: 'Medium Priority Task',
         description: 'Test medium priority',
-        userId: testUserId,
-        status: 'in-progress',
+        status: 'in_progress',
         priority: 'Medium'
-      });
+      }));
 
       // Test basic retrieval
       const allTasks = await testAPI.api.getUserTasks(testUserId);
@@ -152,95 +187,137 @@ describe('Database Layer', () => {
 
       // Test status filtering
       const todoTasks = await testAPI.api.getUserTasks(testUserId, {
-        status: ['todo']
+        status: 'todo'
       });
       expect(todoTasks).toHaveLength(1);
       expect(todoTasks[0].id).toBe(task1.id);
 
       // Test priority filtering
       const highPriorityTasks = await testAPI.api.getUserTasks(testUserId, {
-        priority: ['High']
+        priority: 'High'
       });
       expect(highPriorityTasks).toHaveLength(1);
       expect(highPriorityTasks[0].id).toBe(task1.id);
     });
 
+    test('should filter by labels and load only included relations', async () => {
+      await testAPI.testManager.clean();
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const labelId = dataset.labels[0].id;
+
+      const labelled = await testAPI.api.getUserTasks(
+        userId,
+        { labelIds: [labelId] },
+        { include: ['labels'] }
+      );
+      expect(labelled.length).toBeGreaterThan(0);
+      labelled.forEach(task => {
+        expect(task.labels!.map(l => l.id)).toContain(labelId);
+        expect(task.subtasks).toBeUndefined();
+        expect(task.attachments).toBeUndefined();
+      });
+
+      const unknownLabel = await testAPI.api.getUserTasks(userId, { labelIds: ['missing-label'] });
+      expect(unknownLabel).toHaveLength(0);
+
+      const withAllRelations = await testAPI.api.getUserTasks(userId);
+      withAllRelations.forEach(task => {
+        expect(task.subtasks).toBeInstanceOf(Array);
+        expect(task.reminders).toBeInstanceOf(Array);
+      });
+    });
+
     test('should update existing task', async () => {
       // Create task first
-      const task = await testAPI.api.createTask({
+      const task = await testAPI.api.createTask(newTask(testUserId, testListId, {
         name: 'Original Task',
         description: 'Original description',
-        userId: testUserId,
         status: 'todo'
-      });
+      }));
 
       // Update task
       const updateData = {
-        id: task.id,
         name: 'Updated Task Name',
         description: 'Updated description',
-        status: 'in-progress',
+        status: 'in_progress' as const,
         priority: 'High' as const
       };
 
+      await new Promise(resolve => setTimeout(resolve, 5));
       const updatedTask = await testAPI.api.updateTask(task.id, updateData, testUserId);
       
       expect(updatedTask.name).toBe('Updated Task Name');
       expect(updatedTask.description).toBe('Updated description');
-      expect(updatedTask.status).toBe('in-progress');
+      expect(updatedTask.status).toBe('in_progress');
       expect(updatedTask.priority).toBe('High');
-      expect(updatedTask.updatedAt.getTime()).toBeGreaterThan(task.updatedAt.getTime());
+      // The updated row is returned as stored
+      const updatedAt = (updatedTask as any).updated_at as string;
+      expect(updatedAt).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
+      expect(new Date(updatedAt).getTime()).toBeGreaterThan(task.updatedAt.getTime());
 
       // Verify update in database
-      const retrievedTask = await testAPI.api.getTaskWithDetails(task.id);
-      expect(retrievedTask.name).toBe('Updated Task Name');
-      expect(retrievedTask.description).toBe('Updated description');
+      const retrievedTask = await testAPI.api.getTaskWithDetails(task.id, testUserId);
+      expect(retrievedTask!.name).toBe('Updated Task Name');
+      expect(retrievedTask!.description).toBe('Updated description');
     });
 
     test('should delete task', async () => {
       // Create task first
-      const task = await testAPI.api.createTask({
-        name: 'Task to Delete',
-        userId: testUserId
-      });
+      const task = await testAPI.api.createTask(newTask(testUserId, testListId, {
+        name: 'Task to Delete'
+      }));
 
       // Verify task exists
-      let retrievedTask = await testAPI.api.getTaskWithDetails(task.id);
-      expect(retrievedTask).toBeDefined();
+      let retrievedTask = await testAPI.api.getTaskWithDetails(task.id, testUserId);
+      expect(retrievedTask).not.toBeNull();
 
       // Delete task
       await testAPI.api.deleteTask(task.id, testUserId);
 
       // Verify task is deleted
-      retrievedTask = await testAPI.api.getTaskWithDetails(task.id);
+      retrievedTask = await testAPI.api.getTaskWithDetails(task.id, testUserId);
       expect(retrievedTask).toBeNull();
     });
 
     test('should handle task validation errors', async () => {
       // Test with invalid data
-      await expect(testAPI.api.createTask({
-        name: '', // Empty name should fail
-        userId: testUserId
-      })).rejects.toThrow();
+      await expect(testAPI.api.createTask(newTask(testUserId, testListId, {
+        name: '' // Empty name should fail
+      }))).rejects.toThrow();
 
-      await expect(testAPI.api.createTask({
-        name: 'Valid Name',
-        userId: '', // Empty user ID should fail
-      })).rejects.toThrow();
+      await expect(testAPI.api.createTask(newTask('', testListId, {
+        name: 'Valid Name' // Empty user ID should fail
+      }))).rejects.toThrow();
     });
   });
 
   describe('Database API - Lists', () => {
     const testUserId = 'test-user-1';
 
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+      await createUserWithList(testUserId);
+    });
+
+    const newList = (name: string, overrides: { description?: string; color?: string; emoji?: string } = {}) => ({
+      name,
+      color: '#6b7280',
+      emoji: '📋',
+      isDefault: false,
+      isFavorite: false,
+      position: 1,
+      userId: testUserId,
+      ...overrides,
+    });
+
     test('should create a new list', async () => {
-      const listData = {
-        name: 'Test List',
+      const listData = newList('Test List', {
         description: 'Testing list creation',
-        userId: testUserId,
         color: '#3b82f6',
-        icon: 'briefcase'
-      };
+        emoji: '💼'
+      });
 
       const createdList = await testAPI.api.createList(listData);
       
@@ -250,74 +327,51 @@ describe('Database Layer', () => {
       expect(createdList.description).toBe(listData.description);
       expect(createdList.userId).toBe(testUserId);
       expect(createdList.color).toBe('#3b82f6');
-      expect(createdList.icon).toBe('briefcase');
-      expect(createdList.taskCount).toBe(0);
+      expect(createdList.emoji).toBe('💼');
 
       // Verify list exists in database
-      const retrievedList = await testAPI.api.getListWithDetails(createdList.id);
-      expect(retrievedList).toEqual(createdList);
+      const retrievedList = await testAPI.api.getList(createdList.id, testUserId);
+      expect(retrievedList).toMatchObject({ id: createdList.id, name: 'Test List', color: '#3b82f6' });
+      const [withCount] = (await testAPI.api.getUserListsWithCounts(testUserId))
+        .filter(list => list.id === createdList.id);
+      expect(withCount.taskCount).toBe(0);
     });
 
     test('should retrieve user lists', async () => {
       // Create multiple lists
-      const list1 = await testAPI.api.createList({
-        name: 'Work List',
-        userId: testUserId
-      });
+      const list1 = await testAPI.api.createList(newList('Work List'));
 
-      const list2 = await testAPI.api.createList({
-        name: 'Personal List',
-        userId: testUserId
-      });
+      const list2 = await testAPI.api.createList(newList('Personal List'));
 
-      // Retrieve all lists
+      // Retrieve all lists, including the default one
       const allLists = await testAPI.api.getUserLists(testUserId);
-      expect(allLists).toHaveLength(2);
+      expect(allLists).toHaveLength(3);
       expect(allLists.map(l => l.id)).toContain(list1.id);
       expect(allLists.map(l => l.id)).toContain(list2.id);
     });
 
-    test('should update existing list', async () => {
-      // Create list first
-      const list = await testAPI.api.createList({
-        name: 'Original List',
-        description: 'Original description',
-        userId: testUserId
-      });
+    test('should reject a second list with the same name', async () => {
+      await testAPI.api.createList(newList('Work List'));
 
-      // Update list
-      const updateData = {
-        id: list.id,
-        name: 'Updated List Name',
-        description: 'Updated description',
-        color: '#10b981',
-        icon: 'user'
-      };
-
-      const updatedList = await testAPI.api.updateList(list.id, updateData, testUserId);
-      
-      expect(updatedList.name).toBe('Updated List Name');
-      expect(updatedList.description).toBe('Updated description');
-      expect(updatedList.color).toBe('#10b981');
-      expect(updatedList.icon).toBe('user');
+      await expect(testAPI.api.createList(newList('Work List'))).rejects.toThrow(/already exists/);
     });
 
+    // DatabaseAPI has no list update yet
+    test.todo('should update existing list');
+
     test('should delete list', async () => {
       // Create list first
-      const list = await testAPI.api.createList({
-        name: 'List to Delete',
-        userId: testUserId
-      });
+      const list = await testAPI.api.createList(newList('List to Delete'));
 
       // Verify list exists
-      let retrievedList = await testAPI.api.getListWithDetails(list.id);
-      expect(retrievedList).toBeDefined();
+      let retrievedList = await testAPI.api.getList(list.id, testUserId);
+      expect(retrievedList).not.toBeNull();
 
       // Delete list
       await testAPI.api.deleteList(list.id, testUserId);
 
       // Verify list is deleted
-      retrievedList = await testAPI.api.getListWithDetails(list.id);
+      retrievedList = await testAPI.api.getList(list.id, testUserId);
       expect(retrievedList).toBeNull();
     });
   });
@@ -325,12 +379,20 @@ describe('Database Layer', () => {
   describe('Database API - Labels', () => {
     const testUserId = 'test-user-1';
 
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+      await createUserWithList(testUserId);
+    });
+
+    const newLabel = (name: string, color: string) => ({
+      name,
+      color,
+      icon: 'tag',
+      userId: testUserId,
+    });
+
     test('should create a new label', async () => {
-      const labelData = {
-        name: 'Test Label',
-        color: '#ef4444',
-        userId: testUserId
-      };
+      const labelData = newLabel('Test Label', '#ef4444');
 
       const createdLabel = await testAPI.api.createLabel(labelData);
       
@@ -339,22 +401,15 @@ describe('Database Layer', () => {
       expect(createdLabel.name).toBe(labelData.name);
       expect(createdLabel.color).toBe(labelData.color);
       expect(createdLabel.userId).toBe(testUserId);
-      expect(createdLabel.taskCount).toBe(0);
+      const [withCount] = await testAPI.api.getUserLabelsWithCounts(testUserId);
+      expect(withCount.taskCount).toBe(0);
     });
 
     test('should retrieve user labels with counts', async () => {
       // Create labels
-      const label1 = await testAPI.api.createLabel({
-        name: 'Urgent',
-        color: '#ef4444',
-        userId: testUserId
-      });
+      await testAPI.api.createLabel(newLabel('Urgent', '#ef4444'));
 
-      const label2 = await testAPI.api.createLabel({
-        name: 'Important',
-        color: '#f59e0b',
-        userId: testUserId
-      });
+      await testAPI.api.createLabel(newLabel('Important', '#f59e0b'));
 
       // Retrieve labels with counts
       const labels = await testAPI.api.getUserLabelsWithCounts(testUserId);
@@ -365,15 +420,10 @@ describe('Database Layer', () => {
 
     test('should update existing label', async () => {
       // Create label first
-      const label = await testAPI.api.createLabel({
-        name: 'Original Label',
-        color: '#6b7280',
-        userId: testUserId
-      });
+      const label = await testAPI.api.createLabel(newLabel('Original Label', '#6b7280'));
 
       // Update label
       const updateData = {
-        id: label.id,
         name: 'Updated Label Name',
         color: '#059669'
       };
@@ -386,66 +436,70 @@ describe('Database Layer', () => {
 
     test('should delete label', async () => {
       // Create label first
-      const label = await testAPI.api.createLabel({
-        name: 'Label to Delete',
-        color: '#6b7280',
-        userId: testUserId
-      });
+      const label = await testAPI.api.createLabel(newLabel('Label to Delete', '#6b7280'));
 
       // Verify label exists
-      let retrievedLabel = await testAPI.api.getLabelWithDetails(label.id);
-      expect(retrievedLabel).toBeDefined();
+      const labelIds = async () =>
+        (await testAPI.api.getUserLabelsWithCounts(testUserId)).map(l => l.id);
+      expect(await labelIds()).toContain(label.id);
 
       // Delete label
       await testAPI.api.deleteLabel(label.id, testUserId);
 
       // Verify label is deleted
-      retrievedLabel = await testAPI.api.getLabelWithDetails(label.id);
-      expect(retrievedLabel).toBeNull();
+      expect(await labelIds()).not.toContain(label.id);
     });
   });
 
   describe('Database Integrity', () => {
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+    });
+
     test('should maintain referential integrity', async () => {
       const userId = 'test-user-integrity';
+      await createUserWithList(userId);
       
       // Create a list
       const list = await testAPI.api.createList({
         name: 'Test List',
+        color: '#3b82f6',
+        emoji: '📋',
+        isDefault: false,
+        isFavorite: false,
+        position: 1,
         userId
       });
 
       // Create a task associated with the list
-      const task = await testAPI.api.createTask({
-        name: 'Test Task',
-        userId,
-        listId: list.id
-      });
+      const task = await testAPI.api.createTask(newTask(userId, list.id, {
+        name: 'Test Task'
+      }));
 
       // Verify task can be retrieved with list
-      const taskWithDetails = await testAPI.api.getTaskWithDetails(task.id);
-      expect(taskWithDetails.list).toBeDefined();
-      expect(taskWithDetails.list.id).toBe(list.id);
+      const taskWithDetails = await testAPI.api.getTaskWithDetails(task.id, userId);
+      expect(taskWithDetails!.list).toBeDefined();
+      expect(taskWithDetails!.list!.id).toBe(list.id);
 
       // When list is deleted, task should handle the deletion appropriately
       await testAPI.api.deleteList(list.id, userId);
 
       // Task should no longer exist or have null list
-      const deletedTask = await testAPI.api.getTaskWithDetails(task.id);
+      const deletedTask = await testAPI.api.getTaskWithDetails(task.id, userId);
       expect(deletedTask).toBeNull();
     });
 
     test('should handle concurrent operations', async () => {
       const userId = 'test-user-concurrent';
+      const { id: listId } = await createUserWithList(userId);
       const tasks = [];
 
       // Create multiple tasks concurrently
       for (let i = 0; i < 10; i++) {
-        tasks.push(testAPI.api.createTask({
+        tasks.push(testAPI.api.createTask(newTask(userId, listId, {
           name: `Concurrent Task ${i}`,
-          userId,
           status: 'todo'
-        }));
+        })));
       }
 
       const createdTasks = await Promise.all(tasks);
@@ -458,22 +512,27 @@ describe('Database Layer', () => {
   });
 
   describe('Database Performance', () => {
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+    });
+
     test('should handle large datasets efficiently', async () => {
       const userId = 'test-user-performance';
+      const { id: listId } = await createUserWithList(userId);
       const taskCount = 100;
+      const priorities = ['Low', 'Medium', 'High'] as const;
       
       const startTime = Date.now();
 
       // Create many tasks
       const tasks = [];
       for (let i = 0; i < taskCount; i++) {
-        tasks.push(testAPI.api.createTask({
+        tasks.push(testAPI.api.createTask(newTask(userId, listId, {
           name: `Performance Task ${i}`,
           description: `Description for task ${i}`,
-          userId,
           status: i % 3 === 0 ? 'done' : 'todo',
-          priority: ['Low', 'Medium', 'High'][i % 3]
-        }));
+          priority: priorities[i % 3]
+        })));
       }
 
       await Promise.all(tasks);
@@ -492,38 +551,25 @@ describe('Database Layer', () => {
 
     test('should handle complex queries efficiently', async () => {
       const userId = 'test-user-complex-queries';
-      
-      // Create test data
-      await testAPI.api.createList({
-        name: 'Work List',
-        userId
-      });
-
-      await testAPI.api.createList({
-        name: 'Personal List',
-        userId
-      });
+      const { id: listId } = await createUserWithList(userId);
 
       // Create tasks with various statuses and priorities
       const tasks = [
         { name: 'Task 1', status: 'todo', priority: 'High' },
-        { name: 'Task 2', status: 'in-progress', priority: 'Medium' },
+        { name: 'Task 2', status: 'in_progress', priority: 'Medium' },
         { name: 'Task 3', status: 'done', priority: 'Low' },
         { name: 'Task 4', status: 'todo', priority: 'High' },
         { name: 'Task 5', status: 'done', priority: 'Medium' },
-      ];
+      ] as const;
 
       for (const taskData of tasks) {
-        await testAPI.api.createTask({
-          ...taskData,
-          userId
-        });
+        await testAPI.api.createTask(newTask(userId, listId, taskData));
       }
 
       // Test complex filtering
       const highPriorityTodos = await testAPI.api.getUserTasks(userId, {
-        status: ['todo'],
-        priority: ['High']
+        status: 'todo',
+        priority: 'High'
       });
 
       expect(highPriorityTodos).toHaveLength(2);
@@ -534,27 +580,397 @@ describe('Database Layer', () => {
     });
   });
 
+  describe('Recurring Tasks', () => {
+    // Each test inserts the fixture dataset
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+    });
+
+    test('should spawn the next occurrence when a recurring task is completed', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [task] = await testAPI.api.getUserTasks(userId, { search: 'groceries' });
+
+      await testAPI.api.updateTask(task.id, {
+        date: new Date(2026, 0, 5, 9),
+        isRecurring: true,
+        recurringPattern: { type: 'weekly', interval: 1, daysOfWeek: [1], maxOccurrences: 2 },
+      }, userId);
+      await testAPI.api.updateTask(task.id, { status: 'done' }, userId);
+
+      const next = (await testAPI.api.getUserTasks(userId, { status: 'todo' }))
+        .find(t => t.name === task.name)!;
+      expect(next).toBeDefined();
+      expect(new Date(next.date!)).toEqual(new Date(2026, 0, 12, 9));
+      expect(next.labels!.map(l => l.id).sort()).toEqual(task.labels!.map(l => l.id).sort());
+      expect(next.subtasks).toHaveLength(task.subtasks!.length);
+      expect(next.subtasks!.every(st => !(st as any).is_completed)).toBe(true);
+
+      // The series ends after maxOccurrences
+      await testAPI.api.updateTask(next.id, { status: 'done' }, userId);
+      const remaining = (await testAPI.api.getUserTasks(userId, { status: 'todo' }))
+        .filter(t => t.name === task.name);
+      expect(remaining).toHaveLength(0);
+    });
+  });
+
+  describe('Task History', () => {
+    // Each test inserts the fixture dataset
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+    });
+
+    test('should record a before/after diff for task, label and subtask changes', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [task] = await testAPI.api.getUserTasks(userId, { search: 'groceries' });
+
+      await testAPI.api.updateTask(task.id, { name: 'Buy more groceries', priority: 'Low' }, userId);
+      await testAPI.api.removeLabelFromTask(task.id, task.labels![0].id, userId);
+      await testAPI.api.createSubtask({ name: 'Buy eggs', isCompleted: false, taskId: task.id, position: 3 }, userId);
+
+      const [subtaskEntry, labelEntry, updateEntry] = await testAPI.api.getTaskHistory(task.id, userId);
+      expect(updateEntry.changes.diff).toEqual({
+        name: { before: 'Buy groceries', after: 'Buy more groceries' },
+        priority: { before: task.priority, after: 'Low' },
+      });
+      expect(labelEntry.changes.diff.labelIds.after).not.toContain(task.labels![0].id);
+      expect(Object.values(subtaskEntry.changes.diff)[0]).toMatchObject({ before: null });
+    });
+
+    test('should restore a task to the version of a history entry', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [task] = await testAPI.api.getUserTasks(userId, { search: 'groceries' });
+
+      await testAPI.api.updateTask(task.id, { name: 'Renamed' }, userId);
+      const [renamed] = await testAPI.api.getTaskHistory(task.id, userId);
+      await testAPI.api.updateTask(task.id, { name: 'Renamed again', status: 'done' }, userId);
+      await testAPI.api.removeLabelFromTask(task.id, task.labels![0].id, userId);
+
+      await testAPI.api.restoreTaskVersion(task.id, renamed.id, userId);
+
+      const restored = await testAPI.api.getTaskWithDetails(task.id, userId);
+      expect(restored!.name).toBe('Renamed');
+      expect(restored!.status).toBe(task.status);
+      expect(restored!.labels!.map(l => l.id).sort()).toEqual(task.labels!.map(l => l.id).sort());
+    });
+  });
+
+  describe('Task Dependencies', () => {
+    // Each test inserts the fixture dataset
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+    });
+
+    test('should mark tasks blocked until their blockers are done', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [first, second] = await testAPI.api.getUserTasks(userId);
+
+      await testAPI.api.addTaskDependency(second.id, first.id, userId);
+      expect((await testAPI.api.getTaskWithDetails(second.id, userId))!.isBlocked).toBe(true);
+      expect((await testAPI.api.getTaskDependencies(first.id, userId)).blocks.map(t => t.id))
+        .toEqual([second.id]);
+
+      await testAPI.api.updateTask(first.id, { status: 'done' }, userId);
+      expect((await testAPI.api.getTaskWithDetails(second.id, userId))!.isBlocked).toBe(false);
+
+      const history = await testAPI.api.getTaskHistory(second.id, userId);
+      expect(history.some(entry => entry.description === `Task unblocked: ${second.name}`)).toBe(true);
+    });
+
+    test('should reject dependency cycles', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [first, second] = await testAPI.api.getUserTasks(userId);
+
+      await testAPI.api.addTaskDependency(second.id, first.id, userId);
+      await expect(testAPI.api.addTaskDependency(first.id, second.id, userId))
+        .rejects.toThrow(/cycle/);
+      await expect(testAPI.api.addTaskDependency(first.id, first.id, userId))
+        .rejects.toThrow(/itself/);
+    });
+  });
+
+  describe('Search', () => {
+    const userId = 'search-user';
+    let listId: string;
+
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+      listId = (await createUserWithList(userId)).id;
+    });
+
+    test('should escape task text around the highlight tags', async () => {
+      await testAPI.api.createTask(
+        newTask(userId, listId, { name: '<img src=x onerror=alert(1)> report & "notes"' })
+      );
+
+      const { results } = await testAPI.api.searchTasks(userId, 'report');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].highlights.name).toEqual([
+        '&lt;img src=x onerror=alert(1)&gt; <mark>report</mark> &amp; &quot;notes&quot;',
+      ]);
+      expect(results[0].snippet).toContain('<mark>report</mark>');
+      expect(results[0].snippet).not.toContain('<img');
+    });
+
+    test('should not match labels in the trash', async () => {
+      const task = await testAPI.api.createTask(newTask(userId, listId, { name: 'Plan trip' }));
+      const label = await testAPI.api.createLabel({
+        name: 'Holiday',
+        color: '#22c55e',
+        icon: 'tag',
+        userId,
+      });
+      await testAPI.api.addLabelToTask(task.id, label.id, userId);
+      expect((await testAPI.api.searchTasks(userId, 'holiday')).total).toBe(1);
+
+      await testAPI.api.deleteLabel(label.id, userId);
+      expect((await testAPI.api.searchTasks(userId, 'holiday')).total).toBe(0);
+
+      await testAPI.api.restoreLabel(label.id, userId);
+      expect((await testAPI.api.searchTasks(userId, 'holiday')).total).toBe(1);
+    });
+  });
+
+  describe('Domain Events', () => {
+    const userId = 'events-user';
+    let listId: string;
+
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+      listId = (await createUserWithList(userId)).id;
+      await testAPI.api.dispatchEvents();
+    });
+
+    const taskCreatedRows = () =>
+      testAPI.api.query<{ attempts: number; dispatched_at: string | null }>(
+        "SELECT attempts, dispatched_at FROM domain_events WHERE type = 'TaskCreated'"
+      );
+
+    test('should hand an event over again once the lease of a failed dispatch ends', async () => {
+      const received: string[] = [];
+      let failing = true;
+      const consoleError = console.error;
+      console.error = () => {};
+      const unsubscribe = subscribeDomainEvents((event) => {
+        if (event.type !== 'TaskCreated') return;
+        if (failing) throw new Error('Subscriber failed');
+        received.push(event.taskId);
+      });
+
+      try {
+        const task = await testAPI.api.createTask(newTask(userId, listId));
+        await testAPI.api.dispatchEvents();
+        expect(taskCreatedRows()).toEqual([{ attempts: 1, dispatched_at: null }]);
+
+        // Still claimed by the failed dispatch
+        await testAPI.api.dispatchEvents();
+        expect(taskCreatedRows()[0].attempts).toBe(1);
+
+        failing = false;
+        testAPI.api.run('UPDATE domain_events SET claimed_until = ?', [new Date()]);
+        await testAPI.api.dispatchEvents();
+
+        expect(received).toEqual([task.id]);
+        expect(taskCreatedRows()[0].dispatched_at).not.toBeNull();
+      } finally {
+        unsubscribe();
+        console.error = consoleError;
+      }
+    });
+
+    test('should queue a webhook delivery once for an event dispatched again', async () => {
+      await testAPI.api.createWebhook(
+        { url: 'https://example.com/hook', eventTypes: ['TaskCreated'] },
+        userId
+      );
+      const task = await testAPI.api.createTask(newTask(userId, listId));
+      const event: RecordedDomainEvent<TaskEvent> = {
+        id: 'event-1',
+        type: 'TaskCreated',
+        taskId: task.id,
+        listId,
+        userId,
+        actorId: userId,
+        occurredAt: new Date().toISOString(),
+      };
+
+      expect(await testAPI.api.queueWebhookDeliveries(event, {})).toHaveLength(1);
+      expect(await testAPI.api.queueWebhookDeliveries(event, {})).toHaveLength(0);
+    });
+  });
+
+  describe('Trash', () => {
+    // Each test inserts the fixture dataset
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+    });
+
+    test('should hide trashed tasks and restore them', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [task] = await testAPI.api.getUserTasks(userId);
+
+      await testAPI.api.deleteTask(task.id, userId);
+      expect(await testAPI.api.getTaskWithDetails(task.id, userId)).toBeNull();
+      expect((await testAPI.api.getUserTasks(userId)).map(t => t.id)).not.toContain(task.id);
+      expect((await testAPI.api.getTrash(userId)).tasks.map(t => t.id)).toContain(task.id);
+
+      await testAPI.api.restoreTask(task.id, userId);
+      expect(await testAPI.api.getTaskWithDetails(task.id, userId)).not.toBeNull();
+      expect((await testAPI.api.getTrash(userId)).tasks).toHaveLength(0);
+    });
+
+    test('should trash and restore a list together with its tasks', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const list = dataset.lists.find(l => l.userId === userId && !l.isDefault)!;
+      const listTasks = await testAPI.api.getUserTasks(userId, { listId: list.id });
+
+      await testAPI.api.deleteList(list.id, userId);
+      expect(await testAPI.api.getList(list.id, userId)).toBeNull();
+      expect(await testAPI.api.getUserTasks(userId, { listId: list.id })).toHaveLength(0);
+
+      await testAPI.api.restoreList(list.id, userId);
+      expect(await testAPI.api.getUserTasks(userId, { listId: list.id })).toHaveLength(listTasks.length);
+    });
+
+    test('should purge only items past the retention period', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [task] = await testAPI.api.getUserTasks(userId);
+      await testAPI.api.deleteTask(task.id, userId);
+
+      expect((await testAPI.api.purgeTrash(30, userId)).tasks).toBe(0);
+      expect((await testAPI.api.purgeTrash(0, userId)).tasks).toBe(1);
+      expect(testAPI.api.get('SELECT id FROM tasks WHERE id = ?', [task.id])).toBeUndefined();
+    });
+  });
+
+  describe('Backups', () => {
+    beforeEach(async () => {
+      await testAPI.testManager.clean();
+    });
+
+    afterAll(() => {
+      for (const backup of testAPI.api.listBackups()) {
+        fs.rmSync(backup.path, { force: true });
+      }
+      // Integrity check results are kept next to the database
+      fs.rmSync(path.join(path.dirname(TEST_DB_PATH), 'backup_manifest.json'), { force: true });
+    });
+
+    test('should verify backups and restore them into the live database', async () => {
+      const dataset = TestDataFixtures.createTestDataset();
+      await dbHelper.insertTestData(dataset);
+      const userId = dataset.users[0].id;
+      const [task] = await testAPI.api.getUserTasks(userId);
+
+      const backup = await testAPI.api.createBackup();
+      expect(backup.verified).toBe(true);
+      expect(testAPI.api.listBackups()[0].id).toBe(backup.id);
+
+      await testAPI.api.updateTask(task.id, { name: 'Changed after backup' }, userId);
+
+      const { restored, safetyBackup } = await testAPI.api.restoreBackup(backup.id);
+      expect(restored.id).toBe(backup.id);
+      expect(safetyBackup.verified).toBe(true);
+      expect(testAPI.api.get<any>('SELECT name FROM tasks WHERE id = ?', [task.id]).name).toBe(task.name);
+    });
+
+    test('should refuse to restore a corrupt backup', async () => {
+      const backup = await testAPI.api.createBackup();
+      fs.writeFileSync(backup.path, 'not a database');
+
+      await expect(testAPI.api.restoreBackup(backup.id)).rejects.toThrow(/integrity check/);
+    });
+  });
+
+  describe('Schema Migrations', () => {
+    test('should record every migration with a checksum', () => {
+      const migrations = new MigrationManager(testAPI.api.getDatabase());
+      const applied = migrations.getAppliedMigrations();
+
+      expect(applied.map(m => m.id)).toEqual(MIGRATIONS.map(m => m.id));
+      applied.forEach((entry, index) => {
+        expect(entry.checksum).toBe(MigrationManager.checksum(MIGRATIONS[index]));
+        expect(entry.appliedAt).toBeDefined();
+      });
+      expect(migrations.needsMigration()).toBe(false);
+    });
+
+    test('should roll back and re-apply migrations', async () => {
+      const dbManager = testAPI.api.getDatabase();
+      const migrations = new MigrationManager(dbManager, [
+        ...MIGRATIONS,
+        {
+          id: 9999,
+          name: 'add_test_column',
+          up: 'ALTER TABLE tasks ADD COLUMN test_column TEXT;',
+          down: 'ALTER TABLE tasks DROP COLUMN test_column;',
+        },
+      ]);
+
+      await migrations.runMigrations();
+      expect(migrations.getCurrentVersion()).toBe(9999);
+      const columns = dbManager.query("PRAGMA table_info(tasks)");
+      expect(columns.some((c: any) => c.name === 'test_column')).toBe(true);
+
+      await migrations.rollback(MIGRATIONS[MIGRATIONS.length - 1].id);
+      const revertedColumns = dbManager.query("PRAGMA table_info(tasks)");
+      expect(revertedColumns.some((c: any) => c.name === 'test_column')).toBe(false);
+      expect(migrations.getCurrentVersion()).toBe(MIGRATIONS[MIGRATIONS.length - 1].id);
+    });
+
+    test('should fail when an applied migration was edited', async () => {
+      const edited = MIGRATIONS.map((m, i) =>
+        i === 0 ? { ...m, up: `${m.up}\n-- edited` } : m
+      );
+      const migrations = new MigrationManager(testAPI.api.getDatabase(), edited);
+
+      await expect(migrations.runMigrations()).rejects.toThrow(/modified after it was applied/);
+    });
+  });
+
   describe('Test Database Helpers', () => {
     test('should clean up test data properly', async () => {
       // Insert test data
-      await testAPI.testHelpers.insertTestData(TEST_DATA);
+      const dataset = TestDataFixtures.createTestDataset();
+      await testAPI.testHelpers.insertTestData(dataset);
+      const userId = dataset.users[0].id;
       
       // Verify data exists
-      const tasks = await testAPI.api.getUserTasks('test-user-1');
+      const tasks = await testAPI.api.getUserTasks(userId);
       expect(tasks.length).toBeGreaterThan(0);
 
       // Clean up
-      await testAPI.testHelpers.cleanup();
+      await testAPI.testManager.clean();
 
       // Verify data is cleaned up
-      const cleanedTasks = await testAPI.api.getUserTasks('test-user-1');
+      const cleanedTasks = await testAPI.api.getUserTasks(userId);
       expect(cleanedTasks).toHaveLength(0);
+      expect(testAPI.api.query('SELECT id FROM domain_events')).toHaveLength(0);
     });
 
     test('should handle integrity tests', async () => {
+      await testAPI.testHelpers.insertTestData(TestDataFixtures.createTestDataset());
+
       const integrityResult = await testAPI.testHelpers.integrityTest();
       expect(integrityResult).toBeDefined();
-      expect(integrityResult.status).toBe('ok');
+      expect(integrityResult.isValid).toBe(true);
+      expect(integrityResult.issues).toEqual([]);
     });
   });
 });
\ No newline at end of file
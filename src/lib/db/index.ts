@@ -12,21 +12,38 @@ import {
   Transaction,
   DatabaseStats,
   type DatabaseOperation,
+  type TrashPurgeResult,
+  type BackupInfo,
+  type BackupRestoreResult,
 } from "./types";
-import {
-  COMPLETE_SCHEMA_WITH_TRIGGERS,
-  DEFAULT_DATABASE_CONFIG,
-  VALIDATION_QUERIES,
-  SCHEMA_VERSION,
-  MIGRATIONS,
-} from "./schema";
+import { DEFAULT_DATABASE_CONFIG, VALIDATION_QUERIES } from "./schema";
+import { MigrationManager } from "./utils";
+
+// Scheduled backups are written next to the database as backup_tasks_<timestamp>.db
+const BACKUP_PREFIX = "backup_tasks_";
+
+// Integrity check results of the backups in the data directory, by backup id
+const BACKUP_MANIFEST = "backup_manifest.json";
+
+interface BackupManifestEntry {
+  createdAt: string;
+  verifiedAt: string;
+  integrityErrors: string[];
+}
+
+// The shared manager is kept on globalThis: a production build bundles
+// instrumentation and the route handlers with a copy of this module each,
+// and they must all use one connection
+const globalForDatabase = globalThis as typeof globalThis & {
+  databaseManager?: DatabaseManager;
+};
 
 export class DatabaseManager {
-  private static instance: DatabaseManager;
   private db: any | null = null;
   private config: DatabaseConfig;
   private isInitialized = false;
   private backupInterval: NodeJS.Timeout | null = null;
+  private trashPurgeInterval: NodeJS.Timeout | null = null;
 
   private constructor(config?: Partial<DatabaseConfig>) {
     this.config = { ...DEFAULT_DATABASE_CONFIG, ...config };
@@ -34,10 +51,19 @@ export class DatabaseManager {
   }
 
   public static getInstance(config?: Partial<DatabaseConfig>): DatabaseManager {
-    if (!DatabaseManager.instance) {
-      DatabaseManager.instance = new DatabaseManager(config);
+    if (!globalForDatabase.databaseManager) {
+      globalForDatabase.databaseManager = new DatabaseManager(config);
     }
-    return DatabaseManager.instance;
+    return globalForDatabase.databaseManager;
+  }
+
+  /**
+   * Create a manager of its own, for a database other than the shared one
+   */
+  public static createInstance(
+    config?: Partial<DatabaseConfig>
+  ): DatabaseManager {
+    return new DatabaseManager(config);
   }
 
   /**
@@ -53,6 +79,7 @@ export class DatabaseManager {
       await this.setupSchema();
       await this.validateSchema();
       this.startBackupScheduler();
+      this.startTrashPurgeScheduler();
       this.isInitialized = true;
     } catch (error) {
       throw new DatabaseError(
@@ -64,6 +91,20 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Whether the connection is open and the schema is set up
+   */
+  public isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  /**
+   * Whether routine operations are logged
+   */
+  public isVerbose(): boolean {
+    return this.config.verbose;
+  }
+
   /**
    * Get database connection
    */
@@ -109,45 +150,8 @@ export class DatabaseManager {
     }
 
     try {
-      // Check if tables already exist
-      const tableCount = this.db
-        .prepare(
-          "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table'"
-        )
-        .get() as { count: number };
-
-      if (tableCount.count === 0) {
-        // First time setup
-        this.db.exec(COMPLETE_SCHEMA_WITH_TRIGGERS);
-
-        // Create migrations table
-        this.db
-          .prepare(
-            `
-          CREATE TABLE IF NOT EXISTS schema_migrations (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            version TEXT NOT NULL,
-            applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
-          )
-        `
-          )
-          .run();
-
-        // Record initial migration
-        this.db
-          .prepare(
-            `
-          INSERT INTO schema_migrations (id, name, version)
-          VALUES (?, ?, ?)
-        `
-          )
-          .run(MIGRATIONS[0].id, MIGRATIONS[0].name, SCHEMA_VERSION);
-
-        if (this.config.verbose) {
-          console.log("Database schema created successfully");
-        }
-      }
+      // Apply any pending migrations (creates the schema on first run)
+      await new MigrationManager(this).runMigrations();
 
       // Ensure data directory exists
       this.ensureDataDirectory();
@@ -307,6 +311,17 @@ export class DatabaseManager {
     };
   }
 
+  /**
+   * Run a synchronous function inside a single database transaction
+   */
+  public transaction<T>(fn: () => T): T {
+    if (!this.db) {
+      throw new DatabaseError("Database not initialized", "NOT_INITIALIZED");
+    }
+
+    return this.db.transaction(fn)();
+  }
+
   /**
    * Execute raw SQL statements
    */
@@ -401,24 +416,191 @@ export class DatabaseManager {
   }
 
   /**
-   * Create database backup
+   * Create a database backup and verify it with PRAGMA integrity_check.
+   * Backups written to the data directory are rotated afterwards.
+   */
+  public async createBackup(backupPath?: string): Promise<BackupInfo> {
+    const backup = await this.writeBackup(backupPath);
+
+    if (!backup.verified) {
+      fs.rmSync(backup.path, { force: true });
+      throw new DatabaseError(
+        `Backup failed integrity check: ${backup.integrityErrors?.join("; ")}`,
+        "BACKUP_VERIFY_ERROR"
+      );
+    }
+
+    if (!backupPath) {
+      this.pruneBackups();
+    }
+
+    return backup;
+  }
+
+  /**
+   * List backups in the data directory, newest first
+   */
+  public listBackups(): BackupInfo[] {
+    const backupDir = path.dirname(this.config.path);
+    if (!fs.existsSync(backupDir)) {
+      return [];
+    }
+
+    const manifest = this.readBackupManifest();
+
+    return fs
+      .readdirSync(backupDir)
+      .filter((file) => file.startsWith(BACKUP_PREFIX) && file.endsWith(".db"))
+      .map((file) => {
+        const id = file.slice(0, -".db".length);
+        const filePath = path.join(backupDir, file);
+        const stats = fs.statSync(filePath);
+        const entry = manifest[id];
+
+        return {
+          id,
+          path: filePath,
+          size: stats.size,
+          createdAt: entry ? new Date(entry.createdAt) : stats.mtime,
+          verified: !!entry && entry.integrityErrors.length === 0,
+          verifiedAt: entry ? new Date(entry.verifiedAt) : undefined,
+          integrityErrors: entry?.integrityErrors,
+        };
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Delete backups outside the retention policy: the newest verified
+   * backup of each of the last `backupRetentionDaily` days and of each of
+   * the last `backupRetentionWeekly` weeks is kept. Backups that were never
+   * verified are checked first; corrupt ones are removed.
+   */
+  public pruneBackups(): string[] {
+    const backups = this.listBackups().map((backup) =>
+      backup.verifiedAt ? backup : this.verifyBackup(backup.path, backup.createdAt)
+    );
+
+    const keep = new Set<string>();
+    const days = new Set<string>();
+    const weeks = new Set<string>();
+
+    for (const backup of backups) {
+      if (!backup.verified) {
+        continue;
+      }
+
+      // Calendar days and Monday-based weeks, in UTC
+      const day = backup.createdAt.toISOString().slice(0, 10);
+      const weekStart = new Date(`${day}T00:00:00.000Z`);
+      weekStart.setUTCDate(
+        weekStart.getUTCDate() - ((weekStart.getUTCDay() + 6) % 7)
+      );
+      const week = weekStart.toISOString().slice(0, 10);
+
+      if (!days.has(day) && days.size < this.config.backupRetentionDaily) {
+        days.add(day);
+        keep.add(backup.id);
+      }
+      if (!weeks.has(week) && weeks.size < this.config.backupRetentionWeekly) {
+        weeks.add(week);
+        keep.add(backup.id);
+      }
+    }
+
+    const removed = backups
+      .filter((backup) => !keep.has(backup.id))
+      .map((backup) => {
+        for (const suffix of ["", "-wal", "-shm"]) {
+          fs.rmSync(`${backup.path}${suffix}`, { force: true });
+        }
+        return backup.id;
+      });
+
+    if (removed.length > 0) {
+      const manifest = this.readBackupManifest();
+      removed.forEach((id) => delete manifest[id]);
+      this.writeBackupManifest(manifest);
+
+      if (this.config.verbose) {
+        console.log(`Pruned ${removed.length} backup(s)`);
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Replace the live database with a verified backup. The current database
+   * is backed up first, and put back if the restored copy fails to open.
    */
-  public async createBackup(backupPath?: string): Promise<void> {
+  public async restoreBackup(backupId: string): Promise<BackupRestoreResult> {
     if (!this.db) {
       throw new DatabaseError("Database not initialized", "NOT_INITIALIZED");
     }
 
+    const backup = this.listBackups().find((entry) => entry.id === backupId);
+    if (!backup) {
+      throw new NotFoundError(`Backup ${backupId} not found`);
+    }
+
+    const restored = this.verifyBackup(backup.path, backup.createdAt);
+    if (!restored.verified) {
+      throw new DatabaseError(
+        `Backup ${backupId} failed integrity check: ${restored.integrityErrors?.join("; ")}`,
+        "BACKUP_VERIFY_ERROR"
+      );
+    }
+
+    const safetyBackup = await this.writeBackup();
+    if (!safetyBackup.verified) {
+      throw new DatabaseError(
+        "Current database failed integrity check; restore aborted",
+        "BACKUP_VERIFY_ERROR"
+      );
+    }
+
     try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const defaultBackupPath = path.join(
-        path.dirname(this.config.path),
-        `backup_tasks_${timestamp}.db`
+      this.swapDatabaseFile(restored.path);
+      // Backups taken before later migrations are brought up to date
+      await new MigrationManager(this).runMigrations();
+    } catch (error) {
+      this.swapDatabaseFile(safetyBackup.path);
+      throw new DatabaseError(
+        `Failed to restore backup ${backupId}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        "RESTORE_ERROR"
       );
+    }
 
-      const targetPath = backupPath || defaultBackupPath;
+    if (this.config.verbose) {
+      console.log(`Database restored from backup: ${backupId}`);
+    }
 
-      // Create backup using file copy
-      fs.copyFileSync(this.config.path, targetPath);
+    return { restored, safetyBackup };
+  }
+
+  /**
+   * Copy the database with SQLite's online backup API and verify the copy
+   */
+  private async writeBackup(backupPath?: string): Promise<BackupInfo> {
+    if (!this.db) {
+      throw new DatabaseError("Database not initialized", "NOT_INITIALIZED");
+    }
+
+    const createdAt = new Date();
+    const timestamp = createdAt.toISOString().replace(/[:.]/g, "-");
+    const targetPath =
+      backupPath ||
+      path.join(
+        path.dirname(this.config.path),
+        `${BACKUP_PREFIX}${timestamp}.db`
+      );
+
+    try {
+      // Unlike a file copy, this includes pages still in the WAL
+      await this.db.backup(targetPath);
 
       if (this.config.verbose) {
         console.log(`Database backup created: ${targetPath}`);
@@ -431,6 +613,110 @@ export class DatabaseManager {
         "BACKUP_ERROR"
       );
     }
+
+    return this.verifyBackup(targetPath, createdAt);
+  }
+
+  /**
+   * Run PRAGMA integrity_check on a backup copy. Results for backups in
+   * the data directory are recorded in the backup manifest.
+   */
+  private verifyBackup(backupPath: string, createdAt: Date): BackupInfo {
+    let integrityErrors: string[];
+
+    try {
+      const copy = new Database(backupPath, { fileMustExist: true });
+      try {
+        const results = copy.pragma("integrity_check") as Array<{
+          integrity_check: string;
+        }>;
+        integrityErrors = results
+          .map((row) => row.integrity_check)
+          .filter((result) => result !== "ok");
+
+        // Copies of a WAL database are WAL too; keep backups self-contained
+        if (integrityErrors.length === 0) {
+          copy.pragma("journal_mode = DELETE");
+        }
+      } finally {
+        copy.close();
+      }
+    } catch (error) {
+      integrityErrors = [
+        error instanceof Error ? error.message : "Unable to open backup",
+      ];
+    }
+
+    const verifiedAt = new Date();
+    const id = path.basename(backupPath, ".db");
+
+    if (
+      path.resolve(path.dirname(backupPath)) ===
+        path.resolve(path.dirname(this.config.path)) &&
+      id.startsWith(BACKUP_PREFIX)
+    ) {
+      const manifest = this.readBackupManifest();
+      manifest[id] = {
+        createdAt: createdAt.toISOString(),
+        verifiedAt: verifiedAt.toISOString(),
+        integrityErrors,
+      };
+      this.writeBackupManifest(manifest);
+    }
+
+    return {
+      id,
+      path: backupPath,
+      size: fs.existsSync(backupPath) ? fs.statSync(backupPath).size : 0,
+      createdAt,
+      verified: integrityErrors.length === 0,
+      verifiedAt,
+      integrityErrors,
+    };
+  }
+
+  /**
+   * Replace the database file with a copy of `sourcePath` and reconnect.
+   * Runs synchronously, so no other query sees a half-swapped database.
+   */
+  private swapDatabaseFile(sourcePath: string): void {
+    const stagingPath = `${this.config.path}.restore`;
+    fs.copyFileSync(sourcePath, stagingPath);
+
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+
+    // Stale WAL pages would otherwise be replayed onto the restored file
+    for (const suffix of ["-wal", "-shm"]) {
+      fs.rmSync(`${this.config.path}${suffix}`, { force: true });
+    }
+
+    fs.renameSync(stagingPath, this.config.path);
+    this.createConnection();
+  }
+
+  private readBackupManifest(): Record<string, BackupManifestEntry> {
+    const manifestPath = path.join(
+      path.dirname(this.config.path),
+      BACKUP_MANIFEST
+    );
+
+    try {
+      return JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    } catch {
+      return {};
+    }
+  }
+
+  private writeBackupManifest(
+    manifest: Record<string, BackupManifestEntry>
+  ): void {
+    fs.writeFileSync(
+      path.join(path.dirname(this.config.path), BACKUP_MANIFEST),
+      JSON.stringify(manifest, null, 2)
+    );
   }
 
   /**
@@ -442,6 +728,11 @@ export class DatabaseManager {
       this.backupInterval = null;
     }
 
+    if (this.trashPurgeInterval) {
+      clearInterval(this.trashPurgeInterval);
+      this.trashPurgeInterval = null;
+    }
+
     if (this.db) {
       this.db.close();
       this.db = null;
@@ -478,6 +769,24 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Start scheduler purging expired trash
+   */
+  private startTrashPurgeScheduler(): void {
+    if (this.config.trashPurgeInterval > 0) {
+      this.trashPurgeInterval = setInterval(() => {
+        try {
+          const purged = this.purgeTrash();
+          if (this.config.verbose) {
+            console.log("Purged expired trash:", purged);
+          }
+        } catch (error) {
+          console.error("Scheduled trash purge failed:", error);
+        }
+      }, this.config.trashPurgeInterval);
+    }
+  }
+
   /**
    * Reset database (for development/testing)
    */
@@ -510,7 +819,7 @@ export class DatabaseManager {
 
     try {
       const statement = this.db.prepare(sql);
-      return statement.all(...params) as T[];
+      return statement.all(...this.normalizeParams(params)) as T[];
     } catch (error) {
       throw new DatabaseError(
         `Query failed: ${
@@ -534,7 +843,7 @@ export class DatabaseManager {
 
     try {
       const statement = this.db.prepare(sql);
-      return statement.run(...params);
+      return statement.run(...this.normalizeParams(params));
     } catch (error) {
       throw new DatabaseError(
         `Statement execution failed: ${
@@ -555,7 +864,7 @@ export class DatabaseManager {
 
     try {
       const statement = this.db.prepare(sql);
-      return statement.get(...params) as T | undefined;
+      return statement.get(...this.normalizeParams(params)) as T | undefined;
     } catch (error) {
       throw new DatabaseError(
         `Get operation failed: ${
@@ -566,6 +875,49 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Convert values better-sqlite3 cannot bind: Dates are stored as ISO
+   * strings and booleans as 0/1
+   */
+  private normalizeParams(params: any[]): any[] {
+    return params.map((param) => {
+      if (param instanceof Date) {
+        return param.toISOString();
+      }
+      if (typeof param === "boolean") {
+        return param ? 1 : 0;
+      }
+      return param;
+    });
+  }
+
+  /**
+   * Permanently delete tasks, lists and labels that have been in the
+   * trash for longer than the retention period, optionally for one user
+   */
+  public purgeTrash(
+    retentionDays: number = this.config.trashRetentionDays,
+    userId?: string
+  ): TrashPurgeResult {
+    const cutoff = new Date(
+      Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    ).toISOString();
+    const userFilter = userId ? " AND user_id = ?" : "";
+    const params = userId ? [cutoff, userId] : [cutoff];
+
+    const purge = (table: string) =>
+      this.run(
+        `DELETE FROM ${table} WHERE deleted_at IS NOT NULL AND deleted_at <= ?${userFilter}`,
+        params
+      ).changes;
+
+    return this.transaction(() => ({
+      tasks: purge("tasks"),
+      lists: purge("lists"),
+      labels: purge("labels"),
+    }));
+  }
+
   /**
    * Check if database is in WAL mode
    */
@@ -616,57 +968,7 @@ export class DatabaseManager {
       throw new DatabaseError("Database not initialized", "NOT_INITIALIZED");
     }
 
-    try {
-      // Check if migrations table exists
-      const migrationsTableExists = this.db
-        .prepare(
-          `
-        SELECT name FROM sqlite_master
-        WHERE type='table' AND name='schema_migrations'
-      `
-        )
-        .get();
-
-      if (!migrationsTableExists) {
-        // Create migrations table
-        this.db
-          .prepare(
-            `
-          CREATE TABLE IF NOT EXISTS schema_migrations (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            version TEXT NOT NULL,
-            applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
-          )
-        `
-          )
-          .run();
-
-        // Apply initial schema
-        this.db.exec(COMPLETE_SCHEMA_WITH_TRIGGERS);
-
-        // Record initial migration
-        this.db
-          .prepare(
-            `
-          INSERT INTO schema_migrations (id, name, version)
-          VALUES (?, ?, ?)
-        `
-          )
-          .run(MIGRATIONS[0].id, MIGRATIONS[0].name, SCHEMA_VERSION);
-
-        if (this.config.verbose) {
-          console.log("Database migrations applied successfully");
-        }
-      }
-    } catch (error) {
-      throw new DatabaseError(
-        `Failed to run migrations: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        "MIGRATION_ERROR"
-      );
-    }
+    await new MigrationManager(this).runMigrations();
   }
 }
 
@@ -0,0 +1,229 @@
+/**
+ * Query Builder Tests
+ * Tests for keyset pagination SQL, cursors and filter expressions
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import { QueryBuilder, type FilterSchema, type KeysetColumn } from './utils';
+import type { FilterExpression } from './types';
+
+const COLUMNS: KeysetColumn[] = [
+  { column: 't.deadline IS NULL', direction: 'ASC' },
+  { column: 't.deadline', direction: 'DESC' },
+  { column: 't.id', direction: 'DESC' },
+];
+
+function tasksQuery() {
+  return new QueryBuilder()
+    .select(['t.*'])
+    .from('tasks t')
+    .where({ 't.user_id': 'user-1' });
+}
+
+describe('QueryBuilder keyset pagination', () => {
+  test('should order by the keyset columns and fetch one extra row', () => {
+    const { sql, params } = tasksQuery()
+      .orderBy('t.position')
+      .keyset(COLUMNS, 2)
+      .build();
+
+    expect(sql).toBe(
+      'SELECT t.*, t.deadline IS NULL AS keyset_0, t.deadline AS keyset_1, t.id AS keyset_2 FROM tasks t WHERE t.user_id = ? ORDER BY t.deadline IS NULL ASC, t.deadline DESC, t.id DESC LIMIT ?'
+    );
+    expect(params).toEqual(['user-1', 3]);
+  });
+
+  test('should link pages with cursors and strip the keyset values', () => {
+    const builder = tasksQuery().keyset(COLUMNS, 2);
+    const page = builder.readKeysetPage<{ id: string }>([
+      { id: 'c', keyset_0: 0, keyset_1: '2026-03-03', keyset_2: 'c' },
+      { id: 'b', keyset_0: 0, keyset_1: '2026-03-02', keyset_2: 'b' },
+      { id: 'a', keyset_0: 1, keyset_1: null, keyset_2: 'a' },
+    ]);
+
+    expect(page.rows).toEqual([{ id: 'c' }, { id: 'b' }]);
+    expect(page.prevCursor).toBeNull();
+    expect(page.nextCursor).not.toBeNull();
+
+    const { sql, params } = tasksQuery()
+      .keyset(COLUMNS, 2, page.nextCursor!)
+      .build();
+    expect(sql).toContain(
+      'WHERE t.user_id = ? AND (((t.deadline IS NULL) > ?) OR ((t.deadline IS NULL) IS ? AND (t.deadline) < ?) OR ((t.deadline IS NULL) IS ? AND (t.deadline) IS ? AND (t.id) < ?))'
+    );
+    expect(params).toEqual(['user-1', 0, 0, '2026-03-02', 0, '2026-03-02', 'b', 3]);
+  });
+
+  test('should walk backwards from a previous-page cursor', () => {
+    const next = tasksQuery()
+      .keyset(COLUMNS, 1)
+      .readKeysetPage([
+        { id: 'b', keyset_0: 0, keyset_1: '2026-03-02', keyset_2: 'b' },
+        { id: 'a', keyset_0: 1, keyset_1: null, keyset_2: 'a' },
+      ]).nextCursor!;
+    const second = tasksQuery().keyset(COLUMNS, 1, next);
+    const prev = second.readKeysetPage([
+      { id: 'a', keyset_0: 1, keyset_1: null, keyset_2: 'a' },
+    ]).prevCursor!;
+
+    const backwards = tasksQuery().keyset(COLUMNS, 1, prev);
+    expect(backwards.build().sql).toContain(
+      'ORDER BY t.deadline IS NULL DESC, t.deadline ASC, t.id ASC'
+    );
+
+    // Rows come back in reverse and are put in display order again
+    const page = backwards.readKeysetPage<{ id: string }>([
+      { id: 'b', keyset_0: 0, keyset_1: '2026-03-02', keyset_2: 'b' },
+    ]);
+    expect(page.rows).toEqual([{ id: 'b' }]);
+    expect(page.prevCursor).toBeNull();
+    expect(page.nextCursor).not.toBeNull();
+  });
+
+  test('should reject malformed cursors and cursors of another sort', () => {
+    const cursor = tasksQuery()
+      .keyset(COLUMNS, 1)
+      .readKeysetPage([
+        { id: 'b', keyset_0: 0, keyset_1: '2026-03-02', keyset_2: 'b' },
+        { id: 'a', keyset_0: 1, keyset_1: null, keyset_2: 'a' },
+      ]).nextCursor!;
+
+    expect(() => tasksQuery().keyset(COLUMNS, 1, 'not-a-cursor')).toThrow(
+      'Invalid pagination cursor'
+    );
+    expect(() =>
+      tasksQuery().keyset([{ column: 't.id', direction: 'ASC' }], 1, cursor)
+    ).toThrow('Invalid pagination cursor');
+    expect(() =>
+      tasksQuery().keyset(
+        COLUMNS.map((column) => ({ ...column, direction: 'ASC' as const })),
+        1,
+        cursor
+      )
+    ).toThrow('different sort order');
+  });
+
+  test('should count matching rows without ordering or paging', () => {
+    const { sql, params } = tasksQuery()
+      .orderBy('t.position')
+      .keyset(COLUMNS, 2)
+      .buildCount();
+
+    expect(sql).toBe('SELECT COUNT(*) AS count FROM tasks t WHERE t.user_id = ?');
+    expect(params).toEqual(['user-1']);
+  });
+});
+
+const FILTER_SCHEMA: FilterSchema = {
+  fields: { name: 't.name', priority: 't.priority', deadline: 't.deadline' },
+  resolveField: (field) =>
+    field === 'cf.client'
+      ? "json_extract(t.custom_fields, '$.client')"
+      : undefined,
+  labelTaskColumn: 't.id',
+};
+
+describe('QueryBuilder filter expressions', () => {
+  test('should compile nested and/or/not to parameterized SQL', () => {
+    const deadline = new Date('2026-03-12T00:00:00.000Z');
+    const { sql, params } = tasksQuery()
+      .filter(
+        {
+          op: 'and',
+          filters: [
+            {
+              op: 'or',
+              filters: [
+                { op: 'eq', field: 'priority', value: 'High' },
+                { op: 'lte', field: 'deadline', value: deadline },
+              ],
+            },
+            {
+              op: 'not',
+              filter: { op: 'hasAnyLabel', labelIds: ['someday'] },
+            },
+          ],
+        },
+        FILTER_SCHEMA
+      )
+      .build();
+
+    expect(sql).toBe(
+      'SELECT t.* FROM tasks t WHERE t.user_id = ? AND (((t.priority = ?) OR (t.deadline <= ?)) AND (NOT COALESCE((EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = t.id AND tl.label_id IN (?))), 0)))'
+    );
+    expect(params).toEqual(['user-1', 'High', deadline, 'someday']);
+  });
+
+  test('should escape LIKE wildcards in text matches', () => {
+    const compiled = QueryBuilder.compileFilter(
+      { op: 'startsWith', field: 'name', value: '50%_off\\' },
+      FILTER_SCHEMA
+    );
+
+    expect(compiled.sql).toBe("t.name LIKE ? ESCAPE '\\'");
+    expect(compiled.params).toEqual(['50\\%\\_off\\\\%']);
+  });
+
+  test('should compile in, between, null checks and label sets', () => {
+    const compile = (expression: FilterExpression) =>
+      QueryBuilder.compileFilter(expression, FILTER_SCHEMA);
+
+    expect(
+      compile({ op: 'in', field: 'priority', values: ['High', null] })
+    ).toEqual({
+      sql: 't.priority IN (?) OR t.priority IS NULL',
+      params: ['High'],
+    });
+    expect(compile({ op: 'in', field: 'priority', values: [] })).toEqual({
+      sql: '1 = 0',
+      params: [],
+    });
+    expect(
+      compile({ op: 'between', field: 'cf.client', from: 'a', to: 'm' })
+    ).toEqual({
+      sql: "json_extract(t.custom_fields, '$.client') BETWEEN ? AND ?",
+      params: ['a', 'm'],
+    });
+    expect(compile({ op: 'ne', field: 'deadline', value: null })).toEqual({
+      sql: 't.deadline IS NOT NULL',
+      params: [],
+    });
+    expect(compile({ op: 'ne', field: 'priority', value: 'Low' })).toEqual({
+      sql: 't.priority IS NOT ?',
+      params: ['Low'],
+    });
+    expect(
+      compile({ op: 'hasAllLabels', labelIds: ['a', 'b', 'a'] })
+    ).toEqual({
+      sql: '(SELECT COUNT(DISTINCT tl.label_id) FROM task_labels tl WHERE tl.task_id = t.id AND tl.label_id IN (?, ?)) = ?',
+      params: ['a', 'b', 2],
+    });
+  });
+
+  test('should reject unknown fields and malformed expressions', () => {
+    expect(() =>
+      QueryBuilder.compileFilter(
+        { op: 'eq', field: 't.user_id', value: 'x' },
+        FILTER_SCHEMA
+      )
+    ).toThrow('Unknown filter field: t.user_id');
+    expect(() =>
+      QueryBuilder.compileFilter({ op: 'xor' } as any, FILTER_SCHEMA)
+    ).toThrow('Invalid filter expression');
+    expect(() =>
+      QueryBuilder.compileFilter(
+        { op: 'eq', field: 'name', value: { $gt: 1 } } as any,
+        FILTER_SCHEMA
+      )
+    ).toThrow('Invalid filter value');
+
+    let deep: any = { op: 'isNull', field: 'deadline' };
+    for (let i = 0; i < 20; i++) {
+      deep = { op: 'not', filter: deep };
+    }
+    expect(() => QueryBuilder.compileFilter(deep, FILTER_SCHEMA)).toThrow(
+      'nested too deeply'
+    );
+  });
+});
@@ -3,9 +3,6 @@
 
 import type { DatabaseConfig } from "./types";
 
-// Schema version for migration tracking
-export const SCHEMA_VERSION = "1.0.0";
-
 // Database initialization SQL
 export const INITIALIZE_DATABASE = `
 -- Enable foreign key constraints
@@ -170,6 +167,273 @@ CREATE TABLE IF NOT EXISTS attachments (
 );
 `;
 
+// Task dependencies table (task_id is blocked by depends_on_task_id)
+export const CREATE_TASK_DEPENDENCIES_TABLE = `
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id TEXT NOT NULL,
+  depends_on_task_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (task_id, depends_on_task_id),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (depends_on_task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  CHECK (task_id != depends_on_task_id)
+);
+`;
+
+// Custom fields a list defines for its tasks (values live in tasks.custom_fields)
+export const CREATE_CUSTOM_FIELDS_TABLE = `
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id TEXT PRIMARY KEY,
+  list_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'date', 'single_select', 'multi_select', 'checkbox', 'url')),
+  options TEXT NOT NULL DEFAULT '[]', -- JSON array of choices for select fields
+  required INTEGER NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE,
+  UNIQUE(list_id, name)
+);
+`;
+
+export const CREATE_TIME_ENTRIES_TABLE = `
+CREATE TABLE IF NOT EXISTS time_entries (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  started_at DATETIME NOT NULL,
+  ended_at DATETIME, -- NULL while the timer is running
+  duration INTEGER, -- Seconds, set once the entry has ended
+  description TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+`;
+
+export const CREATE_TASK_COMMENTS_TABLE = `
+CREATE TABLE IF NOT EXISTS task_comments (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  body TEXT NOT NULL,
+  edited_at DATETIME, -- Set when the body was changed after posting
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (author_id) REFERENCES users(id) ON DELETE CASCADE
+);
+`;
+
+// Attachment contents, addressed by the SHA-256 of the content
+export const CREATE_BLOBS_TABLE = `
+CREATE TABLE IF NOT EXISTS blobs (
+  hash TEXT PRIMARY KEY,
+  size INTEGER NOT NULL,
+  mime_type TEXT NOT NULL,
+  ref_count INTEGER NOT NULL DEFAULT 0, -- Attachments using the blob, kept by triggers
+  orphaned_at DATETIME, -- Set when the last attachment using the blob is removed
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+// Runs of the sweeper deleting unreferenced blobs
+export const CREATE_BLOB_SWEEPS_TABLE = `
+CREATE TABLE IF NOT EXISTS blob_sweeps (
+  id TEXT PRIMARY KEY,
+  blobs_deleted INTEGER NOT NULL,
+  bytes_reclaimed INTEGER NOT NULL,
+  swept_at DATETIME NOT NULL
+);
+`;
+
+// Smart lists: filter expressions evaluated against the user's tasks
+export const CREATE_SAVED_FILTERS_TABLE = `
+CREATE TABLE IF NOT EXISTS saved_filters (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  icon TEXT,
+  color TEXT,
+  filter TEXT NOT NULL, -- JSON FilterExpression
+  sort_by TEXT NOT NULL DEFAULT 'createdAt',
+  sort_direction TEXT NOT NULL DEFAULT 'desc' CHECK (sort_direction IN ('asc', 'desc')),
+  group_by TEXT NOT NULL DEFAULT 'none' CHECK (group_by IN ('none', 'status', 'priority', 'dueDate')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, name)
+);
+`;
+
+// Task templates table
+export const CREATE_TASK_TEMPLATES_TABLE = `
+CREATE TABLE IF NOT EXISTS task_templates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  list_id TEXT,
+  name TEXT NOT NULL,
+  description TEXT,
+  task_name TEXT NOT NULL, -- May contain placeholders like {{input:client}}
+  task_description TEXT,
+  priority TEXT NOT NULL DEFAULT 'None' CHECK (priority IN ('High', 'Medium', 'Low', 'None')),
+  estimate TEXT, -- HH:mm format
+  date TEXT, -- Date or placeholder like {{date+3d}}
+  deadline TEXT,
+  labels TEXT NOT NULL DEFAULT '[]', -- JSON array of label IDs
+  subtasks TEXT NOT NULL DEFAULT '[]', -- JSON array of { name, position }
+  reminders TEXT NOT NULL DEFAULT '[]', -- JSON array of { timing, method }
+  custom_fields TEXT NOT NULL DEFAULT '{}', -- JSON object keyed by field ID
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE SET NULL,
+  UNIQUE(user_id, name)
+);
+`;
+
+// List templates table
+export const CREATE_LIST_TEMPLATES_TABLE = `
+CREATE TABLE IF NOT EXISTS list_templates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  color TEXT NOT NULL DEFAULT '#3B82F6',
+  emoji TEXT DEFAULT '📋',
+  settings TEXT NOT NULL DEFAULT '{}', -- JSON ListSettings
+  labels TEXT NOT NULL DEFAULT '[]', -- JSON array of label IDs
+  default_tasks TEXT NOT NULL DEFAULT '[]', -- JSON array of tasks with dates relative to the anchor day
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, name)
+);
+`;
+
+// List collections (sidebar folders) table
+export const CREATE_LIST_COLLECTIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS list_collections (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  icon TEXT NOT NULL DEFAULT '📁',
+  position INTEGER NOT NULL DEFAULT 0,
+  archived_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(user_id, name)
+);
+`;
+
+// List members table: people a list is shared with, and pending invitations
+export const CREATE_LIST_MEMBERS_TABLE = `
+CREATE TABLE IF NOT EXISTS list_members (
+  id TEXT PRIMARY KEY,
+  list_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'read' CHECK (role IN ('read', 'write', 'admin')),
+  invited_by TEXT NOT NULL,
+  invited_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  accepted_at DATETIME, -- NULL while the invitation is pending
+  FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (invited_by) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE(list_id, user_id)
+);
+`;
+
+// Public share links: one unguessable, read-only link per list
+export const CREATE_LIST_SHARE_LINKS_TABLE = `
+CREATE TABLE IF NOT EXISTS list_share_links (
+  id TEXT PRIMARY KEY, -- the link ID in /share/[linkId]
+  list_id TEXT NOT NULL UNIQUE,
+  created_by TEXT NOT NULL,
+  expires_at DATETIME, -- NULL for links that do not expire
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE
+);
+`;
+
+// Domain event outbox: events are written in the transaction making the
+// change and marked dispatched once handed to subscribers
+export const CREATE_DOMAIN_EVENTS_TABLE = `
+CREATE TABLE IF NOT EXISTS domain_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  user_id TEXT NOT NULL, -- owner of the changed data
+  actor_id TEXT NOT NULL,
+  data TEXT NOT NULL, -- JSON event fields
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  dispatched_at DATETIME, -- NULL until handed to subscribers
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+`;
+
+// Endpoints task events are POSTed to
+export const CREATE_WEBHOOKS_TABLE = `
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  event_types TEXT NOT NULL DEFAULT '[]', -- JSON array of event types
+  secret TEXT NOT NULL, -- HMAC-SHA256 signing key
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+`;
+
+// Delivery log: one row per event sent to a webhook, with the outcome of
+// its last attempt. Pending rows are retried at next_attempt_at.
+export const CREATE_WEBHOOK_DELIVERIES_TABLE = `
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload TEXT NOT NULL, -- JSON request body
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME, -- NULL once succeeded or failed
+  last_attempt_at DATETIME,
+  response_status INTEGER,
+  error TEXT,
+  replay_of TEXT, -- Delivery sent again by this one
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+);
+`;
+
+// In-app notification inbox
+export const CREATE_NOTIFICATIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS notifications (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('reminder', 'deadline', 'overdue', 'assignment', 'system')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  task_id TEXT,
+  source_id TEXT, -- What the notification was sent for, e.g. a reminder
+  is_read INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  UNIQUE(user_id, source_id)
+);
+`;
+
 // Indexes for performance optimization
 export const CREATE_INDEXES = [
   // Task indexes
@@ -232,7 +496,9 @@ ${CREATE_ATTACHMENTS_TABLE}
 `;
 
 // Create all indexes
-export const CREATE_ALL_INDEXES = CREATE_INDEXES.join("\n");
+export const CREATE_ALL_INDEXES = CREATE_INDEXES.map((sql) => `${sql};`).join(
+  "\n"
+);
 
 // Complete schema setup
 export const COMPLETE_SCHEMA = `
@@ -253,8 +519,9 @@ export const INSERT_DEFAULT_DATA = `
 -- VALUES ('default_user', 'Default User', 'default@example.com');
 `;
 
-// Database triggers for updated_at timestamp
-export const CREATE_TRIGGERS = `
+// Database triggers for updated_at timestamp (replaced by migration 19:
+// CURRENT_TIMESTAMP is not the ISO 8601 format the application writes)
+export const CREATE_TIMESTAMP_TRIGGERS = `
 -- Trigger to update updated_at timestamp for users
 CREATE TRIGGER IF NOT EXISTS update_users_updated_at
   AFTER UPDATE ON users
@@ -302,7 +569,71 @@ CREATE TRIGGER IF NOT EXISTS update_reminders_updated_at
   BEGIN
     UPDATE reminders SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
   END;
+`;
+
+// Database triggers for updated_at timestamp, in the format of
+// Date.toISOString() so rows sort the same whoever wrote them. Updates
+// that set updated_at themselves keep it.
+export const CREATE_ISO_TIMESTAMP_TRIGGERS = `
+-- Trigger to update updated_at timestamp for users
+CREATE TRIGGER IF NOT EXISTS update_users_updated_at
+  AFTER UPDATE ON users
+  FOR EACH ROW
+  WHEN NEW.updated_at IS OLD.updated_at
+  BEGIN
+    UPDATE users SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+  END;
+
+-- Trigger to update updated_at timestamp for lists
+CREATE TRIGGER IF NOT EXISTS update_lists_updated_at
+  AFTER UPDATE ON lists
+  FOR EACH ROW
+  WHEN NEW.updated_at IS OLD.updated_at
+  BEGIN
+    UPDATE lists SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+  END;
+
+-- Trigger to update updated_at timestamp for labels
+CREATE TRIGGER IF NOT EXISTS update_labels_updated_at
+  AFTER UPDATE ON labels
+  FOR EACH ROW
+  WHEN NEW.updated_at IS OLD.updated_at
+  BEGIN
+    UPDATE labels SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+  END;
+
+-- Trigger to update updated_at timestamp for tasks
+CREATE TRIGGER IF NOT EXISTS update_tasks_updated_at
+  AFTER UPDATE ON tasks
+  FOR EACH ROW
+  WHEN NEW.updated_at IS OLD.updated_at
+  BEGIN
+    UPDATE tasks SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+  END;
+
+-- Trigger to update updated_at timestamp for subtasks
+CREATE TRIGGER IF NOT EXISTS update_subtasks_updated_at
+  AFTER UPDATE ON subtasks
+  FOR EACH ROW
+  WHEN NEW.updated_at IS OLD.updated_at
+  BEGIN
+    UPDATE subtasks SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+  END;
+
+-- Trigger to update updated_at timestamp for reminders
+CREATE TRIGGER IF NOT EXISTS update_reminders_updated_at
+  AFTER UPDATE ON reminders
+  FOR EACH ROW
+  WHEN NEW.updated_at IS OLD.updated_at
+  BEGIN
+    UPDATE reminders SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+  END;
+`;
 
+// Trigger logging hard task deletions (removed by migration 3: the history
+// row it inserts references the deleted task, and task deletion is now a
+// soft delete logged by the application)
+export const CREATE_TASK_DELETION_TRIGGER = `
 -- Trigger to log task deletions
 CREATE TRIGGER IF NOT EXISTS log_task_deletion
   AFTER DELETE ON tasks
@@ -320,10 +651,229 @@ CREATE TRIGGER IF NOT EXISTS log_task_deletion
   END;
 `;
 
+// Full-text search index over tasks, their subtasks and their labels.
+// Entries are keyed by task_id rather than rowid, since VACUUM may
+// renumber the implicit rowids of the tasks table.
+export const CREATE_SEARCH_INDEX = `
+CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+  task_id UNINDEXED,
+  name,
+  description,
+  subtasks,
+  labels,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+`;
+
+// Rebuild the search entry of a single task from its current rows.
+// `labelFilter` is added to the join condition of the task's labels.
+const refreshSearchEntry = (taskId: string, labelFilter = "") => `
+    DELETE FROM tasks_fts WHERE task_id = ${taskId};
+    INSERT INTO tasks_fts (task_id, name, description, subtasks, labels)
+    SELECT
+      t.id,
+      t.name,
+      COALESCE(t.description, ''),
+      COALESCE((SELECT group_concat(s.name, char(10)) FROM subtasks s WHERE s.task_id = t.id), ''),
+      COALESCE((SELECT group_concat(lb.name, char(10)) FROM task_labels tl JOIN labels lb ON lb.id = tl.label_id${labelFilter} WHERE tl.task_id = t.id), '')
+    FROM tasks t
+    WHERE t.id = ${taskId};`;
+
+// Only labels outside the trash are searchable
+const LIVE_LABELS = " AND lb.deleted_at IS NULL";
+
+// Triggers keeping tasks_fts in sync with tasks, subtasks and labels
+// (replaced by migration 20: trashed labels stayed in the index)
+export const CREATE_SEARCH_TRIGGERS = `
+-- Index new tasks
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_insert
+  AFTER INSERT ON tasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.id")}
+  END;
+
+-- Reindex tasks when their searchable text changes
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_update
+  AFTER UPDATE OF name, description ON tasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.id")}
+  END;
+
+-- Remove deleted tasks from the index
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_delete
+  AFTER DELETE ON tasks
+  FOR EACH ROW
+  BEGIN
+    DELETE FROM tasks_fts WHERE task_id = OLD.id;
+  END;
+
+-- Reindex the parent task when its subtasks change
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_subtask_insert
+  AFTER INSERT ON subtasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.task_id")}
+  END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_subtask_update
+  AFTER UPDATE OF name, task_id ON subtasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("OLD.task_id")}${refreshSearchEntry("NEW.task_id")}
+  END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_subtask_delete
+  AFTER DELETE ON subtasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("OLD.task_id")}
+  END;
+
+-- Reindex a task when labels are attached or detached
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_label_insert
+  AFTER INSERT ON task_labels
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.task_id")}
+  END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_label_delete
+  AFTER DELETE ON task_labels
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("OLD.task_id")}
+  END;
+
+-- Reindex every task carrying a label when the label is renamed
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_label_update
+  AFTER UPDATE OF name ON labels
+  FOR EACH ROW
+  BEGIN
+    DELETE FROM tasks_fts WHERE task_id IN (SELECT task_id FROM task_labels WHERE label_id = NEW.id);
+    INSERT INTO tasks_fts (task_id, name, description, subtasks, labels)
+    SELECT
+      t.id,
+      t.name,
+      COALESCE(t.description, ''),
+      COALESCE((SELECT group_concat(s.name, char(10)) FROM subtasks s WHERE s.task_id = t.id), ''),
+      COALESCE((SELECT group_concat(lb.name, char(10)) FROM task_labels tl2 JOIN labels lb ON lb.id = tl2.label_id WHERE tl2.task_id = t.id), '')
+    FROM tasks t
+    WHERE t.id IN (SELECT task_id FROM task_labels WHERE label_id = NEW.id);
+  END;
+`;
+
+// Triggers keeping tasks_fts in sync with tasks, subtasks and labels,
+// leaving out trashed labels. Trashing or restoring a label reindexes
+// the tasks carrying it.
+export const CREATE_LIVE_LABEL_SEARCH_TRIGGERS = `
+-- Index new tasks
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_insert
+  AFTER INSERT ON tasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.id", LIVE_LABELS)}
+  END;
+
+-- Reindex tasks when their searchable text changes
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_update
+  AFTER UPDATE OF name, description ON tasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.id", LIVE_LABELS)}
+  END;
+
+-- Remove deleted tasks from the index
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_delete
+  AFTER DELETE ON tasks
+  FOR EACH ROW
+  BEGIN
+    DELETE FROM tasks_fts WHERE task_id = OLD.id;
+  END;
+
+-- Reindex the parent task when its subtasks change
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_subtask_insert
+  AFTER INSERT ON subtasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.task_id", LIVE_LABELS)}
+  END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_subtask_update
+  AFTER UPDATE OF name, task_id ON subtasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("OLD.task_id", LIVE_LABELS)}${refreshSearchEntry("NEW.task_id", LIVE_LABELS)}
+  END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_subtask_delete
+  AFTER DELETE ON subtasks
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("OLD.task_id", LIVE_LABELS)}
+  END;
+
+-- Reindex a task when labels are attached or detached
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_label_insert
+  AFTER INSERT ON task_labels
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("NEW.task_id", LIVE_LABELS)}
+  END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_task_label_delete
+  AFTER DELETE ON task_labels
+  FOR EACH ROW
+  BEGIN${refreshSearchEntry("OLD.task_id", LIVE_LABELS)}
+  END;
+
+-- Reindex every task carrying a label when the label is renamed,
+-- trashed or restored
+CREATE TRIGGER IF NOT EXISTS tasks_fts_after_label_update
+  AFTER UPDATE OF name, deleted_at ON labels
+  FOR EACH ROW
+  BEGIN
+    DELETE FROM tasks_fts WHERE task_id IN (SELECT task_id FROM task_labels WHERE label_id = NEW.id);
+    INSERT INTO tasks_fts (task_id, name, description, subtasks, labels)
+    SELECT
+      t.id,
+      t.name,
+      COALESCE(t.description, ''),
+      COALESCE((SELECT group_concat(s.name, char(10)) FROM subtasks s WHERE s.task_id = t.id), ''),
+      COALESCE((SELECT group_concat(lb.name, char(10)) FROM task_labels tl2 JOIN labels lb ON lb.id = tl2.label_id${LIVE_LABELS} WHERE tl2.task_id = t.id), '')
+    FROM tasks t
+    WHERE t.id IN (SELECT task_id FROM task_labels WHERE label_id = NEW.id);
+  END;
+`;
+
+// Drop the search triggers before replacing them
+const DROP_SEARCH_TRIGGERS = `
+DROP TRIGGER IF EXISTS tasks_fts_after_label_update;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_label_delete;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_label_insert;
+DROP TRIGGER IF EXISTS tasks_fts_after_subtask_delete;
+DROP TRIGGER IF EXISTS tasks_fts_after_subtask_update;
+DROP TRIGGER IF EXISTS tasks_fts_after_subtask_insert;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_delete;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_update;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_insert;
+`;
+
+// Rebuild the whole search index from the current rows
+const rebuildSearchIndex = (labelFilter = "") => `
+DELETE FROM tasks_fts;
+INSERT INTO tasks_fts (task_id, name, description, subtasks, labels)
+SELECT
+  t.id,
+  t.name,
+  COALESCE(t.description, ''),
+  COALESCE((SELECT group_concat(s.name, char(10)) FROM subtasks s WHERE s.task_id = t.id), ''),
+  COALESCE((SELECT group_concat(lb.name, char(10)) FROM task_labels tl JOIN labels lb ON lb.id = tl.label_id${labelFilter} WHERE tl.task_id = t.id), '')
+FROM tasks t;
+`;
+
+// All database triggers
+export const CREATE_TRIGGERS = `
+${CREATE_ISO_TIMESTAMP_TRIGGERS}
+
+${CREATE_LIVE_LABEL_SEARCH_TRIGGERS}
+`;
+
 // Complete schema with triggers
 export const COMPLETE_SCHEMA_WITH_TRIGGERS = `
 ${COMPLETE_SCHEMA}
 
+${CREATE_SEARCH_INDEX}
+
 ${CREATE_TRIGGERS}
 `;
 
@@ -332,7 +882,7 @@ export const VALIDATION_QUERIES = {
   checkTablesExist: `
     SELECT name FROM sqlite_master
     WHERE type='table'
-    AND name IN ('users', 'lists', 'tasks', 'labels', 'subtasks', 'reminders', 'task_history', 'attachments')
+    AND name IN ('users', 'lists', 'tasks', 'labels', 'task_labels', 'subtasks', 'reminders', 'task_history', 'attachments')
     ORDER BY name;
   `,
 
@@ -360,31 +910,463 @@ export const VALIDATION_QUERIES = {
 };
 
 // Migration management
+//
+// Migrations are applied in ascending `id` order, each inside its own
+// transaction. The checksum of every applied migration is stored in
+// `schema_migrations`, so a migration must never be edited once it has
+// shipped: add a new entry with the next id instead.
 export interface Migration {
-  id: string;
+  id: number;
   name: string;
-  sql: string;
-  timestamp: Date;
+  up: string;
+  down: string;
 }
 
+// Table used to track applied migrations
+export const CREATE_SCHEMA_MIGRATIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
 export const MIGRATIONS: Migration[] = [
   {
-    id: "001_initial_schema",
-    name: "Create initial database schema",
-    sql: COMPLETE_SCHEMA_WITH_TRIGGERS,
-    timestamp: new Date(),
+    id: 1,
+    name: "initial_schema",
+    up: `
+${CREATE_ALL_TABLES}
+
+${CREATE_ALL_INDEXES}
+
+${CREATE_TIMESTAMP_TRIGGERS}${CREATE_TASK_DELETION_TRIGGER}
+`,
+    down: `
+DROP TRIGGER IF EXISTS log_task_deletion;
+DROP TRIGGER IF EXISTS update_reminders_updated_at;
+DROP TRIGGER IF EXISTS update_subtasks_updated_at;
+DROP TRIGGER IF EXISTS update_tasks_updated_at;
+DROP TRIGGER IF EXISTS update_labels_updated_at;
+DROP TRIGGER IF EXISTS update_lists_updated_at;
+DROP TRIGGER IF EXISTS update_users_updated_at;
+DROP TABLE IF EXISTS attachments;
+DROP TABLE IF EXISTS task_history;
+DROP TABLE IF EXISTS reminders;
+DROP TABLE IF EXISTS subtasks;
+DROP TABLE IF EXISTS task_labels;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS labels;
+DROP TABLE IF EXISTS lists;
+DROP TABLE IF EXISTS users;
+`,
+  },
+  {
+    id: 2,
+    name: "task_search_index",
+    up: `
+${CREATE_SEARCH_INDEX}
+
+${CREATE_SEARCH_TRIGGERS}
+
+INSERT INTO tasks_fts (task_id, name, description, subtasks, labels)
+SELECT
+  t.id,
+  t.name,
+  COALESCE(t.description, ''),
+  COALESCE((SELECT group_concat(s.name, char(10)) FROM subtasks s WHERE s.task_id = t.id), ''),
+  COALESCE((SELECT group_concat(lb.name, char(10)) FROM task_labels tl JOIN labels lb ON lb.id = tl.label_id WHERE tl.task_id = t.id), '')
+FROM tasks t;
+`,
+    down: `
+DROP TRIGGER IF EXISTS tasks_fts_after_label_update;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_label_delete;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_label_insert;
+DROP TRIGGER IF EXISTS tasks_fts_after_subtask_delete;
+DROP TRIGGER IF EXISTS tasks_fts_after_subtask_update;
+DROP TRIGGER IF EXISTS tasks_fts_after_subtask_insert;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_delete;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_update;
+DROP TRIGGER IF EXISTS tasks_fts_after_task_insert;
+DROP TABLE IF EXISTS tasks_fts;
+`,
+  },
+  {
+    id: 3,
+    name: "soft_delete",
+    up: `
+ALTER TABLE tasks ADD COLUMN deleted_at DATETIME;
+ALTER TABLE lists ADD COLUMN deleted_at DATETIME;
+ALTER TABLE labels ADD COLUMN deleted_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_lists_deleted_at ON lists(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_labels_deleted_at ON labels(deleted_at);
+
+DROP TRIGGER IF EXISTS log_task_deletion;
+`,
+    down: `
+${CREATE_TASK_DELETION_TRIGGER}
+
+DROP INDEX IF EXISTS idx_labels_deleted_at;
+DROP INDEX IF EXISTS idx_lists_deleted_at;
+DROP INDEX IF EXISTS idx_tasks_deleted_at;
+
+ALTER TABLE labels DROP COLUMN deleted_at;
+ALTER TABLE lists DROP COLUMN deleted_at;
+ALTER TABLE tasks DROP COLUMN deleted_at;
+`,
+  },
+  {
+    id: 4,
+    name: "recurrence_series",
+    up: `
+ALTER TABLE tasks ADD COLUMN recurrence_series_id TEXT;
+ALTER TABLE tasks ADD COLUMN recurrence_index INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_series ON tasks(recurrence_series_id, recurrence_index);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_tasks_recurrence_series;
+
+ALTER TABLE tasks DROP COLUMN recurrence_index;
+ALTER TABLE tasks DROP COLUMN recurrence_series_id;
+`,
+  },
+  {
+    id: 5,
+    name: "task_dependencies",
+    up: `
+${CREATE_TASK_DEPENDENCIES_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_task_id);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_task_dependencies_depends_on;
+DROP TABLE IF EXISTS task_dependencies;
+`,
+  },
+  {
+    id: 6,
+    name: "custom_fields",
+    up: `
+${CREATE_CUSTOM_FIELDS_TABLE}
+
+ALTER TABLE tasks ADD COLUMN custom_fields TEXT; -- JSON object keyed by custom field ID
+
+CREATE INDEX IF NOT EXISTS idx_custom_fields_list ON custom_fields(list_id, position);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_custom_fields_list;
+
+ALTER TABLE tasks DROP COLUMN custom_fields;
+
+DROP TABLE IF EXISTS custom_fields;
+`,
+  },
+  {
+    id: 7,
+    name: "time_entries",
+    up: `
+${CREATE_TIME_ENTRIES_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id, started_at);
+
+-- Each user can have only one running timer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries(user_id) WHERE ended_at IS NULL;
+`,
+    down: `
+DROP INDEX IF EXISTS idx_time_entries_running;
+DROP INDEX IF EXISTS idx_time_entries_task;
+
+DROP TABLE IF EXISTS time_entries;
+`,
+  },
+  {
+    id: 8,
+    name: "task_comments",
+    up: `
+${CREATE_TASK_COMMENTS_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_task_comments_task;
+
+DROP TABLE IF EXISTS task_comments;
+`,
+  },
+  {
+    id: 9,
+    name: "attachment_blobs",
+    up: `
+${CREATE_BLOBS_TABLE}
+${CREATE_BLOB_SWEEPS_TABLE}
+
+ALTER TABLE attachments ADD COLUMN blob_hash TEXT; -- NULL for files uploaded before blob storage
+
+CREATE INDEX IF NOT EXISTS idx_attachments_blob_hash ON attachments(blob_hash);
+CREATE INDEX IF NOT EXISTS idx_blobs_orphaned ON blobs(orphaned_at) WHERE ref_count <= 0;
+
+-- Reference counts also follow attachments removed by ON DELETE CASCADE
+CREATE TRIGGER IF NOT EXISTS reference_attachment_blob
+AFTER INSERT ON attachments
+WHEN NEW.blob_hash IS NOT NULL
+BEGIN
+  UPDATE blobs SET ref_count = ref_count + 1, orphaned_at = NULL
+  WHERE hash = NEW.blob_hash;
+END;
+
+CREATE TRIGGER IF NOT EXISTS release_attachment_blob
+AFTER DELETE ON attachments
+WHEN OLD.blob_hash IS NOT NULL
+BEGIN
+  UPDATE blobs SET
+    ref_count = ref_count - 1,
+    orphaned_at = CASE WHEN ref_count <= 1 THEN strftime('%Y-%m-%dT%H:%M:%fZ', 'now') ELSE orphaned_at END
+  WHERE hash = OLD.blob_hash;
+END;
+`,
+    down: `
+DROP TRIGGER IF EXISTS release_attachment_blob;
+DROP TRIGGER IF EXISTS reference_attachment_blob;
+
+DROP INDEX IF EXISTS idx_blobs_orphaned;
+DROP INDEX IF EXISTS idx_attachments_blob_hash;
+
+ALTER TABLE attachments DROP COLUMN blob_hash;
+
+DROP TABLE IF EXISTS blob_sweeps;
+DROP TABLE IF EXISTS blobs;
+`,
+  },
+  {
+    id: 10,
+    name: "saved_filters",
+    up: `
+${CREATE_SAVED_FILTERS_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_saved_filters_user ON saved_filters(user_id, position);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_saved_filters_user;
+
+DROP TABLE IF EXISTS saved_filters;
+`,
+  },
+  {
+    id: 11,
+    name: "task_templates",
+    up: `
+${CREATE_TASK_TEMPLATES_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_user ON task_templates(user_id, usage_count);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_task_templates_user;
+
+DROP TABLE IF EXISTS task_templates;
+`,
+  },
+  {
+    id: 12,
+    name: "list_templates",
+    up: `
+ALTER TABLE lists ADD COLUMN settings TEXT; -- JSON ListSettings
+
+${CREATE_LIST_TEMPLATES_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_list_templates_user ON list_templates(user_id, usage_count);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_list_templates_user;
+
+DROP TABLE IF EXISTS list_templates;
+
+ALTER TABLE lists DROP COLUMN settings;
+`,
+  },
+  {
+    id: 13,
+    name: "list_collections",
+    up: `
+${CREATE_LIST_COLLECTIONS_TABLE}
+
+-- Without REFERENCES so the down migration can drop it; deleteCollection()
+-- clears it on the collection's lists
+ALTER TABLE lists ADD COLUMN collection_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_list_collections_user ON list_collections(user_id, position);
+CREATE INDEX IF NOT EXISTS idx_lists_collection ON lists(collection_id);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_lists_collection;
+DROP INDEX IF EXISTS idx_list_collections_user;
+
+ALTER TABLE lists DROP COLUMN collection_id;
+
+DROP TABLE IF EXISTS list_collections;
+`,
+  },
+  {
+    id: 14,
+    name: "list_members",
+    up: `
+${CREATE_LIST_MEMBERS_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_list_members_user ON list_members(user_id, accepted_at);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_list_members_user;
+
+DROP TABLE IF EXISTS list_members;
+`,
+  },
+  {
+    id: 15,
+    name: "list_share_links",
+    up: `
+${CREATE_LIST_SHARE_LINKS_TABLE}
+`,
+    down: `
+DROP TABLE IF EXISTS list_share_links;
+`,
+  },
+  {
+    id: 16,
+    name: "domain_events",
+    up: `
+${CREATE_DOMAIN_EVENTS_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_domain_events_pending ON domain_events(dispatched_at);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_domain_events_pending;
+
+DROP TABLE IF EXISTS domain_events;
+`,
+  },
+  {
+    id: 17,
+    name: "webhooks",
+    up: `
+${CREATE_WEBHOOKS_TABLE}
+
+${CREATE_WEBHOOK_DELIVERIES_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_user_id ON webhooks(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_webhook_deliveries_due;
+DROP INDEX IF EXISTS idx_webhook_deliveries_webhook;
+DROP INDEX IF EXISTS idx_webhooks_user_id;
+
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhooks;
+`,
+  },
+  {
+    id: 18,
+    name: "reminder_dispatch",
+    up: `
+ALTER TABLE reminders ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE reminders ADD COLUMN claimed_until DATETIME; -- Lease of the process sending it
+ALTER TABLE reminders ADD COLUMN last_error TEXT;
+
+${CREATE_NOTIFICATIONS_TABLE}
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, is_read, created_at);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_notifications_user;
+
+DROP TABLE IF EXISTS notifications;
+
+ALTER TABLE reminders DROP COLUMN last_error;
+ALTER TABLE reminders DROP COLUMN claimed_until;
+ALTER TABLE reminders DROP COLUMN attempts;
+`,
+  },
+  {
+    id: 19,
+    name: "iso_timestamps",
+    up: `
+DROP TRIGGER IF EXISTS update_reminders_updated_at;
+DROP TRIGGER IF EXISTS update_subtasks_updated_at;
+DROP TRIGGER IF EXISTS update_tasks_updated_at;
+DROP TRIGGER IF EXISTS update_labels_updated_at;
+DROP TRIGGER IF EXISTS update_lists_updated_at;
+DROP TRIGGER IF EXISTS update_users_updated_at;
+
+-- Rewrite CURRENT_TIMESTAMP values ("YYYY-MM-DD HH:MM:SS", UTC) as ISO 8601
+UPDATE users SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE created_at GLOB '????-??-?? ??:??:??';
+UPDATE users SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', updated_at) WHERE updated_at GLOB '????-??-?? ??:??:??';
+UPDATE lists SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE created_at GLOB '????-??-?? ??:??:??';
+UPDATE lists SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', updated_at) WHERE updated_at GLOB '????-??-?? ??:??:??';
+UPDATE labels SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE created_at GLOB '????-??-?? ??:??:??';
+UPDATE labels SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', updated_at) WHERE updated_at GLOB '????-??-?? ??:??:??';
+UPDATE tasks SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE created_at GLOB '????-??-?? ??:??:??';
+UPDATE tasks SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', updated_at) WHERE updated_at GLOB '????-??-?? ??:??:??';
+UPDATE subtasks SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE created_at GLOB '????-??-?? ??:??:??';
+UPDATE subtasks SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', updated_at) WHERE updated_at GLOB '????-??-?? ??:??:??';
+UPDATE reminders SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE created_at GLOB '????-??-?? ??:??:??';
+UPDATE reminders SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', updated_at) WHERE updated_at GLOB '????-??-?? ??:??:??';
+
+${CREATE_ISO_TIMESTAMP_TRIGGERS}
+`,
+    down: `
+DROP TRIGGER IF EXISTS update_reminders_updated_at;
+DROP TRIGGER IF EXISTS update_subtasks_updated_at;
+DROP TRIGGER IF EXISTS update_tasks_updated_at;
+DROP TRIGGER IF EXISTS update_labels_updated_at;
+DROP TRIGGER IF EXISTS update_lists_updated_at;
+DROP TRIGGER IF EXISTS update_users_updated_at;
+
+${CREATE_TIMESTAMP_TRIGGERS}
+`,
+  },
+  {
+    id: 20,
+    name: "search_live_labels",
+    up: `
+${DROP_SEARCH_TRIGGERS}
+${CREATE_LIVE_LABEL_SEARCH_TRIGGERS}
+${rebuildSearchIndex(LIVE_LABELS)}`,
+    down: `
+${DROP_SEARCH_TRIGGERS}
+${CREATE_SEARCH_TRIGGERS}
+${rebuildSearchIndex()}`,
+  },
+  {
+    id: 21,
+    name: "domain_event_leases",
+    up: `
+ALTER TABLE domain_events ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE domain_events ADD COLUMN claimed_until DATETIME; -- Lease of the process dispatching it
+`,
+    down: `
+ALTER TABLE domain_events DROP COLUMN claimed_until;
+ALTER TABLE domain_events DROP COLUMN attempts;
+`,
   },
 ];
 
 // Database configuration defaults
 export const DEFAULT_DATABASE_CONFIG: DatabaseConfig = {
-  path: "./data/tasks.db",
+  path: process.env.DATABASE_PATH || "./data/tasks.db",
   timeout: 10000,
   verbose: false,
   WAL: true,
   foreignKeys: true,
   backupEnabled: true,
   backupInterval: 24 * 60 * 60 * 1000, // 24 hours
+  backupRetentionDaily: 7,
+  backupRetentionWeekly: 4,
+  trashRetentionDays: 30,
+  trashPurgeInterval: 24 * 60 * 60 * 1000, // 24 hours
 };
 
 // Export createListSchema for compatibility
@@ -35,10 +35,12 @@ export class TestDatabaseManager {
     this.isTestDb = true;
     this.config = config;
 
-    this.db = DatabaseManager.getInstance({
+    // Not the shared instance, which is the app's database
+    this.db = DatabaseManager.createInstance({
       path: this.dbPath,
       timeout: config.timeout || 5000,
       verbose: config.verbose || false,
+      backupEnabled: false,
     });
   }
 
@@ -70,13 +72,6 @@ export class TestDatabaseManager {
         fs.unlinkSync(this.dbPath);
       }
 
-      // Create fresh instance
-      this.db = DatabaseManager.getInstance({
-        path: this.dbPath,
-        timeout: 5000,
-        verbose: false,
-      });
-
       // Initialize and migrate the database
       await this.db.initialize();
       await this.db.runMigrations();
@@ -103,25 +98,22 @@ export class TestDatabaseManager {
    * Clean test database
    */
   public async clean(): Promise<void> {
-    // Clear all data but keep schema
-    const tables = [
-      "task_history",
-      "attachments",
-      "reminders",
-      "subtasks",
-      "task_labels",
-      "tasks",
-      "labels",
-      "lists",
-      "users",
-    ];
-
-    for (const table of tables) {
-      try {
-        this.db.run(`DELETE FROM ${table}`);
-      } catch (error) {
-        console.warn(`Failed to clean ${table}:`, error);
+    // Clear all data but keep schema and the applied migrations. The FTS
+    // table's shadow tables are cleared through the table itself.
+    const tables = this.db.query<{ name: string }>(
+      `SELECT name FROM sqlite_master
+       WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+         AND name NOT LIKE 'tasks_fts_%' AND name != 'schema_migrations'`
+    );
+
+    // Tables are cleared in any order
+    this.db.run("PRAGMA foreign_keys = OFF");
+    try {
+      for (const { name } of tables) {
+        this.db.run(`DELETE FROM ${name}`);
       }
+    } finally {
+      this.db.run("PRAGMA foreign_keys = ON");
     }
   }
 
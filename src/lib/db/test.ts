@@ -118,7 +118,7 @@ async function testDatabaseOperations(api: any, testData: any) {
   console.log(`✅ Created task: ${newTask.name}`);
 
   // Test getting task with details
-  const taskWithDetails = await api.getTaskWithDetails(newTask.id);
+  const taskWithDetails = await api.getTaskWithDetails(newTask.id, testData.users[0].id);
   if (taskWithDetails) {
     console.log(`✅ Retrieved task with details: ${taskWithDetails.name}`);
   }
@@ -142,11 +142,11 @@ async function testDatabaseOperations(api: any, testData: any) {
   console.log(`✅ Retrieved ${labels.length} labels for user`);
 
   // Test adding label to task
-  await api.addLabelToTask(newTask.id, testData.labels[0].id);
+  await api.addLabelToTask(newTask.id, testData.labels[0].id, testData.users[0].id);
   console.log(`✅ Added label to task`);
 
   // Test getting task labels
-  const taskLabels = await api.getTaskLabels(newTask.id);
+  const taskLabels = await api.getTaskLabels(newTask.id, testData.users[0].id);
   console.log(`✅ Task has ${taskLabels.length} labels`);
 
   // Test subtask operations
@@ -156,10 +156,10 @@ async function testDatabaseOperations(api: any, testData: any) {
     isCompleted: false,
     taskId: newTask.id,
     position: 0,
-  });
+  }, testData.users[0].id);
   console.log(`✅ Created subtask: ${subtask.name}`);
 
-  const subtasks = await api.getSubtasks(newTask.id);
+  const subtasks = await api.getSubtasks(newTask.id, testData.users[0].id);
   console.log(`✅ Task has ${subtasks.length} subtasks`);
 
   // Test reminder operations
@@ -169,15 +169,15 @@ async function testDatabaseOperations(api: any, testData: any) {
     remindAt: new Date(Date.now() + 3600000), // 1 hour from now
     isSent: false,
     method: 'push',
-  });
+  }, testData.users[0].id);
   console.log(`✅ Created reminder for ${reminder.remindAt.toLocaleString()}`);
 
-  const reminders = await api.getReminders(newTask.id);
+  const reminders = await api.getReminders(newTask.id, testData.users[0].id);
   console.log(`✅ Task has ${reminders.length} reminders`);
 
   // Test task history
   console.log('Testing Task History...');
-  const history = await api.getTaskHistory(newTask.id);
+  const history = await api.getTaskHistory(newTask.id, testData.users[0].id);
   console.log(`✅ Task has ${history.length} history entries`);
 
   // Test getting user tasks with filters
@@ -1,5 +1,7 @@
 // Database Types and Interfaces for Daily Task Planner
 
+import type { TaskEvent } from '../events';
+
 export type Priority = 'High' | 'Medium' | 'Low' | 'None';
 export type TaskStatus = 'todo' | 'in_progress' | 'done' | 'archived';
 
@@ -31,6 +33,9 @@ export interface List extends BaseEntity {
   description?: string;
   position: number;
   userId: string;
+  settings?: Record<string, unknown>; // ListSettings, as JSON
+  collectionId?: string; // Sidebar folder the list is filed under
+  deletedAt?: Date; // Set while the row is in the trash
 }
 
 // Label Table
@@ -39,6 +44,7 @@ export interface Label extends BaseEntity {
   icon: string;
   color: string;
   userId: string;
+  deletedAt?: Date; // Set while the row is in the trash
 }
 
 // Task-Label Relationship
@@ -63,6 +69,10 @@ export interface Task extends BaseEntity {
   position: number;
   isRecurring: boolean;
   recurringPattern?: RecurringPattern;
+  recurrenceSeriesId?: string; // ID of the first task in a recurring series
+  recurrenceIndex?: number; // 1-based occurrence number within the series
+  customFields?: CustomFieldValues; // Values of the list's custom fields
+  deletedAt?: Date; // Set while the row is in the trash
 }
 
 export interface RecurringPattern {
@@ -91,6 +101,26 @@ export interface Reminder extends BaseEntity {
   method: 'push' | 'email' | 'sms';
 }
 
+// Due reminder claimed for sending, with what its message needs
+export interface ClaimedReminder extends Reminder {
+  attempts: number; // Including the one the claim is for
+  task: Pick<Task, 'id' | 'name' | 'date' | 'deadline' | 'listId'>;
+  user: Pick<User, 'id' | 'name' | 'email'>; // The task's owner
+}
+
+// Entry of a user's in-app notification inbox
+export interface InboxNotification {
+  id: string;
+  userId: string;
+  type: 'reminder' | 'deadline' | 'overdue' | 'assignment' | 'system';
+  title: string;
+  message: string;
+  taskId?: string;
+  sourceId?: string; // What it was sent for, e.g. a reminder; at most one each
+  isRead: boolean;
+  createdAt: Date;
+}
+
 // Task History Table (for change logging)
 export interface TaskHistory extends BaseEntity {
   taskId: string;
@@ -100,6 +130,56 @@ export interface TaskHistory extends BaseEntity {
   description?: string;
 }
 
+// Value of a tracked field before and after a change
+export interface FieldChange<T = unknown> {
+  before: T;
+  after: T;
+}
+
+// History diff keyed by task field, `labelIds` or `subtask:<id>`
+// (subtask values are SubtaskSnapshot, or null when it didn't exist)
+export type TaskHistoryDiff = Record<string, FieldChange>;
+
+export interface SubtaskSnapshot {
+  name: string;
+  isCompleted: boolean;
+  position: number;
+}
+
+// Task Dependency Table (taskId is blocked by dependsOnTaskId)
+export interface TaskDependency {
+  taskId: string;
+  dependsOnTaskId: string;
+  createdAt: Date;
+}
+
+// Time Entry Table (a running timer has no endedAt)
+export interface TimeEntry extends BaseEntity {
+  taskId: string;
+  userId: string;
+  startedAt: Date;
+  endedAt?: Date;
+  duration?: number; // Seconds, set once the entry has ended
+  description?: string;
+}
+
+// Task Comment Table
+export interface TaskComment extends BaseEntity {
+  taskId: string;
+  authorId: string;
+  body: string;
+  editedAt?: Date; // Set when the body was changed after posting
+  authorName?: string;
+  authorAvatar?: string;
+}
+
+// Tracked time of a task compared with its estimate
+export interface TaskTimeSummary {
+  taskId: string;
+  estimate?: string; // HH:mm
+  trackedSeconds: number;
+}
+
 // Attachment Table
 export interface Attachment extends BaseEntity {
   taskId: string;
@@ -108,6 +188,7 @@ export interface Attachment extends BaseEntity {
   mimeType: string;
   size: number;
   path: string;
+  blobHash?: string; // SHA-256 of the content; unset for files stored before blob storage
   uploadedAt: Date;
 }
 
@@ -123,6 +204,331 @@ export interface DatabaseStats {
   totalHistoryEntries: number;
 }
 
+// Custom Field Table (fields a list defines for its tasks)
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'single_select'
+  | 'multi_select'
+  | 'checkbox'
+  | 'url';
+
+export interface CustomField extends BaseEntity {
+  listId: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // Choices for single_select and multi_select fields
+  required: boolean;
+  position: number;
+}
+
+// Dates are stored as YYYY-MM-DD, multi-select values as arrays of options
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Task values keyed by custom field ID
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Values as submitted on create/update; null clears a value
+export type CustomFieldInput = Record<string, CustomFieldValue | null>;
+
+export type CustomFieldOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'set'
+  | 'unset';
+
+export interface CustomFieldFilter {
+  fieldId: string;
+  operator: CustomFieldOperator;
+  value?: string; // Raw value, coerced to the field type
+}
+
+export interface CustomFieldSort {
+  fieldId: string;
+  direction: 'ASC' | 'DESC';
+}
+
+// Value compared in a filter expression; Dates are compared as ISO strings
+export type FilterValue = string | number | boolean | Date | null;
+
+// Boolean filter expression, compiled to parameterized SQL by
+// QueryBuilder.filter(). Fields are names from the query's filter schema,
+// never SQL.
+export type FilterExpression =
+  | { op: 'and' | 'or'; filters: FilterExpression[] }
+  | { op: 'not'; filter: FilterExpression }
+  | {
+      op: 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte';
+      field: string;
+      value: FilterValue;
+    }
+  | { op: 'contains' | 'startsWith' | 'endsWith'; field: string; value: string }
+  | { op: 'in'; field: string; values: FilterValue[] }
+  | { op: 'between'; field: string; from: FilterValue; to: FilterValue }
+  | { op: 'isNull'; field: string }
+  | { op: 'hasAnyLabel' | 'hasAllLabels'; labelIds: string[] };
+
+// Filters for listing a user's tasks
+export interface TaskQueryFilters {
+  listId?: string;
+  status?: TaskStatus;
+  priority?: Priority;
+  labelIds?: string[];
+  dateFrom?: Date;
+  dateTo?: Date;
+  search?: string;
+  customFields?: CustomFieldFilter[];
+  where?: FilterExpression; // ANDed with the other filters
+}
+
+// Task fields paginated task listings can be sorted by
+export type TaskSortField =
+  | 'createdAt'
+  | 'updatedAt'
+  | 'name'
+  | 'dueDate'
+  | 'date'
+  | 'priority'
+  | 'position';
+
+// One page of tasks; the cursors are null at either end
+export interface TaskPage {
+  tasks: TaskWithDetails[];
+  total: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+// How the tasks of a saved filter are grouped when shown
+export type SavedFilterGroupBy = 'none' | 'status' | 'priority' | 'dueDate';
+
+// Smart list: a filter over the user's tasks, evaluated each time it is
+// opened. String values like '@today+7d' are relative dates.
+export interface SavedFilter extends BaseEntity {
+  userId: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  filter: FilterExpression;
+  sortBy: TaskSortField;
+  sortDirection: 'asc' | 'desc';
+  groupBy: SavedFilterGroupBy;
+  position: number;
+}
+
+export interface SavedFilterWithCount extends SavedFilter {
+  taskCount: number; // Tasks the filter matches right now
+}
+
+// Reminder added to tasks created from a template
+export interface TaskTemplateReminder {
+  timing: number; // Minutes before the task's deadline, or its date
+  method: 'push' | 'email' | 'sms';
+}
+
+// Reusable task with its subtasks, labels and reminders. The task's text
+// and date fields may contain placeholders like {{date+3d}} or
+// {{input:client}}, filled in each time the template is used.
+export interface TaskTemplate extends BaseEntity {
+  userId: string;
+  name: string;
+  description?: string;
+  listId?: string; // List new tasks go to unless another is chosen
+  taskName: string;
+  taskDescription?: string;
+  priority: Task['priority'];
+  estimate?: string; // HH:mm format
+  date?: string;
+  deadline?: string;
+  labels: string[]; // Label IDs
+  subtasks: Array<{ name: string; position?: number }>;
+  reminders: TaskTemplateReminder[];
+  customFields: CustomFieldValues;
+  usageCount: number;
+  inputs: string[]; // Names of the {{input:...}} values it asks for
+}
+
+// Task created from a template, with what was added alongside it
+export interface TaskTemplateInstance {
+  task: Task;
+  subtasks: Subtask[];
+  labelIds: string[];
+  reminders: Reminder[];
+}
+
+// Task of a list template. Dates are minutes from the start of the
+// template's anchor day (see toAnchorOffset in src/lib/templates.ts).
+export interface ListTemplateTask {
+  name: string;
+  description?: string;
+  priority: Priority;
+  estimate?: string; // HH:mm format
+  position: number;
+  dateOffset?: number;
+  deadlineOffset?: number;
+  parentIndex?: number; // Index of the parent task in defaultTasks
+  labels: string[]; // Label IDs
+  subtasks: Array<{ name: string; position: number }>;
+}
+
+// Snapshot of a list to start new lists from
+export interface ListTemplate extends BaseEntity {
+  userId: string;
+  name: string;
+  description?: string;
+  color: string;
+  emoji: string;
+  settings: Record<string, unknown>; // ListSettings of the captured list
+  labels: string[]; // IDs of the labels its tasks use
+  defaultTasks: ListTemplateTask[];
+  usageCount: number;
+}
+
+// List created from a template, with its tasks
+export interface ListTemplateInstance {
+  list: List;
+  tasks: Task[];
+}
+
+// Sidebar folder grouping some of a user's lists. Archived collections
+// are kept with their lists but hidden from the sidebar.
+export interface ListCollection extends BaseEntity {
+  userId: string;
+  name: string;
+  description?: string;
+  color: string;
+  icon: string;
+  position: number;
+  archivedAt?: Date;
+}
+
+export interface ListCollectionWithLists extends ListCollection {
+  listIds: string[]; // In list order
+  taskCount: number; // Open tasks across the collection's lists
+}
+
+// Role of a member of a shared list. The list's owner can do everything
+// an admin can, and also delete the list.
+export type ListRole = 'read' | 'write' | 'admin';
+
+// Someone a list is shared with, or invited to it
+export interface ListMember {
+  id: string;
+  listId: string;
+  userId: string;
+  role: ListRole;
+  invitedBy: string;
+  invitedAt: Date;
+  acceptedAt?: Date; // Unset while the invitation is pending
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
+// What a user may do with a list, and whose data the list is
+export interface ListAccess {
+  listId: string;
+  ownerId: string;
+  role: ListRole | 'owner';
+}
+
+// List another user shared with the user
+export interface SharedList {
+  id: string;
+  name: string;
+  color: string;
+  emoji: string;
+  role: ListRole;
+  ownerId: string;
+  ownerName: string;
+  ownerAvatar?: string;
+  acceptedAt: Date;
+}
+
+// Pending invitation to another user's list
+export interface ListInvitation {
+  id: string;
+  listId: string;
+  listName: string;
+  listEmoji: string;
+  role: ListRole;
+  invitedBy: string;
+  invitedByName: string;
+  invitedAt: Date;
+}
+
+// Public, read-only link to a list
+export interface ListShareLink {
+  id: string; // Unguessable link ID used in /share/[linkId]
+  listId: string;
+  createdBy: string;
+  expiresAt?: Date; // Unset for links that do not expire
+  createdAt: Date;
+}
+
+// Task as served by a share link, without private fields
+export interface PublicTask
+  extends Pick<
+    Task,
+    | 'id'
+    | 'name'
+    | 'description'
+    | 'date'
+    | 'deadline'
+    | 'priority'
+    | 'status'
+    | 'parentTaskId'
+    | 'position'
+  > {
+  subtasks: Array<Pick<Subtask, 'id' | 'name' | 'isCompleted' | 'position'>>;
+}
+
+// List as served by a share link
+export interface PublicList
+  extends Pick<List, 'id' | 'name' | 'description' | 'color' | 'emoji'> {
+  tasks: PublicTask[];
+  expiresAt?: Date;
+}
+
+// Task events a webhook can subscribe to
+export type WebhookEventType = TaskEvent['type'];
+
+// Endpoint that task events are POSTed to as signed JSON
+export interface Webhook extends BaseEntity {
+  userId: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  secret: string; // Key of the HMAC-SHA256 request signature
+  isActive: boolean; // Paused webhooks are sent nothing
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One event sent to a webhook, retried with backoff until it succeeds or
+// runs out of attempts
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string; // Domain event the delivery is for
+  eventType: WebhookEventType;
+  payload: unknown; // Request body, as queued
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date; // Unset once the delivery succeeded or failed
+  lastAttemptAt?: Date;
+  responseStatus?: number; // HTTP status of the last attempt
+  error?: string; // Why the last attempt failed
+  replayOf?: string; // Delivery this one sends again
+  createdAt: Date;
+}
+
 // Database Query Results
 export interface TaskWithDetails extends Task {
   list?: List;
@@ -132,6 +538,26 @@ export interface TaskWithDetails extends Task {
   attachments?: Attachment[];
   subtaskCount?: number;
   completedSubtaskCount?: number;
+  blockedBy?: string[]; // IDs of unfinished tasks this task depends on
+  isBlocked?: boolean;
+  timeEntries?: TimeEntry[];
+  runningTimer?: TimeEntry; // The user's running timer, if it is on this task
+  trackedSeconds?: number; // Total of the task's ended time entries
+}
+
+// Relations that can be loaded alongside a task
+export type TaskRelation =
+  | 'labels'
+  | 'subtasks'
+  | 'reminders'
+  | 'attachments'
+  | 'dependencies'
+  | 'timeEntries';
+
+// Tasks on either side of a task's dependencies
+export interface TaskDependencies {
+  blockedBy: Task[]; // Tasks that must be done first
+  blocks: Task[]; // Tasks waiting on this one
 }
 
 export interface ListWithTaskCount extends List {
@@ -143,6 +569,48 @@ export interface LabelWithTaskCount extends Label {
   taskCount: number;
 }
 
+export interface TrashContents {
+  tasks: Task[];
+  lists: List[];
+  labels: Label[];
+}
+
+export interface TrashPurgeResult {
+  tasks: number;
+  lists: number;
+  labels: number;
+}
+
+// Blobs deleted by a sweep because no attachment referenced them
+export interface BlobSweepResult {
+  blobsDeleted: number;
+  bytesReclaimed: number;
+  sweptAt: Date;
+}
+
+// Database backup copy and the result of its integrity check
+export interface BackupInfo {
+  id: string; // File name without extension
+  path: string;
+  size: number;
+  createdAt: Date;
+  verified: boolean; // PRAGMA integrity_check returned "ok"
+  verifiedAt?: Date;
+  integrityErrors?: string[];
+}
+
+export interface BackupRestoreResult {
+  restored: BackupInfo;
+  safetyBackup: BackupInfo; // Copy of the database as it was before the restore
+}
+
+export interface TaskSearchResult {
+  task: TaskWithDetails;
+  score: number; // BM25 relevance, higher is better
+  highlights: Record<string, string[]>;
+  snippet: string;
+}
+
 // Database Error Types
 export class DatabaseError extends Error {
   constructor(message: string, public code?: string) {
@@ -183,6 +651,7 @@ export interface QueryBuilder {
   from: (table: string) => QueryBuilder;
   where: (conditions: Record<string, any>) => QueryBuilder;
   whereIn: (column: string, values: any[]) => QueryBuilder;
+  whereRaw: (condition: string, params?: any[]) => QueryBuilder;
   orderBy: (column: string, direction?: 'ASC' | 'DESC') => QueryBuilder;
   limit: (count: number) => QueryBuilder;
   offset: (count: number) => QueryBuilder;
@@ -199,4 +668,8 @@ export interface DatabaseConfig {
   foreignKeys: boolean;
   backupEnabled: boolean;
   backupInterval: number; // in milliseconds
+  backupRetentionDaily: number; // newest backup of each of the last N days is kept
+  backupRetentionWeekly: number; // newest backup of each of the last N weeks is kept
+  trashRetentionDays: number; // trashed rows older than this are purged
+  trashPurgeInterval: number; // in milliseconds
 }
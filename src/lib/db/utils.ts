@@ -1,50 +1,105 @@
 // Database Utilities for Daily Task Planner
 // Migration system, health checks, and helper functions
 
-import path from "path";
 import fs from "fs";
-import {
-  DatabaseManager,
-} from "./index";
+import crypto from "crypto";
+import type { DatabaseManager } from "./index";
 import {
   ValidationError,
   NotFoundError,
   DatabaseError,
+  type FilterExpression,
+  type FilterValue,
 } from "./types";
 import {
-  SCHEMA_VERSION,
   MIGRATIONS,
+  CREATE_SCHEMA_MIGRATIONS_TABLE,
   VALIDATION_QUERIES,
   SchemaUtils,
+  type Migration,
 } from "./schema";
+import { CUSTOM_FIELD_TYPES, isSelectField } from "../custom-fields";
+import {
+  getTemplateTexts,
+  validateTemplatePlaceholders,
+} from "../templates";
+import { WEBHOOK_EVENT_TYPES } from "../webhooks";
+
+export interface AppliedMigration {
+  id: number;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+}
 
 export class MigrationManager {
   private db: DatabaseManager;
+  private migrations: Migration[];
 
-  constructor(dbManager: DatabaseManager) {
+  constructor(dbManager: DatabaseManager, migrations: Migration[] = MIGRATIONS) {
     this.db = dbManager;
+    this.migrations = [...migrations].sort((a, b) => a.id - b.id);
+
+    this.migrations.forEach((migration, index) => {
+      if (!Number.isInteger(migration.id) || migration.id < 1) {
+        throw new DatabaseError(
+          `Migration ids must be positive integers, got ${migration.id}`,
+          "MIGRATION_DEFINITION_ERROR"
+        );
+      }
+      if (index > 0 && this.migrations[index - 1].id === migration.id) {
+        throw new DatabaseError(
+          `Duplicate migration id ${migration.id}`,
+          "MIGRATION_DEFINITION_ERROR"
+        );
+      }
+    });
   }
 
   /**
-   * Get current schema version
+   * Compute the checksum recorded for a migration
    */
-  public getCurrentVersion(): string {
-    try {
-      const result = this.db.get(
-        "SELECT version FROM schema_migrations ORDER BY applied_at DESC LIMIT 1"
-      );
-      return result?.version || "0.0.0";
-    } catch (error) {
-      return "0.0.0"; // No migrations applied
-    }
+  public static checksum(migration: Migration): string {
+    return crypto
+      .createHash("sha256")
+      .update(`${migration.up}\n-- down --\n${migration.down}`)
+      .digest("hex");
+  }
+
+  /**
+   * Get current schema version (id of the latest applied migration)
+   */
+  public getCurrentVersion(): number {
+    const applied = this.getAppliedMigrations();
+    return applied.length > 0 ? applied[applied.length - 1].id : 0;
+  }
+
+  /**
+   * Get applied migrations in ascending order
+   */
+  public getAppliedMigrations(): AppliedMigration[] {
+    this.ensureMigrationsTable();
+
+    return this.db.query<AppliedMigration>(
+      `SELECT id, name, checksum, applied_at as appliedAt
+       FROM schema_migrations
+       ORDER BY id ASC`
+    );
+  }
+
+  /**
+   * Get migrations that have not been applied yet
+   */
+  public getPendingMigrations(): Migration[] {
+    const appliedIds = new Set(this.getAppliedMigrations().map((m) => m.id));
+    return this.migrations.filter((m) => !appliedIds.has(m.id));
   }
 
   /**
    * Check if migration needs to be applied
    */
   public needsMigration(): boolean {
-    const currentVersion = this.getCurrentVersion();
-    return this.compareVersions(currentVersion, SCHEMA_VERSION) < 0;
+    return this.getPendingMigrations().length > 0;
   }
 
   /**
@@ -52,34 +107,27 @@ export class MigrationManager {
    */
   public async runMigrations(): Promise<void> {
     try {
-      if (!this.needsMigration()) {
-        return;
-      }
+      this.verifyAppliedMigrations();
 
-      // Create migrations table if it doesn't exist
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS schema_migrations (
-          id TEXT PRIMARY KEY,
-          name TEXT NOT NULL,
-          version TEXT NOT NULL,
-          applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
+      const currentVersion = this.getCurrentVersion();
+      const pending = this.getPendingMigrations();
 
-      // Get applied migrations
-      const appliedMigrations = this.db.query(
-        "SELECT id FROM schema_migrations"
-      ) as { id: string }[];
-
-      const appliedIds = new Set(appliedMigrations.map((m) => m.id));
+      const outOfOrder = pending.find((m) => m.id < currentVersion);
+      if (outOfOrder) {
+        throw new DatabaseError(
+          `Migration ${outOfOrder.id} (${outOfOrder.name}) is older than the applied version ${currentVersion}`,
+          "MIGRATION_OUT_OF_ORDER"
+        );
+      }
 
-      // Apply pending migrations
-      for (const migration of MIGRATIONS) {
-        if (!appliedIds.has(migration.id)) {
-          await this.applyMigration(migration);
-        }
+      for (const migration of pending) {
+        this.applyMigration(migration);
       }
     } catch (error) {
+      if (error instanceof DatabaseError) {
+        throw error;
+      }
+
       throw new DatabaseError(
         `Migration failed: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -90,28 +138,73 @@ export class MigrationManager {
   }
 
   /**
-   * Apply a single migration
+   * Roll back applied migrations, newest first, until `toId` is the latest
+   * applied migration. `rollback(0)` reverts every migration.
    */
-  private async applyMigration(
-    migration: (typeof MIGRATIONS)[0]
-  ): Promise<void> {
-    try {
-      // Record migration start
-      this.db.run(
-        "INSERT INTO schema_migrations (id, name, version) VALUES (?, ?, ?)",
-        [migration.id, migration.name, SCHEMA_VERSION]
-      );
+  public async rollback(toId: number): Promise<void> {
+    if (!Number.isInteger(toId) || toId < 0) {
+      throw new ValidationError(`Invalid rollback target: ${toId}`);
+    }
 
-      // Execute migration SQL
-      this.db.exec(migration.sql);
+    if (toId > 0 && !this.migrations.some((m) => m.id === toId)) {
+      throw new NotFoundError(`Migration ${toId} not found`);
+    }
 
-      console.log(`Applied migration: ${migration.name} (${migration.id})`);
-    } catch (error) {
-      // Rollback migration record on failure
-      this.db.run("DELETE FROM schema_migrations WHERE id = ?", [migration.id]);
+    this.verifyAppliedMigrations();
+
+    const toRevert = this.getAppliedMigrations()
+      .filter((m) => m.id > toId)
+      .reverse();
+
+    for (const applied of toRevert) {
+      this.revertMigration(this.findMigration(applied.id)!);
+    }
+  }
+
+  /**
+   * Ensure every applied migration still matches its definition
+   */
+  public verifyAppliedMigrations(): void {
+    for (const applied of this.getAppliedMigrations()) {
+      const migration = this.findMigration(applied.id);
+
+      if (!migration) {
+        throw new DatabaseError(
+          `Applied migration ${applied.id} (${applied.name}) is not defined in MIGRATIONS`,
+          "MIGRATION_UNKNOWN"
+        );
+      }
+
+      const checksum = MigrationManager.checksum(migration);
+      if (checksum !== applied.checksum) {
+        throw new DatabaseError(
+          `Migration ${migration.id} (${migration.name}) was modified after it was applied: ` +
+            `expected checksum ${applied.checksum}, found ${checksum}`,
+          "MIGRATION_CHECKSUM_MISMATCH"
+        );
+      }
+    }
+  }
+
+  /**
+   * Apply a single migration inside a transaction
+   */
+  private applyMigration(migration: Migration): void {
+    try {
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.run(
+          "INSERT INTO schema_migrations (id, name, checksum) VALUES (?, ?, ?)",
+          [migration.id, migration.name, MigrationManager.checksum(migration)]
+        );
+      });
 
+      if (this.db.isVerbose()) {
+        console.log(`Applied migration: ${migration.id}_${migration.name}`);
+      }
+    } catch (error) {
       throw new DatabaseError(
-        `Failed to apply migration ${migration.id}: ${
+        `Failed to apply migration ${migration.id} (${migration.name}): ${
           error instanceof Error ? error.message : "Unknown error"
         }`,
         "MIGRATION_APPLY_ERROR"
@@ -120,21 +213,50 @@ export class MigrationManager {
   }
 
   /**
-   * Compare semantic versions
+   * Revert a single migration inside a transaction
    */
-  private compareVersions(v1: string, v2: string): number {
-    const parts1 = v1.split(".").map(Number);
-    const parts2 = v2.split(".").map(Number);
-
-    for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
-      const part1 = parts1[i] || 0;
-      const part2 = parts2[i] || 0;
+  private revertMigration(migration: Migration): void {
+    try {
+      this.db.transaction(() => {
+        this.db.exec(migration.down);
+        this.db.run("DELETE FROM schema_migrations WHERE id = ?", [
+          migration.id,
+        ]);
+      });
+
+      if (this.db.isVerbose()) {
+        console.log(`Reverted migration: ${migration.id}_${migration.name}`);
+      }
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to revert migration ${migration.id} (${migration.name}): ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        "MIGRATION_REVERT_ERROR"
+      );
+    }
+  }
 
-      if (part1 < part2) return -1;
-      if (part1 > part2) return 1;
+  /**
+   * Create the tracking table, replacing the legacy version-string layout
+   */
+  private ensureMigrationsTable(): void {
+    const columns = this.db.query<{ name: string }>(
+      "PRAGMA table_info(schema_migrations)"
+    );
+
+    // Databases created before numbered migrations tracked a `version`
+    // string instead of checksums. Every statement in the initial
+    // migration is idempotent, so it is safe to re-record from scratch.
+    if (columns.some((column) => column.name === "version")) {
+      this.db.exec("DROP TABLE schema_migrations");
     }
 
-    return 0;
+    this.db.exec(CREATE_SCHEMA_MIGRATIONS_TABLE);
+  }
+
+  private findMigration(id: number): Migration | undefined {
+    return this.migrations.find((m) => m.id === id);
   }
 }
 
@@ -439,7 +561,8 @@ export class HealthChecker {
   }
 
   /**
-   * Check disk space
+   * Check disk space, including attachment blobs and what the last blob
+   * sweep reclaimed
    */
   private async checkDiskSpace(): Promise<{
     name: string;
@@ -452,21 +575,26 @@ export class HealthChecker {
       // const { available } = fs.statSync(dbPath); // removed
       const stats = fs.statSync(dbPath);
       const sizeInMB = stats.size / (1024 * 1024);
-      
+      const blobs = this.getBlobUsage();
+      const details = { sizeInMB, blobs };
+      const reclaimed = blobs.lastSweep
+        ? `; last blob sweep reclaimed ${(blobs.lastSweep.bytesReclaimed / (1024 * 1024)).toFixed(2)}MB`
+        : '';
+
       if (sizeInMB > 100) {
         return {
           name: 'Disk Space',
           status: 'warning',
-          message: `Database size is ${sizeInMB.toFixed(2)}MB - consider archiving old data`,
-          details: { sizeInMB },
+          message: `Database size is ${sizeInMB.toFixed(2)}MB - consider archiving old data${reclaimed}`,
+          details,
         };
       }
 
       return {
         name: 'Disk Space',
         status: 'pass',
-        message: `Database size is healthy (${sizeInMB.toFixed(2)}MB)`,
-        details: { sizeInMB },
+        message: `Database size is healthy (${sizeInMB.toFixed(2)}MB)${reclaimed}`,
+        details,
       };
     } catch (error) {
       return {
@@ -477,6 +605,47 @@ export class HealthChecker {
     }
   }
 
+  /**
+   * Size of the stored attachment blobs, the part no attachment uses any
+   * more, and the bytes reclaimed by sweeps
+   */
+  private getBlobUsage() {
+    const usage = this.db.get<{
+      count: number;
+      bytes: number;
+      orphaned: number;
+      orphanedBytes: number;
+    }>(
+      `SELECT COUNT(*) AS count, COALESCE(SUM(size), 0) AS bytes,
+         COALESCE(SUM(ref_count <= 0), 0) AS orphaned,
+         COALESCE(SUM(CASE WHEN ref_count <= 0 THEN size ELSE 0 END), 0) AS orphanedBytes
+       FROM blobs`
+    );
+    const sweeps = this.db.get<{ reclaimedBytes: number }>(
+      'SELECT COALESCE(SUM(bytes_reclaimed), 0) AS reclaimedBytes FROM blob_sweeps'
+    );
+    const lastSweep = this.db.get<{
+      swept_at: string;
+      blobs_deleted: number;
+      bytes_reclaimed: number;
+    }>('SELECT * FROM blob_sweeps ORDER BY swept_at DESC LIMIT 1');
+
+    return {
+      count: usage?.count ?? 0,
+      bytes: usage?.bytes ?? 0,
+      orphaned: usage?.orphaned ?? 0,
+      orphanedBytes: usage?.orphanedBytes ?? 0,
+      reclaimedBytes: sweeps?.reclaimedBytes ?? 0,
+      lastSweep: lastSweep
+        ? {
+            sweptAt: lastSweep.swept_at,
+            blobsDeleted: lastSweep.blobs_deleted,
+            bytesReclaimed: lastSweep.bytes_reclaimed,
+          }
+        : null,
+    };
+  }
+
   /**
    * Check backup status
    */
@@ -487,63 +656,46 @@ export class HealthChecker {
     details?: any;
   }> {
     try {
-      const dbDir = path.dirname(
-        (this.db as any).config?.path || "./data/tasks.db"
-      );
-
-      if (!fs.existsSync(dbDir)) {
-        return {
-          name: "Backup Status",
-          status: "fail",
-          message: "Database directory not accessible",
-        };
-      }
-
-      const backupFiles = fs
-        .readdirSync(dbDir)
-        .filter(
-          (file) => file.startsWith("backup_tasks_") && file.endsWith(".db")
-        );
-
-      const latestBackup = backupFiles
-        .map((file) => ({
-          file,
-          time: fs.statSync(path.join(dbDir, file)).mtime,
-        }))
-        .sort((a, b) => b.time.getTime() - a.time.getTime())[0];
+      const backups = this.db.listBackups();
+      // Copies that failed or never went through integrity_check don't count
+      const latestBackup = backups.find((backup) => backup.verified);
 
       if (!latestBackup) {
         return {
           name: "Backup Status",
           status: "warning",
-          message: "No backup files found",
-          details: { backupCount: 0 },
+          message:
+            backups.length > 0
+              ? "No verified backup found"
+              : "No backup files found",
+          details: { backupCount: backups.length, verifiedCount: 0 },
         };
       }
 
       const hoursSinceBackup =
-        (Date.now() - latestBackup.time.getTime()) / (1000 * 60 * 60);
+        (Date.now() - latestBackup.createdAt.getTime()) / (1000 * 60 * 60);
+      const details = {
+        backupCount: backups.length,
+        verifiedCount: backups.filter((backup) => backup.verified).length,
+        hoursSinceBackup: Math.round(hoursSinceBackup),
+        latestBackup: latestBackup.id,
+        latestBackupAt: latestBackup.createdAt.toISOString(),
+      };
 
       if (hoursSinceBackup > 24) {
         return {
           name: "Backup Status",
           status: "warning",
-          message: `Last backup was ${hoursSinceBackup.toFixed(1)} hours ago`,
-          details: {
-            hoursSinceBackup: Math.round(hoursSinceBackup),
-            latestBackup: latestBackup.file,
-          },
+          message: `Last verified backup was ${hoursSinceBackup.toFixed(1)} hours ago`,
+          details,
         };
       }
 
       return {
         name: "Backup Status",
         status: "pass",
-        message: "Recent backup found",
-        details: {
-          backupCount: backupFiles.length,
-          hoursSinceBackup: Math.round(hoursSinceBackup),
-        },
+        message: "Recent verified backup found",
+        details,
       };
     } catch (error) {
       return {
@@ -557,16 +709,62 @@ export class HealthChecker {
   }
 }
 
+// Sort column of a keyset-paginated query; the last one must be unique
+export interface KeysetColumn {
+  column: string;
+  direction: "ASC" | "DESC";
+}
+
+// One page of a keyset-paginated query, with opaque cursors to its
+// neighbours (null at either end)
+export interface KeysetPage<T> {
+  rows: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+// Fields a filter expression may use, mapped to trusted SQL expressions
+export interface FilterSchema {
+  fields: Record<string, string>;
+  // Resolves fields not in `fields`, e.g. custom fields by prefix
+  resolveField?: (field: string) => string | undefined;
+  // Column task_labels.task_id is matched against for label filters
+  labelTaskColumn?: string;
+}
+
+// Deepest nesting of and/or/not accepted in a filter expression
+const MAX_FILTER_DEPTH = 16;
+
+const FILTER_COMPARISONS = {
+  eq: "=",
+  ne: "IS NOT",
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+} as const;
+
+interface KeysetCursor {
+  direction: "next" | "prev";
+  values: unknown[];
+}
+
 export class QueryBuilder {
   private query: {
     select: string[];
     from: string;
     where: Record<string, any>;
     whereIn: Record<string, any[]>;
+    whereRaw: Array<{ condition: string; params: any[] }>;
     orderBy: Array<{ column: string; direction: "ASC" | "DESC" }>;
     limit?: number;
     offset?: number;
     joins: Array<{ table: string; condition: string }>;
+    keyset?: {
+      columns: KeysetColumn[];
+      limit: number;
+      cursor?: KeysetCursor;
+    };
   };
 
   constructor() {
@@ -575,6 +773,7 @@ export class QueryBuilder {
       from: "",
       where: {},
       whereIn: {},
+      whereRaw: [],
       orderBy: [],
       joins: [],
     };
@@ -586,7 +785,7 @@ export class QueryBuilder {
   }
 
   public from(table: string): QueryBuilder {
-    this.query.from = SchemaUtils.sanitizeTableName(table);
+    this.query.from = QueryBuilder.sanitizeTableReference(table);
     return this;
   }
 
@@ -600,6 +799,11 @@ export class QueryBuilder {
     return this;
   }
 
+  public whereRaw(condition: string, params: any[] = []): QueryBuilder {
+    this.query.whereRaw.push({ condition, params });
+    return this;
+  }
+
   public orderBy(
     column: string,
     direction: "ASC" | "DESC" = "ASC"
@@ -618,23 +822,340 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Add a boolean filter expression, ANDed with the other conditions
+   */
+  public filter(
+    expression: FilterExpression,
+    schema: FilterSchema
+  ): QueryBuilder {
+    const { sql, params } = QueryBuilder.compileFilter(expression, schema);
+    return this.whereRaw(sql, params);
+  }
+
+  /**
+   * Compile a filter expression to a parameterized SQL condition.
+   * Unknown fields and malformed nodes throw a ValidationError.
+   */
+  public static compileFilter(
+    expression: FilterExpression,
+    schema: FilterSchema,
+    depth = 0
+  ): { sql: string; params: any[] } {
+    if (depth > MAX_FILTER_DEPTH) {
+      throw new ValidationError("Filter expression is nested too deeply");
+    }
+
+    const compile = (child: FilterExpression) =>
+      QueryBuilder.compileFilter(child, schema, depth + 1);
+    const column = (field: string) => {
+      const sql = Object.prototype.hasOwnProperty.call(schema.fields, field)
+        ? schema.fields[field]
+        : schema.resolveField?.(field);
+      if (!sql) {
+        throw new ValidationError(`Unknown filter field: ${field}`);
+      }
+      return sql;
+    };
+
+    switch (expression?.op) {
+      case "and":
+      case "or": {
+        // An empty AND matches everything, an empty OR nothing
+        if (!Array.isArray(expression.filters)) break;
+        if (expression.filters.length === 0) {
+          const sql = expression.op === "and" ? "1 = 1" : "1 = 0";
+          return { sql, params: [] };
+        }
+
+        const parts = expression.filters.map(compile);
+        return {
+          sql: parts
+            .map((part) => `(${part.sql})`)
+            .join(expression.op === "and" ? " AND " : " OR "),
+          params: parts.flatMap((part) => part.params),
+        };
+      }
+      case "not": {
+        // Comparisons with NULL are unknown; NOT of those matches the row
+        const inner = compile(expression.filter);
+        return { sql: `NOT COALESCE((${inner.sql}), 0)`, params: inner.params };
+      }
+      case "eq":
+      case "ne":
+      case "lt":
+      case "lte":
+      case "gt":
+      case "gte": {
+        const sql = column(expression.field);
+        const value = QueryBuilder.filterValue(expression.value);
+        if (value === null && expression.op === "eq") {
+          return { sql: `${sql} IS NULL`, params: [] };
+        }
+        if (value === null && expression.op === "ne") {
+          return { sql: `${sql} IS NOT NULL`, params: [] };
+        }
+        const operator = FILTER_COMPARISONS[expression.op];
+        return { sql: `${sql} ${operator} ?`, params: [value] };
+      }
+      case "contains":
+      case "startsWith":
+      case "endsWith": {
+        if (typeof expression.value !== "string") break;
+        const pattern = QueryBuilder.escapeLike(expression.value);
+        return {
+          sql: `${column(expression.field)} LIKE ? ESCAPE '\\'`,
+          params: [
+            expression.op === "startsWith"
+              ? `${pattern}%`
+              : expression.op === "endsWith"
+              ? `%${pattern}`
+              : `%${pattern}%`,
+          ],
+        };
+      }
+      case "in": {
+        if (!Array.isArray(expression.values)) break;
+        const sql = column(expression.field);
+        const values = expression.values.map(QueryBuilder.filterValue);
+        const nonNull = values.filter((value) => value !== null);
+        const conditions = [
+          ...(nonNull.length > 0
+            ? [`${sql} IN (${nonNull.map(() => "?").join(", ")})`]
+            : []),
+          ...(nonNull.length < values.length ? [`${sql} IS NULL`] : []),
+        ];
+        return {
+          sql: conditions.length > 0 ? conditions.join(" OR ") : "1 = 0",
+          params: nonNull,
+        };
+      }
+      case "between":
+        return {
+          sql: `${column(expression.field)} BETWEEN ? AND ?`,
+          params: [
+            QueryBuilder.filterValue(expression.from),
+            QueryBuilder.filterValue(expression.to),
+          ],
+        };
+      case "isNull":
+        return { sql: `${column(expression.field)} IS NULL`, params: [] };
+      case "hasAnyLabel":
+      case "hasAllLabels": {
+        if (!Array.isArray(expression.labelIds)) break;
+        if (!schema.labelTaskColumn) {
+          throw new ValidationError("Label filters are not supported here");
+        }
+
+        const labelIds = Array.from(new Set(expression.labelIds.map(String)));
+        if (labelIds.length === 0) {
+          // Every one of no labels is carried; any of them is not
+          const all = expression.op === "hasAllLabels";
+          return { sql: all ? "1 = 1" : "1 = 0", params: [] };
+        }
+
+        const placeholders = labelIds.map(() => "?").join(", ");
+        const matching = `FROM task_labels tl WHERE tl.task_id = ${schema.labelTaskColumn} AND tl.label_id IN (${placeholders})`;
+        return expression.op === "hasAnyLabel"
+          ? { sql: `EXISTS (SELECT 1 ${matching})`, params: labelIds }
+          : {
+              sql: `(SELECT COUNT(DISTINCT tl.label_id) ${matching}) = ?`,
+              params: [...labelIds, labelIds.length],
+            };
+      }
+    }
+
+    throw new ValidationError(
+      `Invalid filter expression: ${JSON.stringify(expression)}`
+    );
+  }
+
+  /**
+   * Escape LIKE wildcards so the value matches literally with ESCAPE '\'
+   */
+  public static escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, "\\$&");
+  }
+
+  /**
+   * Check a filter operand is a plain value that can be bound
+   */
+  private static filterValue(value: unknown): FilterValue {
+    if (
+      value === null ||
+      value instanceof Date ||
+      ["string", "number", "boolean"].includes(typeof value)
+    ) {
+      return value as FilterValue;
+    }
+    throw new ValidationError(`Invalid filter value: ${JSON.stringify(value)}`);
+  }
+
+  /**
+   * Page through the results by their sort columns instead of OFFSET, so
+   * rows inserted or removed between requests don't shift later pages.
+   * The columns replace any orderBy(); the last one must be unique (e.g.
+   * the id) so rows never tie. Read the results with readKeysetPage().
+   */
+  public keyset(
+    columns: KeysetColumn[],
+    limit: number,
+    cursor?: string
+  ): QueryBuilder {
+    if (columns.length === 0) {
+      throw new ValidationError("Keyset pagination needs a sort column");
+    }
+
+    this.query.keyset = {
+      columns,
+      limit,
+      cursor: cursor ? QueryBuilder.decodeCursor(columns, cursor) : undefined,
+    };
+    return this;
+  }
+
   public join(table: string, condition: string): QueryBuilder {
     this.query.joins.push({
-      table: SchemaUtils.sanitizeTableName(table),
+      table: QueryBuilder.sanitizeTableReference(table),
       condition,
     });
     return this;
   }
 
+  /**
+   * Sanitize a table reference, keeping an optional alias ("tasks t")
+   */
+  private static sanitizeTableReference(reference: string): string {
+    return reference
+      .trim()
+      .split(/\s+/)
+      .slice(0, 2)
+      .map((part) => SchemaUtils.sanitizeTableName(part))
+      .join(" ");
+  }
+
   public build(): { sql: string; params: any[] } {
-    const params: any[] = [];
+    const { keyset } = this.query;
+    const backward = keyset?.cursor?.direction === "prev";
+
+    // Build SELECT clause; keyset values are selected for the cursors
+    const columns = [
+      ...(this.query.select.length > 0 ? this.query.select : ["*"]),
+      ...(keyset?.columns ?? []).map(
+        ({ column }, index) => `${column} AS keyset_${index}`
+      ),
+    ];
+    // Rows beyond the cursor, walking backwards for the previous page
+    const { sql: fromClause, params } = this.buildFromWhere(
+      keyset?.cursor
+        ? QueryBuilder.keysetCondition(keyset.columns, keyset.cursor)
+        : undefined
+    );
+    let sql = `SELECT ${columns.join(", ")}${fromClause}`;
+
+    // Build ORDER BY clause
+    const orderBy = keyset
+      ? keyset.columns.map(({ column, direction }) => ({
+          column,
+          direction: backward ? QueryBuilder.reverse(direction) : direction,
+        }))
+      : this.query.orderBy;
+    if (orderBy.length > 0) {
+      const orderClauses = orderBy.map(
+        ({ column, direction }) => `${column} ${direction}`
+      );
+      sql += ` ORDER BY ${orderClauses.join(", ")}`;
+    }
+
+    // One extra row tells whether there is another page
+    if (keyset) {
+      sql += " LIMIT ?";
+      params.push(keyset.limit + 1);
+      return { sql, params };
+    }
+
+    // Build LIMIT clause
+    if (this.query.limit) {
+      sql += " LIMIT ?";
+      params.push(this.query.limit);
+    }
+
+    // Build OFFSET clause
+    if (this.query.offset) {
+      if (!this.query.limit) {
+        sql += " LIMIT -1";
+      }
+      sql += " OFFSET ?";
+      params.push(this.query.offset);
+    }
 
-    // Build SELECT clause
-    const selectClause =
-      this.query.select.length > 0 ? this.query.select.join(", ") : "*";
+    return { sql, params };
+  }
+
+  /**
+   * Build a query counting every matching row, ignoring order and paging
+   */
+  public buildCount(): { sql: string; params: any[] } {
+    const { sql, params } = this.buildFromWhere();
+    return { sql: `SELECT COUNT(*) AS count${sql}`, params };
+  }
+
+  /**
+   * Turn the rows of a keyset() query into a page with cursors
+   */
+  public readKeysetPage<T>(rows: any[]): KeysetPage<T> {
+    const { keyset } = this.query;
+    if (!keyset) {
+      throw new DatabaseError("Query is not keyset-paginated", "QUERY_ERROR");
+    }
+
+    const { columns, limit, cursor } = keyset;
+    const backward = cursor?.direction === "prev";
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (backward) {
+      page.reverse();
+    }
+
+    const valuesOf = (row: any) =>
+      columns.map((_, index) => row[`keyset_${index}`]);
+    const first = page[0];
+    const last = page[page.length - 1];
+
+    // An empty page past either end still links back to where it started
+    const nextValues = last ? valuesOf(last) : cursor?.values;
+    const prevValues = first ? valuesOf(first) : cursor?.values;
+    const hasNext = backward ? cursor !== undefined : hasMore;
+    const hasPrev = backward ? hasMore : cursor !== undefined;
+
+    return {
+      rows: page.map((row) => {
+        const data = { ...row };
+        columns.forEach((_, index) => delete data[`keyset_${index}`]);
+        return data as T;
+      }),
+      nextCursor:
+        hasNext && nextValues
+          ? QueryBuilder.encodeCursor(columns, "next", nextValues)
+          : null,
+      prevCursor:
+        hasPrev && prevValues
+          ? QueryBuilder.encodeCursor(columns, "prev", prevValues)
+          : null,
+    };
+  }
+
+  /**
+   * Build the FROM, JOIN and WHERE clauses
+   */
+  private buildFromWhere(extra?: { condition: string; params: any[] }): {
+    sql: string;
+    params: any[];
+  } {
+    const params: any[] = [];
 
     // Build FROM clause
-    let sql = `SELECT ${selectClause} FROM ${this.query.from}`;
+    let sql = ` FROM ${this.query.from}`;
 
     // Build JOIN clauses
     for (const join of this.query.joins) {
@@ -644,8 +1165,10 @@ export class QueryBuilder {
     // Build WHERE clause
     const whereConditions: string[] = [];
 
+    // Keys may carry their own operator ("t.date >=", "t.name LIKE")
     for (const [key, value] of Object.entries(this.query.where)) {
-      whereConditions.push(`${key} = ?`);
+      const hasOperator = /\s(=|!=|<>|<|<=|>|>=|LIKE|MATCH)$/i.test(key);
+      whereConditions.push(hasOperator ? `${key} ?` : `${key} = ?`);
       params.push(value);
     }
 
@@ -655,31 +1178,103 @@ export class QueryBuilder {
       params.push(...values);
     }
 
+    for (const { condition, params: rawParams } of [
+      ...this.query.whereRaw,
+      ...(extra ? [extra] : []),
+    ]) {
+      whereConditions.push(`(${condition})`);
+      params.push(...rawParams);
+    }
+
     if (whereConditions.length > 0) {
       sql += ` WHERE ${whereConditions.join(" AND ")}`;
     }
 
-    // Build ORDER BY clause
-    if (this.query.orderBy.length > 0) {
-      const orderClauses = this.query.orderBy.map(
-        ({ column, direction }) => `${column} ${direction}`
-      );
-      sql += ` ORDER BY ${orderClauses.join(", ")}`;
-    }
+    return { sql, params };
+  }
 
-    // Build LIMIT clause
-    if (this.query.limit) {
-      sql += ` LIMIT ${this.query.limit}`;
-      params.push(this.query.limit);
+  /**
+   * Rows after the cursor in sort order: ties on the leading columns are
+   * broken by the next one. IS keeps NULL values comparable.
+   */
+  private static keysetCondition(
+    columns: KeysetColumn[],
+    cursor: KeysetCursor
+  ): { condition: string; params: any[] } {
+    const backward = cursor.direction === "prev";
+    const alternatives: string[] = [];
+    const params: any[] = [];
+
+    columns.forEach(({ column, direction }, index) => {
+      const ascending = (direction === "ASC") !== backward;
+      const parts = columns
+        .slice(0, index)
+        .map((previous) => `(${previous.column}) IS ?`);
+      parts.push(`(${column}) ${ascending ? ">" : "<"} ?`);
+
+      alternatives.push(`(${parts.join(" AND ")})`);
+      params.push(...cursor.values.slice(0, index + 1));
+    });
+
+    return { condition: alternatives.join(" OR "), params };
+  }
+
+  private static reverse(direction: "ASC" | "DESC"): "ASC" | "DESC" {
+    return direction === "ASC" ? "DESC" : "ASC";
+  }
+
+  /**
+   * Fingerprint of the sort a cursor was made for, so it can't be used
+   * with another one
+   */
+  private static keysetSignature(columns: KeysetColumn[]): string {
+    return crypto
+      .createHash("sha256")
+      .update(columns.map((c) => `${c.column} ${c.direction}`).join(","))
+      .digest("hex")
+      .slice(0, 12);
+  }
+
+  private static encodeCursor(
+    columns: KeysetColumn[],
+    direction: KeysetCursor["direction"],
+    values: unknown[]
+  ): string {
+    return Buffer.from(
+      JSON.stringify({
+        d: direction,
+        k: values,
+        s: QueryBuilder.keysetSignature(columns),
+      })
+    ).toString("base64url");
+  }
+
+  private static decodeCursor(
+    columns: KeysetColumn[],
+    cursor: string
+  ): KeysetCursor {
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+      throw new ValidationError("Invalid pagination cursor");
     }
 
-    // Build OFFSET clause
-    if (this.query.offset) {
-      sql += ` OFFSET ${this.query.offset}`;
-      params.push(this.query.offset);
+    if (
+      !decoded ||
+      (decoded.d !== "next" && decoded.d !== "prev") ||
+      !Array.isArray(decoded.k) ||
+      decoded.k.length !== columns.length
+    ) {
+      throw new ValidationError("Invalid pagination cursor");
+    }
+    if (decoded.s !== QueryBuilder.keysetSignature(columns)) {
+      throw new ValidationError(
+        "Pagination cursor was created for a different sort order"
+      );
     }
 
-    return { sql, params };
+    return { direction: decoded.d, values: decoded.k };
   }
 
   public reset(): void {
@@ -688,12 +1283,64 @@ export class QueryBuilder {
       from: "",
       where: {},
       whereIn: {},
+      whereRaw: [],
       orderBy: [],
       joins: [],
     };
   }
 }
 
+export class FullTextSearch {
+  /**
+   * Convert free-form user input into an FTS5 MATCH expression.
+   * Every term is quoted (so FTS5 operators in the input are treated as
+   * plain text) and prefix-matched; all terms must match.
+   */
+  static buildMatchQuery(query: string): string | null {
+    const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    if (!terms || terms.length === 0) {
+      return null;
+    }
+
+    return terms.map((term) => `"${term}"*`).join(" ");
+  }
+
+  /**
+   * Collect the highlighted fragments of a multi-value column
+   * (subtask and label names are stored newline-separated)
+   */
+  static extractHighlights(highlighted: string | null, marker: string): string[] {
+    if (!highlighted) {
+      return [];
+    }
+
+    return highlighted
+      .split("\n")
+      .filter((fragment) => fragment.includes(marker));
+  }
+
+  /**
+   * HTML-escape highlighted text, then turn the match markers into tags.
+   * Task text is user input, so only the tags are markup in the result.
+   */
+  static markHighlights(
+    highlighted: string,
+    [open, close]: readonly [string, string],
+    [openTag, closeTag]: readonly [string, string]
+  ): string {
+    return highlighted
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;")
+      .split(open)
+      .join(openTag)
+      .split(close)
+      .join(closeTag);
+  }
+}
+
 export class DataValidator {
   /**
    * Validate task data
@@ -798,6 +1445,253 @@ export class DataValidator {
     };
   }
 
+  /**
+   * Validate custom field definition
+   */
+  public static validateCustomField(data: any): {
+    isValid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (
+      !data.name ||
+      typeof data.name !== "string" ||
+      data.name.trim().length === 0
+    ) {
+      errors.push("Custom field name is required");
+    }
+
+    if (!CUSTOM_FIELD_TYPES.includes(data.type)) {
+      errors.push("Invalid custom field type");
+    } else if (isSelectField(data.type)) {
+      const options = Array.isArray(data.options) ? data.options : [];
+      if (options.length === 0) {
+        errors.push("Select fields need at least one option");
+      }
+      if (
+        options.some(
+          (option: unknown) =>
+            typeof option !== "string" || option.trim().length === 0
+        )
+      ) {
+        errors.push("Select options must be non-empty strings");
+      }
+      if (new Set(options).size !== options.length) {
+        errors.push("Select options must be unique");
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate saved filter data; the filter expression itself is checked
+   * by compiling it
+   */
+  public static validateSavedFilter(data: any): {
+    isValid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (
+      !data.name ||
+      typeof data.name !== "string" ||
+      data.name.trim().length === 0
+    ) {
+      errors.push("Saved filter name is required");
+    } else if (data.name.trim().length > 100) {
+      errors.push("Saved filter name must be 100 characters or less");
+    }
+
+    if (!["asc", "desc"].includes(data.sortDirection)) {
+      errors.push("Sort direction must be asc or desc");
+    }
+
+    if (!["none", "status", "priority", "dueDate"].includes(data.groupBy)) {
+      errors.push("Invalid saved filter grouping");
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate task template data
+   */
+  public static validateTaskTemplate(data: any): {
+    isValid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (
+      !data.name ||
+      typeof data.name !== "string" ||
+      data.name.trim().length === 0
+    ) {
+      errors.push("Template name is required");
+    } else if (data.name.trim().length > 100) {
+      errors.push("Template name must be 100 characters or less");
+    }
+
+    if (
+      !data.taskName ||
+      typeof data.taskName !== "string" ||
+      data.taskName.trim().length === 0
+    ) {
+      errors.push("Task name is required");
+    }
+
+    if (!["High", "Medium", "Low", "None"].includes(data.priority)) {
+      errors.push("Invalid priority value");
+    }
+
+    if (data.estimate && !/^\d{1,2}:\d{2}$/.test(data.estimate)) {
+      errors.push("Estimate must be in HH:mm format");
+    }
+
+    if (
+      (data.subtasks ?? []).some(
+        (subtask: any) =>
+          typeof subtask?.name !== "string" || subtask.name.trim() === ""
+      )
+    ) {
+      errors.push("Subtask name is required");
+    }
+
+    for (const reminder of data.reminders ?? []) {
+      if (!Number.isInteger(reminder?.timing) || reminder.timing < 0) {
+        errors.push("Reminder timing must be a whole number of minutes");
+      }
+      if (!["push", "email", "sms"].includes(reminder?.method)) {
+        errors.push("Invalid reminder method");
+      }
+    }
+
+    errors.push(...validateTemplatePlaceholders(getTemplateTexts(data)));
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate list template data
+   */
+  public static validateListTemplate(data: any): {
+    isValid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (
+      !data.name ||
+      typeof data.name !== "string" ||
+      data.name.trim().length === 0
+    ) {
+      errors.push("Template name is required");
+    } else if (data.name.trim().length > 100) {
+      errors.push("Template name must be 100 characters or less");
+    }
+
+    if (!data.color || typeof data.color !== "string") {
+      errors.push("List color is required");
+    }
+
+    if (
+      !data.settings ||
+      typeof data.settings !== "object" ||
+      Array.isArray(data.settings)
+    ) {
+      errors.push("List settings must be an object");
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate list collection data
+   */
+  public static validateListCollection(data: any): {
+    isValid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (
+      !data.name ||
+      typeof data.name !== "string" ||
+      data.name.trim().length === 0
+    ) {
+      errors.push("Collection name is required");
+    } else if (data.name.trim().length > 100) {
+      errors.push("Collection name must be 100 characters or less");
+    }
+
+    if (!data.color || !/^#[0-9A-F]{6}$/i.test(data.color)) {
+      errors.push("Collection color must be a hex color");
+    }
+
+    if (!data.icon || typeof data.icon !== "string") {
+      errors.push("Collection icon is required");
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate webhook data
+   */
+  public static validateWebhook(data: any): {
+    isValid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(data.url).protocol;
+    } catch {
+      errors.push("Webhook URL is invalid");
+    }
+    if (protocol && protocol !== "http:" && protocol !== "https:") {
+      errors.push("Webhook URL must use http or https");
+    }
+
+    if (!Array.isArray(data.eventTypes) || data.eventTypes.length === 0) {
+      errors.push("Webhook must subscribe to at least one event type");
+    } else {
+      for (const type of data.eventTypes) {
+        if (!WEBHOOK_EVENT_TYPES.includes(type)) {
+          errors.push(`Unknown webhook event type: ${type}`);
+        }
+      }
+    }
+
+    if (typeof data.secret !== "string" || data.secret.length < 16) {
+      errors.push("Webhook secret must be at least 16 characters");
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
   /**
    * Sanitize string input
    */
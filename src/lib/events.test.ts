@@ -0,0 +1,104 @@
+/**
+ * Domain Event Tests
+ * Tests for subscribing to and publishing domain events
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+
+import {
+  isTaskEvent,
+  publishDomainEvents,
+  subscribeDomainEvents,
+  type RecordedDomainEvent,
+} from './events';
+
+const recorded = {
+  userId: 'user-1',
+  actorId: 'user-2',
+  occurredAt: '2024-01-01T00:00:00.000Z',
+};
+
+const taskCreated: RecordedDomainEvent = {
+  ...recorded,
+  id: 'event-1',
+  type: 'TaskCreated',
+  taskId: 'task-1',
+  listId: 'list-1',
+};
+
+const listReordered: RecordedDomainEvent = {
+  ...recorded,
+  id: 'event-2',
+  type: 'ListReordered',
+  listId: 'list-1',
+  taskIds: ['task-2', 'task-1'],
+};
+
+describe('Domain Events', () => {
+  const unsubscribers: (() => void)[] = [];
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+  });
+
+  test('should deliver events to every subscriber in order', async () => {
+    const first: string[] = [];
+    const second: string[] = [];
+    unsubscribers.push(
+      subscribeDomainEvents((event) => {
+        first.push(event.id);
+      }),
+      subscribeDomainEvents(async (event) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        second.push(event.id);
+      })
+    );
+
+    expect(await publishDomainEvents([taskCreated, listReordered])).toEqual([]);
+
+    expect(first).toEqual(['event-1', 'event-2']);
+    expect(second).toEqual(['event-1', 'event-2']);
+  });
+
+  test('should stop delivering once unsubscribed', async () => {
+    const received: string[] = [];
+    const unsubscribe = subscribeDomainEvents((event) => {
+      received.push(event.id);
+    });
+
+    await publishDomainEvents([taskCreated]);
+    unsubscribe();
+    await publishDomainEvents([listReordered]);
+
+    expect(received).toEqual(['event-1']);
+  });
+
+  test('should keep delivering when a subscriber fails', async () => {
+    const received: string[] = [];
+    const consoleError = console.error;
+    console.error = () => {};
+    unsubscribers.push(
+      subscribeDomainEvents(() => {
+        throw new Error('Subscriber failed');
+      }),
+      subscribeDomainEvents((event) => {
+        received.push(event.id);
+      })
+    );
+
+    let failed: string[];
+    try {
+      failed = await publishDomainEvents([taskCreated, listReordered]);
+    } finally {
+      console.error = consoleError;
+    }
+
+    expect(received).toEqual(['event-1', 'event-2']);
+    expect(failed).toEqual(['event-1', 'event-2']);
+  });
+
+  test('should tell task events apart', () => {
+    expect(isTaskEvent(taskCreated)).toBe(true);
+    expect(isTaskEvent(listReordered)).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+// Domain events
+// Typed events for every change to tasks, lists and labels. DatabaseAPI
+// writes them to the domain_events outbox in the transaction making the
+// change, then hands committed events to the subscribers here, in order.
+// An event is handed over again if a subscriber failed for it.
+
+import type { TaskHistoryDiff } from "./db/types";
+
+interface TaskEventFields {
+  taskId: string;
+  listId: string;
+}
+
+export interface TaskCreatedEvent extends TaskEventFields {
+  type: "TaskCreated";
+}
+
+export interface TaskUpdatedEvent extends TaskEventFields {
+  type: "TaskUpdated";
+  diff: TaskHistoryDiff; // As recorded in the task's history
+}
+
+// Follows the TaskUpdated event that set the status to done
+export interface TaskCompletedEvent extends TaskEventFields {
+  type: "TaskCompleted";
+}
+
+export interface TaskDeletedEvent extends TaskEventFields {
+  type: "TaskDeleted";
+}
+
+export interface TaskRestoredEvent extends TaskEventFields {
+  type: "TaskRestored";
+}
+
+export interface ListCreatedEvent {
+  type: "ListCreated";
+  listId: string;
+}
+
+export interface ListDeletedEvent {
+  type: "ListDeleted";
+  listId: string;
+}
+
+export interface ListRestoredEvent {
+  type: "ListRestored";
+  listId: string;
+}
+
+export interface ListReorderedEvent {
+  type: "ListReordered";
+  listId: string;
+  taskIds: string[]; // The list's tasks in their new order
+}
+
+export interface LabelCreatedEvent {
+  type: "LabelCreated";
+  labelId: string;
+}
+
+export interface LabelUpdatedEvent {
+  type: "LabelUpdated";
+  labelId: string;
+}
+
+export interface LabelDeletedEvent {
+  type: "LabelDeleted";
+  labelId: string;
+}
+
+export interface LabelRestoredEvent {
+  type: "LabelRestored";
+  labelId: string;
+}
+
+export type TaskEvent =
+  | TaskCreatedEvent
+  | TaskUpdatedEvent
+  | TaskCompletedEvent
+  | TaskDeletedEvent
+  | TaskRestoredEvent;
+
+export type DomainEvent =
+  | TaskEvent
+  | ListCreatedEvent
+  | ListDeletedEvent
+  | ListRestoredEvent
+  | ListReorderedEvent
+  | LabelCreatedEvent
+  | LabelUpdatedEvent
+  | LabelDeletedEvent
+  | LabelRestoredEvent;
+
+export type DomainEventType = DomainEvent["type"];
+
+// An event as stored in the outbox
+export type RecordedDomainEvent<E extends DomainEvent = DomainEvent> = E & {
+  id: string;
+  userId: string; // Owner of the changed data
+  actorId: string; // Who made the change; a list member or the owner
+  occurredAt: string;
+};
+
+export type DomainEventHandler = (
+  event: RecordedDomainEvent
+) => void | Promise<void>;
+
+// A production build bundles instrumentation apart from the route handlers,
+// each with its own copy of this module. The subscribers are kept on
+// globalThis so events recorded by a route reach the workers started there.
+const globalForEvents = globalThis as typeof globalThis & {
+  domainEventHandlers?: Set<DomainEventHandler>;
+};
+const handlers = (globalForEvents.domainEventHandlers ??=
+  new Set<DomainEventHandler>());
+
+/**
+ * Receive every committed domain event until the returned function is
+ * called
+ */
+export function subscribeDomainEvents(
+  handler: DomainEventHandler
+): () => void {
+  handlers.add(handler);
+  return () => {
+    handlers.delete(handler);
+  };
+}
+
+/**
+ * Hand events to every subscriber, one event at a time. A failing
+ * subscriber is logged and does not stop delivery to the others. Returns
+ * the IDs of the events a subscriber failed for.
+ */
+export async function publishDomainEvents(
+  events: RecordedDomainEvent[]
+): Promise<string[]> {
+  const failed: string[] = [];
+  for (const event of events) {
+    for (const handler of handlers) {
+      try {
+        await handler(event);
+      } catch (error) {
+        console.error(`[Events] Handler failed for ${event.type}:`, error);
+        if (!failed.includes(event.id)) {
+          failed.push(event.id);
+        }
+      }
+    }
+  }
+  return failed;
+}
+
+/**
+ * Whether an event is about a task
+ */
+export function isTaskEvent(
+  event: RecordedDomainEvent
+): event is RecordedDomainEvent<TaskEvent> {
+  return "taskId" in event;
+}
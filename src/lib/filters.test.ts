@@ -0,0 +1,208 @@
+/**
+ * Filter Expression Tests
+ * Tests for mapping task and advanced filters onto filter expressions and
+ * resolving relative dates
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import {
+  advancedFilterToExpression,
+  customFieldFilterField,
+  resolveFilterDates,
+  resolveRelativeDate,
+  taskFiltersToExpression,
+} from './filters';
+import type { TaskFilters } from '../types/tasks';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+describe('Task filter expressions', () => {
+  test('should AND the set task filters together', () => {
+    const filters = {
+      status: ['todo', 'in_progress'],
+      priority: ['High'],
+      labelIds: ['label-1'],
+      hasDeadline: true,
+    } as TaskFilters;
+
+    expect(taskFiltersToExpression(filters, NOW)).toEqual({
+      op: 'and',
+      filters: [
+        { op: 'hasAnyLabel', labelIds: ['label-1'] },
+        { op: 'in', field: 'status', values: ['todo', 'in_progress'] },
+        { op: 'in', field: 'priority', values: ['High'] },
+        { op: 'not', filter: { op: 'isNull', field: 'deadline' } },
+      ],
+    });
+  });
+
+  test('should match open tasks past their deadline as overdue', () => {
+    expect(taskFiltersToExpression({ isOverdue: true }, NOW)).toEqual({
+      op: 'and',
+      filters: [
+        { op: 'lt', field: 'deadline', value: NOW },
+        {
+          op: 'not',
+          filter: { op: 'in', field: 'status', values: ['done', 'archived'] },
+        },
+      ],
+    });
+  });
+
+  test('should map counts, custom fields and extra conditions', () => {
+    const where = {
+      op: 'or' as const,
+      filters: [
+        { op: 'eq' as const, field: 'priority', value: 'High' },
+        { op: 'isNull' as const, field: 'date' },
+      ],
+    };
+
+    expect(
+      taskFiltersToExpression(
+        {
+          hasSubtasks: false,
+          hasAttachments: true,
+          customFieldFilters: { 'field-1': 'Acme', 'field-2': [1, 2] },
+          where,
+        },
+        NOW
+      )
+    ).toEqual({
+      op: 'and',
+      filters: [
+        { op: 'eq', field: 'subtaskCount', value: 0 },
+        { op: 'gt', field: 'attachmentCount', value: 0 },
+        { op: 'eq', field: 'cf.field-1', value: 'Acme' },
+        { op: 'in', field: 'cf.field-2', values: [1, 2] },
+        where,
+      ],
+    });
+  });
+
+  test('should return an empty AND when nothing is filtered', () => {
+    expect(taskFiltersToExpression({ search: 'report', tags: ['x'] })).toEqual(
+      { op: 'and', filters: [] }
+    );
+  });
+});
+
+describe('Advanced filter expressions', () => {
+  test('should map dates, criteria and id lists onto the given fields', () => {
+    const after = new Date('2026-01-01T00:00:00.000Z');
+
+    expect(
+      advancedFilterToExpression(
+        {
+          createdAfter: after,
+          criteria: { status: 'todo', priority: ['High', 'Medium'] },
+          excludeIds: ['task-1'],
+        },
+        { id: 'id', createdAt: 'createdAt' }
+      )
+    ).toEqual({
+      op: 'and',
+      filters: [
+        { op: 'gte', field: 'createdAt', value: after },
+        { op: 'eq', field: 'status', value: 'todo' },
+        { op: 'in', field: 'priority', values: ['High', 'Medium'] },
+        {
+          op: 'not',
+          filter: { op: 'in', field: 'id', values: ['task-1'] },
+        },
+      ],
+    });
+  });
+
+  test('should search the given fields and their custom fields', () => {
+    expect(
+      advancedFilterToExpression(
+        { search: ' 50% ', customFields: { 'field-1': true } },
+        {
+          search: ['name', 'description'],
+          customField: customFieldFilterField,
+        }
+      )
+    ).toEqual({
+      op: 'and',
+      filters: [
+        {
+          op: 'or',
+          filters: [
+            { op: 'contains', field: 'name', value: '50%' },
+            { op: 'contains', field: 'description', value: '50%' },
+          ],
+        },
+        { op: 'eq', field: 'cf.field-1', value: true },
+      ],
+    });
+  });
+});
+
+describe('Relative dates', () => {
+  // A Wednesday afternoon, local time
+  const wednesday = new Date(2026, 2, 11, 15, 30);
+
+  test('should resolve anchors and offsets', () => {
+    expect(resolveRelativeDate('@now', wednesday)).toEqual(wednesday);
+    expect(resolveRelativeDate('@today', wednesday)).toEqual(
+      new Date(2026, 2, 11)
+    );
+    expect(resolveRelativeDate('@today+7d', wednesday)).toEqual(
+      new Date(2026, 2, 18)
+    );
+    expect(resolveRelativeDate('@now-2h', wednesday)).toEqual(
+      new Date(2026, 2, 11, 13, 30)
+    );
+  });
+
+  test('should span weeks from Monday to the end of Sunday', () => {
+    expect(resolveRelativeDate('@startOfWeek', wednesday)).toEqual(
+      new Date(2026, 2, 9)
+    );
+    expect(resolveRelativeDate('@endOfWeek', wednesday)).toEqual(
+      new Date(2026, 2, 15, 23, 59, 59, 999)
+    );
+    expect(resolveRelativeDate('@startOfWeek+1w', wednesday)).toEqual(
+      new Date(2026, 2, 16)
+    );
+  });
+
+  test('should leave other strings alone', () => {
+    expect(resolveRelativeDate('@yesterday', wednesday)).toBeNull();
+    expect(resolveRelativeDate('today', wednesday)).toBeNull();
+
+    expect(
+      resolveFilterDates(
+        {
+          op: 'and',
+          filters: [
+            { op: 'eq', field: 'priority', value: 'High' },
+            { op: 'between', field: 'deadline', from: '@now', to: '@endOfWeek' },
+            {
+              op: 'not',
+              filter: { op: 'in', field: 'listId', values: ['@someday'] },
+            },
+          ],
+        },
+        wednesday
+      )
+    ).toEqual({
+      op: 'and',
+      filters: [
+        { op: 'eq', field: 'priority', value: 'High' },
+        {
+          op: 'between',
+          field: 'deadline',
+          from: wednesday,
+          to: new Date(2026, 2, 15, 23, 59, 59, 999),
+        },
+        {
+          op: 'not',
+          filter: { op: 'in', field: 'listId', values: ['@someday'] },
+        },
+      ],
+    });
+  });
+});
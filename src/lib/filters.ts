@@ -0,0 +1,329 @@
+// Filter expressions for task queries
+// Maps the UI's TaskFilters and the generic AdvancedFilter onto the
+// FilterExpression tree QueryBuilder.filter() compiles to SQL.
+
+import type { FilterExpression, FilterValue } from "./db/types";
+import type { TaskFilters } from "../types/tasks";
+import type { AdvancedFilter } from "../types/utils";
+
+// Statuses of tasks that are no longer open
+const CLOSED_STATUSES = ["done", "archived"];
+
+// Relative dates usable as values in saved filters, resolved when the
+// filter is evaluated: @now, @today, @startOfWeek and @endOfWeek (weeks
+// start on Monday), with an optional offset like @today+7d or @now-2h
+const RELATIVE_DATE_PATTERN =
+  /^@(now|today|startOfWeek|endOfWeek)(?:([+-]\d+)([hdw]))?$/;
+
+/**
+ * AND the expressions together, dropping the wrapper for a single one
+ */
+export function allOf(filters: FilterExpression[]): FilterExpression {
+  return filters.length === 1 ? filters[0] : { op: "and", filters };
+}
+
+/**
+ * Match a field against one value, or any of several
+ */
+function matchValue(field: string, value: unknown): FilterExpression {
+  return Array.isArray(value)
+    ? { op: "in", field, values: value as FilterValue[] }
+    : { op: "eq", field, value: value as FilterValue };
+}
+
+/**
+ * Resolve a relative date value, or return null for any other string
+ */
+export function resolveRelativeDate(
+  value: string,
+  now: Date = new Date()
+): Date | null {
+  const match = RELATIVE_DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, anchor, offset, unit] = match;
+  const date = new Date(now);
+  if (anchor !== "now") {
+    date.setHours(0, 0, 0, 0);
+  }
+  if (anchor === "startOfWeek" || anchor === "endOfWeek") {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  if (anchor === "endOfWeek") {
+    date.setDate(date.getDate() + 7);
+    date.setMilliseconds(-1);
+  }
+
+  if (offset) {
+    const amount = Number(offset);
+    if (unit === "h") {
+      date.setTime(date.getTime() + amount * 60 * 60 * 1000);
+    } else {
+      date.setDate(date.getDate() + amount * (unit === "w" ? 7 : 1));
+    }
+  }
+
+  return date;
+}
+
+/**
+ * Replace relative date values in a filter expression with dates
+ */
+export function resolveFilterDates(
+  expression: FilterExpression,
+  now: Date = new Date()
+): FilterExpression {
+  const resolve = (value: FilterValue): FilterValue =>
+    typeof value === "string"
+      ? resolveRelativeDate(value, now) ?? value
+      : value;
+
+  switch (expression.op) {
+    case "and":
+    case "or":
+      return {
+        ...expression,
+        filters: expression.filters.map((filter) =>
+          resolveFilterDates(filter, now)
+        ),
+      };
+    case "not":
+      return {
+        ...expression,
+        filter: resolveFilterDates(expression.filter, now),
+      };
+    case "eq":
+    case "ne":
+    case "lt":
+    case "lte":
+    case "gt":
+    case "gte":
+      return { ...expression, value: resolve(expression.value) };
+    case "in":
+      return { ...expression, values: expression.values.map(resolve) };
+    case "between":
+      return {
+        ...expression,
+        from: resolve(expression.from),
+        to: resolve(expression.to),
+      };
+    default:
+      return expression;
+  }
+}
+
+/**
+ * Field name of a custom field in task filter expressions
+ */
+export function customFieldFilterField(fieldId: string): string {
+  return `cf.${fieldId}`;
+}
+
+/**
+ * Convert task filters to a filter expression over the task fields.
+ * `search` is left to full-text search; `assigneeIds` and `tags` have no
+ * task columns yet and are ignored.
+ */
+export function taskFiltersToExpression(
+  filters: TaskFilters,
+  now: Date = new Date()
+): FilterExpression {
+  const expressions: FilterExpression[] = [];
+
+  if (filters.listIds?.length) {
+    expressions.push({ op: "in", field: "listId", values: filters.listIds });
+  }
+  if (filters.labelIds?.length) {
+    expressions.push({ op: "hasAnyLabel", labelIds: filters.labelIds });
+  }
+  if (filters.status?.length) {
+    expressions.push({ op: "in", field: "status", values: filters.status });
+  }
+  if (filters.priority?.length) {
+    expressions.push({ op: "in", field: "priority", values: filters.priority });
+  }
+
+  if (filters.dateRange) {
+    expressions.push({
+      op: "between",
+      field: "date",
+      from: filters.dateRange.start,
+      to: filters.dateRange.end,
+    });
+  }
+  if (filters.dueAfter) {
+    expressions.push({ op: "gte", field: "deadline", value: filters.dueAfter });
+  }
+  if (filters.dueBefore) {
+    expressions.push({
+      op: "lte",
+      field: "deadline",
+      value: filters.dueBefore,
+    });
+  }
+  if (filters.hasDeadline !== undefined) {
+    const missing: FilterExpression = { op: "isNull", field: "deadline" };
+    expressions.push(
+      filters.hasDeadline ? { op: "not", filter: missing } : missing
+    );
+  }
+  if (filters.isOverdue !== undefined) {
+    // Past its deadline and still open
+    const overdue = allOf([
+      { op: "lt", field: "deadline", value: now },
+      {
+        op: "not",
+        filter: { op: "in", field: "status", values: CLOSED_STATUSES },
+      },
+    ]);
+    expressions.push(
+      filters.isOverdue ? overdue : { op: "not", filter: overdue }
+    );
+  }
+
+  if (filters.isRecurring !== undefined) {
+    expressions.push({
+      op: "eq",
+      field: "isRecurring",
+      value: filters.isRecurring,
+    });
+  }
+  if (filters.hasSubtasks !== undefined) {
+    expressions.push({
+      op: filters.hasSubtasks ? "gt" : "eq",
+      field: "subtaskCount",
+      value: 0,
+    });
+  }
+  if (filters.hasAttachments !== undefined) {
+    expressions.push({
+      op: filters.hasAttachments ? "gt" : "eq",
+      field: "attachmentCount",
+      value: 0,
+    });
+  }
+
+  for (const [fieldId, value] of Object.entries(
+    filters.customFieldFilters ?? {}
+  )) {
+    if (value !== undefined) {
+      expressions.push(matchValue(customFieldFilterField(fieldId), value));
+    }
+  }
+
+  if (filters.where) {
+    expressions.push(filters.where);
+  }
+
+  return allOf(expressions);
+}
+
+export interface AdvancedFilterFields {
+  id?: string; // Field matched by includeIds/excludeIds
+  createdAt?: string;
+  updatedAt?: string;
+  date?: string; // Field dateRange applies to; defaults to createdAt
+  search?: string[]; // Fields searched for the search text
+  customField?: (fieldId: string) => string;
+}
+
+/**
+ * Convert an advanced filter to a filter expression, using the given field
+ * names of the filtered entity. Criteria keys are used as field names.
+ * `tags` and filters whose fields aren't given are ignored.
+ */
+export function advancedFilterToExpression<T>(
+  filter: AdvancedFilter<T>,
+  fields: AdvancedFilterFields = {}
+): FilterExpression {
+  const {
+    id = "id",
+    createdAt = "createdAt",
+    updatedAt = "updatedAt",
+    date = createdAt,
+    search = [],
+    customField,
+  } = fields;
+  const expressions: FilterExpression[] = [];
+
+  const searchText = filter.search?.trim();
+  if (searchText && search.length > 0) {
+    expressions.push({
+      op: "or",
+      filters: search.map((field) => ({
+        op: "contains" as const,
+        field,
+        value: searchText,
+      })),
+    });
+  }
+
+  if (filter.dateRange) {
+    expressions.push({
+      op: "between",
+      field: date,
+      from: filter.dateRange.start,
+      to: filter.dateRange.end,
+    });
+  }
+  if (filter.createdAfter) {
+    expressions.push({
+      op: "gte",
+      field: createdAt,
+      value: filter.createdAfter,
+    });
+  }
+  if (filter.createdBefore) {
+    expressions.push({
+      op: "lte",
+      field: createdAt,
+      value: filter.createdBefore,
+    });
+  }
+  if (filter.updatedAfter) {
+    expressions.push({
+      op: "gte",
+      field: updatedAt,
+      value: filter.updatedAfter,
+    });
+  }
+  if (filter.updatedBefore) {
+    expressions.push({
+      op: "lte",
+      field: updatedAt,
+      value: filter.updatedBefore,
+    });
+  }
+
+  for (const [field, value] of Object.entries(filter.criteria ?? {})) {
+    if (value !== undefined) {
+      expressions.push(matchValue(field, value));
+    }
+  }
+
+  if (filter.includeIds) {
+    expressions.push({ op: "in", field: id, values: filter.includeIds });
+  }
+  if (filter.excludeIds?.length) {
+    expressions.push({
+      op: "not",
+      filter: { op: "in", field: id, values: filter.excludeIds },
+    });
+  }
+
+  if (customField) {
+    for (const [fieldId, value] of Object.entries(filter.customFields ?? {})) {
+      if (value !== undefined) {
+        expressions.push(matchValue(customField(fieldId), value));
+      }
+    }
+  }
+
+  if (filter.where) {
+    expressions.push(filter.where);
+  }
+
+  return allOf(expressions);
+}
@@ -0,0 +1,96 @@
+/**
+ * Recurrence Engine Tests
+ * Tests for computing the next occurrence of recurring tasks
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import {
+  getNextOccurrence,
+  parseRecurringPattern,
+  shiftByOccurrence,
+} from './recurrence';
+
+describe('Recurrence Engine', () => {
+  describe('getNextOccurrence', () => {
+    test('should advance daily patterns by the interval', () => {
+      const next = getNextOccurrence(
+        { type: 'daily', interval: 3 },
+        new Date(2026, 0, 30, 9, 30)
+      );
+      expect(next).toEqual(new Date(2026, 1, 2, 9, 30));
+    });
+
+    test('should pick the next listed weekday', () => {
+      // Wednesday 2026-01-07 -> Friday of the same week
+      const pattern = { type: 'weekly' as const, interval: 2, daysOfWeek: [1, 5] };
+      expect(getNextOccurrence(pattern, new Date(2026, 0, 7, 8))).toEqual(
+        new Date(2026, 0, 9, 8)
+      );
+
+      // Friday -> Monday two weeks later
+      expect(getNextOccurrence(pattern, new Date(2026, 0, 9, 8))).toEqual(
+        new Date(2026, 0, 19, 8)
+      );
+    });
+
+    test('should clamp monthly days to the length of the month', () => {
+      const pattern = { type: 'monthly' as const, interval: 1, dayOfMonth: 31 };
+      expect(getNextOccurrence(pattern, new Date(2026, 0, 31))).toEqual(
+        new Date(2026, 1, 28)
+      );
+      expect(getNextOccurrence(pattern, new Date(2026, 1, 28))).toEqual(
+        new Date(2026, 2, 31)
+      );
+    });
+
+    test('should repeat yearly patterns in the given month', () => {
+      const pattern = {
+        type: 'yearly' as const,
+        interval: 1,
+        monthOfYear: 2,
+        dayOfMonth: 29,
+      };
+      expect(getNextOccurrence(pattern, new Date(2027, 1, 28))).toEqual(
+        new Date(2028, 1, 29)
+      );
+    });
+
+    test('should stop at the end date and maximum occurrences', () => {
+      const after = new Date(2026, 0, 1);
+
+      expect(
+        getNextOccurrence(
+          { type: 'daily', interval: 1, endDate: new Date(2026, 0, 1, 12) },
+          after
+        )
+      ).toBeNull();
+      expect(
+        getNextOccurrence({ type: 'daily', interval: 1, maxOccurrences: 2 }, after, 2)
+      ).toBeNull();
+      expect(
+        getNextOccurrence({ type: 'daily', interval: 1, maxOccurrences: 2 }, after, 1)
+      ).toEqual(new Date(2026, 0, 2));
+    });
+  });
+
+  describe('helpers', () => {
+    test('should parse stored patterns', () => {
+      expect(parseRecurringPattern('{"type":"daily","interval":1}')).toEqual({
+        type: 'daily',
+        interval: 1,
+      });
+      expect(parseRecurringPattern('not json')).toBeNull();
+      expect(parseRecurringPattern(null)).toBeNull();
+    });
+
+    test('should keep offsets when shifting to the next occurrence', () => {
+      const shifted = shiftByOccurrence(
+        new Date(2026, 0, 1, 8),
+        new Date(2026, 0, 1, 9),
+        new Date(2026, 0, 8, 9)
+      );
+      expect(shifted).toEqual(new Date(2026, 0, 8, 8));
+    });
+  });
+});
@@ -0,0 +1,164 @@
+// Recurrence engine for repeating tasks
+// Computes the next occurrence of a RecurringPattern. All calculations use
+// local time and keep the time of day of the previous occurrence.
+
+import type { RecurringPattern } from "./db/types";
+
+/**
+ * Parse a pattern stored as JSON (or already parsed)
+ */
+export function parseRecurringPattern(
+  value: string | RecurringPattern | null | undefined
+): RecurringPattern | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const pattern: RecurringPattern =
+      typeof value === "string" ? JSON.parse(value) : value;
+    return pattern && pattern.type ? pattern : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the first occurrence strictly after `after`.
+ *
+ * `occurrenceCount` is the number of occurrences that already exist
+ * (including the one at `after`). Returns null once the pattern has
+ * ended through `endDate` or `maxOccurrences`.
+ */
+export function getNextOccurrence(
+  pattern: RecurringPattern,
+  after: Date,
+  occurrenceCount: number = 1
+): Date | null {
+  if (pattern.maxOccurrences && occurrenceCount >= pattern.maxOccurrences) {
+    return null;
+  }
+
+  const interval = Math.max(1, Math.floor(pattern.interval || 1));
+  let next: Date;
+
+  switch (pattern.type) {
+    case "daily":
+      next = addDays(after, interval);
+      break;
+    case "weekly":
+      next = nextWeekly(after, interval, pattern.daysOfWeek);
+      break;
+    case "monthly":
+      next = nextMonthly(after, interval, pattern.dayOfMonth);
+      break;
+    case "yearly":
+      next = nextYearly(after, interval, pattern.monthOfYear, pattern.dayOfMonth);
+      break;
+    case "custom":
+      // Custom patterns repeat on specific weekdays when given,
+      // otherwise every `interval` days
+      next =
+        pattern.daysOfWeek && pattern.daysOfWeek.length > 0
+          ? nextWeekly(after, interval, pattern.daysOfWeek)
+          : addDays(after, interval);
+      break;
+    default:
+      return null;
+  }
+
+  if (pattern.endDate && next.getTime() > new Date(pattern.endDate).getTime()) {
+    return null;
+  }
+
+  return next;
+}
+
+// Every `interval` weeks on the given weekdays (0 = Sunday), weeks
+// starting on Sunday. Without weekdays, repeats on the same weekday.
+function nextWeekly(after: Date, interval: number, daysOfWeek?: number[]): Date {
+  const days = Array.from(new Set(daysOfWeek ?? []))
+    .filter((day) => day >= 0 && day <= 6)
+    .sort((a, b) => a - b);
+
+  if (days.length === 0) {
+    return addDays(after, 7 * interval);
+  }
+
+  const weekday = after.getDay();
+
+  // A later weekday in the current week
+  const laterToday = days.find((day) => day > weekday);
+  if (laterToday !== undefined) {
+    return addDays(after, laterToday - weekday);
+  }
+
+  // Otherwise the first weekday of the next week in the cycle
+  const weekStart = addDays(after, -weekday);
+  return addDays(weekStart, 7 * interval + days[0]);
+}
+
+// Every `interval` months on `dayOfMonth` (clamped to the month's length)
+function nextMonthly(after: Date, interval: number, dayOfMonth?: number): Date {
+  const day = dayOfMonth ?? after.getDate();
+
+  const sameMonth = atMonthDay(after, after.getFullYear(), after.getMonth(), day);
+  if (sameMonth.getTime() > after.getTime()) {
+    return sameMonth;
+  }
+
+  return atMonthDay(after, after.getFullYear(), after.getMonth() + interval, day);
+}
+
+// Every `interval` years in `monthOfYear` (1-12) on `dayOfMonth`
+function nextYearly(
+  after: Date,
+  interval: number,
+  monthOfYear?: number,
+  dayOfMonth?: number
+): Date {
+  const month = monthOfYear ? monthOfYear - 1 : after.getMonth();
+  const day = dayOfMonth ?? after.getDate();
+
+  const sameYear = atMonthDay(after, after.getFullYear(), month, day);
+  if (sameYear.getTime() > after.getTime()) {
+    return sameYear;
+  }
+
+  return atMonthDay(after, after.getFullYear() + interval, month, day);
+}
+
+// Date in the given month (which may overflow into later years) on `day`,
+// clamped to the last day of that month, keeping the time of `time`
+function atMonthDay(time: Date, year: number, month: number, day: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(
+    year,
+    month,
+    Math.min(day, lastDay),
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+}
+
+// Add calendar days, keeping the local time of day across DST changes
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getTime());
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Shift `date` by the offset between two occurrences, used to carry
+ * deadlines and reminders over to the next occurrence
+ */
+export function shiftByOccurrence(
+  date: Date,
+  previousOccurrence: Date,
+  nextOccurrence: Date
+): Date {
+  const offset = date.getTime() - previousOccurrence.getTime();
+  return new Date(nextOccurrence.getTime() + offset);
+}
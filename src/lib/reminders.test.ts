@@ -0,0 +1,114 @@
+/**
+ * Reminder Delivery Tests
+ * Tests for retry backoff, reminder text and the email channel
+ */
+
+import { describe, test, expect } from 'bun:test';
+import net from 'net';
+import type { AddressInfo } from 'net';
+
+import {
+  EmailReminderChannel,
+  formatReminder,
+  getReminderRetryDelay,
+} from './reminders';
+import type { ClaimedReminder } from './db/types';
+
+const reminder = (overrides: Partial<ClaimedReminder> = {}): ClaimedReminder => ({
+  id: 'reminder-1',
+  taskId: 'task-1',
+  remindAt: new Date('2026-03-01T08:00:00Z'),
+  isSent: false,
+  method: 'email',
+  attempts: 1,
+  task: {
+    id: 'task-1',
+    name: 'Write report',
+    deadline: new Date('2026-03-01T17:00:00Z'),
+    listId: 'list-1',
+  },
+  user: { id: 'user-1', name: 'Ada', email: 'ada@example.com' },
+  createdAt: new Date('2026-02-01T00:00:00Z'),
+  updatedAt: new Date('2026-02-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('Reminders', () => {
+  describe('Retry Backoff', () => {
+    test('should double the delay with every attempt', () => {
+      expect(getReminderRetryDelay(1)).toBe(60 * 1000);
+      expect(getReminderRetryDelay(2)).toBe(2 * 60 * 1000);
+      expect(getReminderRetryDelay(4)).toBe(8 * 60 * 1000);
+    });
+
+    test('should cap the delay at one hour', () => {
+      expect(getReminderRetryDelay(10)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('Formatting', () => {
+    test('should name the task and when it is due', () => {
+      expect(formatReminder(reminder())).toEqual({
+        title: 'Reminder: Write report',
+        message: '"Write report" is due Sun, 01 Mar 2026 17:00:00 GMT.',
+      });
+    });
+
+    test('should fall back to the date, then to no due time', () => {
+      const task = reminder().task;
+      expect(
+        formatReminder(
+          reminder({ task: { ...task, deadline: undefined, date: new Date('2026-03-02T00:00:00Z') } })
+        ).message
+      ).toBe('"Write report" is due Mon, 02 Mar 2026 00:00:00 GMT.');
+      expect(formatReminder(reminder({ task: { ...task, deadline: undefined } })).message).toBe(
+        '"Write report" needs your attention.'
+      );
+    });
+  });
+
+  describe('Email Channel', () => {
+    test('should email the reminder to the task owner', async () => {
+      // Stand-in SMTP server accepting every command
+      const commands: string[] = [];
+      let data = '';
+      const server = net.createServer((socket) => {
+        let inData = false;
+        socket.setEncoding('utf8');
+        socket.write('220 sink.test\r\n');
+        socket.on('data', (chunk: string) => {
+          for (const line of chunk.split('\r\n').slice(0, -1)) {
+            if (inData) {
+              inData = line !== '.';
+              data += inData ? `${line}\r\n` : '';
+              if (!inData) socket.write('250 Queued\r\n');
+            } else {
+              commands.push(line);
+              inData = line === 'DATA';
+              socket.write(inData ? '354 Go ahead\r\n' : line === 'QUIT' ? '221 Bye\r\n' : '250 Ok\r\n');
+            }
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const channel = new EmailReminderChannel({
+          host: '127.0.0.1',
+          port: (server.address() as AddressInfo).port,
+          secure: false,
+          from: 'tasks@example.com',
+          timeoutMs: 1000,
+        });
+        await channel.send(reminder());
+
+        expect(commands).toContain('RCPT TO:<ada@example.com>');
+        expect(data).toContain('To: Ada <ada@example.com>\r\n');
+        expect(data).toContain('Subject: Reminder: Write report\r\n');
+        expect(data).toContain('"Write report" is due Sun, 01 Mar 2026 17:00:00 GMT.');
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
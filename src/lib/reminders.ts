@@ -0,0 +1,73 @@
+// Reminder delivery
+// Due reminders are sent through a channel per reminder method. Sending is
+// at least once: a reminder is claimed for a while before it is sent, and
+// retried with backoff when its channel fails.
+
+import { sendMail, type SmtpConfig } from "./smtp";
+import type { ClaimedReminder, Reminder } from "./db/types";
+
+export type ReminderMethod = Reminder["method"];
+
+/**
+ * Delivers reminders of one method. send() rejects when the reminder
+ * could not be delivered, so it is retried later.
+ */
+export interface ReminderChannel {
+  send(reminder: ClaimedReminder): Promise<void>;
+}
+
+export type ReminderChannels = Record<ReminderMethod, ReminderChannel>;
+
+// How long a claimed reminder is held before another process may send it
+export const REMINDER_LEASE_MS = 2 * 60 * 1000;
+
+// Attempts before a reminder is given up
+export const REMINDER_MAX_ATTEMPTS = 5;
+
+// Wait before the first retry; it doubles with every further attempt
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Wait before retrying a reminder that has failed `attempts` times
+ */
+export function getReminderRetryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+/**
+ * Title and text of a reminder, as shown in the inbox and sent by email
+ */
+export function formatReminder(reminder: ClaimedReminder): {
+  title: string;
+  message: string;
+} {
+  const due = reminder.task.deadline ?? reminder.task.date;
+  return {
+    title: `Reminder: ${reminder.task.name}`,
+    message: due
+      ? `"${reminder.task.name}" is due ${due.toUTCString()}.`
+      : `"${reminder.task.name}" needs your attention.`,
+  };
+}
+
+/**
+ * Emails reminders to the task owner through an SMTP relay
+ */
+export class EmailReminderChannel implements ReminderChannel {
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(reminder: ClaimedReminder): Promise<void> {
+    const { title, message } = formatReminder(reminder);
+    await sendMail(this.config, {
+      to: reminder.user.name
+        ? `${reminder.user.name} <${reminder.user.email}>`
+        : reminder.user.email,
+      subject: title,
+      text: message,
+    });
+  }
+}
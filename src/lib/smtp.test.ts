@@ -0,0 +1,218 @@
+/**
+ * SMTP Client Tests
+ * Tests for configuration and sending mail to a local SMTP sink
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import net from 'net';
+import type { AddressInfo } from 'net';
+
+import { getSmtpConfig, sendMail, type SmtpConfig } from './smtp';
+
+interface ReceivedMail {
+  commands: string[];
+  data?: string;
+}
+
+/**
+ * Stand-in SMTP server recording the commands and message of each session.
+ * `reply` may override the answer to a command.
+ */
+function createSmtpSink() {
+  const sessions: ReceivedMail[] = [];
+  let reply: (command: string) => string | undefined = () => undefined;
+
+  const server = net.createServer((socket) => {
+    const session: ReceivedMail = { commands: [] };
+    sessions.push(session);
+    let buffer = '';
+    let data: string[] | null = null;
+
+    socket.setEncoding('utf8');
+    socket.write('220 sink.test ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data) {
+          if (line === '.') {
+            session.data = data.join('\r\n');
+            data = null;
+            socket.write('250 2.0.0 Queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        session.commands.push(line);
+        const custom = reply(line);
+        if (custom) {
+          socket.write(`${custom}\r\n`);
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-sink.test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+        } else if (line.startsWith('AUTH')) {
+          socket.write('235 2.7.0 Authenticated\r\n');
+        } else if (line === 'DATA') {
+          data = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('250 2.1.0 Ok\r\n');
+        }
+      }
+    });
+  });
+
+  return {
+    server,
+    sessions,
+    setReply: (handler: typeof reply) => {
+      reply = handler;
+    },
+  };
+}
+
+describe('SMTP', () => {
+  describe('Configuration', () => {
+    test('should not be configured without a host', () => {
+      expect(getSmtpConfig({})).toBeNull();
+    });
+
+    test('should read the relay settings from the environment', () => {
+      expect(
+        getSmtpConfig({
+          SMTP_HOST: 'mail.example.com',
+          SMTP_SECURE: 'true',
+          SMTP_USER: 'mailer',
+          SMTP_PASSWORD: 'hunter2',
+          SMTP_FROM: 'Tasks <tasks@example.com>',
+        })
+      ).toEqual({
+        host: 'mail.example.com',
+        port: 465,
+        secure: true,
+        user: 'mailer',
+        password: 'hunter2',
+        from: 'Tasks <tasks@example.com>',
+      });
+      expect(getSmtpConfig({ SMTP_HOST: 'mail.example.com', SMTP_PORT: '2525' })).toMatchObject({
+        port: 2525,
+        secure: false,
+        from: 'reminders@mail.example.com',
+      });
+    });
+  });
+
+  describe('Sending', () => {
+    const sink = createSmtpSink();
+    let config: SmtpConfig;
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => sink.server.listen(0, '127.0.0.1', resolve));
+      config = {
+        host: '127.0.0.1',
+        port: (sink.server.address() as AddressInfo).port,
+        secure: false,
+        from: 'Tasks <tasks@example.com>',
+        timeoutMs: 1000,
+      };
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => sink.server.close(resolve));
+    });
+
+    beforeEach(() => {
+      sink.sessions.length = 0;
+      sink.setReply(() => undefined);
+    });
+
+    test('should send the message in one envelope', async () => {
+      await sendMail(config, {
+        to: 'Ada <ada@example.com>',
+        subject: 'Reminder: Write report',
+        text: 'Line one\nLine two',
+      });
+
+      expect(sink.sessions).toHaveLength(1);
+      const [{ commands, data }] = sink.sessions;
+      expect(commands[0]).toMatch(/^EHLO /);
+      expect(commands.slice(1)).toEqual([
+        'MAIL FROM:<tasks@example.com>',
+        'RCPT TO:<ada@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+
+      const [headers, body] = data!.split('\r\n\r\n');
+      expect(headers).toContain('From: Tasks <tasks@example.com>');
+      expect(headers).toContain('To: Ada <ada@example.com>');
+      expect(headers).toContain('Subject: Reminder: Write report');
+      expect(headers).toMatch(/Message-ID: <[0-9a-f-]+@example\.com>/);
+      expect(body).toBe('Line one\r\nLine two');
+    });
+
+    test('should dot-stuff lines starting with a dot', async () => {
+      await sendMail(config, {
+        to: 'ada@example.com',
+        subject: 'Dots',
+        text: '.\n..two\nend.',
+      });
+
+      const body = sink.sessions[0].data!.split('\r\n\r\n')[1];
+      expect(body).toBe('..\r\n...two\r\nend.');
+    });
+
+    test('should encode a non-ASCII subject and drop line breaks in headers', async () => {
+      await sendMail(config, {
+        to: 'ada@example.com',
+        subject: 'Rappel : réunion\r\nBcc: eve@example.com',
+        text: 'Hi',
+      });
+
+      const headers = sink.sessions[0].data!.split('\r\n\r\n')[0];
+      const subject = headers.split('\r\n').find((line) => line.startsWith('Subject: '))!;
+      expect(subject).toMatch(/^Subject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+      expect(headers).not.toContain('\r\nBcc:');
+    });
+
+    test('should authenticate when a user is configured', async () => {
+      await sendMail(
+        { ...config, user: 'mailer', password: 'hunter2' },
+        { to: 'ada@example.com', subject: 'Hi', text: 'Hi' }
+      );
+
+      const auth = sink.sessions[0].commands.find((command) => command.startsWith('AUTH PLAIN '))!;
+      expect(Buffer.from(auth.slice('AUTH PLAIN '.length), 'base64').toString()).toBe(
+        '\0mailer\0hunter2'
+      );
+    });
+
+    test('should reject with the reply of a refused command', async () => {
+      sink.setReply((command) =>
+        command.startsWith('RCPT TO') ? '550 5.1.1 No such user' : undefined
+      );
+
+      await expect(
+        sendMail(config, { to: 'nobody@example.com', subject: 'Hi', text: 'Hi' })
+      ).rejects.toThrow('SMTP server replied: 550 5.1.1 No such user');
+      expect(sink.sessions[0].data).toBeUndefined();
+    });
+
+    test('should reject when the server is unreachable', async () => {
+      const closed = net.createServer();
+      await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+      const { port } = closed.address() as AddressInfo;
+      await new Promise((resolve) => closed.close(resolve));
+
+      await expect(
+        sendMail({ ...config, port }, { to: 'ada@example.com', subject: 'Hi', text: 'Hi' })
+      ).rejects.toThrow();
+    });
+  });
+});
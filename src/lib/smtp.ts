@@ -0,0 +1,225 @@
+// Minimal SMTP client
+// Sends plain-text mail to a relay: EHLO, optional AUTH PLAIN, one
+// envelope per message. The connection is either plain or TLS from the
+// start (port 465); STARTTLS is not supported.
+
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start
+  user?: string; // AUTH PLAIN when set
+  password?: string;
+  from: string; // Sender address
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * SMTP settings from the environment (SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+ * SMTP_USER, SMTP_PASSWORD, SMTP_FROM), or null when no host is set
+ */
+export function getSmtpConfig(
+  env: Record<string, string | undefined> = process.env
+): SmtpConfig | null {
+  if (!env.SMTP_HOST) {
+    return null;
+  }
+
+  const secure = env.SMTP_SECURE === "true";
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.SMTP_FROM || `reminders@${env.SMTP_HOST}`,
+  };
+}
+
+/**
+ * Send a message, resolving once the server has accepted it. Rejects with
+ * the server's reply when a command is refused.
+ */
+export async function sendMail(
+  config: SmtpConfig,
+  message: MailMessage
+): Promise<void> {
+  const connection = await SmtpConnection.open(config);
+  try {
+    await connection.expect(220);
+    await connection.command(`EHLO ${os.hostname() || "localhost"}`, 250);
+
+    if (config.user) {
+      const credentials = Buffer.from(
+        `\0${config.user}\0${config.password ?? ""}`
+      ).toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+
+    await connection.command(`MAIL FROM:<${toAddress(config.from)}>`, 250);
+    await connection.command(`RCPT TO:<${toAddress(message.to)}>`, [250, 251]);
+    await connection.command("DATA", 354);
+    await connection.command(`${formatMessage(config, message)}\r\n.`, 250);
+    await connection.command("QUIT", 221);
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * RFC 5322 message with headers, dot-stuffed for the DATA command
+ */
+function formatMessage(config: SmtpConfig, message: MailMessage): string {
+  const domain = toAddress(config.from).split("@")[1] || "localhost";
+  const headers = [
+    `From: ${toHeaderValue(config.from)}`,
+    `To: ${toHeaderValue(message.to)}`,
+    `Subject: ${encodeHeaderWord(toHeaderValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text
+    .replace(/\r?\n/g, "\r\n")
+    .replace(/^\./gm, "..");
+
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+// Header values can't contain line breaks, or they would add headers
+function toHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+// Address part of "Name <address>"
+function toAddress(value: string): string {
+  return toHeaderValue(value.match(/<([^>]*)>/)?.[1] ?? value).trim();
+}
+
+// Non-ASCII header text as an RFC 2047 encoded word
+function encodeHeaderWord(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+/**
+ * Socket exchanging commands and replies with the server, one at a time
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private failure: Error | null = null;
+  private waiter: {
+    resolve: (line: string) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.receive(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("Connection closed")));
+    socket.on("timeout", () => this.fail(new Error("SMTP server timed out")));
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const options = { host: config.host, port: config.port };
+      const socket = config.secure
+        ? tls.connect({ ...options, servername: config.host })
+        : net.connect(options);
+      socket.setTimeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      const connected = config.secure ? "secureConnect" : "connect";
+      socket.once(connected, () => {
+        socket.off("error", reject);
+        resolve(new SmtpConnection(socket));
+      });
+      socket.once("error", reject);
+    });
+  }
+
+  /**
+   * Send a command and wait for a reply with one of the expected codes
+   */
+  async command(line: string, expected: number | number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  /**
+   * Wait for the next reply; multi-line replies are joined
+   */
+  async expect(expected: number | number[]): Promise<string> {
+    const codes = Array.isArray(expected) ? expected : [expected];
+    const replyLines: string[] = [];
+    let line: string;
+    do {
+      line = await this.nextLine();
+      replyLines.push(line);
+    } while (line.charAt(3) === "-");
+
+    const reply = replyLines.join("\n");
+    if (!codes.includes(Number(line.slice(0, 3)))) {
+      throw new Error(`SMTP server replied: ${reply}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private nextLine(): Promise<string> {
+    const line = this.lines.shift();
+    if (line !== undefined) {
+      return Promise.resolve(line);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf("\r\n")) !== -1) {
+      this.lines.push(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end + 2);
+    }
+
+    if (this.waiter && this.lines.length > 0) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(this.lines.shift()!);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(this.failure);
+    }
+    this.socket.destroy();
+  }
+}
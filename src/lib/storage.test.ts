@@ -0,0 +1,84 @@
+/**
+ * Blob Storage Tests
+ * Tests for content hashing and the local disk storage
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { LocalBlobStorage, hashContent, isBlobHash } from './storage';
+
+describe('Blob Storage', () => {
+  let root: string;
+  let storage: LocalBlobStorage;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'blobs-'));
+    storage = new LocalBlobStorage(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should hash identical content to the same key', () => {
+    const hash = hashContent(Buffer.from('hello'));
+    expect(hash).toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+    expect(hashContent(Buffer.from('hello'))).toBe(hash);
+    expect(hashContent(Buffer.from('hello!'))).not.toBe(hash);
+  });
+
+  test('should only accept SHA-256 hex digests as hashes', () => {
+    expect(isBlobHash(hashContent(Buffer.from('x')))).toBe(true);
+    expect(isBlobHash('../../etc/passwd')).toBe(false);
+    expect(isBlobHash('ABC')).toBe(false);
+    expect(() => storage.keyFor('../secret')).toThrow('Invalid blob hash');
+  });
+
+  test('should store blobs fanned out by hash prefix', async () => {
+    const content = Buffer.from('report contents');
+    const hash = hashContent(content);
+
+    await storage.put(hash, content);
+
+    expect(storage.keyFor(hash)).toBe(`${hash.slice(0, 2)}/${hash}`);
+    expect(fs.existsSync(path.join(root, hash.slice(0, 2), hash))).toBe(true);
+    expect(await storage.exists(hash)).toBe(true);
+    expect((await storage.get(hash))?.toString()).toBe('report contents');
+  });
+
+  test('should not rewrite a blob that is already stored', async () => {
+    const content = Buffer.from('same bytes');
+    const hash = hashContent(content);
+
+    await storage.put(hash, content);
+    const blobPath = path.join(root, storage.keyFor(hash));
+    const firstWrite = fs.statSync(blobPath).mtimeMs;
+    await storage.put(hash, content);
+
+    expect(fs.statSync(blobPath).mtimeMs).toBe(firstWrite);
+    expect(await storage.list()).toHaveLength(1);
+  });
+
+  test('should list and delete stored blobs', async () => {
+    const first = Buffer.from('first');
+    const second = Buffer.from('second blob');
+    await storage.put(hashContent(first), first);
+    await storage.put(hashContent(second), second);
+
+    const listed = await storage.list();
+    expect(listed.map((blob) => blob.size).sort((a, b) => a - b)).toEqual([5, 11]);
+
+    expect(await storage.delete(hashContent(first))).toBe(true);
+    expect(await storage.delete(hashContent(first))).toBe(false);
+    expect(await storage.get(hashContent(first))).toBeNull();
+    expect(await storage.list()).toHaveLength(1);
+  });
+
+  test('should list nothing before the first upload', async () => {
+    const empty = new LocalBlobStorage(path.join(root, 'missing'));
+    expect(await empty.list()).toEqual([]);
+  });
+});
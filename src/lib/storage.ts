@@ -0,0 +1,167 @@
+// Content-addressed blob storage for attachments
+// Blobs are keyed by the SHA-256 of their content, so identical uploads
+// are stored once. Reference counts live in the database (blobs table).
+
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+const BLOB_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface StoredBlob {
+  hash: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+/**
+ * Backend holding blob contents. Implementations only move bytes; which
+ * blobs are still referenced is decided by the caller.
+ */
+export interface BlobStorage {
+  /** Location of the blob within the storage, recorded on attachments */
+  keyFor(hash: string): string;
+  /** Store the content; a blob that already exists is left untouched */
+  put(hash: string, content: Buffer): Promise<void>;
+  get(hash: string): Promise<Buffer | null>;
+  exists(hash: string): Promise<boolean>;
+  /** Remove the blob, returning false when it was not stored */
+  delete(hash: string): Promise<boolean>;
+  list(): Promise<StoredBlob[]>;
+}
+
+/**
+ * Hex SHA-256 digest of the content
+ */
+export function hashContent(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Check that a value is a blob hash, so it can't be used to address
+ * files outside the storage
+ */
+export function isBlobHash(value: string): boolean {
+  return BLOB_HASH_PATTERN.test(value);
+}
+
+function assertBlobHash(hash: string): void {
+  if (!isBlobHash(hash)) {
+    throw new Error(`Invalid blob hash: ${hash}`);
+  }
+}
+
+/**
+ * Blobs on the local disk, fanned out by the first two hex characters of
+ * the hash (root/ab/abcdef...)
+ */
+export class LocalBlobStorage implements BlobStorage {
+  constructor(private readonly root: string) {}
+
+  public keyFor(hash: string): string {
+    assertBlobHash(hash);
+    return `${hash.slice(0, 2)}/${hash}`;
+  }
+
+  public async put(hash: string, content: Buffer): Promise<void> {
+    if (await this.exists(hash)) {
+      return;
+    }
+
+    const filePath = this.pathFor(hash);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Readers never see a partially written blob
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  }
+
+  public async get(hash: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(hash));
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async exists(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async delete(hash: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(hash));
+      return true;
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  public async list(): Promise<StoredBlob[]> {
+    let shards: string[];
+    try {
+      shards = await fs.readdir(this.root);
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const blobs: StoredBlob[] = [];
+    for (const shard of shards) {
+      const shardPath = path.join(this.root, shard);
+      if (!(await fs.stat(shardPath)).isDirectory()) {
+        continue;
+      }
+
+      for (const name of await fs.readdir(shardPath)) {
+        // Skips temp files of writes in progress
+        if (!isBlobHash(name)) {
+          continue;
+        }
+
+        const stats = await fs.stat(path.join(shardPath, name));
+        blobs.push({ hash: name, size: stats.size, modifiedAt: stats.mtime });
+      }
+    }
+
+    return blobs;
+  }
+
+  private pathFor(hash: string): string {
+    return path.join(this.root, this.keyFor(hash));
+  }
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+let defaultStorage: BlobStorage | null = null;
+
+/**
+ * Storage used for attachment uploads; blobs are kept in uploads/blobs
+ * unless BLOB_STORAGE_DIR is set
+ */
+export function getBlobStorage(): BlobStorage {
+  if (!defaultStorage) {
+    defaultStorage = new LocalBlobStorage(
+      process.env.BLOB_STORAGE_DIR ||
+        path.join(process.cwd(), "uploads", "blobs")
+    );
+  }
+  return defaultStorage;
+}
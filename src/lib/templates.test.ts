@@ -0,0 +1,109 @@
+/**
+ * Task Template Tests
+ * Tests for filling in date and input placeholders of task templates and
+ * shifting list template dates between anchor days
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import {
+  fillTemplate,
+  fillTemplateDate,
+  fromAnchorOffset,
+  getTemplateInputs,
+  resolveTemplateDate,
+  toAnchorOffset,
+  toTemplateDate,
+  validateTemplatePlaceholders,
+} from './templates';
+
+// Local time, so day boundaries don't depend on the machine's time zone
+const NOW = new Date(2026, 0, 30, 15, 45);
+
+describe('Task template placeholders', () => {
+  test('should resolve date placeholders to the start of the day', () => {
+    expect(resolveTemplateDate('date', NOW)).toEqual(new Date(2026, 0, 30));
+    expect(resolveTemplateDate('date+3d', NOW)).toEqual(new Date(2026, 1, 2));
+    expect(resolveTemplateDate('date-1w', NOW)).toEqual(new Date(2026, 0, 23));
+    expect(resolveTemplateDate('date+1m', NOW)).toEqual(new Date(2026, 2, 2));
+    expect(resolveTemplateDate('date+3x', NOW)).toBeNull();
+    expect(resolveTemplateDate('input:client', NOW)).toBeNull();
+  });
+
+  test('should fill in dates and inputs', () => {
+    const text = fillTemplate('Invoice {{ input:client }} by {{date+3d}}', {
+      now: NOW,
+      inputs: { client: 'Acme' },
+    });
+
+    expect(text).toBe('Invoice Acme by 2026-02-02');
+  });
+
+  test('should reject missing inputs and unknown placeholders', () => {
+    expect(() => fillTemplate('Call {{input:client}}', { now: NOW })).toThrow(
+      'Missing template input: client'
+    );
+    expect(() =>
+      fillTemplate('Call {{input:client}}', { inputs: { client: '  ' } })
+    ).toThrow('Missing template input: client');
+    expect(() => fillTemplate('{{tomorrow}}')).toThrow(
+      'Unknown template placeholder: {{tomorrow}}'
+    );
+    expect(
+      validateTemplatePlaceholders(['{{date+2w}} {{input:a}}', '{{when}}'])
+    ).toEqual(['Unknown template placeholder: {{when}}']);
+  });
+
+  test('should list the inputs a template asks for once each', () => {
+    expect(
+      getTemplateInputs([
+        'Kickoff with {{input:client}}',
+        undefined,
+        '{{input:project-code}} for {{input:client}} on {{date}}',
+      ])
+    ).toEqual(['client', 'project-code']);
+  });
+
+  test('should resolve date fields', () => {
+    expect(fillTemplateDate('{{date+1w}}', { now: NOW })).toEqual(
+      new Date(2026, 1, 6)
+    );
+    expect(fillTemplateDate(undefined)).toBeUndefined();
+    expect(
+      fillTemplateDate('2026-05-01T09:00:00.000Z', { now: NOW })?.toISOString()
+    ).toBe('2026-05-01T09:00:00.000Z');
+    expect(() =>
+      fillTemplateDate('{{input:due}}', { inputs: { due: 'soon' } })
+    ).toThrow('Invalid template date: {{input:due}}');
+  });
+
+  test('should turn dates into placeholders relative to a day', () => {
+    expect(toTemplateDate(new Date(2026, 1, 2, 9), NOW)).toBe('{{date+3d}}');
+    expect(toTemplateDate(new Date(2026, 0, 30, 8), NOW)).toBe('{{date}}');
+    expect(toTemplateDate(new Date(2026, 0, 28), NOW)).toBe('{{date-2d}}');
+  });
+});
+
+describe('List template dates', () => {
+  test('should keep dates as offsets from the anchor day', () => {
+    const anchor = new Date(2026, 0, 30);
+
+    expect(toAnchorOffset(new Date(2026, 1, 2, 9, 30), anchor)).toBe(
+      3 * 24 * 60 + 9 * 60 + 30
+    );
+    expect(toAnchorOffset(new Date(2026, 0, 29, 18), anchor)).toBe(
+      -24 * 60 + 18 * 60
+    );
+  });
+
+  test('should shift offsets to a new anchor day', () => {
+    const anchor = new Date(2026, 2, 1);
+
+    expect(fromAnchorOffset(3 * 24 * 60 + 9 * 60 + 30, anchor)).toEqual(
+      new Date(2026, 2, 4, 9, 30)
+    );
+    expect(fromAnchorOffset(-24 * 60 + 18 * 60, anchor)).toEqual(
+      new Date(2026, 1, 28, 18)
+    );
+  });
+});
@@ -0,0 +1,210 @@
+// Placeholders in task templates and relative dates in list templates
+// Text and date fields of a task template may contain {{date}} or
+// {{date+3d}}, the day the template is used shifted by days, weeks or
+// months, and {{input:client}}, a value supplied when the template is used.
+// List templates keep task dates as offsets from an anchor day.
+
+import { ValidationError, type TaskTemplate } from "./db/types";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const DATE_PLACEHOLDER_PATTERN = /^date(?:([+-]\d+)([dwm]))?$/;
+const INPUT_PLACEHOLDER_PATTERN = /^input:([\w-]+)$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface TemplateContext {
+  now?: Date;
+  inputs?: Record<string, string>;
+}
+
+/**
+ * Resolve a date placeholder like `date-1w` to the start of that day, or
+ * return null for anything else
+ */
+export function resolveTemplateDate(
+  placeholder: string,
+  now: Date = new Date()
+): Date | null {
+  const match = DATE_PLACEHOLDER_PATTERN.exec(placeholder);
+  if (!match) {
+    return null;
+  }
+
+  const [, offset, unit] = match;
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+
+  if (offset) {
+    const amount = Number(offset);
+    if (unit === "m") {
+      date.setMonth(date.getMonth() + amount);
+    } else {
+      date.setDate(date.getDate() + amount * (unit === "w" ? 7 : 1));
+    }
+  }
+
+  return date;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Calendar days from the day of `from` to the day of `date`, in local time
+ */
+function daysBetween(from: Date, date: Date): number {
+  const day = (value: Date) =>
+    Date.UTC(value.getFullYear(), value.getMonth(), value.getDate());
+  return Math.round((day(date) - day(from)) / (MINUTES_PER_DAY * 60000));
+}
+
+/**
+ * Date placeholder for the day of `date`, relative to the day of `from`
+ */
+export function toTemplateDate(date: Date, from: Date): string {
+  const days = daysBetween(from, date);
+  return days === 0 ? "{{date}}" : `{{date${days > 0 ? "+" : ""}${days}d}}`;
+}
+
+/**
+ * Minutes from the start of the anchor day to `date`, counted in calendar
+ * days plus the time of day so the offset survives DST changes
+ */
+export function toAnchorOffset(date: Date, anchor: Date): number {
+  return (
+    daysBetween(anchor, date) * MINUTES_PER_DAY +
+    date.getHours() * 60 +
+    date.getMinutes()
+  );
+}
+
+/**
+ * Date an offset from toAnchorOffset() points to, from another anchor day
+ */
+export function fromAnchorOffset(offset: number, anchor: Date): Date {
+  const days = Math.floor(offset / MINUTES_PER_DAY);
+  const date = new Date(anchor);
+  date.setHours(0, offset - days * MINUTES_PER_DAY, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+/**
+ * Fields of a task template that may contain placeholders
+ */
+export function getTemplateTexts(
+  template: Pick<
+    TaskTemplate,
+    "taskName" | "taskDescription" | "date" | "deadline" | "subtasks"
+  >
+): Array<string | undefined> {
+  return [
+    template.taskName,
+    template.taskDescription,
+    template.date,
+    template.deadline,
+    ...(template.subtasks ?? []).map((subtask) => subtask?.name),
+  ];
+}
+
+/**
+ * Names of the inputs the given template texts ask for, in order of first
+ * use
+ */
+export function getTemplateInputs(
+  texts: Array<string | undefined>
+): string[] {
+  const names = new Set<string>();
+
+  for (const text of texts) {
+    for (const [, placeholder] of (text ?? "").matchAll(PLACEHOLDER_PATTERN)) {
+      const input = INPUT_PLACEHOLDER_PATTERN.exec(placeholder);
+      if (input) {
+        names.add(input[1]);
+      }
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Check that every placeholder in the texts is one templates support
+ */
+export function validateTemplatePlaceholders(
+  texts: Array<string | undefined>
+): string[] {
+  const errors: string[] = [];
+
+  for (const text of texts) {
+    for (const [, placeholder] of (text ?? "").matchAll(PLACEHOLDER_PATTERN)) {
+      if (
+        !DATE_PLACEHOLDER_PATTERN.test(placeholder) &&
+        !INPUT_PLACEHOLDER_PATTERN.test(placeholder)
+      ) {
+        errors.push(`Unknown template placeholder: {{${placeholder}}}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Replace the placeholders in a template text. Dates are written as
+ * YYYY-MM-DD; a missing input throws ValidationError.
+ */
+export function fillTemplate(
+  text: string,
+  { now = new Date(), inputs = {} }: TemplateContext = {}
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, placeholder: string) => {
+    const date = resolveTemplateDate(placeholder, now);
+    if (date) {
+      return formatDate(date);
+    }
+
+    const input = INPUT_PLACEHOLDER_PATTERN.exec(placeholder);
+    if (!input) {
+      throw new ValidationError(
+        `Unknown template placeholder: {{${placeholder}}}`
+      );
+    }
+
+    const value = inputs[input[1]]?.trim();
+    if (!value) {
+      throw new ValidationError(`Missing template input: ${input[1]}`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Resolve a template date field. A lone date placeholder gives the start
+ * of that day; anything else is filled in and parsed as a date.
+ */
+export function fillTemplateDate(
+  value: string | undefined,
+  context: TemplateContext = {}
+): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const lone = /^\{\{\s*([^{}]*?)\s*\}\}$/.exec(value.trim());
+  const date =
+    (lone && resolveTemplateDate(lone[1], context.now)) ||
+    new Date(fillTemplate(value, context));
+
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid template date: ${value}`);
+  }
+  return date;
+}
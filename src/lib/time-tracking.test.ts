@@ -0,0 +1,57 @@
+/**
+ * Time Tracking Tests
+ * Tests for tracked time formatting and estimate variance
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import {
+  calculateEstimateVariance,
+  formatTrackedTime,
+  getEntryDuration,
+  getTrackedSeconds,
+  parseTimeString,
+} from './time-tracking';
+
+describe('Time Tracking', () => {
+  test('should measure entry durations in whole seconds', () => {
+    const start = new Date('2026-03-02T09:00:00Z');
+    expect(getEntryDuration(start, new Date('2026-03-02T09:45:30.400Z'))).toBe(2730);
+    expect(getEntryDuration(start, new Date('2026-03-02T08:00:00Z'))).toBe(0);
+  });
+
+  test('should only count entries that have ended', () => {
+    expect(getTrackedSeconds([{ duration: 60 }, {}, { duration: 90 }])).toBe(150);
+  });
+
+  test('should format tracked time as HH:mm without capping hours', () => {
+    expect(formatTrackedTime(0)).toBe('00:00');
+    expect(formatTrackedTime(89)).toBe('00:01');
+    expect(formatTrackedTime(5400)).toBe('01:30');
+    expect(formatTrackedTime(30 * 3600)).toBe('30:00');
+  });
+
+  test('should parse HH:mm strings', () => {
+    expect(parseTimeString('02:15')).toBe(135);
+    expect(parseTimeString('2:75')).toBeNull();
+    expect(parseTimeString(undefined)).toBeNull();
+  });
+
+  test('should compare tracked time with estimates', () => {
+    const variance = calculateEstimateVariance([
+      { taskId: 'a', estimate: '01:00', trackedSeconds: 90 * 60 },
+      { taskId: 'b', estimate: '02:00', trackedSeconds: 60 * 60 },
+      { taskId: 'c', estimate: '01:00', trackedSeconds: 0 }, // Not tracked
+      { taskId: 'd', trackedSeconds: 600 }, // No estimate
+    ]);
+
+    expect(variance).toEqual({
+      tasks: 2,
+      estimatedMinutes: 180,
+      trackedMinutes: 150,
+      variance: -17,
+      overEstimate: 1,
+      underEstimate: 1,
+    });
+  });
+});
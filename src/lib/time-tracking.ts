@@ -0,0 +1,105 @@
+// Time tracking for tasks
+// Converts between tracked seconds and the HH:mm strings tasks store, and
+// compares tracked time with task estimates.
+
+import type { TaskTimeSummary, TimeEntry } from "./db/types";
+
+export interface EstimateVariance {
+  tasks: number; // Tasks with both an estimate and tracked time
+  estimatedMinutes: number;
+  trackedMinutes: number;
+  variance: number; // Percentage tracked time is over (+) or under (-) the estimate
+  overEstimate: number; // Tasks that took longer than estimated
+  underEstimate: number; // Tasks that took less time than estimated
+}
+
+/**
+ * Seconds between the start and end of a time entry
+ */
+export function getEntryDuration(startedAt: Date, endedAt: Date): number {
+  return Math.max(
+    0,
+    Math.round((endedAt.getTime() - startedAt.getTime()) / 1000)
+  );
+}
+
+/**
+ * Total seconds of the entries that have ended
+ */
+export function getTrackedSeconds(
+  entries: Array<Pick<TimeEntry, "duration">>
+): number {
+  return entries.reduce((total, entry) => total + (entry.duration ?? 0), 0);
+}
+
+/**
+ * Format seconds as HH:mm, rounded to the nearest minute.
+ * Hours are not capped at 24.
+ */
+export function formatTrackedTime(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  return `${hours.toString().padStart(2, "0")}:${minutes
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+/**
+ * Parse an HH:mm string to minutes, or null if it isn't one
+ */
+export function parseTimeString(
+  value: string | null | undefined
+): number | null {
+  const match = value?.match(/^(\d+):([0-5]\d)$/);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Compare tracked time with estimates across tasks. Tasks without a
+ * valid estimate or without tracked time are left out.
+ */
+export function calculateEstimateVariance(
+  summaries: TaskTimeSummary[]
+): EstimateVariance {
+  const result: EstimateVariance = {
+    tasks: 0,
+    estimatedMinutes: 0,
+    trackedMinutes: 0,
+    variance: 0,
+    overEstimate: 0,
+    underEstimate: 0,
+  };
+
+  for (const summary of summaries) {
+    const estimated = parseTimeString(summary.estimate);
+    if (!estimated || summary.trackedSeconds <= 0) {
+      continue;
+    }
+
+    const tracked = Math.round(summary.trackedSeconds / 60);
+    result.tasks++;
+    result.estimatedMinutes += estimated;
+    result.trackedMinutes += tracked;
+
+    if (tracked > estimated) {
+      result.overEstimate++;
+    } else if (tracked < estimated) {
+      result.underEstimate++;
+    }
+  }
+
+  if (result.estimatedMinutes > 0) {
+    result.variance = Math.round(
+      ((result.trackedMinutes - result.estimatedMinutes) /
+        result.estimatedMinutes) *
+        100
+    );
+  }
+
+  return result;
+}
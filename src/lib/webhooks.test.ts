@@ -0,0 +1,178 @@
+/**
+ * Webhook Tests
+ * Tests for signing, retry backoff and sending requests to a local receiver
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  getWebhookRetryDelay,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookRequest,
+} from './webhooks';
+
+interface ReceivedRequest {
+  method?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks', () => {
+  const secret = 'whsec_test_secret_0123456789';
+
+  describe('Signatures', () => {
+    test('should sign the body with HMAC-SHA256', () => {
+      const signature = signWebhookPayload(secret, '{"taskId":"task-1"}');
+      expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+      expect(signWebhookPayload(secret, '{"taskId":"task-1"}')).toBe(signature);
+      expect(signWebhookPayload('another_secret_value', '{"taskId":"task-1"}')).not.toBe(signature);
+    });
+
+    test('should verify a signature only for the body it was made for', () => {
+      const body = '{"taskId":"task-1"}';
+      const signature = signWebhookPayload(secret, body);
+      expect(verifyWebhookSignature(secret, body, signature)).toBe(true);
+      expect(verifyWebhookSignature(secret, '{"taskId":"task-2"}', signature)).toBe(false);
+      expect(verifyWebhookSignature(secret, body, 'sha256=abc')).toBe(false);
+    });
+
+    test('should generate distinct secrets', () => {
+      const first = generateWebhookSecret();
+      expect(first).toMatch(/^whsec_[a-f0-9]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(first);
+    });
+  });
+
+  describe('Retry Backoff', () => {
+    test('should double the delay with every attempt', () => {
+      expect(getWebhookRetryDelay(1)).toBe(60 * 1000);
+      expect(getWebhookRetryDelay(2)).toBe(2 * 60 * 1000);
+      expect(getWebhookRetryDelay(5)).toBe(16 * 60 * 1000);
+    });
+
+    test('should cap the delay at six hours', () => {
+      expect(getWebhookRetryDelay(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('Sending', () => {
+    let server: http.Server;
+    let received: ReceivedRequest[];
+    let respond: (res: http.ServerResponse) => void;
+    let baseUrl: string;
+
+    const request = (overrides: Partial<WebhookRequest> = {}): WebhookRequest => ({
+      url: `${baseUrl}/hooks`,
+      secret,
+      eventType: 'TaskCompleted',
+      deliveryId: 'delivery-1',
+      body: JSON.stringify({ taskId: 'task-1', action: 'status_changed', userId: 'user-1' }),
+      ...overrides,
+    });
+
+    beforeAll(async () => {
+      // Stand-in receiver recording each request
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk;
+        });
+        req.on('end', () => {
+          received.push({ method: req.method, headers: req.headers, body });
+          respond(res);
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      received = [];
+      respond = (res) => {
+        res.writeHead(204);
+        res.end();
+      };
+    });
+
+    test('should POST the body with a signature the receiver can verify', async () => {
+      const response = await sendWebhook(request());
+
+      expect(response).toEqual({ ok: true, statusCode: 204 });
+      expect(received).toHaveLength(1);
+
+      const [{ method, headers, body }] = received;
+      expect(method).toBe('POST');
+      expect(body).toBe(request().body);
+      expect(headers['content-type']).toBe('application/json');
+      expect(headers[WEBHOOK_EVENT_HEADER.toLowerCase()]).toBe('TaskCompleted');
+      expect(headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()]).toBe('delivery-1');
+
+      const signature = headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string;
+      expect(verifyWebhookSignature(secret, body, signature)).toBe(true);
+    });
+
+    test('should report an error status as a failure', async () => {
+      respond = (res) => {
+        res.writeHead(500);
+        res.end('Internal error');
+      };
+
+      const response = await sendWebhook(request());
+
+      expect(response.ok).toBe(false);
+      expect(response.statusCode).toBe(500);
+      expect(response.error).toContain('HTTP 500');
+    });
+
+    test('should not follow redirects', async () => {
+      respond = (res) => {
+        res.writeHead(302, { Location: `${baseUrl}/elsewhere` });
+        res.end();
+      };
+
+      const response = await sendWebhook(request());
+
+      expect(response.ok).toBe(false);
+      expect(response.statusCode).toBe(302);
+      expect(received).toHaveLength(1);
+    });
+
+    test('should give up on a receiver that does not respond in time', async () => {
+      respond = () => {
+        // Never answers
+      };
+
+      const response = await sendWebhook(request(), 100);
+
+      expect(response.ok).toBe(false);
+      expect(response.statusCode).toBeUndefined();
+      expect(response.error).toBe('No response within 100ms');
+    });
+
+    test('should report an unreachable receiver as a failure', async () => {
+      const closed = http.createServer();
+      await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+      const { port } = closed.address() as AddressInfo;
+      await new Promise((resolve) => closed.close(resolve));
+
+      const response = await sendWebhook(request({ url: `http://127.0.0.1:${port}/hooks` }));
+
+      expect(response.ok).toBe(false);
+      expect(response.statusCode).toBeUndefined();
+      expect(response.error).toBeTruthy();
+    });
+  });
+});
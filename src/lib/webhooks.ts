@@ -0,0 +1,143 @@
+// Outgoing webhooks
+// Task events are POSTed as JSON to the user's endpoints. Each request is
+// signed with the webhook's secret so receivers can check it came from us:
+// the signature header is "sha256=" and the hex HMAC-SHA256 of the body.
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { WebhookEventType } from "./db/types";
+
+export const WEBHOOK_EVENT_TYPES: [WebhookEventType, ...WebhookEventType[]] = [
+  "TaskCreated",
+  "TaskUpdated",
+  "TaskCompleted",
+  "TaskDeleted",
+  "TaskRestored",
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-Webhook-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-Webhook-Delivery";
+
+// Attempts before a delivery is given up as failed
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+// Wait before the first retry; it doubles with every further attempt
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  eventType: WebhookEventType;
+  deliveryId: string;
+  body: string; // JSON, sent as is and signed
+}
+
+export interface WebhookResponse {
+  ok: boolean; // The receiver answered with a 2xx status
+  statusCode?: number; // Unset when no response arrived
+  error?: string;
+}
+
+/**
+ * Sends a webhook request. It resolves with the outcome rather than
+ * throwing, so a failing endpoint is just a failed attempt.
+ */
+export type WebhookSender = (
+  request: WebhookRequest
+) => Promise<WebhookResponse>;
+
+/**
+ * Random secret for a webhook created without one
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Value of the signature header for a request body
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Check a signature header against the body, in constant time
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, body));
+  const actual = Buffer.from(signature);
+  return (
+    expected.length === actual.length && timingSafeEqual(expected, actual)
+  );
+}
+
+/**
+ * Wait before the next attempt of a delivery that has failed `attempts`
+ * times: one minute, then doubling up to six hours
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+/**
+ * POST a webhook request. Redirects are not followed and count as
+ * failures, like any other status outside 2xx.
+ */
+export async function sendWebhook(
+  request: WebhookRequest,
+  timeoutMs: number = REQUEST_TIMEOUT_MS
+): Promise<WebhookResponse> {
+  try {
+    const response = await fetch(request.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          request.secret,
+          request.body
+        ),
+        [WEBHOOK_EVENT_HEADER]: request.eventType,
+        [WEBHOOK_DELIVERY_HEADER]: request.deliveryId,
+      },
+      body: request.body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    // Free the connection; the body is not needed
+    await response.body?.cancel();
+
+    return response.ok
+      ? { ok: true, statusCode: response.status }
+      : {
+          ok: false,
+          statusCode: response.status,
+          error: `Receiver responded with HTTP ${response.status}`,
+        };
+  } catch (error) {
+    return { ok: false, error: describeRequestError(error, timeoutMs) };
+  }
+}
+
+function describeRequestError(error: unknown, timeoutMs: number): string {
+  if (!(error instanceof Error)) {
+    return "Request failed";
+  }
+  if (error.name === "TimeoutError") {
+    return `No response within ${timeoutMs}ms`;
+  }
+  // fetch reports network errors as "fetch failed" with the reason as cause
+  const { cause } = error as { cause?: unknown };
+  return cause instanceof Error
+    ? `${error.message}: ${cause.message}`
+    : error.message;
+}
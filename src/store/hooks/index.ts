@@ -67,6 +67,10 @@ export const useTasks = (options?: {
       return selector(store).loadTasks(params);
     }, [selector, store]),
 
+    loadMoreTasks: useCallback(() => {
+      return selector(store).loadMoreTasks();
+    }, [selector, store]),
+
     loadTaskById: useCallback((taskId: TaskId) => {
       return selector(store).loadTaskById(taskId);
     }, [selector, store]),
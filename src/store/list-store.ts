@@ -58,6 +58,16 @@ export const createListStore = (config?: {
     // Favorites and recent lists
     favorites: [],
     recent: [],
+
+    // Saved filters shown as virtual lists, with live task counts
+    savedFilters: [],
+
+    // Sidebar folders, with their list IDs and open task counts
+    collections: [],
+
+    // Lists other users shared with this user, and pending invitations
+    sharedLists: [],
+    invitations: [],
     
     // Filters and view
     filters: {
@@ -241,6 +251,185 @@ export const createListStore = (config?: {
       return state.lists.filter(list => state.favorites.includes(list.id));
     },
 
+    // =================== SAVED FILTERS (SMART LISTS) ===================
+    loadSavedFilters: async () => {
+      const response = await fetch('/api/filters');
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to load saved filters');
+      }
+
+      set((state) => {
+        state.savedFilters = body.data.filters;
+      });
+    },
+
+    deleteSavedFilter: async (filterId: string) => {
+      const response = await fetch(`/api/filters/${filterId}`, {
+        method: 'DELETE'
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to delete saved filter');
+      }
+
+      set((state) => {
+        state.savedFilters = state.savedFilters.filter(
+          (filter) => filter.id !== filterId
+        );
+      });
+    },
+
+    // =================== COLLECTIONS (SIDEBAR FOLDERS) ===================
+    loadCollections: async () => {
+      // Archived collections are loaded too so their lists stay hidden
+      const response = await fetch('/api/collections?includeArchived=true');
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to load collections');
+      }
+
+      set((state) => {
+        state.collections = body.data.collections;
+      });
+    },
+
+    createCollection: async (data) => {
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to create collection');
+      }
+
+      set((state) => {
+        state.collections.push(body.data.collection);
+      });
+      return body.data.collection;
+    },
+
+    updateCollection: async (collectionId, updates) => {
+      const response = await fetch(`/api/collections/${collectionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to update collection');
+      }
+
+      set((state) => {
+        state.collections = state.collections.map((collection) =>
+          collection.id === collectionId ? body.data.collection : collection
+        );
+      });
+    },
+
+    deleteCollection: async (collectionId: string) => {
+      const response = await fetch(`/api/collections/${collectionId}`, {
+        method: 'DELETE'
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to delete collection');
+      }
+
+      set((state) => {
+        state.collections = state.collections.filter(
+          (collection) => collection.id !== collectionId
+        );
+      });
+    },
+
+    moveListToCollection: async (
+      listId: ListId,
+      collectionId: string | null
+    ) => {
+      const from = get().collections.find((collection) =>
+        collection.listIds.includes(listId)
+      );
+      if (from?.id === collectionId || (!from && !collectionId)) {
+        return;
+      }
+
+      // Move the list right away; the server's counts arrive on reload
+      set((state) => {
+        for (const collection of state.collections) {
+          collection.listIds = collection.listIds.filter((id) => id !== listId);
+          if (collection.id === collectionId) {
+            collection.listIds.push(listId);
+          }
+        }
+      });
+
+      try {
+        const response = collectionId
+          ? await fetch(`/api/collections/${collectionId}/lists`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ listId })
+            })
+          : await fetch(
+              `/api/collections/${from!.id}/lists?listId=${listId}`,
+              { method: 'DELETE' }
+            );
+        const body = await response.json();
+        if (!response.ok || !body.success) {
+          throw body.error ?? new Error('Failed to move list');
+        }
+      } finally {
+        await get().loadCollections();
+      }
+    },
+
+    // =================== SHARED LISTS ===================
+    loadSharedLists: async () => {
+      const response = await fetch('/api/lists/shared');
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to load shared lists');
+      }
+
+      set((state) => {
+        state.sharedLists = body.data.lists;
+      });
+    },
+
+    loadInvitations: async () => {
+      const response = await fetch('/api/invitations');
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to load invitations');
+      }
+
+      set((state) => {
+        state.invitations = body.data.invitations;
+      });
+    },
+
+    respondToInvitation: async (invitationId: string, accept: boolean) => {
+      const response = await fetch(`/api/invitations/${invitationId}`, {
+        method: accept ? 'POST' : 'DELETE'
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw body.error ?? new Error('Failed to answer invitation');
+      }
+
+      set((state) => {
+        state.invitations = state.invitations.filter(
+          (invitation) => invitation.id !== invitationId
+        );
+        if (accept) {
+          state.sharedLists.push(body.data.list);
+        }
+      });
+    },
+
     // =================== RECENT LISTS MANAGEMENT ===================
     addToRecent: (listId: ListId) => {
       set((state) => {
@@ -259,7 +448,7 @@ export const createListStore = (config?: {
       const state = get();
       return state.recent
         .map(id => state.lists.find(l => l.id === id))
-        .filter(Boolean);
+        .filter((list): list is AppList => Boolean(list));
     },
 
     clearRecent: () => {
@@ -0,0 +1,72 @@
+/**
+ * Real-time sync - keeps the stores in step with changes made elsewhere
+ * (another tab, or a member of a shared list) through the server's event
+ * stream
+ */
+
+import { useTaskStore } from './task-store';
+import { useListStore } from './list-store';
+import { useNotificationStore } from './notification-store';
+
+/**
+ * Open the event stream and patch the stores as messages arrive. The
+ * browser reconnects on its own and resumes from the last event it saw.
+ * Returns a function that closes the stream.
+ */
+export const connectRealtime = (): (() => void) => {
+  if (typeof EventSource === 'undefined') {
+    return () => {};
+  }
+
+  const source = new EventSource('/api/real-time');
+
+  const on = (type: string, handle: (payload: any) => void) => {
+    source.addEventListener(type, (event) => {
+      try {
+        handle(JSON.parse((event as MessageEvent).data).payload);
+      } catch (error) {
+        console.error(`Failed to apply ${type} message:`, error);
+      }
+    });
+  };
+
+  const reload = () => {
+    useTaskStore.getState().refreshTasks().catch(console.error);
+    useListStore.getState().refreshLists().catch(console.error);
+    useListStore.getState().loadSharedLists().catch(console.error);
+  };
+
+  const applyTask = (payload: any) => {
+    useTaskStore.getState().applyRemoteTask(payload.task);
+  };
+
+  on('task_created', applyTask);
+  on('task_updated', applyTask);
+  on('task_status_changed', applyTask);
+  on('task_deleted', (payload) => {
+    useTaskStore.getState().removeTaskFromCache(payload.taskId);
+  });
+  on('list_updated', (payload) => {
+    // Trashing, restoring and reordering a list change its tasks too
+    if (payload.action !== 'created') {
+      useTaskStore.getState().refreshTasks().catch(console.error);
+    }
+    if (payload.action !== 'reordered') {
+      useListStore.getState().refreshLists().catch(console.error);
+      useListStore.getState().loadSharedLists().catch(console.error);
+    }
+  });
+  on('label_updated', () => {
+    // Tasks carry their labels' names and colours
+    useTaskStore.getState().refreshTasks().catch(console.error);
+  });
+  on('notification', (payload) => {
+    // The inbox keeps it; this only lets the user know it arrived
+    useNotificationStore.getState().showInfo(payload.title, payload.message);
+  });
+
+  // Messages were missed and cannot be replayed
+  source.addEventListener('resync', reload);
+
+  return () => source.close();
+};
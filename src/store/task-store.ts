@@ -30,6 +30,84 @@ import type {
   ApiError,
 } from "../../types/utils";
 
+// Tasks fetched per page of GET /api/tasks
+const TASK_PAGE_SIZE = 50;
+
+// Tasks shown for a saved filter; the API caps a page at 100
+const SAVED_FILTER_TASK_LIMIT = 100;
+
+// API sort fields for the store's sort options; others use the default
+const API_SORT_FIELDS: Partial<
+  Record<NonNullable<TaskQueryParams["sortBy"]>, string>
+> = {
+  name: "name",
+  dueDate: "dueDate",
+  priority: "priority",
+  created: "createdAt",
+  updated: "updatedAt",
+};
+
+/**
+ * Convert a task row returned by the API into an AppTask
+ */
+const toAppTask = (row: any): AppTask => {
+  const toDate = (value?: string | null) =>
+    value ? new Date(value) : undefined;
+  const deadline = toDate(row.deadline);
+
+  return {
+    ...row,
+    listId: row.list_id,
+    userId: row.user_id,
+    parentTaskId: row.parent_task_id ?? undefined,
+    actualTime: row.actual_time ?? undefined,
+    isRecurring: Boolean(row.is_recurring),
+    date: toDate(row.date),
+    deadline,
+    dueDate: deadline,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+};
+
+/**
+ * Fetch one page of tasks; the API pages by cursor
+ */
+const fetchTaskPage = async (params: TaskQueryParams) => {
+  const query = new URLSearchParams({
+    limit: String(params.pageSize ?? TASK_PAGE_SIZE),
+  });
+  if (params.cursor) query.set("cursor", params.cursor);
+  if (params.listId) query.set("listId", params.listId);
+  if (params.search) query.set("search", params.search);
+  // The API filters on a single status and priority
+  if (params.status?.length === 1) query.set("status", params.status[0]);
+  if (params.priority?.length === 1) query.set("priority", params.priority[0]);
+  if (params.sortBy && API_SORT_FIELDS[params.sortBy]) {
+    query.set("sortBy", API_SORT_FIELDS[params.sortBy]!);
+    query.set("sortOrder", params.sortDirection ?? "asc");
+  }
+
+  const response = await fetch(`/api/tasks?${query}`);
+  const body = await response.json();
+  if (!response.ok || !body.success) {
+    throw body.error ?? new Error("Failed to load tasks");
+  }
+
+  return body.data as {
+    data: any[];
+    pagination: {
+      pageSize: number;
+      total: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPreviousPage: boolean;
+      nextCursor: string | null;
+      prevCursor: string | null;
+    };
+  };
+};
+
 /**
  * Create a simple task store
  */
@@ -58,6 +136,19 @@ export const createTaskStore = (config?: { userId?: string }) => {
     isInitialized: false,
     cache: {},
 
+    // Pagination; further pages are loaded on demand by loadMoreTasks
+    pagination: {
+      currentPage: 0,
+      pageSize: TASK_PAGE_SIZE,
+      totalPages: 0,
+      totalItems: 0,
+      hasNextPage: false,
+      hasPreviousPage: false,
+      nextCursor: null,
+      prevCursor: null,
+    },
+    lastQuery: null,
+
     // Batch operations
     batchOperations: {},
 
@@ -99,11 +190,35 @@ export const createTaskStore = (config?: { userId?: string }) => {
           });
 
           try {
-            // TODO: Implement actual database calls
-            // For now, just set empty state
+            const { cursor, ...query } = params ?? {};
+            const page = await fetchTaskPage({ ...query, cursor });
+            const tasks = page.data.map(toAppTask);
+
             set((state) => {
-              state.tasks = [];
-              state.cache = {};
+              // A cursor continues the listing; otherwise it starts over
+              if (cursor) {
+                const loaded = new Set(state.tasks.map((t) => t.id));
+                state.tasks.push(...tasks.filter((t) => !loaded.has(t.id)));
+                state.pagination.currentPage += 1;
+              } else {
+                state.tasks = tasks;
+                state.cache = {};
+                state.pagination.currentPage = 1;
+                state.lastQuery = query;
+              }
+              tasks.forEach((task) => {
+                state.cache[task.id] = task;
+              });
+
+              state.pagination.pageSize = page.pagination.pageSize;
+              state.pagination.totalItems = page.pagination.total;
+              state.pagination.totalPages = page.pagination.totalPages;
+              state.pagination.hasNextPage = page.pagination.hasNextPage;
+              state.pagination.hasPreviousPage =
+                state.pagination.currentPage > 1;
+              state.pagination.nextCursor = page.pagination.nextCursor;
+              state.pagination.prevCursor = page.pagination.prevCursor;
+
               state.lastFetched = new Date();
               state.isInitialized = true;
               state.loading.tasks = false;
@@ -117,6 +232,19 @@ export const createTaskStore = (config?: { userId?: string }) => {
           }
         },
 
+        loadMoreTasks: async () => {
+          // Pages loaded twice are merged by task id
+          const { pagination, lastQuery } = get();
+          if (!pagination.nextCursor) {
+            return;
+          }
+
+          await get().loadTasks({
+            ...lastQuery,
+            cursor: pagination.nextCursor,
+          });
+        },
+
         loadTaskById: async (taskId: TaskId): Promise<AppTask | null> => {
           const cached = get().cache[taskId];
           if (cached) {
@@ -126,7 +254,27 @@ export const createTaskStore = (config?: { userId?: string }) => {
         },
 
         refreshTasks: async () => {
-          await get().loadTasks();
+          await get().loadTasks(get().lastQuery ?? undefined);
+        },
+
+        loadSavedFilterTasks: async (filterId: string): Promise<AppTask[]> => {
+          // Evaluated by the API, so relative dates are always current;
+          // the loaded listing is left as it is
+          const response = await fetch(
+            `/api/filters/${filterId}/tasks?limit=${SAVED_FILTER_TASK_LIMIT}`
+          );
+          const body = await response.json();
+          if (!response.ok || !body.success) {
+            throw body.error ?? new Error("Failed to load saved filter tasks");
+          }
+
+          const tasks = (body.data.data as any[]).map(toAppTask);
+          set((state) => {
+            tasks.forEach((task) => {
+              state.cache[task.id] = task;
+            });
+          });
+          return tasks;
         },
 
         // =================== CRUD OPERATIONS ===================
@@ -405,6 +553,22 @@ export const createTaskStore = (config?: { userId?: string }) => {
           });
         },
 
+        applyRemoteTask: (row: any) => {
+          const task = toAppTask(row);
+          set((state) => {
+            state.cache[task.id] = task;
+            const index = state.tasks.findIndex((t) => t.id === task.id);
+            if (index !== -1) {
+              state.tasks[index] = task;
+            } else if (
+              !state.lastQuery?.listId ||
+              state.lastQuery.listId === task.listId
+            ) {
+              state.tasks.unshift(task);
+            }
+          });
+        },
+
         removeTaskFromCache: (taskId: TaskId) => {
           set((state) => {
             delete state.cache[taskId];
@@ -3,8 +3,10 @@
  * This file is run before each test file
  */
 
-import { expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { expect, beforeAll, afterAll, beforeEach, afterEach, mock } from 'bun:test';
 import { TextEncoder, TextDecoder } from 'util';
+import fs from 'fs';
+import BunSqliteDatabase from './sqlite-shim';
 
 // Import DOM environment setup for component testing
 import './dom-setup';
@@ -44,6 +46,9 @@ const mockDispatcher = {
   },
 };
 
+// better-sqlite3 is a Node addon Bun cannot load; database tests run on bun:sqlite
+mock.module('better-sqlite3', () => ({ default: BunSqliteDatabase }));
+
 // Set up global text encoder/decoder for Node.js environment
 global.TextEncoder = TextEncoder;
 global.TextDecoder = TextDecoder;
@@ -124,6 +129,13 @@ process.env.BUN_ENV = 'test';
 // Test database setup
 export const TEST_DATABASE_PATH = './test-data/test.db';
 
+// Route handlers use the shared database; tests give it a file of its own,
+// starting empty, instead of the app's
+process.env.DATABASE_PATH = TEST_DATABASE_PATH;
+for (const suffix of ['', '-wal', '-shm']) {
+  fs.rmSync(TEST_DATABASE_PATH + suffix, { force: true });
+}
+
 // Test data fixtures
 export const TEST_DATA = {
   users: [
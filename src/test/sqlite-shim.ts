@@ -0,0 +1,70 @@
+/**
+ * better-sqlite3 Shim for Bun Test
+ * better-sqlite3 is a Node addon that Bun cannot load, so the test setup
+ * swaps it for this wrapper around bun:sqlite. Only the part of the API
+ * the database layer uses is covered.
+ */
+
+import { Database as BunDatabase, type Statement as BunStatement } from 'bun:sqlite';
+
+class Statement {
+  constructor(
+    private readonly db: BunDatabase,
+    private readonly statement: BunStatement
+  ) {}
+
+  all(...params: any[]): any[] {
+    return this.statement.all(...params);
+  }
+
+  // better-sqlite3 returns undefined, not null, when there is no row
+  get(...params: any[]): any {
+    return this.statement.get(...params) ?? undefined;
+  }
+
+  // bun:sqlite counts rows changed by triggers too; better-sqlite3 only
+  // those the statement changed itself
+  run(...params: any[]): { changes: number; lastInsertRowid: number | bigint } {
+    const { lastInsertRowid } = this.statement.run(...params);
+    const { changes } = this.db.query('SELECT changes() AS changes').get() as {
+      changes: number;
+    };
+    return { changes, lastInsertRowid };
+  }
+}
+
+export default class Database {
+  private readonly db: BunDatabase;
+
+  constructor(path: string) {
+    // Strict mode binds named parameters without their prefix, as better-sqlite3 does
+    this.db = new BunDatabase(path, { create: true, strict: true });
+  }
+
+  exec(sql: string): this {
+    this.db.exec(sql);
+    return this;
+  }
+
+  // Cached statements are finalized on close, which lets SQLite remove the
+  // WAL files; the database layer prepares every statement it runs
+  prepare(sql: string): Statement {
+    return new Statement(this.db, this.db.query(sql));
+  }
+
+  transaction<T extends (...args: any[]) => any>(fn: T): T {
+    return this.db.transaction(fn) as unknown as T;
+  }
+
+  pragma(source: string): any[] {
+    return this.db.query(`PRAGMA ${source}`).all();
+  }
+
+  async backup(destination: string): Promise<void> {
+    this.db.query('VACUUM INTO ?').run(destination);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
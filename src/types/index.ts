@@ -43,7 +43,9 @@ export type {
   DatabaseConfig,
   DatabaseOperation,
   Transaction,
-  QueryBuilder
+  QueryBuilder,
+  FilterExpression,
+  FilterValue
 } from '../lib/db/types';
 
 // =============================================================================
@@ -172,6 +174,7 @@ export type {
   TaskCardProps,
   TaskItemProps,
   TaskDetailsProps,
+  AppTaskComment,
   TaskFormProps,
   TaskChecklistProps,
   TaskAttachmentsProps,
@@ -245,6 +248,7 @@ export type {
   ListCollection,
   ListWidget,
   ListTemplate,
+  ListTemplateTask,
   ListAnalytics,
   ListComparison
 } from './lists';
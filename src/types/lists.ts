@@ -630,8 +630,9 @@ export interface ListCollection {
   color: string;
   icon: string;
   listIds: ListId[];
-  isDefault: boolean;
-  sortOrder: number;
+  position: number;
+  taskCount: number;
+  archivedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -661,17 +662,34 @@ export interface ListWidget {
  */
 export interface ListTemplate {
   id: string;
+  userId: UserId;
   name: string;
   description?: string;
   color: string;
   emoji: string;
-  settings: ListSettings;
-  defaultTasks: Array<Omit<Task, 'id' | 'userId' | 'listId' | 'createdAt' | 'updatedAt'>>;
-  labels?: string[];
-  isPublic: boolean;
-  createdAt: Date;
+  settings: Partial<ListSettings>;
+  defaultTasks: ListTemplateTask[];
+  labels: string[];
   usageCount: number;
-  rating: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Task of a list template, with dates as minutes from the start of the
+ * template's anchor day
+ */
+export interface ListTemplateTask {
+  name: string;
+  description?: string;
+  priority: Task['priority'];
+  estimate?: string;
+  position: number;
+  dateOffset?: number;
+  deadlineOffset?: number;
+  parentIndex?: number;
+  labels: string[];
+  subtasks: Array<{ name: string; position: number }>;
 }
 
 // =============================================================================
@@ -15,6 +15,11 @@ import type {
   Attachment,
   Priority,
   TaskStatus,
+  SavedFilterWithCount,
+  ListCollection,
+  ListCollectionWithLists,
+  SharedList,
+  ListInvitation,
 } from "../lib/db/types";
 import type {
   TaskId,
@@ -296,6 +301,7 @@ export interface TaskStoreState extends TaskState {
   lastFetched: Date | null;
   isInitialized: boolean;
   cache: Record<TaskId, AppTask>;
+  lastQuery: TaskQueryParams | null; // Query of the first page loaded
   batchOperations: {
     [operationId: string]: {
       type: "create" | "update" | "delete" | "bulk";
@@ -321,6 +327,8 @@ export interface TaskStoreState extends TaskState {
     showCompleted: boolean;
     compactMode: boolean;
   };
+  actionHistory: unknown[]; // Undo/redo history, newest last
+  historyIndex: number; // -1 when there is nothing to undo
 }
 
 /**
@@ -329,8 +337,10 @@ export interface TaskStoreState extends TaskState {
 export interface TaskStoreActions {
   // Data loading
   loadTasks: (params?: TaskQueryParams) => Promise<void>;
+  loadMoreTasks: () => Promise<void>;
   loadTaskById: (taskId: TaskId) => Promise<AppTask | null>;
   refreshTasks: () => Promise<void>;
+  loadSavedFilterTasks: (filterId: string) => Promise<AppTask[]>;
 
   // CRUD operations
   createTask: (data: CreateTaskData) => Promise<AppTask>;
@@ -383,6 +393,7 @@ export interface TaskStoreActions {
   // State management
   setCurrentTask: (task: AppTask | null) => void;
   updateTaskInCache: (task: AppTask) => void;
+  applyRemoteTask: (row: unknown) => void; // Changed in another session
   removeTaskFromCache: (taskId: TaskId) => void;
   clearCache: () => void;
 
@@ -479,6 +490,21 @@ export interface ListStoreState extends ListState {
   favoriteLists: ListId[];
   recentLists: Array<{ listId: ListId; accessedAt: Date }>;
   currentView: ListGlobalView;
+  favorites: ListId[];
+  recent: ListId[]; // Most recently opened first
+  batchOperations: {
+    [operationId: string]: {
+      type: "create" | "update" | "delete" | "bulk";
+      data: any;
+      status: "pending" | "processing" | "completed" | "failed";
+      progress: number;
+      result?: ListBatchResult;
+    };
+  };
+  savedFilters: SavedFilterWithCount[];
+  collections: ListCollectionWithLists[];
+  sharedLists: SharedList[];
+  invitations: ListInvitation[];
 }
 
 /**
@@ -517,6 +543,36 @@ export interface ListStoreActions {
   addToRecent: (listId: ListId) => void;
   clearRecent: () => void;
 
+  // Saved filters (smart lists)
+  loadSavedFilters: () => Promise<void>;
+  deleteSavedFilter: (filterId: string) => Promise<void>;
+
+  // Collections (sidebar folders)
+  loadCollections: () => Promise<void>;
+  createCollection: (
+    data: Pick<ListCollection, "name"> &
+      Partial<Pick<ListCollection, "description" | "color" | "icon">>
+  ) => Promise<ListCollectionWithLists>;
+  updateCollection: (
+    collectionId: string,
+    updates: Partial<
+      Pick<
+        ListCollection,
+        "name" | "description" | "color" | "icon" | "position"
+      >
+    > & { archived?: boolean }
+  ) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  moveListToCollection: (
+    listId: ListId,
+    collectionId: string | null
+  ) => Promise<void>;
+
+  // Lists shared with the user, and invitations to share more
+  loadSharedLists: () => Promise<void>;
+  loadInvitations: () => Promise<void>;
+  respondToInvitation: (invitationId: string, accept: boolean) => Promise<void>;
+
   // Search and filtering
   setSearchQuery: (query: string) => void;
   setGlobalView: (view: ListGlobalView) => void;
@@ -541,10 +597,7 @@ export interface ListStoreSelectors {
 
   // Filtered selectors
   getFavoriteLists: StoreSelector<ListStoreState, AppList[]>;
-  getRecentLists: StoreSelector<
-    ListStoreState,
-    Array<{ list: AppList; accessedAt: Date }>
-  >;
+  getRecentLists: StoreSelector<ListStoreState, AppList[]>;
   getSharedLists: StoreSelector<ListStoreState, AppList[]>;
   getArchivedLists: StoreSelector<ListStoreState, AppList[]>;
   getSearchResults: StoreSelector<ListStoreState, AppList[]>;
@@ -15,7 +15,8 @@ import type {
   Priority,
   TaskStatus,
   TaskWithDetails,
-  RecurringPattern
+  RecurringPattern,
+  FilterExpression
 } from '../lib/db/types';
 import type {
   TaskId,
@@ -69,6 +70,10 @@ export interface AppTask extends Omit<Task, 'id' | 'userId' | 'listId'> {
   isOverdue: boolean;
   isDueToday: boolean;
   isDueThisWeek: boolean;
+  isBlocked?: boolean; // Has unfinished tasks it depends on
+  blockedBy?: TaskId[];
+  runningTimer?: { id: string; startedAt: Date }; // The user's running timer, if it is on this task
+  trackedSeconds?: number; // Time logged in the task's time entries
   timeRemaining?: string;
   completionPercentage: number;
   estimatedDuration?: string;
@@ -196,6 +201,7 @@ export interface TaskFilters extends Record<string, any> {
   hasAttachments?: boolean;
   tags?: string[];
   customFieldFilters?: Record<string, any>;
+  where?: FilterExpression; // Conditions the fields above can't express
 }
 
 /**
@@ -234,6 +240,8 @@ export interface TaskPagination {
   totalItems: number;
   hasNextPage: boolean;
   hasPreviousPage: boolean;
+  nextCursor?: string | null; // Opaque cursors of the API's keyset pagination
+  prevCursor?: string | null;
 }
 
 // =============================================================================
@@ -290,6 +298,26 @@ export interface TaskDetailsProps {
   onAddReminder?: (taskId: TaskId, remindAt: Date) => void;
   onUploadAttachment?: (taskId: TaskId, file: File) => void;
   onUpdateLabels?: (taskId: TaskId, labelIds: LabelId[]) => void;
+  // Comments timeline, oldest first
+  comments?: AppTaskComment[];
+  currentUserId?: UserId; // Authors can edit and delete their own comments
+  onAddComment?: (taskId: TaskId, body: string) => Promise<void> | void;
+  onEditComment?: (commentId: string, body: string) => Promise<void> | void;
+  onDeleteComment?: (commentId: string) => Promise<void> | void;
+}
+
+/**
+ * Comment on a task, as shown in the task details timeline
+ */
+export interface AppTaskComment {
+  id: string;
+  taskId: TaskId;
+  authorId: UserId;
+  authorName?: string;
+  authorAvatar?: string;
+  body: string;
+  createdAt: Date;
+  editedAt?: Date;
 }
 
 /**
@@ -378,6 +406,7 @@ export type UpdateTaskData = Partial<CreateTaskData> & {
   id: TaskId;
   status?: TaskStatus;
   actualTime?: string;
+  trackedSeconds?: number;
   position?: number;
   isCompleted?: boolean;
   completedAt?: Date;
@@ -558,6 +587,7 @@ export interface TaskQueryParams {
   search?: string;
   page?: number;
   pageSize?: number;
+  cursor?: string; // Continue after a page returned by the API
   sortBy?: SortField;
   sortDirection?: 'asc' | 'desc';
 }
@@ -567,22 +597,30 @@ export interface TaskQueryParams {
 // =============================================================================
 
 /**
- * Task template for quick creation
+ * Task template for quick creation. Task text and dates may contain
+ * placeholders like {{date+3d}} or {{input:client}}.
  */
 export interface TaskTemplate {
   id: string;
   name: string;
   description?: string;
-  listId: ListId;
+  listId?: ListId;
+  taskName: string;
+  taskDescription?: string;
   priority: Priority;
+  estimate?: string;
+  date?: string;
+  deadline?: string;
   labels: LabelId[];
   subtasks: Omit<CreateSubtaskData, 'taskId'>[];
-  reminderTemplate?: {
-    timing: number; // minutes before
+  reminders: Array<{
+    timing: number; // minutes before the deadline, or the date
     method: 'push' | 'email' | 'sms';
-  };
+  }>;
   customFields: Record<string, any>;
+  inputs: string[];
   createdAt: Date;
+  updatedAt: Date;
   usageCount: number;
 }
 
@@ -16,6 +16,7 @@ import type {
   TaskWithDetails,
   ListWithTaskCount,
   RecurringPattern,
+  FilterExpression,
 } from "../lib/db/types";
 
 // =============================================================================
@@ -183,6 +184,7 @@ export interface AdvancedFilter<T = any> extends BaseFilter {
   includeIds?: string[];
   tags?: string[];
   customFields?: Record<string, any>;
+  where?: FilterExpression; // ANDed with the criteria above
 }
 
 // =============================================================================